@@ -7,12 +7,99 @@
 
 class DeflectionController extends Controller
 {
+    /**
+     * Parámetros editables de la nave de cada estrategia: [mínimo, máximo, valor de referencia]
+     * Los mismos límites que valida el cliente (resources/js/lib/spacecraftConfig.ts)
+     */
+    private const SPACECRAFT_LIMITS = [
+        'kinetic' => [
+            'impactor_mass_kg' => [10, 20000, 570],
+            'impact_velocity_ms' => [1000, 30000, 6600],
+            'beta' => [1, 6, 3.5],
+        ],
+        'gravity-tractor' => [
+            'spacecraft_mass_kg' => [500, 100000, 20000],
+            'hover_distance_m' => [10, 100000, 100],
+        ],
+        'nuclear' => [
+            'yield_mt' => [0.001, 100, 1.0],
+            'standoff_diameters' => [0.5, 10, 3],
+            'transfer_efficiency_percent' => [0.01, 10, 1],
+        ],
+        'laser' => [
+            'laser_power_MW' => [0.1, 1000, 10],
+            'ablation_efficiency_percent' => [0.1, 50, 5],
+            'ejection_velocity_ms' => [100, 5000, 1000],
+            'max_operation_years' => [0.1, 20, 3],
+        ],
+    ];
+
+    /**
+     * Meses de crucero desde el lanzamiento hasta llegar al asteroide
+     */
+    private const CRUISE_MONTHS = [
+        'kinetic' => 10, // DART: lanzada en noviembre de 2021, impacto en septiembre de 2022
+        'gravity-tractor' => 24, // debe igualar la órbita del asteroide
+        'nuclear' => 10,
+        'laser' => 12,
+    ];
+    
+    /**
+     * Número máximo de misiones de una campaña
+     */
+    private const MAX_CAMPAIGN_MISSIONS = 6;
+
+    /**
+     * Reglas de validación de la nave enviada por el cliente (todos los campos son opcionales)
+     */
+    private function spacecraftRules()
+    {
+        $rules = ['spacecraft' => 'nullable|array'];
+        
+        foreach (self::SPACECRAFT_LIMITS as $strategy => $params) {
+            foreach ($params as $name => [$min, $max]) {
+                $rules["spacecraft.$strategy.$name"] = "sometimes|numeric|between:$min,$max";
+            }
+        }
+        
+        return $rules;
+    }
+    
+    /**
+     * Parámetros de la nave de una estrategia: los enviados o los de la misión de referencia
+     */
+    private function spacecraftParams($spacecraft, $strategy, $asteroidDiameter)
+    {
+        $params = [];
+        
+        foreach (self::SPACECRAFT_LIMITS[$strategy] ?? [] as $name => [, , $default]) {
+            $params[$name] = isset($spacecraft[$strategy][$name]) ? (float) $spacecraft[$strategy][$name] : $default;
+        }
+        
+        // El tractor no puede volar dentro del asteroide: como mínimo medio radio sobre la superficie
+        if ($strategy === 'gravity-tractor') {
+            $params['hover_distance_m'] = max($params['hover_distance_m'], ceil($asteroidDiameter * 0.75));
+        }
+        
+        return $params;
+    }
+    
+    /**
+     * Escala el coste de la misión de referencia con el tamaño del diseño (ley de potencias típica coste-masa)
+     */
+    private function scaleCost($referenceCost, $value, $reference, $exponent)
+    {
+        return round($referenceCost * pow($value / $reference, $exponent), 2);
+    }
+    
     /**
      * Simula estrategias de deflección de asteroides
      * Basado en física real y misiones como NASA DART
      */
     public function simulateDeflection(Request $request)
     {
+        $request->validate($this->spacecraftRules());
+        
         try {
             $impactData = $request->input('impactData');
             $strategy = $request->input('strategy');
@@ -23,8 +110,9 @@ public function simulateDeflection(Request $request)
             $asteroidVelocity = $impactData['calculations']['velocity_ms'] ?? 20000;
             $asteroidDiameter = $impactData['calculations']['diameter_m'] ?? 50;
             
-            // Calcular según estrategia
-            $result = $this->calculateDeflection($strategy, $leadTime, $asteroidMass, $asteroidVelocity, $asteroidDiameter);
+            // Calcular según estrategia con la nave elegida por el usuario
+            $params = $this->spacecraftParams($request->input('spacecraft', []), $strategy, $asteroidDiameter);
+            $result = $this->calculateDeflection($strategy, $leadTime, $asteroidMass, $asteroidVelocity, $asteroidDiameter, $params);
             
             return response()->json([
                 'success' => true,
@@ -44,20 +132,19 @@ public function simulateDeflection(Request $request)
     /**
      * Calcula los efectos de cada estrategia de deflección
      */
-    private function calculateDeflection($strategy, $leadTime, $asteroidMass, $asteroidVelocity, $asteroidDiameter)
+    private function calculateDeflection($strategy, $leadTime, $asteroidMass, $asteroidVelocity, $asteroidDiameter, $params)
     {
         $results = [];
         
         switch($strategy) {
             case 'kinetic':
-                // Basado en misión NASA DART (2022)
-                // Impactador de 570 kg a 6.6 km/s
-                $impactorMass = 570; // kg
-                $impactorVelocity = 6600; // m/s
+                // Referencia: misión NASA DART (2022), impactador de 570 kg a 6.6 km/s
+                $impactorMass = $params['impactor_mass_kg']; // kg
+                $impactorVelocity = $params['impact_velocity_ms']; // m/s
                 
                 // Momentum transfer: Δv = (m_impactor × v_impactor × β) / m_asteroid
                 // β = momentum enhancement factor (típicamente 2-5 por eyección de material)
-                $beta = 3.5; // factor de mejora por eyección
+                $beta = $params['beta']; // factor de mejora por eyección
                 
                 $deltaV = ($impactorMass * $impactorVelocity * $beta) / $asteroidMass;
                 
@@ -67,7 +154,8 @@ private function calculateDeflection($strategy, $leadTime, $asteroidMass, $aster
                     'impactor_mass_kg' => $impactorMass,
                     'impact_velocity_kms' => $impactorVelocity / 1000,
                     'momentum_enhancement' => $beta,
-                    'cost_billion_usd' => 0.33, // Costo real de DART
+                    // Costo real de DART; una llegada más rápida exige un lanzador más potente
+                    'cost_billion_usd' => $this->scaleCost(0.33 * sqrt($impactorVelocity / 6600), $impactorMass, 570, 0.7),
                     'success_probability' => 0.85,
                     'lead_time_years' => $leadTime,
                     'launch_time_months' => 10, // tiempo típico de lanzamiento
@@ -80,8 +168,8 @@ private function calculateDeflection($strategy, $leadTime, $asteroidMass, $aster
                 
             case 'gravity-tractor':
                 // Tractor gravitacional: nave cerca del asteroide usando gravedad
-                $spacecraftMass = 20000; // kg (nave grande)
-                $distance = 100; // metros de separación
+                $spacecraftMass = $params['spacecraft_mass_kg']; // kg (referencia: nave de 20 t)
+                $distance = $params['hover_distance_m']; // metros desde el centro del asteroide
                 $G = 6.674e-11; // constante gravitacional
                 
                 // Fuerza gravitacional: F = G × m1 × m2 / r²
@@ -102,7 +190,7 @@ private function calculateDeflection($strategy, $leadTime, $asteroidMass, $aster
                     'spacecraft_mass_kg' => $spacecraftMass,
                     'hover_distance_m' => $distance,
                     'gravitational_force_N' => $force,
-                    'cost_billion_usd' => 5.0,
+                    'cost_billion_usd' => $this->scaleCost(5.0, $spacecraftMass, 20000, 0.7),
                     'success_probability' => 0.95,
                     'lead_time_years' => $leadTime,
                     'operation_duration_years' => $leadTime - 1,
@@ -116,12 +204,13 @@ private function calculateDeflection($strategy, $leadTime, $asteroidMass, $aster
             case 'nuclear':
                 // Explosión nuclear cercana (standoff)
                 // Basado en estudios de Lawrence Livermore National Lab
-                $yieldMegatons = 1.0; // 1 megaton TNT
+                $yieldMegatons = $params['yield_mt']; // megatones TNT (referencia: 1 MT)
                 $yieldJoules = $yieldMegatons * 4.184e15;
-                $standoffDistance = $asteroidDiameter * 3; // 3 diámetros de distancia
+                $standoffDistance = $asteroidDiameter * $params['standoff_diameters']; // referencia: 3 diámetros
                 
-                // Energía transferida (aprox 1% de la explosión al asteroide)
-                $transferEfficiency = 0.01;
+                // Energía transferida (aprox 1% de la explosión a 3 diámetros)
+                // La fracción que recibe el asteroide cae con el cuadrado de la distancia
+                $transferEfficiency = min(($params['transfer_efficiency_percent'] / 100) * pow(3 / $params['standoff_diameters'], 2), 1);
                 $energyTransferred = $yieldJoules * $transferEfficiency;
                 
                 // Δv estimado basado en ablación y momentum
@@ -134,8 +223,9 @@ private function calculateDeflection($strategy, $leadTime, $asteroidMass, $aster
                     'warhead_yield_MT' => $yieldMegatons,
                     'standoff_distance_m' => $standoffDistance,
                     'energy_joules' => $yieldJoules,
-                    'transfer_efficiency' => $transferEfficiency * 100, // porcentaje
-                    'cost_billion_usd' => 10.0,
+                    'standoff_diameters' => $params['standoff_diameters'],
+                    'transfer_efficiency' => round($transferEfficiency * 100, 4), // porcentaje
+                    'cost_billion_usd' => $this->scaleCost(10.0, $yieldMegatons, 1.0, 0.3),
                     'success_probability' => 0.70,
                     'lead_time_years' => $leadTime,
                     'warning_time_months' => 6,
@@ -148,20 +238,21 @@ private function calculateDeflection($strategy, $leadTime, $asteroidMass, $aster
                 
             case 'laser':
                 // Ablación láser: evaporar material para crear thrust
-                $laserPowerMW = 10; // 10 MW láser
+                $laserPowerMW = $params['laser_power_MW']; // referencia: láser de 10 MW
                 $laserPowerWatts = $laserPowerMW * 1e6;
-                $operationYears = min($leadTime - 0.5, 3); // máximo 3 años de operación
+                $operationYears = max(min($leadTime - 0.5, $params['max_operation_years']), 0); // referencia: máximo 3 años
                 $operationSeconds = $operationYears * 365.25 * 24 * 3600;
                 
                 // Eficiencia de ablación (típicamente 0.01-0.1)
-                $ablationEfficiency = 0.05;
+                $ablationEfficiency = $params['ablation_efficiency_percent'] / 100;
                 
                 // Masa evaporada por segundo (aproximado)
                 $massLossRate = ($laserPowerWatts * $ablationEfficiency) / (3e6); // J/kg para vaporización
-                $totalMassLost = $massLossRate * $operationSeconds;
+                // Con láseres muy potentes no se puede evaporar más de la mitad del asteroide
+                $totalMassLost = min($massLossRate * $operationSeconds, $asteroidMass / 2);
                 
                 // Velocidad de eyección del material ~1000 m/s
-                $ejectionVelocity = 1000;
+                $ejectionVelocity = $params['ejection_velocity_ms'];
                 
                 // Rocket equation simplificado: Δv ≈ v_exhaust × ln(m_initial / m_final)
                 $deltaV = $ejectionVelocity * log($asteroidMass / ($asteroidMass - $totalMassLost));
@@ -173,7 +264,8 @@ private function calculateDeflection($strategy, $leadTime, $asteroidMass, $aster
                     'operation_years' => $operationYears,
                     'mass_ablated_kg' => round($totalMassLost, 2),
                     'ejection_velocity_ms' => $ejectionVelocity,
-                    'cost_billion_usd' => 8.0,
+                    'ablation_efficiency' => $ablationEfficiency * 100, // porcentaje
+                    'cost_billion_usd' => $this->scaleCost(8.0, $laserPowerMW, 10, 0.8),
                     'success_probability' => 0.75,
                     'lead_time_years' => $leadTime,
                     'description' => 'Powerful laser vaporizes asteroid surface, creating rocket-like thrust',
@@ -278,6 +370,8 @@ private function getSafetyLevel($missDistance, $earthRadius)
      */
     public function compareStrategies(Request $request)
     {
+        $request->validate($this->spacecraftRules());
+        
         try {
             $impactData = $request->input('impactData');
             $leadTime = $request->input('leadTime', 5);
@@ -288,9 +382,11 @@ public function compareStrategies(Request $request)
             $asteroidMass = $impactData['calculations']['mass_kg'] ?? 1e9;
             $asteroidVelocity = $impactData['calculations']['velocity_ms'] ?? 20000;
             $asteroidDiameter = $impactData['calculations']['diameter_m'] ?? 50;
+            $spacecraft = $request->input('spacecraft', []);
             
             foreach ($strategies as $strategy) {
-                $result = $this->calculateDeflection($strategy, $leadTime, $asteroidMass, $asteroidVelocity, $asteroidDiameter);
+                $params = $this->spacecraftParams($spacecraft, $strategy, $asteroidDiameter);
+                $result = $this->calculateDeflection($strategy, $leadTime, $asteroidMass, $asteroidVelocity, $asteroidDiameter, $params);
                 $comparisons[$strategy] = $result;
             }
             
@@ -313,6 +409,143 @@ public function compareStrategies(Request $request)
         }
     }
     
+    /**
+     * Planifica una campaña de varias misiones encadenadas (p. ej. impactador cinético y tractor para el ajuste fino)
+     * Cada misión aplica su Δv al llegar al asteroide; los Δv se acumulan y la campaña salva la Tierra
+     * si la suma de las misiones que funcionan basta para desviarlo
+     */
+    public function planCampaign(Request $request)
+    {
+        $request->validate($this->spacecraftRules() + [
+            'missions' => 'required|array|min:1|max:' . self::MAX_CAMPAIGN_MISSIONS,
+            'missions.*.strategy' => 'required|in:' . implode(',', array_keys(self::CRUISE_MONTHS)),
+            'missions.*.launch_years' => 'required|numeric|min:0',
+        ]);
+        
+        try {
+            $impactData = $request->input('impactData');
+            $leadTime = $request->input('leadTime', 5);
+            $spacecraft = $request->input('spacecraft', []);
+            
+            $asteroidMass = $impactData['calculations']['mass_kg'] ?? 1e9;
+            $asteroidVelocity = $impactData['calculations']['velocity_ms'] ?? 20000;
+            $asteroidDiameter = $impactData['calculations']['diameter_m'] ?? 50;
+            $earthRadius = 6371; // km
+            
+            $missions = [];
+            foreach ($request->input('missions') as $index => $mission) {
+                $strategy = $mission['strategy'];
+                $params = $this->spacecraftParams($spacecraft, $strategy, $asteroidDiameter);
+                $cruiseYears = self::CRUISE_MONTHS[$strategy] / 12;
+                
+                // Ventana de lanzamiento: tras preparar la misión y con tiempo para llegar antes del impacto
+                $reference = $this->calculateDeflection($strategy, $leadTime, $asteroidMass, $asteroidVelocity, $asteroidDiameter, $params);
+                $earliestLaunch = $reference['preparation_time_months'] / 12;
+                $latestLaunch = $leadTime - $cruiseYears;
+                $launch = max((float) $mission['launch_years'], $earliestLaunch);
+                $arrival = $launch + $cruiseYears;
+                
+                // El Δv se calcula con el tiempo que queda entre la llegada y el impacto
+                $reachable = $arrival < $leadTime;
+                $result = $reachable
+                    ? $this->calculateDeflection($strategy, $leadTime - $arrival, $asteroidMass, $asteroidVelocity, $asteroidDiameter, $params)
+                    : $reference;
+                
+                $missions[] = [
+                    'index' => $index,
+                    'strategy' => $strategy,
+                    'launch_years' => round($launch, 2),
+                    'arrival_years' => round($arrival, 2),
+                    // El tractor opera hasta el impacto y el láser el tiempo calculado; el resto actúa al llegar
+                    'operation_end_years' => round($arrival + ($reachable ? ($result['operation_years'] ?? ($strategy === 'gravity-tractor' ? $leadTime - $arrival : 0)) : 0), 2),
+                    'launch_window' => [
+                        'earliest_years' => round($earliestLaunch, 2),
+                        'latest_years' => round(max($latestLaunch, 0), 2),
+                        'open' => $earliestLaunch <= $latestLaunch,
+                    ],
+                    'reachable' => $reachable,
+                    'deltaV_ms' => $reachable ? $result['deltaV_ms'] : 0,
+                    'deltaV_cms' => $reachable ? $result['deltaV_cms'] : 0,
+                    'cost_billion_usd' => $result['cost_billion_usd'],
+                    'success_probability' => $reachable ? $result['success_probability'] : 0,
+                ];
+            }
+            
+            // Las misiones se ordenan por llegada: cada una se suma a lo que ya desviaron las anteriores
+            usort($missions, function($a, $b) {
+                return $a['arrival_years'] <=> $b['arrival_years'];
+            });
+            $accumulated = 0;
+            foreach ($missions as &$mission) {
+                $accumulated += $mission['deltaV_ms'];
+                $mission['accumulated_deltaV_ms'] = round($accumulated, 6);
+                $mission['accumulated_miss_distance_km'] = round($this->missDistanceFor($accumulated, $asteroidVelocity, $leadTime), 2);
+            }
+            unset($mission);
+            
+            $missDistance = $this->missDistanceFor($accumulated, $asteroidVelocity, $leadTime);
+            
+            return response()->json([
+                'success' => true,
+                'missions' => $missions,
+                'lead_time_years' => $leadTime,
+                'total_deltaV_ms' => round($accumulated, 6),
+                'total_deltaV_cms' => round($accumulated * 100, 4),
+                'total_cost_billion_usd' => round(array_sum(array_column($missions, 'cost_billion_usd')), 2),
+                'miss_distance_km' => round($missDistance, 2),
+                'miss_distance_earth_radii' => round($missDistance / $earthRadius, 2),
+                'earth_saved' => $missDistance > $earthRadius,
+                'safety_level' => $this->getSafetyLevel($missDistance, $earthRadius),
+                'all_missions_success_probability' => round(array_product(array_column($missions, 'success_probability')), 4),
+                'combined_success_probability' => round($this->campaignSuccessProbability($missions, $asteroidVelocity, $leadTime, $earthRadius), 4),
+            ]);
+            
+        } catch (\Exception $e) {
+            Log::error('Error in campaign planning: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Error planning campaign: ' . $e->getMessage()
+            ], 500);
+        }
+    }
+    
+    /**
+     * Distancia de paso para un Δv total
+     */
+    private function missDistanceFor($deltaV, $velocity, $leadTime)
+    {
+        $deflectionAngle = $this->calculateDeflectionAngle($deltaV, $velocity, $leadTime);
+        return $this->calculateMissDistance($deflectionAngle, $leadTime, $velocity);
+    }
+    
+    /**
+     * Probabilidad de que la campaña salve la Tierra aunque fallen algunas misiones
+     * Recorre todas las combinaciones de misiones que funcionan y suma las que desvían lo suficiente
+     */
+    private function campaignSuccessProbability($missions, $velocity, $leadTime, $earthRadius)
+    {
+        $count = count($missions);
+        $probability = 0;
+        
+        for ($mask = 0; $mask < (1 << $count); $mask++) {
+            $chance = 1;
+            $deltaV = 0;
+            foreach ($missions as $i => $mission) {
+                if ($mask & (1 << $i)) {
+                    $chance *= $mission['success_probability'];
+                    $deltaV += $mission['deltaV_ms'];
+                } else {
+                    $chance *= 1 - $mission['success_probability'];
+                }
+            }
+            if ($this->missDistanceFor($deltaV, $velocity, $leadTime) > $earthRadius) {
+                $probability += $chance;
+            }
+        }
+        
+        return $probability;
+    }
+    
     /**
      * Encuentra la mejor estrategia basada en múltiples criterios
      */
@@ -123,6 +123,14 @@ public static function analyzeImpactSimulation(Request $request): JsonResponse
                 ? round($impactData['atmospheric_impact']['breakup_altitude_m'] / 1000, 2) 
                 : null;
 
+            // Población expuesta por zona de daño (calculada en el cliente)
+            $exposure = $impactData['exposure'] ?? [];
+            $exposureLines = '';
+            foreach ($exposure as $zone) {
+                $exposureLines .= "\n• " . ($zone['name'] ?? 'Zona') . " (radio " . round(($zone['radius_m'] ?? 0) / 1000, 1) . " km): "
+                    . number_format($zone['population'] ?? 0, 0, '.', ',') . " personas";
+            }
+
             $analysisPrompt = "Eres un astrofísico experto de la NASA. Analiza el siguiente impacto de meteorito y proporciona SOLO el análisis científico. NO incluyas saludos, introducciones ni frases como 'Aquí tienes' o 'A continuación'. Empieza directamente con el contenido.
 
 📊 DATOS DE LA SIMULACIÓN:
@@ -141,7 +149,9 @@ public static function analyzeImpactSimulation(Request $request): JsonResponse
 
 💥 IMPACTO EN SUPERFICIE:
 • Diámetro del cráter: " . round($craterDiameter, 0) . " metros (" . round($craterDiameter/1000, 2) . " km)
-• Radio del cráter: " . round($craterDiameter/2, 0) . " metros
+• Radio del cráter: " . round($craterDiameter/2, 0) . " metros" . ($exposureLines ? "
+
+👥 POBLACIÓN EXPUESTA (estimación gruesa, cada zona incluye a las interiores):{$exposureLines}" : "") . "
 
 Proporciona directamente estas 5 secciones:
 
@@ -3,12 +3,21 @@
 namespace App\Http\Controllers;
 
 use App\Models\meteoritos;
+use App\Services\NeoCatalog;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Http;
 use PhpParser\Node\Stmt\Foreach_;
 
+use function Illuminate\Support\defer;
+
 class MeteoriteController extends Controller
 {
+    /** Parámetros de getMeteoritesNames que activan la búsqueda en la copia del servidor (los de la URL de /meteorites) */
+    private const CATALOG_QUERY_KEYS = ['q', 'dmin', 'dmax', 'haz', 'from', 'to', 'vmin', 'vmax', 'orbit', 'sort', 'dir'];
+
+    /** Resultados por página al buscar en la copia (los mismos que una página de NeoWs) */
+    private const CATALOG_PAGE_SIZE = 20;
+
     public function getAllMeteorites()
     {
         $apiKey = env('NASA_API_KEY', 'DEMO_KEY');
@@ -43,10 +52,21 @@ public function getAllMeteorites()
         return response()->json(['error' => 'API request failed']);
     }
 
-    public function getMeteoritesNames(Request $request){
+    public function getMeteoritesNames(Request $request, NeoCatalog $catalog){
         $apiKey = env('NASA_API_KEY', 'DEMO_KEY');
         $page = $request->query('page', 0); // Página por defecto es 0
 
+        // Con filtros u orden se busca en la copia completa del listado que guarda el servidor;
+        // si está incompleta o caducada se descarga otra tanda después de responder
+        $query = $request->only(self::CATALOG_QUERY_KEYS);
+        if (array_filter($query, fn($value) => $value !== null && $value !== '')) {
+            $result = $catalog->search(NeoCatalog::parseFilters($query), max(0, (int) $page), self::CATALOG_PAGE_SIZE);
+            if ($catalog->needsSync()) {
+                defer(fn() => $catalog->sync(NeoCatalog::PAGES_PER_REQUEST_SYNC));
+            }
+            return response()->json($result);
+        }
+
         $response = Http::get('https://api.nasa.gov/neo/rest/v1/neo/browse', [
             'api_key' => $apiKey,
             'page' => $page
@@ -60,25 +80,9 @@ public function getMeteoritesNames(Request $request){
             $links = $data['links'] ?? [];
             $page_info = $data['page'] ?? [];
 
-            // Filtrar solo los que tienen aproximaciones a la Tierra
-            $earthOrbitingNeos = array_filter($allNeos, function($neo) {
-                $closeApproaches = $neo['close_approach_data'] ?? [];
-                
-                foreach ($closeApproaches as $approach) {
-                    if (($approach['orbiting_body'] ?? '') === 'Earth') {
-                        return true;
-                    }
-                }
-                return false;
-            });
-
-            // Obtener objetos con nombre e ID de los meteoritos que orbitan la Tierra
-            $meteoriteData = array_map(function($neo) {
-                return [
-                    'id' => $neo['id'] ?? '',
-                    'name' => $neo['name'] ?? ''
-                ];
-            }, $earthOrbitingNeos);
+            // Solo los que se acercan a la Tierra, con nombre, ID y lo necesario para el modo de amenaza del cliente
+            $earthOrbitingNeos = array_filter($allNeos, [NeoCatalog::class, 'approachesEarth']);
+            $meteoriteData = array_map([NeoCatalog::class, 'summarize'], $earthOrbitingNeos);
 
             return response()->json([
                 'data' => array_values($meteoriteData),
@@ -96,6 +100,24 @@ public function getMeteoritesNames(Request $request){
         return response()->json(['error' => 'API request failed']);
     }
 
+    public function getNeoFeed(Request $request)
+    {
+        $apiKey = env('NASA_API_KEY', 'DEMO_KEY');
+
+        // NeoWs limita el feed a 7 días; sin fechas devuelve los próximos 7 días desde hoy
+        $response = Http::get('https://api.nasa.gov/neo/rest/v1/feed', array_filter([
+            'api_key' => $apiKey,
+            'start_date' => $request->query('start_date'),
+            'end_date' => $request->query('end_date'),
+        ]));
+
+        if (! $response->successful()) {
+            return response()->json(['error' => 'API request failed'], $response->status() ?: 500);
+        }
+
+        return response()->json($response->json());
+    }
+
     public function getMeteoriteById($id)
     {
         $apiKey = env('NASA_API_KEY');
@@ -173,6 +195,9 @@ public function getMeteoriteById($id)
             'data' => $data,
             'calculations' => [
                 'diameter_m' => $diameter,
+                // rango original de NASA para el modo de incertidumbre del cliente
+                'diameter_min_m' => $d_min,
+                'diameter_max_m' => $d_max,
                 'radius_m' => $radius,
                 'volume_m3' => $volume,
                 'mass_kg' => $mass,
@@ -198,6 +223,8 @@ public function getMeteoriteById($id)
      * - ruptura por presión dinámica q = 0.5 rho v^2 > strength
      * - actualización coherente de masa, área y energía
      * - dt adaptativo y pasos de integración semi-implícitos (más estables)
+     * - serie temporal (trajectory) con altitud, velocidad, masa, presión dinámica
+     *   y energía depositada en cada muestra
      */
     private function estimateAtmosphericEffects(
         $D,            // diameter (m)
@@ -245,6 +272,16 @@ private function estimateAtmosphericEffects(
         // Umbral para considerar que el cuerpo es "tan grande" que la atmósfera aporta poco
         $big_object_threshold = 1000.0; // m (1 km) - para cuerpos >> este valor, atmósfera poco efecto relativo
 
+        // serie temporal: una muestra por paso (se reduce al final)
+        $trajectory = [[
+            't_s' => 0.0,
+            'altitude_m' => $h,
+            'velocity_ms' => $v,
+            'mass_kg' => $mass,
+            'dynamic_pressure_Pa' => 0.5 * $rho0 * exp(-$h / $H) * pow($v, 2),
+            'energy_deposited_J' => 0.0,
+        ]];
+
         while ($h > 0 && $v > 10.0 && $t < $t_max && $iterations < $max_iterations) {
             // densidad atmosférica simple exponencial
             $rho_air = $rho0 * exp(-$h / $H);
@@ -345,6 +382,15 @@ private function estimateAtmosphericEffects(
             $t += $dt;
             $iterations++;
 
+            $trajectory[] = [
+                't_s' => $t,
+                'altitude_m' => $h,
+                'velocity_ms' => $v,
+                'mass_kg' => $mass,
+                'dynamic_pressure_Pa' => $q,
+                'energy_deposited_J' => $work_drag,
+            ];
+
             // adaptar dt en función de velocidad y altitud (dt más pequeño si v grande)
             $dt = max($min_dt, min($max_dt, 0.05 + 1000.0 / (1.0 + $v))); // heurística simple
         }
@@ -393,10 +439,38 @@ private function estimateAtmosphericEffects(
             'simulation_time_s' => $t,
             'initial_megatons_tnt' => $initial_megatons,
             'final_megatons_tnt' => $final_megatons,
-            'crater_diameter_m' => $crater_diameter_m
+            'crater_diameter_m' => $crater_diameter_m,
+            'trajectory' => $this->downsampleTrajectory($trajectory)
         ];
     }
 
+    /**
+     * downsampleTrajectory
+     * Reduce la serie temporal a un máximo de muestras agrupando pasos consecutivos:
+     * el estado es el del último paso del grupo y la energía depositada se suma,
+     * así el total depositado no cambia.
+     */
+    private function downsampleTrajectory(array $samples, int $maxSamples = 300): array
+    {
+        $count = count($samples);
+        if ($count <= $maxSamples) {
+            return $samples;
+        }
+
+        // la muestra inicial se conserva tal cual
+        $result = [$samples[0]];
+        $bucket = (int) ceil(($count - 1) / ($maxSamples - 1));
+
+        for ($i = 1; $i < $count; $i += $bucket) {
+            $group = array_slice($samples, $i, $bucket);
+            $last = $group[count($group) - 1];
+            $last['energy_deposited_J'] = array_sum(array_column($group, 'energy_deposited_J'));
+            $result[] = $last;
+        }
+
+        return $result;
+    }
+
     public function store(Request $request)
     {
         $meteorite = new meteoritos();
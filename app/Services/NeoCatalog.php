@@ -0,0 +1,386 @@
+<?php
+
+namespace App\Services;
+
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Facades\Http;
+
+/**
+ * Copia del listado completo de NeoWs (browse) en la caché de Laravel
+ *
+ * NeoWs no filtra ni ordena, así que la galería filtra sobre esta copia. Son ~2000 páginas y el
+ * límite de la API no permite descargarlas de una vez: la copia se construye por tandas (la tarea
+ * neo:sync-catalog y, después de responder, las búsquedas de la galería) y se publica al terminar.
+ * Cuando caduca se construye otra sin retirar la publicada hasta que la nueva está completa.
+ * Cada página se guarda en su propia entrada para no superar el tamaño máximo de un valor de la caché.
+ */
+class NeoCatalog
+{
+    /** Copia publicada: generación, páginas, número de NEOs y fecha */
+    private const CATALOG_KEY = 'neo_catalog';
+
+    /** Copia en construcción: generación y siguiente página a descargar */
+    private const BUILD_KEY = 'neo_catalog_build';
+
+    private const LOCK_KEY = 'neo_catalog_sync';
+
+    /** Edad a partir de la cual se vuelve a descargar el listado (s) */
+    private const MAX_AGE_SECONDS = 86400;
+
+    /** Páginas que se descargan en cada tanda lanzada por una búsqueda */
+    public const PAGES_PER_REQUEST_SYNC = 25;
+
+    /** Páginas que se leen de la caché de una vez al filtrar */
+    private const READ_CHUNK = 100;
+
+    /** Columnas por las que se puede ordenar (las mismas que meteoriteFilters.ts) */
+    private const SORT_KEYS = ['name', 'diameter', 'velocity', 'miss_distance', 'approach_date', 'magnitude'];
+
+    /**
+     * Indica si un NEO se acerca alguna vez a la Tierra
+     */
+    public static function approachesEarth(array $neo): bool
+    {
+        foreach ($neo['close_approach_data'] ?? [] as $approach) {
+            if (($approach['orbiting_body'] ?? '') === 'Earth') {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Resumen de un NEO con lo que usan la galería y el modo de amenaza del cliente
+     */
+    public static function summarize(array $neo): array
+    {
+        // Solo las aproximaciones a la Tierra, con los campos que usa la puntuación de riesgo
+        $earthApproaches = array_values(array_filter(
+            $neo['close_approach_data'] ?? [],
+            function($approach) {
+                return ($approach['orbiting_body'] ?? '') === 'Earth';
+            }
+        ));
+
+        return [
+            'id' => $neo['id'] ?? '',
+            'name' => $neo['name'] ?? '',
+            'is_potentially_hazardous_asteroid' => (bool) ($neo['is_potentially_hazardous_asteroid'] ?? false),
+            'absolute_magnitude_h' => $neo['absolute_magnitude_h'] ?? null,
+            'diameter_min_m' => $neo['estimated_diameter']['meters']['estimated_diameter_min'] ?? null,
+            'diameter_max_m' => $neo['estimated_diameter']['meters']['estimated_diameter_max'] ?? null,
+            'orbit_class' => $neo['orbital_data']['orbit_class']['orbit_class_type'] ?? null,
+            'close_approaches' => array_map(function($approach) {
+                return [
+                    'date' => $approach['close_approach_date'] ?? '',
+                    'epoch_ms' => $approach['epoch_date_close_approach'] ?? null,
+                    'miss_distance_km' => floatval($approach['miss_distance']['kilometers'] ?? 0),
+                    'velocity_km_s' => floatval($approach['relative_velocity']['kilometers_per_second'] ?? 0),
+                ];
+            }, $earthApproaches),
+        ];
+    }
+
+    /**
+     * Filtros y ordenación de la query (mismos nombres que la URL de /meteorites)
+     * Los valores ausentes o inválidos no filtran
+     */
+    public static function parseFilters(array $query): array
+    {
+        $number = function($key) use ($query) {
+            $value = $query[$key] ?? null;
+            return is_numeric($value) && $value >= 0 ? floatval($value) : null;
+        };
+        $date = function($key) use ($query) {
+            $value = $query[$key] ?? '';
+            return is_string($value) && preg_match('/^\d{4}-\d{2}-\d{2}$/', $value) ? $value : '';
+        };
+        $hazardous = $query['haz'] ?? 'any';
+        $sort = $query['sort'] ?? 'name';
+
+        return [
+            'search' => mb_strtolower(trim((string) ($query['q'] ?? ''))),
+            'diameter_min' => $number('dmin'),
+            'diameter_max' => $number('dmax'),
+            'hazardous' => in_array($hazardous, ['yes', 'no'], true) ? $hazardous : 'any',
+            'approach_from' => $date('from'),
+            'approach_to' => $date('to'),
+            'velocity_min' => $number('vmin'),
+            'velocity_max' => $number('vmax'),
+            'orbit_class' => strtoupper((string) ($query['orbit'] ?? '')),
+            'sort' => in_array($sort, self::SORT_KEYS, true) ? $sort : 'name',
+            'direction' => ($query['dir'] ?? '') === 'desc' ? 'desc' : 'asc',
+        ];
+    }
+
+    /**
+     * Filtra y ordena la copia de la caché y devuelve una página de resultados
+     *
+     * @param array $filters Filtros de parseFilters
+     * @param int $page Página de resultados (desde 0)
+     * @param int $size Resultados por página
+     * @return array Resultados, paginación y estado de la copia
+     */
+    public function search(array $filters, int $page, int $size): array
+    {
+        $catalog = $this->readableCatalog();
+        $matches = [];
+
+        if ($catalog) {
+            // Solo se guarda lo necesario para ordenar; los resúmenes se vuelven a leer para la página pedida
+            foreach (array_chunk(range(0, $catalog['pages'] - 1), self::READ_CHUNK) as $pages) {
+                $keys = array_map(fn($page) => $this->pageKey($catalog['generation'], $page), $pages);
+                foreach (Cache::many($keys) as $key => $neos) {
+                    foreach ($neos ?? [] as $index => $neo) {
+                        $approach = $this->relevantApproach($neo, $filters);
+                        if ($this->matches($neo, $approach, $filters)) {
+                            $matches[] = [
+                                'value' => $this->sortValue($neo, $approach, $filters['sort']),
+                                'name' => $neo['name'],
+                                'id' => $neo['id'],
+                                'key' => $key,
+                                'index' => $index,
+                            ];
+                        }
+                    }
+                }
+            }
+        }
+
+        // Una copia en construcción puede repetir un NEO si NASA desplazó el listado entre tandas
+        $matches = array_values(array_column($matches, null, 'id'));
+        $this->sortMatches($matches, $filters);
+
+        $slice = array_slice($matches, $page * $size, $size);
+        $entries = $slice ? Cache::many(array_values(array_unique(array_column($slice, 'key')))) : [];
+        $data = array_map(fn($match) => $entries[$match['key']][$match['index']], $slice);
+        $totalPages = max(1, (int) ceil(count($matches) / $size));
+
+        return [
+            'data' => $data,
+            'pagination' => [
+                'current_page' => $page,
+                'total_pages' => $totalPages,
+                'size' => $size,
+                'total_elements' => count($matches),
+                'has_next' => $page + 1 < $totalPages,
+                'has_prev' => $page > 0,
+            ],
+            'catalog' => [
+                'complete' => $catalog['complete'] ?? false,
+                'synced_pages' => $catalog['pages'] ?? 0,
+                'total_pages' => $catalog['total_pages'] ?? null,
+                'total_elements' => $catalog['count'] ?? 0,
+                'updated_at' => isset($catalog['updated_at']) ? $catalog['updated_at'] * 1000 : null,
+            ],
+        ];
+    }
+
+    /**
+     * Indica si hay que seguir descargando (copia incompleta o caducada)
+     */
+    public function needsSync(): bool
+    {
+        $catalog = Cache::get(self::CATALOG_KEY);
+        return Cache::has(self::BUILD_KEY) || ! $catalog || time() - $catalog['updated_at'] > self::MAX_AGE_SECONDS;
+    }
+
+    /**
+     * Descarga una tanda de páginas de la copia en construcción y la publica al terminar
+     * Si NASA falla (p. ej. por el límite de peticiones) se sigue en la próxima tanda
+     *
+     * @param int $pages Páginas como máximo
+     * @return int Páginas descargadas
+     */
+    public function sync(int $pages): int
+    {
+        // Una sola tanda a la vez (la tarea programada y las búsquedas pueden coincidir)
+        $lock = Cache::lock(self::LOCK_KEY, 600);
+        if (! $lock->get()) {
+            return 0;
+        }
+
+        try {
+            if (! $this->needsSync()) {
+                return 0;
+            }
+
+            $build = Cache::get(self::BUILD_KEY) ?? [
+                'generation' => (string) time(),
+                'next_page' => 0,
+                'total_pages' => null,
+                'count' => 0,
+            ];
+            $apiKey = env('NASA_API_KEY', 'DEMO_KEY');
+            $downloaded = 0;
+
+            while ($downloaded < $pages) {
+                $response = Http::timeout(30)->get('https://api.nasa.gov/neo/rest/v1/neo/browse', [
+                    'api_key' => $apiKey,
+                    'page' => $build['next_page'],
+                ]);
+                if (! $response->successful()) {
+                    break;
+                }
+
+                $data = $response->json();
+                $neos = array_values(array_map(
+                    [self::class, 'summarize'],
+                    array_filter($data['near_earth_objects'] ?? [], [self::class, 'approachesEarth'])
+                ));
+                Cache::forever($this->pageKey($build['generation'], $build['next_page']), $neos);
+
+                $build['next_page']++;
+                $build['count'] += count($neos);
+                $build['total_pages'] = $data['page']['total_pages'] ?? $build['next_page'];
+                $downloaded++;
+
+                if ($build['next_page'] >= $build['total_pages'] || ! isset($data['links']['next'])) {
+                    $this->publish($build);
+                    return $downloaded;
+                }
+            }
+
+            Cache::forever(self::BUILD_KEY, $build);
+            return $downloaded;
+        } finally {
+            $lock->release();
+        }
+    }
+
+    /**
+     * Sustituye la copia publicada por la recién terminada y borra las páginas de la anterior
+     */
+    private function publish(array $build): void
+    {
+        $previous = Cache::get(self::CATALOG_KEY);
+
+        Cache::forever(self::CATALOG_KEY, [
+            'generation' => $build['generation'],
+            'pages' => $build['next_page'],
+            'total_pages' => $build['total_pages'],
+            'count' => $build['count'],
+            'updated_at' => time(),
+            'complete' => true,
+        ]);
+        Cache::forget(self::BUILD_KEY);
+
+        if ($previous) {
+            for ($page = 0; $page < $previous['pages']; $page++) {
+                Cache::forget($this->pageKey($previous['generation'], $page));
+            }
+        }
+    }
+
+    /**
+     * Copia sobre la que buscar: la publicada o, antes de la primera, lo descargado hasta ahora
+     */
+    private function readableCatalog(): ?array
+    {
+        $catalog = Cache::get(self::CATALOG_KEY);
+        if ($catalog) {
+            return $catalog;
+        }
+
+        $build = Cache::get(self::BUILD_KEY);
+        if (! $build || $build['next_page'] === 0) {
+            return null;
+        }
+
+        return [
+            'generation' => $build['generation'],
+            'pages' => $build['next_page'],
+            'total_pages' => $build['total_pages'],
+            'count' => $build['count'],
+            'complete' => false,
+        ];
+    }
+
+    private function pageKey(string $generation, int $page): string
+    {
+        return "neo_catalog:{$generation}:{$page}";
+    }
+
+    /**
+     * Diámetro representativo: media geométrica del rango de NASA
+     */
+    private function diameter(array $neo): ?float
+    {
+        $min = $neo['diameter_min_m'];
+        $max = $neo['diameter_max_m'];
+        return $min && $max ? sqrt($min * $max) : ($min ?? $max);
+    }
+
+    /**
+     * Aproximación que cuenta para filtrar y ordenar: la más cercana dentro del rango de fechas
+     */
+    private function relevantApproach(array $neo, array $filters): ?array
+    {
+        $closest = null;
+        foreach ($neo['close_approaches'] as $approach) {
+            if ($filters['approach_from'] && $approach['date'] < $filters['approach_from']) continue;
+            if ($filters['approach_to'] && $approach['date'] > $filters['approach_to']) continue;
+            if ($closest === null || $approach['miss_distance_km'] < $closest['miss_distance_km']) {
+                $closest = $approach;
+            }
+        }
+        return $closest;
+    }
+
+    private function inRange(?float $value, ?float $min, ?float $max): bool
+    {
+        if ($min === null && $max === null) return true;
+        if ($value === null) return false;
+        return ($min === null || $value >= $min) && ($max === null || $value <= $max);
+    }
+
+    /**
+     * Mismas reglas que filterNeos en meteoriteFilters.ts
+     */
+    private function matches(array $neo, ?array $approach, array $filters): bool
+    {
+        if ($filters['search'] !== '' && ! str_contains(mb_strtolower($neo['name']), $filters['search'])) return false;
+        if ($filters['hazardous'] !== 'any' && $neo['is_potentially_hazardous_asteroid'] !== ($filters['hazardous'] === 'yes')) return false;
+        if ($filters['orbit_class'] !== '' && $neo['orbit_class'] !== $filters['orbit_class']) return false;
+        if (! $this->inRange($this->diameter($neo), $filters['diameter_min'], $filters['diameter_max'])) return false;
+        if (($filters['approach_from'] || $filters['approach_to']) && ! $approach) return false;
+        return $this->inRange($approach['velocity_km_s'] ?? null, $filters['velocity_min'], $filters['velocity_max']);
+    }
+
+    private function sortValue(array $neo, ?array $approach, string $sort): ?float
+    {
+        switch ($sort) {
+            case 'diameter':
+                return $this->diameter($neo);
+            case 'velocity':
+                return $approach['velocity_km_s'] ?? null;
+            case 'miss_distance':
+                return $approach['miss_distance_km'] ?? null;
+            case 'approach_date':
+                if (! $approach) return null;
+                return $approach['epoch_ms'] ?? (strtotime($approach['date']) * 1000);
+            case 'magnitude':
+                return $neo['absolute_magnitude_h'] === null ? null : floatval($neo['absolute_magnitude_h']);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Ordena como sortBy en meteoriteFilters.ts: sin valor siempre al final y, a igualdad, por nombre
+     */
+    private function sortMatches(array &$matches, array $filters): void
+    {
+        $sign = $filters['direction'] === 'desc' ? -1 : 1;
+        $byName = fn($a, $b) => strnatcasecmp($a['name'], $b['name']);
+
+        usort($matches, function($a, $b) use ($filters, $sign, $byName) {
+            if ($filters['sort'] === 'name') return $sign * $byName($a, $b);
+            if ($a['value'] === null || $b['value'] === null) {
+                if ($a['value'] === $b['value']) return $byName($a, $b);
+                return $a['value'] === null ? 1 : -1;
+            }
+            return ($sign * ($a['value'] <=> $b['value'])) ?: $byName($a, $b);
+        });
+    }
+}
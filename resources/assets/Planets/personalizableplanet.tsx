@@ -5,6 +5,7 @@ import { useFrame } from '@react-three/fiber'  // Hook para animaciones 3D
 import { OrbitControls, Stars } from '@react-three/drei'  // Controles de cámara y efectos
 import * as THREE from 'three'  // Biblioteca Three.js para 3D
 import { PerspectiveCamera } from '@react-three/drei'  // Cámara 3D
+import { ASTEROID_SURFACES, createAsteroidGeometry } from '../../js/lib/asteroidGeometry'  // Forma procedural
 
 /**
  * Interfaz de datos del meteorito
@@ -21,6 +22,7 @@ interface MeteroidData {
  */
 interface PersonalizablePlanetProps {
     meteroidData: MeteroidData
+    seed: number  // Semilla de la forma (la misma semilla da siempre el mismo asteroide)
 }
 
 /**
@@ -29,31 +31,21 @@ interface PersonalizablePlanetProps {
  * Características dinámicas:
  * - Tamaño: Controlado por radiusMeteroid
  * - Velocidad de rotación: Basada en velocity del meteorito
- * - Color y material: Según el tipo de material seleccionado
- * - Propiedades físicas: Metalness y roughness variables
+ * - Forma: Asteroide procedural generado a partir de la semilla
+ * - Superficie: Condrita rugosa y craterizada o metal hierro-níquel según el material
  */
-function PersonalizablePlanet({ meteroidData }: PersonalizablePlanetProps) {
+function PersonalizablePlanet({ meteroidData, seed }: PersonalizablePlanetProps) {
     // Referencia al mesh del planeta para poder animarlo
     const earthRef = React.useRef<THREE.Mesh>(null!)
 
-    /**
-     * Función que mapea el tipo de material a un color hexadecimal
-     * También define las características visuales de cada material
-     * 
-     * @param {string} material - Tipo de material ('rock', 'iron', 'nickel')
-     * @returns {string} Color hexadecimal correspondiente
-     */
-    const getMaterialColor = (material: string) => {
-        switch (material) {
-            case 'iron':
-                return '#8B7355'  // Marrón dorado - hierro oxidado
-            case 'nickel':
-                return '#C0C0C0'  // Plateado - metal brillante
-            case 'rock':
-            default:
-                return '#8B4513'  // Marrón tierra - roca sedimentaria
-        }
-    }
+    // Forma del asteroide: solo se regenera si cambia la semilla o el material
+    const geometry = React.useMemo(
+        () => createAsteroidGeometry(seed, meteroidData.material),
+        [seed, meteroidData.material]
+    )
+    React.useEffect(() => () => geometry.dispose(), [geometry])
+
+    const surface = ASTEROID_SURFACES[meteroidData.material] ?? ASTEROID_SURFACES.rock
 
     /**
      * Función para escalar visualmente el radio del meteorito
@@ -126,34 +118,21 @@ function PersonalizablePlanet({ meteroidData }: PersonalizablePlanetProps) {
                 position={[-.5, 0, 6]} // Posición: ligeramente a la izquierda, centrada, alejada
             />
 
-            {/* Mesh principal del planeta - geometría + material */}
+            {/* Mesh principal del planeta - geometría procedural + material */}
             <mesh
                 ref={earthRef}              // Referencia para animación
                 position={[0, 0, 3]}        // Posición en el espacio 3D
                 rotation={[0, 0, -.3]}      // Rotación inicial (leve inclinación)
+                geometry={geometry}         // Asteroide de radio ~1
+                scale={getVisualRadius(meteroidData.radiusMeteroid)}  // Escalado visual para mantener proporciones apropiadas
             >
-                {/* Geometría esférica del planeta */}
-                <sphereGeometry
-                    args={[
-                        // Radio: usa función de escalado visual para mantener proporciones apropiadas
-                        getVisualRadius(meteroidData.radiusMeteroid),
-                        10,  // Segmentos horizontales (resolución)
-                        10   // Segmentos verticales (resolución)
-
-                    ]}
-                />
-
-                {/* Material del planeta - cambia según el tipo seleccionado */}
+                {/* Material del asteroide - cambia según el tipo seleccionado */}
                 <meshStandardMaterial
-                    color={getMaterialColor(meteroidData.material)}  // Color basado en material
-
-                    // Metalness: qué tan metálico se ve el material
-                    // Hierro y níquel son más metálicos (0.8), roca menos (0.2)
-                    metalness={meteroidData.material === 'iron' || meteroidData.material === 'nickel' ? 0.8 : 0.2}
-
-                    // Roughness: qué tan rugosa es la superficie
-                    // Roca es muy rugosa (0.9), metales son más lisos (0.3)
-                    roughness={meteroidData.material === 'rock' ? 0.9 : 0.3}
+                    key={meteroidData.material}  // Material nuevo al cambiar el sombreado plano/suave
+                    vertexColors              // Manchas y fondos de cráter generados con la forma
+                    metalness={surface.metalness}
+                    roughness={surface.roughness}
+                    flatShading={surface.flatShading}
                 />
 
                 {/* Controles de órbita para interacción del usuario */}
@@ -0,0 +1,310 @@
+// CampaignBuilder.tsx - Campaña de defensa con varias misiones encadenadas
+// Cada misión tiene su estrategia y fecha de lanzamiento; el servidor calcula ventanas de lanzamiento,
+// Δv acumulado, coste total y probabilidad combinada, y aquí se dibuja la línea de tiempo
+
+import { useState } from 'react'
+import { DEFLECTION_STRATEGIES } from '../lib/spacecraftConfig'
+import type { DeflectionStrategy, SpacecraftConfig } from '../lib/spacecraftConfig'
+
+/** Misiones que admite el servidor en una campaña */
+const MAX_MISSIONS = 6
+
+// Dimensiones de la línea de tiempo
+const WIDTH = 560
+const ROW_HEIGHT = 28
+const LABEL_WIDTH = 120
+const PADDING = 24
+
+/**
+ * Misión tal como la edita el usuario
+ */
+interface CampaignMission {
+    id: number
+    strategy: DeflectionStrategy
+    launch_years: number        // Años desde la detección
+}
+
+/**
+ * Misión planificada por el servidor (en orden de llegada)
+ */
+interface PlannedMission {
+    index: number               // Posición en la lista enviada
+    strategy: DeflectionStrategy
+    launch_years: number
+    arrival_years: number
+    operation_end_years: number
+    launch_window: { earliest_years: number, latest_years: number, open: boolean }
+    reachable: boolean          // Llega antes del impacto
+    deltaV_cms: number
+    cost_billion_usd: number
+    success_probability: number
+    accumulated_deltaV_ms: number
+    accumulated_miss_distance_km: number
+}
+
+/**
+ * Respuesta de /planCampaign
+ */
+interface CampaignPlan {
+    missions: PlannedMission[]
+    total_deltaV_cms: number
+    total_cost_billion_usd: number
+    miss_distance_km: number
+    miss_distance_earth_radii: number
+    earth_saved: boolean
+    safety_level: string
+    all_missions_success_probability: number
+    combined_success_probability: number
+}
+
+/**
+ * Props del componente
+ */
+interface CampaignBuilderProps {
+    impactData: unknown
+    leadTime: number
+    spacecraft: SpacecraftConfig
+    disabled: boolean           // La configuración de las naves no es válida
+    getStrategyName: (strategy: string) => string
+}
+
+// Colores de cada estrategia en la línea de tiempo
+const STRATEGY_COLORS: Record<DeflectionStrategy, string> = {
+    kinetic: '#2563eb',
+    'gravity-tractor': '#16a34a',
+    nuclear: '#dc2626',
+    laser: '#9333ea',
+}
+
+/**
+ * Editor de misiones, resumen de la campaña y línea de tiempo
+ */
+const CampaignBuilder: React.FC<CampaignBuilderProps> = ({ impactData, leadTime, spacecraft, disabled, getStrategyName }) => {
+    // Ejemplo típico: impactador cinético y tractor gravitacional para el ajuste fino
+    const [missions, setMissions] = useState<CampaignMission[]>([
+        { id: 1, strategy: 'kinetic', launch_years: 1 },
+        { id: 2, strategy: 'gravity-tractor', launch_years: 1 },
+    ])
+    const [plan, setPlan] = useState<{ signature: string, data: CampaignPlan } | null>(null)
+    const [planning, setPlanning] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Los resultados solo valen para las entradas con las que se calcularon
+    const signature = JSON.stringify({ leadTime, spacecraft, missions })
+    const outdated = plan !== null && plan.signature !== signature
+
+    const updateMission = (id: number, changes: Partial<CampaignMission>) =>
+        setMissions(prev => prev.map(mission => mission.id === id ? { ...mission, ...changes } : mission))
+
+    const addMission = () => setMissions(prev => [
+        ...prev,
+        { id: Math.max(0, ...prev.map(mission => mission.id)) + 1, strategy: 'kinetic', launch_years: 0 },
+    ])
+
+    const planCampaign = async () => {
+        setPlanning(true)
+        setError(null)
+
+        try {
+            const response = await fetch('/planCampaign', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json',
+                    'X-CSRF-TOKEN': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || ''
+                },
+                body: JSON.stringify({
+                    impactData,
+                    leadTime,
+                    spacecraft,
+                    missions: missions.map(({ strategy, launch_years }) => ({ strategy, launch_years })),
+                })
+            })
+
+            const data = await response.json()
+
+            if (data.success) {
+                setPlan({ signature, data })
+            } else {
+                throw new Error(data.message || 'The campaign could not be planned')
+            }
+        } catch (err) {
+            console.error('Error planning campaign:', err)
+            setError(err instanceof Error ? err.message : 'The campaign could not be planned')
+        } finally {
+            setPlanning(false)
+        }
+    }
+
+    const result = plan?.data
+    const x = (years: number) => LABEL_WIDTH + (Math.min(Math.max(years, 0), leadTime) / leadTime) * (WIDTH - LABEL_WIDTH - PADDING)
+    const chartHeight = (result?.missions.length ?? 0) * ROW_HEIGHT + 2 * PADDING
+
+    return (
+        <div className="bg-slate-50 rounded-lg p-5 border border-slate-200 space-y-4">
+            <div>
+                <h4 className="text-slate-900 font-semibold">Campaign Builder</h4>
+                <p className="text-slate-500 text-xs mt-0.5">
+                    Sequence several missions against the same asteroid. Their delta-V adds up, so a later mission can trim what an earlier one started.
+                </p>
+            </div>
+
+            {/* Misiones */}
+            <div className="space-y-2">
+                {missions.map((mission, i) => (
+                    <div key={mission.id} className="grid grid-cols-1 md:grid-cols-[auto_1fr_2fr_auto] items-center gap-3 bg-white rounded-lg border border-slate-200 p-3 text-sm">
+                        <span className="text-slate-500 font-semibold">#{i + 1}</span>
+                        <select
+                            value={mission.strategy}
+                            onChange={(e) => updateMission(mission.id, { strategy: e.target.value as DeflectionStrategy })}
+                            className="px-3 py-2 border border-slate-300 rounded-lg bg-white"
+                            aria-label={`Mission ${i + 1} strategy`}
+                        >
+                            {DEFLECTION_STRATEGIES.map(strategy => (
+                                <option key={strategy} value={strategy}>{getStrategyName(strategy)}</option>
+                            ))}
+                        </select>
+                        <label className="space-y-1">
+                            <span className="text-slate-700 text-xs font-medium">
+                                Launch {mission.launch_years.toFixed(1)} years after detection
+                            </span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={leadTime}
+                                step={0.1}
+                                value={Math.min(mission.launch_years, leadTime)}
+                                onChange={(e) => updateMission(mission.id, { launch_years: Number(e.target.value) })}
+                                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-green-600"
+                            />
+                        </label>
+                        <button
+                            onClick={() => setMissions(prev => prev.filter(other => other.id !== mission.id))}
+                            disabled={missions.length <= 1}
+                            className="px-3 py-1.5 text-xs font-semibold text-slate-600 hover:text-red-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            Remove
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+                <button
+                    onClick={addMission}
+                    disabled={missions.length >= MAX_MISSIONS}
+                    className="px-4 py-2 bg-white hover:bg-slate-100 border border-slate-300 rounded-lg text-slate-700 text-sm font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Add Mission
+                </button>
+                <button
+                    onClick={planCampaign}
+                    disabled={planning || disabled}
+                    className="px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg text-white text-sm font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {planning ? 'Planning...' : 'Plan Campaign'}
+                </button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {result && (
+                <div className={`space-y-4 ${outdated ? 'opacity-60' : ''}`}>
+                    {outdated && (
+                        <p className="text-sm text-amber-700 font-medium">The missions or spacecraft changed. Plan the campaign again to update these results.</p>
+                    )}
+
+                    {/* Resumen de la campaña */}
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+                        <div className={`rounded-lg p-3 border ${result.earth_saved ? 'bg-green-50 border-green-300' : 'bg-red-50 border-red-300'}`}>
+                            <div className="text-xs text-slate-500">If every mission works</div>
+                            <div className={`font-bold ${result.earth_saved ? 'text-green-700' : 'text-red-700'}`}>
+                                {result.earth_saved ? 'Earth saved' : 'Impact'} · {result.miss_distance_earth_radii.toFixed(1)}× Earth radius
+                            </div>
+                        </div>
+                        <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                            <div className="text-xs text-slate-500">Accumulated delta-V</div>
+                            <div className="font-bold text-slate-900">{result.total_deltaV_cms.toFixed(4)} cm/s</div>
+                        </div>
+                        <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                            <div className="text-xs text-slate-500">Total cost</div>
+                            <div className="font-bold text-slate-900">${result.total_cost_billion_usd}B</div>
+                        </div>
+                        <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                            <div className="text-xs text-slate-500">Probability Earth is saved</div>
+                            <div className="font-bold text-slate-900">{(result.combined_success_probability * 100).toFixed(1)}%</div>
+                        </div>
+                        <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                            <div className="text-xs text-slate-500">All missions succeed</div>
+                            <div className="font-bold text-slate-900">{(result.all_missions_success_probability * 100).toFixed(1)}%</div>
+                        </div>
+                        <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                            <div className="text-xs text-slate-500">Safety level</div>
+                            <div className="font-bold text-slate-900 text-xs">{result.safety_level}</div>
+                        </div>
+                    </div>
+
+                    {/* Línea de tiempo: ventana de lanzamiento, crucero y operación de cada misión */}
+                    <svg viewBox={`0 0 ${WIDTH} ${chartHeight}`} className="w-full h-auto bg-white rounded-lg border border-slate-200" role="img" aria-label="Campaign timeline">
+                        {Array.from({ length: Math.floor(leadTime) + 1 }, (_, year) => (
+                            <g key={year}>
+                                <line x1={x(year)} x2={x(year)} y1={PADDING - 6} y2={chartHeight - PADDING} stroke="#e2e8f0" />
+                                <text x={x(year)} y={chartHeight - 8} textAnchor="middle" fontSize="9" fill="#64748b">{year} yr</text>
+                            </g>
+                        ))}
+                        <line x1={x(leadTime)} x2={x(leadTime)} y1={PADDING - 6} y2={chartHeight - PADDING} stroke="#dc2626" strokeWidth={2} />
+                        <text x={x(leadTime)} y={PADDING - 10} textAnchor="end" fontSize="9" fill="#dc2626">Impact</text>
+
+                        {result.missions.map((mission, row) => {
+                            const y = PADDING + row * ROW_HEIGHT
+                            const color = STRATEGY_COLORS[mission.strategy]
+                            return (
+                                <g key={`${mission.index}-${mission.strategy}`}>
+                                    <text x={4} y={y + 12} fontSize="9" fill="#0f172a">#{mission.index + 1} {getStrategyName(mission.strategy)}</text>
+                                    <text x={4} y={y + 22} fontSize="8" fill="#64748b">Σ {(mission.accumulated_deltaV_ms * 100).toFixed(3)} cm/s</text>
+                                    {mission.launch_window.open && (
+                                        <rect
+                                            x={x(mission.launch_window.earliest_years)}
+                                            y={y + 4}
+                                            width={Math.max(x(mission.launch_window.latest_years) - x(mission.launch_window.earliest_years), 1)}
+                                            height={ROW_HEIGHT - 10}
+                                            fill="#f1f5f9"
+                                        />
+                                    )}
+                                    <line x1={x(mission.launch_years)} x2={x(mission.arrival_years)} y1={y + 9} y2={y + 9} stroke={color} strokeWidth={2} strokeDasharray="3 2" />
+                                    {mission.operation_end_years > mission.arrival_years ? (
+                                        <rect x={x(mission.arrival_years)} y={y + 5} width={x(mission.operation_end_years) - x(mission.arrival_years)} height={8} rx={2} fill={color} />
+                                    ) : (
+                                        <circle cx={x(mission.arrival_years)} cy={y + 9} r={4} fill={mission.reachable ? color : '#94a3b8'} />
+                                    )}
+                                    <circle cx={x(mission.launch_years)} cy={y + 9} r={2.5} fill="#0f172a" />
+                                </g>
+                            )
+                        })}
+                    </svg>
+                    <p className="text-xs text-slate-500">
+                        Grey band: launch window. Dashed line: cruise from launch to arrival. Dot: instant delta-V on arrival; bar: continuous operation.
+                    </p>
+
+                    {/* Detalle de cada misión */}
+                    <ul className="space-y-1 text-xs text-slate-700">
+                        {result.missions.map(mission => (
+                            <li key={`${mission.index}-${mission.strategy}`}>
+                                <span className="font-semibold">#{mission.index + 1} {getStrategyName(mission.strategy)}:</span>{' '}
+                                {mission.launch_window.open
+                                    ? `launch window ${mission.launch_window.earliest_years}–${mission.launch_window.latest_years} yr`
+                                    : 'no launch window before impact'}
+                                {', '}launches {mission.launch_years} yr, arrives {mission.arrival_years} yr
+                                {mission.reachable
+                                    ? `, ${mission.deltaV_cms.toFixed(4)} cm/s, ${(mission.success_probability * 100).toFixed(0)}% success, $${mission.cost_billion_usd}B`
+                                    : <span className="text-red-600"> after the impact, no deflection</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default CampaignBuilder
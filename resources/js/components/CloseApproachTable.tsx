@@ -0,0 +1,105 @@
+// CloseApproachTable.tsx - Tabla ordenable con todas las aproximaciones de un NEO
+// Incluye las aproximaciones a cualquier cuerpo (Tierra, Marte, Venus...), no solo a la Tierra
+
+import { useState } from 'react'
+import type { NeoCloseApproach } from '../lib/neoApi'
+
+/** Kilómetros por distancia lunar media */
+const LUNAR_DISTANCE_KM = 384400
+
+type ApproachColumn = 'date' | 'body' | 'distance' | 'velocity'
+
+// Encabezado de cada columna
+const COLUMN_LABELS: Record<ApproachColumn, string> = {
+    date: 'Date',
+    body: 'Body',
+    distance: 'Miss distance',
+    velocity: 'Relative velocity',
+}
+
+// Valor por el que se ordena cada columna
+const sortValue = (approach: NeoCloseApproach, column: ApproachColumn): number | string => {
+    switch (column) {
+        case 'date':
+            return approach.epoch_date_close_approach
+        case 'body':
+            return approach.orbiting_body
+        case 'distance':
+            return Number(approach.miss_distance.kilometers)
+        case 'velocity':
+            return Number(approach.relative_velocity.kilometers_per_second)
+    }
+}
+
+/**
+ * Props del componente
+ */
+interface CloseApproachTableProps {
+    approaches: NeoCloseApproach[]
+    highlightDate?: string                          // Fila resaltada (la fecha elegida en la órbita)
+    onSelect?: (approach: NeoCloseApproach) => void
+}
+
+/**
+ * Aproximaciones con fecha, cuerpo, distancia y velocidad; clic en un encabezado para ordenar
+ */
+const CloseApproachTable: React.FC<CloseApproachTableProps> = ({ approaches, highlightDate, onSelect }) => {
+    const [sort, setSort] = useState<{ column: ApproachColumn, direction: 'asc' | 'desc' }>({ column: 'date', direction: 'asc' })
+
+    const sorted = [...approaches].sort((a, b) => {
+        const valueA = sortValue(a, sort.column)
+        const valueB = sortValue(b, sort.column)
+        const order = typeof valueA === 'string' || typeof valueB === 'string'
+            ? String(valueA).localeCompare(String(valueB))
+            : valueA - valueB
+        return sort.direction === 'asc' ? order : -order
+    })
+
+    // Un clic en la columna activa invierte el orden; en otra, ordena ascendente
+    const toggle = (column: ApproachColumn) => setSort(prev => ({
+        column,
+        direction: prev.column === column && prev.direction === 'asc' ? 'desc' : 'asc',
+    }))
+
+    if (approaches.length === 0) {
+        return <div className="text-center py-10 text-gray-400">NASA lists no close approaches for this object</div>
+    }
+
+    return (
+        <div className="overflow-x-auto max-h-[28rem] overflow-y-auto rounded-xl border border-gray-800">
+            <table className="w-full text-sm">
+                <thead className="bg-gray-900 text-left text-gray-400 sticky top-0">
+                    <tr>
+                        {(Object.keys(COLUMN_LABELS) as ApproachColumn[]).map(column => (
+                            <th key={column} className="p-3">
+                                <button onClick={() => toggle(column)} className="font-semibold hover:text-white transition">
+                                    {COLUMN_LABELS[column]}
+                                    {sort.column === column && (sort.direction === 'asc' ? ' ↑' : ' ↓')}
+                                </button>
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {sorted.map(approach => (
+                        <tr
+                            key={`${approach.orbiting_body}-${approach.epoch_date_close_approach}`}
+                            onClick={() => onSelect?.(approach)}
+                            className={`border-t border-gray-800 transition ${onSelect ? 'cursor-pointer hover:bg-gray-800/60' : ''} ${approach.close_approach_date === highlightDate ? 'bg-yellow-500/10' : ''}`}
+                        >
+                            <td className="p-3">{approach.close_approach_date}</td>
+                            <td className="p-3">{approach.orbiting_body}</td>
+                            <td className="p-3">
+                                {Number(approach.miss_distance.kilometers).toLocaleString(undefined, { maximumFractionDigits: 0 })} km
+                                <span className="text-gray-500"> ({(Number(approach.miss_distance.kilometers) / LUNAR_DISTANCE_KM).toFixed(2)} LD)</span>
+                            </td>
+                            <td className="p-3">{Number(approach.relative_velocity.kilometers_per_second).toFixed(2)} km/s</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    )
+}
+
+export default CloseApproachTable
@@ -0,0 +1,118 @@
+// EnergyDepositionChart.tsx - Gráfica de deposición de energía contra altitud
+// Muestra en qué altitudes la atmósfera absorbió la energía del meteorito
+
+import { useMemo } from 'react'
+import { energyDepositionProfile } from '../lib/atmosphericEntry'
+import type { TrajectorySample } from '../lib/atmosphericEntry'
+
+/** Joules por kilotón de TNT */
+const JOULES_PER_KILOTON = 4.184e12
+
+// Dimensiones del SVG y márgenes para los ejes
+const WIDTH = 360
+const HEIGHT = 260
+const MARGIN = { top: 12, right: 16, bottom: 36, left: 44 }
+
+/**
+ * Props del componente
+ */
+interface EnergyDepositionChartProps {
+    trajectory: TrajectorySample[]        // Serie temporal de la simulación
+    breakupAltitude: number | null        // Altitud de ruptura en metros (null si no se rompió)
+}
+
+/**
+ * Gráfica de barras horizontales: altitud (km) en el eje vertical y
+ * energía depositada por kilómetro de descenso (kt TNT/km) en el horizontal.
+ * La altitud de ruptura se marca con una línea discontinua.
+ */
+const EnergyDepositionChart: React.FC<EnergyDepositionChartProps> = ({ trajectory, breakupAltitude }) => {
+    // Franjas de 1 km convertidas a kilotones
+    const bins = useMemo(
+        () => energyDepositionProfile(trajectory, 1000).map(bin => ({
+            altitudeKm: bin.altitude_m / 1000,
+            kilotons: bin.energy_J / JOULES_PER_KILOTON,
+        })),
+        [trajectory]
+    )
+
+    const maxKilotons = Math.max(...bins.map(bin => bin.kilotons), 0)
+
+    if (bins.length === 0 || maxKilotons <= 0) {
+        return <p className="text-sm text-slate-500">No trajectory data available for this simulation.</p>
+    }
+
+    // Escalas: el techo es la franja más alta con energía apreciable (≥0.1% del máximo)
+    // o la ruptura, lo que sea mayor; arriba de eso las barras no se verían
+    const highestKm = bins.reduce((top, bin) => bin.kilotons >= maxKilotons * 1e-3 ? bin.altitudeKm : top, 0)
+    const topKm = Math.ceil(Math.max(highestKm, (breakupAltitude ?? 0) / 1000) + 1)
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+    const x = (kilotons: number) => MARGIN.left + (kilotons / maxKilotons) * plotWidth
+    const y = (altitudeKm: number) => MARGIN.top + plotHeight - (altitudeKm / topKm) * plotHeight
+    const barHeight = Math.max(1, plotHeight / topKm - 1)
+
+    // Marcas de los ejes
+    const altitudeTicks = Array.from({ length: 5 }, (_, i) => Math.round((topKm / 4) * i))
+    const energyTicks = [0, maxKilotons / 2, maxKilotons]
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Energy deposition versus altitude">
+            {/* Barras de energía por franja de altitud */}
+            {bins.map(bin => bin.kilotons > 0 && bin.altitudeKm < topKm && (
+                <rect
+                    key={bin.altitudeKm}
+                    x={MARGIN.left}
+                    y={y(bin.altitudeKm + 0.5)}
+                    width={Math.max(1, x(bin.kilotons) - MARGIN.left)}
+                    height={barHeight}
+                    fill="#ef4444"
+                    opacity={0.8}
+                >
+                    <title>{`${bin.altitudeKm.toFixed(1)} km: ${bin.kilotons.toPrecision(3)} kt/km`}</title>
+                </rect>
+            ))}
+
+            {/* Ejes */}
+            <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={MARGIN.top + plotHeight} stroke="#334155" />
+            <line x1={MARGIN.left} y1={MARGIN.top + plotHeight} x2={MARGIN.left + plotWidth} y2={MARGIN.top + plotHeight} stroke="#334155" />
+
+            {altitudeTicks.map(tick => (
+                <text key={tick} x={MARGIN.left - 6} y={y(tick) + 3} fontSize={9} textAnchor="end" fill="#475569">
+                    {tick}
+                </text>
+            ))}
+            {energyTicks.map(tick => (
+                <text key={tick} x={x(tick)} y={MARGIN.top + plotHeight + 12} fontSize={9} textAnchor="middle" fill="#475569">
+                    {tick.toPrecision(2)}
+                </text>
+            ))}
+
+            <text x={12} y={MARGIN.top + plotHeight / 2} fontSize={10} fill="#334155" textAnchor="middle" transform={`rotate(-90 12 ${MARGIN.top + plotHeight / 2})`}>
+                Altitude (km)
+            </text>
+            <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 6} fontSize={10} fill="#334155" textAnchor="middle">
+                Energy deposited (kt TNT per km)
+            </text>
+
+            {/* Marca de la altitud de ruptura */}
+            {breakupAltitude !== null && (
+                <g>
+                    <line
+                        x1={MARGIN.left}
+                        x2={MARGIN.left + plotWidth}
+                        y1={y(breakupAltitude / 1000)}
+                        y2={y(breakupAltitude / 1000)}
+                        stroke="#7c3aed"
+                        strokeDasharray="4 3"
+                    />
+                    <text x={MARGIN.left + plotWidth} y={y(breakupAltitude / 1000) - 4} fontSize={9} textAnchor="end" fill="#7c3aed">
+                        Breakup {(breakupAltitude / 1000).toFixed(1)} km
+                    </text>
+                </g>
+            )}
+        </svg>
+    )
+}
+
+export default EnergyDepositionChart
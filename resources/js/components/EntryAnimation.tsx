@@ -0,0 +1,148 @@
+// EntryAnimation.tsx - Animación 3D de la entrada con línea de tiempo
+// Reproduce la serie temporal de la vista previa de entrada del contexto
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Canvas } from '@react-three/fiber'
+import { Pause, Play, RotateCcw } from 'lucide-react'
+import { useMeteroidContext } from '../context/MeteroidContext'
+import { classifyImpact } from '../lib/airburst'
+import { FLASH_DURATION_S, frameAt, timeAtAltitude } from '../lib/entryAnimation'
+import EntryScene from './EntryScene'
+
+// Velocidades de reproducción disponibles (1× = tiempo real)
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2]
+
+/**
+ * Props del componente
+ */
+interface EntryAnimationProps {
+    seed: number    // Semilla de la forma del meteorito
+}
+
+/**
+ * Canvas con la escena de entrada y controles para reproducir o arrastrar el instante
+ */
+const EntryAnimation: React.FC<EntryAnimationProps> = ({ seed }) => {
+    const { entryPreview, location, meteroidData } = useMeteroidContext()
+    const [time, setTime] = useState(0)
+    const [playing, setPlaying] = useState(false)
+    const [speed, setSpeed] = useState(1)
+    const lastFrame = useRef<number | null>(null)
+
+    // Explosión aérea: el destello va a la altitud de máxima deposición, si no al final de la trayectoria
+    const timeline = useMemo(() => {
+        if (!entryPreview) return null
+        const impact = entryPreview.atmospheric_impact
+        const { impact_type, airburst } = classifyImpact(impact)
+        const flashAltitude = airburst ? airburst.burst_altitude_m : impact.final_altitude_m
+        const flashTime = airburst ? timeAtAltitude(impact.trajectory, flashAltitude) : impact.simulation_time_s
+        return { impact_type, flashAltitude, flashTime, duration: flashTime + FLASH_DURATION_S }
+    }, [entryPreview])
+
+    // Un escenario nuevo vuelve al principio
+    useEffect(() => {
+        setTime(0)
+        setPlaying(false)
+    }, [entryPreview])
+
+    // Reproducción con requestAnimationFrame mientras esté activa
+    useEffect(() => {
+        if (!playing || !timeline) return
+        let handle = 0
+        const step = (now: number) => {
+            const elapsed = lastFrame.current === null ? 0 : (now - lastFrame.current) / 1000
+            lastFrame.current = now
+            setTime(current => Math.min(timeline.duration, current + elapsed * speed))
+            handle = requestAnimationFrame(step)
+        }
+        handle = requestAnimationFrame(step)
+        return () => {
+            cancelAnimationFrame(handle)
+            lastFrame.current = null
+        }
+    }, [playing, speed, timeline])
+
+    // Se detiene al terminar el destello
+    useEffect(() => {
+        if (timeline && time >= timeline.duration) setPlaying(false)
+    }, [time, timeline])
+
+    if (!entryPreview || !timeline) {
+        return (
+            <div className="h-full w-full flex items-center justify-center text-slate-400 text-sm">
+                Set radius, velocity and angle to animate the entry.
+            </div>
+        )
+    }
+
+    const frame = frameAt(entryPreview.atmospheric_impact.trajectory, time)
+    const togglePlay = () => {
+        if (time >= timeline.duration) setTime(0)
+        setPlaying(!playing)
+    }
+
+    return (
+        <div className="relative h-full w-full">
+            <Canvas camera={{ fov: 45, near: 0.01, far: 100 }}>
+                <EntryScene
+                    simulation={entryPreview}
+                    location={location}
+                    angle={meteroidData.angle}
+                    material={meteroidData.material}
+                    seed={seed}
+                    time={time}
+                    mode={timeline.impact_type}
+                    flashTime={timeline.flashTime}
+                    flashAltitude={timeline.flashAltitude}
+                />
+            </Canvas>
+
+            {/* Línea de tiempo */}
+            <div className="absolute bottom-4 left-4 right-4 rounded-lg bg-black/70 p-3 text-white text-xs space-y-2">
+                <div className="flex items-center gap-3">
+                    <button type="button" onClick={togglePlay} className="p-1 rounded hover:bg-white/10" aria-label={playing ? 'Pause' : 'Play'}>
+                        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </button>
+                    <button type="button" onClick={() => { setTime(0); setPlaying(false) }} className="p-1 rounded hover:bg-white/10" aria-label="Restart">
+                        <RotateCcw className="h-4 w-4" />
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={timeline.duration}
+                        step={0.01}
+                        value={time}
+                        onChange={(e) => { setPlaying(false); setTime(Number(e.target.value)) }}
+                        className="flex-1 accent-orange-500"
+                        aria-label="Entry timeline"
+                    />
+                    <select
+                        value={speed}
+                        onChange={(e) => setSpeed(Number(e.target.value))}
+                        className="bg-transparent border border-white/30 rounded px-1"
+                        aria-label="Playback speed"
+                    >
+                        {PLAYBACK_SPEEDS.map(option => (
+                            <option key={option} value={option} className="text-black">{option}×</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-300">
+                    <span>t = {Math.min(time, timeline.flashTime).toFixed(2)} s</span>
+                    <span>Altitude: {(frame.altitude_m / 1000).toFixed(1)} km</span>
+                    <span>Velocity: {(frame.velocity_ms / 1000).toFixed(2)} km/s</span>
+                    <span>Dynamic pressure: {(frame.dynamic_pressure_Pa / 1e6).toPrecision(3)} MPa</span>
+                    {time >= timeline.flashTime && (
+                        <span className="font-semibold text-orange-400">
+                            {timeline.impact_type === 'airburst'
+                                ? `Airburst at ${(timeline.flashAltitude / 1000).toFixed(1)} km`
+                                : 'Ground impact'}
+                        </span>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
+
+export default EntryAnimation
@@ -0,0 +1,216 @@
+// EntryScene.tsx - Escena 3D de la entrada atmosférica del meteorito
+// Se dibuja dentro de un Canvas de React Three Fiber; el instante lo controla la línea de tiempo externa
+
+import { useEffect, useMemo } from 'react'
+import { useThree } from '@react-three/fiber'
+import { Line, OrbitControls } from '@react-three/drei'
+import * as THREE from 'three'
+import type { LatLng, MeteroidData } from '../context/MeteroidContext'
+import type { EntrySimulationResult } from '../lib/atmosphericEntry'
+import type { ImpactType } from '../lib/airburst'
+import {
+    ENTRY_EXAGGERATION,
+    ENTRY_START_ALTITUDE_M,
+    FLASH_DURATION_S,
+    entryPosition,
+    fragmentSpread,
+    frameAt,
+} from '../lib/entryAnimation'
+import { surfacePoint } from '../lib/globe'
+import type { Vec3 } from '../lib/globe'
+import { ASTEROID_SURFACES, createAsteroidGeometry } from '../lib/asteroidGeometry'
+import { EARTH_RADIUS_M } from '../lib/physicalConstants'
+
+// Tamaños visuales (unidades de escena, la Tierra mide 1): el cuerpo real sería invisible
+const METEOROID_SIZE = 0.012
+const FRAGMENT_COUNT = 7
+const FRAGMENT_VISUAL_SCALE = 8     // Exageración extra de la separación de los fragmentos
+const TRAIL_SECONDS = 2.5           // Duración de la estela visible
+
+/**
+ * Props del componente
+ */
+interface EntrySceneProps {
+    simulation: EntrySimulationResult   // Resultado de simulateAtmosphericEntry
+    location: LatLng                    // Punto de impacto
+    angle: number                       // Ángulo de entrada (grados)
+    material: MeteroidData['material']  // Material, define la superficie del asteroide
+    seed: number                        // Semilla de la forma del asteroide
+    time: number                        // Instante a dibujar (s desde el inicio de la entrada)
+    mode: ImpactType                    // Impacto en el suelo o explosión aérea
+    flashTime: number                   // Instante del destello (impacto o explosión aérea)
+    flashAltitude: number               // Altitud del destello (m)
+}
+
+/**
+ * Intensidad del plasma (0-1) según la presión dinámica: empieza a brillar a ~1 kPa
+ */
+const plasmaIntensity = (dynamicPressure: number) =>
+    Math.min(1, Math.max(0, Math.log10(Math.max(1, dynamicPressure)) - 3) / 4)
+
+/**
+ * Direcciones fijas de salida de los fragmentos, perpendiculares a la trayectoria
+ */
+const fragmentDirections = (axis: THREE.Vector3): THREE.Vector3[] => {
+    const side = new THREE.Vector3(0, 1, 0).cross(axis).normalize()
+    if (side.lengthSq() === 0) side.set(1, 0, 0)
+    const other = axis.clone().cross(side).normalize()
+    return Array.from({ length: FRAGMENT_COUNT }, (_, i) => {
+        const phase = (i / FRAGMENT_COUNT) * Math.PI * 2
+        // Cada fragmento se abre a distinta velocidad para que no formen un anillo perfecto
+        const spread = 0.6 + 0.4 * ((i * 7) % FRAGMENT_COUNT) / FRAGMENT_COUNT
+        return side.clone().multiplyScalar(Math.cos(phase) * spread).addScaledVector(other, Math.sin(phase) * spread)
+    })
+}
+
+/**
+ * Tierra, atmósfera, trayectoria, meteorito con estela de plasma, fragmentos y destello
+ */
+const EntryScene: React.FC<EntrySceneProps> = ({ simulation, location, angle, material, seed, time, mode, flashTime, flashAltitude }) => {
+    const { camera } = useThree()
+    const { trajectory, broke, breakup_altitude_m } = simulation.atmospheric_impact
+    const { mass_kg: initialMass, material_density_kg_m3: bodyDensity } = simulation.calculations
+
+    // Misma forma procedural que en la vista del meteorito, con menos detalle
+    const geometry = useMemo(() => createAsteroidGeometry(seed, material, 8), [seed, material])
+    useEffect(() => () => geometry.dispose(), [geometry])
+    const surface = ASTEROID_SURFACES[material] ?? ASTEROID_SURFACES.rock
+
+    const impactPoint = useMemo(() => surfacePoint(location), [location])
+    const pathStart = useMemo(() => entryPosition(location, angle, ENTRY_START_ALTITUDE_M), [location, angle])
+    const travelAxis = useMemo(
+        () => new THREE.Vector3(...impactPoint).sub(new THREE.Vector3(...pathStart)).normalize(),
+        [impactPoint, pathStart]
+    )
+    const directions = useMemo(() => fragmentDirections(travelAxis), [travelAxis])
+    const breakupTime = useMemo(
+        () => broke && breakup_altitude_m !== null
+            ? trajectory.find(sample => sample.altitude_m <= breakup_altitude_m)?.t_s ?? null
+            : null,
+        [trajectory, broke, breakup_altitude_m]
+    )
+
+    // Centro de la trayectoria, alrededor del cual gira la cámara
+    const middle = useMemo(
+        () => new THREE.Vector3(...impactPoint).lerp(new THREE.Vector3(...pathStart), 0.5),
+        [impactPoint, pathStart]
+    )
+
+    // Encuadra la trayectoria de lado al cambiar el punto o el ángulo
+    useEffect(() => {
+        const up = new THREE.Vector3(...impactPoint)
+        const side = travelAxis.clone().cross(up)
+        // Entrada vertical: cualquier lado perpendicular sirve
+        if (side.lengthSq() < 1e-8) side.set(0, 1, 0).cross(up)
+        side.normalize()
+        camera.position.copy(middle).addScaledVector(up, 0.6).addScaledVector(side, 0.9)
+    }, [camera, impactPoint, middle, travelAxis])
+
+    const frame = frameAt(trajectory, time)
+    const position = entryPosition(location, angle, frame.altitude_m)
+    const intensity = plasmaIntensity(frame.dynamic_pressure_Pa)
+    const bodyScale = Math.max(0.35, Math.cbrt(initialMass > 0 ? frame.mass_kg / initialMass : 1))
+    const finished = time >= flashTime
+    const fragmented = breakupTime !== null && time >= breakupTime
+
+    // Estela: posiciones de los últimos segundos
+    const trail = useMemo(() => {
+        const points: Vec3[] = []
+        const start = Math.max(0, Math.min(time, flashTime) - TRAIL_SECONDS)
+        for (let i = 0; i <= 12; i++) {
+            const t = start + ((Math.min(time, flashTime) - start) * i) / 12
+            points.push(entryPosition(location, angle, frameAt(trajectory, t).altitude_m))
+        }
+        return points
+    }, [trajectory, location, angle, time, flashTime])
+
+    // Fragmentos separándose del eje desde la ruptura
+    const fragmentOffset = fragmented
+        ? fragmentSpread(frame, time - (breakupTime ?? time), bodyDensity) * (ENTRY_EXAGGERATION / EARTH_RADIUS_M) * FRAGMENT_VISUAL_SCALE
+        + METEOROID_SIZE * 1.5
+        : 0
+
+    // Destello: crece y se desvanece durante FLASH_DURATION_S
+    const flashProgress = (time - flashTime) / FLASH_DURATION_S
+    const flashPosition = entryPosition(location, angle, flashAltitude)
+    const flashColor = mode === 'airburst' ? '#e0f2fe' : '#fde68a'
+
+    return (
+        <>
+            <ambientLight intensity={0.35} />
+            <directionalLight position={[5, 3, 5]} intensity={1.2} />
+            <OrbitControls makeDefault target={middle} enablePan={false} minDistance={0.3} maxDistance={6} />
+
+            {/* Tierra con una malla de paralelos y meridianos */}
+            <mesh>
+                <sphereGeometry args={[1, 64, 64]} />
+                <meshStandardMaterial color="#1e3a8a" roughness={0.9} />
+            </mesh>
+            <mesh>
+                <sphereGeometry args={[1.001, 36, 18]} />
+                <meshBasicMaterial color="#60a5fa" wireframe transparent opacity={0.15} />
+            </mesh>
+
+            {/* Límite de la atmósfera simulada (120 km, exagerado) */}
+            <mesh>
+                <sphereGeometry args={[1 + (ENTRY_START_ALTITUDE_M * ENTRY_EXAGGERATION) / EARTH_RADIUS_M, 64, 64]} />
+                <meshBasicMaterial color="#38bdf8" transparent opacity={0.06} side={THREE.BackSide} />
+            </mesh>
+
+            {/* Trayectoria prevista y punto de impacto */}
+            <Line points={[pathStart, impactPoint]} color="#94a3b8" lineWidth={1} dashed dashSize={0.02} gapSize={0.015} />
+            <mesh position={impactPoint}>
+                <sphereGeometry args={[0.006, 16, 16]} />
+                <meshBasicMaterial color="#ef4444" />
+            </mesh>
+
+            {/* Estela de plasma */}
+            {!finished && intensity > 0 && (
+                <Line points={trail} color="#f97316" lineWidth={2 + 4 * intensity} transparent opacity={0.3 + 0.6 * intensity} />
+            )}
+
+            {/* Meteorito entero, o fragmentos tras la ruptura */}
+            {!finished && !fragmented && (
+                <group position={position}>
+                    <mesh geometry={geometry} scale={bodyScale * METEOROID_SIZE}>
+                        <meshStandardMaterial
+                            key={material}
+                            vertexColors
+                            metalness={surface.metalness}
+                            roughness={surface.roughness}
+                            flatShading={surface.flatShading}
+                            emissive="#f97316"
+                            emissiveIntensity={intensity}
+                        />
+                    </mesh>
+                    {intensity > 0 && (
+                        <mesh scale={bodyScale * (1.6 + intensity)}>
+                            <sphereGeometry args={[METEOROID_SIZE, 24, 24]} />
+                            <meshBasicMaterial color="#fb923c" transparent opacity={0.35 * intensity} blending={THREE.AdditiveBlending} depthWrite={false} />
+                        </mesh>
+                    )}
+                </group>
+            )}
+            {!finished && fragmented && directions.map((direction, i) => (
+                <mesh
+                    key={i}
+                    position={new THREE.Vector3(...position).addScaledVector(direction, fragmentOffset)}
+                    scale={bodyScale * 0.5}
+                >
+                    <sphereGeometry args={[METEOROID_SIZE, 12, 12]} />
+                    <meshStandardMaterial color="#a8a29e" emissive="#f97316" emissiveIntensity={intensity} />
+                </mesh>
+            ))}
+
+            {/* Destello del impacto o de la explosión aérea */}
+            {finished && flashProgress <= 1 && (
+                <mesh position={flashPosition} scale={0.02 + 0.12 * flashProgress}>
+                    <sphereGeometry args={[1, 32, 32]} />
+                    <meshBasicMaterial color={flashColor} transparent opacity={1 - flashProgress} blending={THREE.AdditiveBlending} depthWrite={false} />
+                </mesh>
+            )}
+        </>
+    )
+}
+
+export default EntryScene
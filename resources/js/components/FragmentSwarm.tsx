@@ -0,0 +1,52 @@
+// FragmentSwarm.tsx - Enjambre de fragmentos de un asteroide disgregado, visto en el plano B
+// Cada punto es un fragmento (área proporcional a su masa); los rojos siguen en trayectoria de impacto
+
+import type { Fragment } from '../lib/fragmentation'
+import { EARTH_RADIUS_KM } from '../lib/physicalConstants'
+
+// Tamaño de la gráfica
+const SIZE = 260
+const MARGIN = 12
+
+/**
+ * Props del componente
+ */
+interface FragmentSwarmProps {
+    fragments: Fragment[]
+}
+
+const formatKm = (km: number) => km >= 1e5 ? `${(km / 1e6).toFixed(2)} million km` : `${Math.round(km).toLocaleString()} km`
+
+/**
+ * Fragmentos y Tierra a escala en el plano B
+ */
+const FragmentSwarm: React.FC<FragmentSwarmProps> = ({ fragments }) => {
+    // Escala para que quepan la Tierra y todo el enjambre
+    const extent = Math.max(EARTH_RADIUS_KM * 1.5, ...fragments.map(fragment => Math.hypot(...fragment.position_km))) * 1.1
+    const scale = (SIZE / 2 - MARGIN) / extent
+    const center = SIZE / 2
+    const largest = Math.max(...fragments.map(fragment => fragment.mass_fraction))
+
+    return (
+        <div className="flex flex-col items-center gap-2">
+            <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-xs h-auto bg-slate-900 rounded-lg" role="img" aria-label="Fragment swarm in the B-plane">
+                <circle cx={center} cy={center} r={Math.max(EARTH_RADIUS_KM * scale, 2)} fill="#2563eb" fillOpacity={0.5} stroke="#60a5fa" />
+                {fragments.map((fragment, i) => (
+                    <circle
+                        key={i}
+                        cx={center + fragment.position_km[0] * scale}
+                        cy={center - fragment.position_km[1] * scale}
+                        r={Math.max(Math.sqrt(fragment.mass_fraction / largest) * 6, 1.2)}
+                        fill={fragment.onImpactPath ? '#ef4444' : '#cbd5e1'}
+                        fillOpacity={0.85}
+                    />
+                ))}
+            </svg>
+            <p className="text-xs text-slate-500">
+                View across ±{formatKm(extent)}. Blue disk: Earth. Red: fragments still on an impact path.
+            </p>
+        </div>
+    )
+}
+
+export default FragmentSwarm
@@ -1,9 +1,17 @@
 // ImpactAnalysis.tsx - Análisis inteligente post-simulación con Gemini AI
 // Muestra análisis detallado del impacto, comparaciones históricas y DEFLECTION STRATEGIES
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import ReactMarkdown from 'react-markdown'
+import CampaignBuilder from './CampaignBuilder'
+import FragmentSwarm from './FragmentSwarm'
+import MissionPlanner from './MissionPlanner'
+import SpacecraftConfigPanel from './SpacecraftConfigPanel'
+import { useMeteroidContext } from '../context/MeteroidContext'
+import { assessFragmentation, depositedEnergy } from '../lib/fragmentation'
+import { DEFLECTION_STRATEGIES, defaultSpacecraft, kineticImpactorOf, validateSpacecraft } from '../lib/spacecraftConfig'
+import type { DeflectionStrategy, SpacecraftConfig } from '../lib/spacecraftConfig'
 
 interface ImpactAnalysisProps {
     impactData: any
@@ -24,6 +32,34 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
     const [leadTime, setLeadTime] = useState(5)
     const [showComparison, setShowComparison] = useState(false)
     const [comparisonResults, setComparisonResults] = useState<any>(null)
+    const { setDeflection } = useMeteroidContext()
+
+    // Naves editables: el mismo diámetro por defecto que usa el servidor
+    const asteroidDiameter = impactData?.calculations?.diameter_m ?? 50
+    const [spacecraft, setSpacecraft] = useState<SpacecraftConfig>(() => defaultSpacecraft(asteroidDiameter))
+    const [configStrategy, setConfigStrategy] = useState<DeflectionStrategy>('kinetic')
+    // Configuración con la que se calcularon los resultados que se muestran
+    const [resultsSpacecraft, setResultsSpacecraft] = useState<SpacecraftConfig | null>(null)
+    const validation = useMemo(() => validateSpacecraft(spacecraft, asteroidDiameter), [spacecraft, asteroidDiameter])
+    const resultsOutdated = resultsSpacecraft !== null && resultsSpacecraft !== spacecraft && (deflectionResult || comparisonResults)
+
+    // ¿Sobrevive el asteroide a la energía del impactador o de la explosión?
+    const assessStrategy = (strategy: string, config: SpacecraftConfig, deltaV_ms: number) => {
+        const energy = depositedEnergy(strategy as DeflectionStrategy, config)
+        const body = impactData?.calculations
+        return energy !== null && body?.mass_kg > 0 ? assessFragmentation(body, energy, deltaV_ms) : null
+    }
+    // Avisos de las tarjetas con la nave que se está diseñando; los resultados usan la nave con la que se calcularon
+    const fragmentationRisk = Object.fromEntries(DEFLECTION_STRATEGIES.map(strategy => [strategy, assessStrategy(strategy, spacecraft, 0)?.disrupted ?? false]))
+    const resultFragmentation = deflectionResult && selectedStrategy && resultsSpacecraft
+        ? assessStrategy(selectedStrategy, resultsSpacecraft, deflectionResult.deltaV_ms)
+        : null
+    const comparisonFragmentation = comparisonResults && resultsSpacecraft
+        ? Object.fromEntries(Object.entries(comparisonResults.comparisons).map(([strategy, result]) => [
+            strategy,
+            assessStrategy(strategy, resultsSpacecraft, (result as { deltaV_ms: number }).deltaV_ms),
+        ]))
+        : {}
 
     useEffect(() => {
         if (impactData) {
@@ -31,6 +67,16 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
         }
     }, [impactData])
 
+    // El mapa muestra el resultado de la estrategia simulada: impacto desplazado o paso de largo
+    useEffect(() => {
+        setDeflection(deflectionResult && selectedStrategy ? {
+            strategy: selectedStrategy,
+            miss_distance_km: deflectionResult.miss_distance_km,
+            miss_earth_radii: deflectionResult.miss_distance_earth_radii,
+            earth_saved: deflectionResult.earth_saved,
+        } : null)
+    }, [deflectionResult, selectedStrategy, setDeflection])
+
     const fetchAnalysis = async () => {
         setLoading(true)
         setError(null)
@@ -68,9 +114,11 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
         }
     }
 
-    const simulateDefense = async (strategy: string) => {
+    const simulateDefense = async (strategy: DeflectionStrategy) => {
+        if (!validation.valid) return
         setSimulatingDefense(true)
         setSelectedStrategy(strategy)
+        setConfigStrategy(strategy)
         setDeflectionResult(null)
         setShowComparison(false)
         
@@ -85,7 +133,8 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
                 body: JSON.stringify({
                     impactData: impactData,
                     strategy: strategy,
-                    leadTime: leadTime
+                    leadTime: leadTime,
+                    spacecraft: spacecraft
                 })
             })
 
@@ -93,6 +142,7 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
 
             if (data.success) {
                 setDeflectionResult(data.results)
+                setResultsSpacecraft(spacecraft)
             }
         } catch (err: any) {
             console.error('Error simulating defense:', err)
@@ -102,6 +152,7 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
     }
 
     const compareAllStrategies = async () => {
+        if (!validation.valid) return
         setSimulatingDefense(true)
         setShowComparison(true)
         setDeflectionResult(null)
@@ -116,7 +167,8 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
                 },
                 body: JSON.stringify({
                     impactData: impactData,
-                    leadTime: leadTime
+                    leadTime: leadTime,
+                    spacecraft: spacecraft
                 })
             })
 
@@ -124,6 +176,7 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
 
             if (data.success) {
                 setComparisonResults(data)
+                setResultsSpacecraft(spacecraft)
             }
         } catch (err: any) {
             console.error('Error comparing strategies:', err)
@@ -406,29 +459,70 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
 
                                         {/* Strategy Cards - Diseño Profesional */}
                                         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                                            {['kinetic', 'gravity-tractor', 'nuclear', 'laser'].map((strategy) => (
+                                            {(['kinetic', 'gravity-tractor', 'nuclear', 'laser'] as DeflectionStrategy[]).map((strategy) => (
                                                 <button
                                                     key={strategy}
                                                     onClick={() => simulateDefense(strategy)}
-                                                    disabled={simulatingDefense}
+                                                    disabled={simulatingDefense || !validation.valid}
                                                     className={`p-5 rounded-lg border-2 transition-all ${
                                                         selectedStrategy === strategy
                                                             ? 'border-green-600 bg-green-50 shadow-sm'
                                                             : 'border-slate-200 bg-white hover:border-green-300 hover:bg-green-50'
-                                                    } ${simulatingDefense ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-md'}`}
+                                                    } ${simulatingDefense || !validation.valid ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-md'}`}
                                                 >
                                                     <div className="text-slate-700 mb-3 flex justify-center">{getStrategyIcon(strategy)}</div>
                                                     <div className="font-semibold text-slate-900 text-xs text-center">
                                                         {getStrategyName(strategy)}
                                                     </div>
+                                                    {fragmentationRisk[strategy] && (
+                                                        <div className="mt-2 text-[10px] font-bold text-red-600 uppercase tracking-wide text-center">
+                                                            Fragmentation risk
+                                                        </div>
+                                                    )}
                                                 </button>
                                             ))}
                                         </div>
 
+                                        {/* Parámetros de la nave de cada estrategia */}
+                                        <SpacecraftConfigPanel
+                                            strategy={configStrategy}
+                                            getStrategyName={getStrategyName}
+                                            config={spacecraft}
+                                            errors={validation.errors}
+                                            onStrategyChange={setConfigStrategy}
+                                            onChange={setSpacecraft}
+                                            onReset={() => setSpacecraft({
+                                                ...spacecraft,
+                                                [configStrategy]: defaultSpacecraft(asteroidDiameter)[configStrategy],
+                                            })}
+                                        />
+
+                                        {!validation.valid && (
+                                            <p className="text-sm text-red-600 font-medium">
+                                                Fix the highlighted spacecraft parameters to run the simulation.
+                                            </p>
+                                        )}
+
+                                        {/* Los resultados se calcularon con otra nave */}
+                                        {resultsOutdated && !simulatingDefense && (
+                                            <div className="bg-amber-50 border border-amber-300 rounded-lg p-3 flex items-center justify-between gap-3">
+                                                <p className="text-amber-800 text-sm">
+                                                    The spacecraft design changed since these results were calculated.
+                                                </p>
+                                                <button
+                                                    onClick={() => showComparison ? compareAllStrategies() : selectedStrategy && simulateDefense(selectedStrategy as DeflectionStrategy)}
+                                                    disabled={!validation.valid}
+                                                    className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 rounded-lg text-white text-xs font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                                                >
+                                                    Recalculate
+                                                </button>
+                                            </div>
+                                        )}
+
                                         {/* Compare Button - Diseño Profesional */}
                                         <button
                                             onClick={compareAllStrategies}
-                                            disabled={simulatingDefense}
+                                            disabled={simulatingDefense || !validation.valid}
                                             className="w-full py-3.5 bg-slate-900 hover:bg-slate-800 rounded-lg font-semibold text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md flex items-center justify-center gap-2"
                                         >
                                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -525,6 +619,37 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
                                                     </div>
                                                 </div>
 
+                                                {/* Riesgo de fragmentación de las estrategias disruptivas */}
+                                                {resultFragmentation && (
+                                                    <div className={`rounded-lg p-4 mb-4 border shadow-sm ${resultFragmentation.disrupted ? 'bg-red-50 border-red-300' : 'bg-white border-slate-200'}`}>
+                                                        <p className="text-slate-900 text-xs font-bold uppercase tracking-wide mb-2">Fragmentation Risk</p>
+                                                        <p className="text-slate-700 text-sm">
+                                                            Deposited energy {resultFragmentation.specificEnergy_J_kg.toPrecision(3)} J/kg against a disruption
+                                                            threshold (Q*<sub>D</sub>) of {resultFragmentation.threshold_J_kg.toPrecision(3)} J/kg
+                                                            ({(resultFragmentation.ratio * 100).toPrecision(3)}%).
+                                                        </p>
+                                                        {resultFragmentation.disrupted ? (
+                                                            <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+                                                                <div className="space-y-2 text-sm">
+                                                                    <p className="text-red-800 font-semibold">
+                                                                        The asteroid breaks apart into a swarm of fragments.
+                                                                    </p>
+                                                                    <p className="text-slate-700">
+                                                                        Largest fragment: <strong>{(resultFragmentation.largestRemnantFraction * 100).toPrecision(2)}%</strong> of the mass.
+                                                                        Fragments spread at about {resultFragmentation.dispersalVelocity_ms.toFixed(1)} m/s.
+                                                                    </p>
+                                                                    <p className={resultFragmentation.impactingMassFraction > 0 ? 'text-red-700 font-bold' : 'text-green-700 font-bold'}>
+                                                                        {(resultFragmentation.impactingMassFraction * 100).toPrecision(3)}% of the mass is still on an Earth-impacting path
+                                                                    </p>
+                                                                </div>
+                                                                <FragmentSwarm fragments={resultFragmentation.fragments} />
+                                                            </div>
+                                                        ) : (
+                                                            <p className="text-green-700 text-sm font-medium mt-1">The asteroid survives the {selectedStrategy === 'nuclear' ? 'blast' : 'impact'} in one piece.</p>
+                                                        )}
+                                                    </div>
+                                                )}
+
                                                 <div className="bg-white rounded-lg p-4 space-y-2 border border-slate-200 shadow-sm">
                                                     <p className="text-slate-900 text-xs font-bold uppercase tracking-wide">Mission Details</p>
                                                     <p className="text-slate-700 text-sm">{deflectionResult.description}</p>
@@ -624,6 +749,11 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
                                                                         {(result.success_probability * 100).toFixed(0)}%
                                                                     </span>
                                                                 </div>
+                                                                {comparisonFragmentation[strategy]?.disrupted && (
+                                                                    <p className="text-red-600 font-bold pt-1">
+                                                                        Breaks apart: {(comparisonFragmentation[strategy].impactingMassFraction * 100).toPrecision(2)}% of the mass still on an impact path
+                                                                    </p>
+                                                                )}
                                                             </div>
                                                         </div>
                                                     ))}
@@ -643,6 +773,28 @@ const ImpactAnalysis: React.FC<ImpactAnalysisProps> = ({ impactData, onClose })
                                                 </button>
                                             </motion.div>
                                         )}
+
+                                        {/* Campaña con varias misiones encadenadas */}
+                                        <CampaignBuilder
+                                            impactData={impactData}
+                                            leadTime={leadTime}
+                                            spacecraft={spacecraft}
+                                            disabled={!validation.valid}
+                                            getStrategyName={getStrategyName}
+                                        />
+
+                                        {/* Planificador con mecánica orbital: usa el Δv de la estrategia elegida */}
+                                        {impactData?.calculations?.mass_kg > 0 && impactData?.calculations?.velocity_ms > 0 && (
+                                            <MissionPlanner
+                                                key={`${selectedStrategy ?? 'kinetic'}-${deflectionResult?.deltaV_ms ?? Object.values(spacecraft.kinetic).join('/')}`}
+                                                mass_kg={impactData.calculations.mass_kg}
+                                                impactVelocity_ms={impactData.calculations.velocity_ms}
+                                                leadTimeYears={leadTime}
+                                                deltaV_ms={deflectionResult?.deltaV_ms}
+                                                impactor={kineticImpactorOf(spacecraft)}
+                                                strategyName={deflectionResult && selectedStrategy ? getStrategyName(selectedStrategy) : undefined}
+                                            />
+                                        )}
                                     </motion.div>
                                 )}
                             </motion.div>
@@ -0,0 +1,169 @@
+// ImpactGlobe.tsx - Globo 3D con el punto de impacto y las zonas de daño
+// Lee el mismo escenario del contexto que el mapa 2D, para poder alternar entre ambas vistas
+
+import { useEffect, useMemo } from 'react'
+import { Canvas, useThree } from '@react-three/fiber'
+import type { ThreeEvent } from '@react-three/fiber'
+import { Line, OrbitControls } from '@react-three/drei'
+import * as THREE from 'three'
+import { useMeteroidContext } from '../context/MeteroidContext'
+import type { LatLng } from '../context/MeteroidContext'
+import { DAMAGE_ZONE_INFO } from '../lib/damageEffects'
+import type { DamageZone } from '../lib/damageEffects'
+import { isLand } from '../lib/landMask'
+import { latLngFromPoint, surfaceCircle, surfacePoint } from '../lib/globe'
+import type { Vec3 } from '../lib/globe'
+
+// Resolución de la textura de tierra y océano (píxeles por grado × 360 / 180)
+const TEXTURE_WIDTH = 720
+const TEXTURE_HEIGHT = 360
+
+// Distancia de la cámara al centro del globo (radios terrestres)
+const CAMERA_DISTANCE = 3
+
+// Desplazamiento máximo del puntero (px) para considerar un arrastre como clic
+const CLICK_TOLERANCE_PX = 4
+
+/**
+ * Textura equirectangular a partir de la máscara de tierra (sin texturas externas)
+ */
+const createLandTexture = (): THREE.CanvasTexture => {
+    const canvas = document.createElement('canvas')
+    canvas.width = TEXTURE_WIDTH
+    canvas.height = TEXTURE_HEIGHT
+    const ctx = canvas.getContext('2d')!
+    const image = ctx.createImageData(TEXTURE_WIDTH, TEXTURE_HEIGHT)
+    const land = [52, 120, 74]
+    const ocean = [15, 42, 92]
+
+    for (let row = 0; row < TEXTURE_HEIGHT; row++) {
+        const lat = 90 - ((row + 0.5) * 180) / TEXTURE_HEIGHT
+        for (let col = 0; col < TEXTURE_WIDTH; col++) {
+            const lng = ((col + 0.5) * 360) / TEXTURE_WIDTH - 180
+            const [r, g, b] = isLand(lat, lng) ? land : ocean
+            const offset = (row * TEXTURE_WIDTH + col) * 4
+            image.data[offset] = r
+            image.data[offset + 1] = g
+            image.data[offset + 2] = b
+            image.data[offset + 3] = 255
+        }
+    }
+
+    ctx.putImageData(image, 0, 0)
+    const texture = new THREE.CanvasTexture(canvas)
+    texture.colorSpace = THREE.SRGBColorSpace
+    return texture
+}
+
+/**
+ * Props de la escena
+ */
+interface ImpactGlobeSceneProps {
+    location: LatLng
+    craterRadius: number | null     // Radio del cráter (m), null en explosiones aéreas
+    zones: DamageZone[]             // Zonas de daño de la simulación actual
+    onSelect: (location: LatLng) => void
+}
+
+/**
+ * Tierra con el marcador de impacto y un anillo por zona de daño
+ */
+const ImpactGlobeScene: React.FC<ImpactGlobeSceneProps> = ({ location, craterRadius, zones, onSelect }) => {
+    const { camera } = useThree()
+    const texture = useMemo(() => createLandTexture(), [])
+    useEffect(() => () => texture.dispose(), [texture])
+
+    const impactPoint = useMemo(() => surfacePoint(location), [location])
+
+    // Los anillos se calculan solo cuando cambia el escenario
+    const rings = useMemo(() => [
+        ...(craterRadius
+            ? [{ key: 'crater', points: surfaceCircle(location, craterRadius * 2), color: '#a855f7' }]
+            : []),
+        ...zones.map(zone => ({
+            key: zone.id,
+            points: surfaceCircle(location, zone.radius_m),
+            color: DAMAGE_ZONE_INFO[zone.id].color,
+        })),
+    ], [location, craterRadius, zones])
+
+    // Gira la cámara hacia el punto de impacto al cambiar de ubicación
+    useEffect(() => {
+        camera.position.set(...impactPoint).multiplyScalar(CAMERA_DISTANCE)
+    }, [camera, impactPoint])
+
+    // Un clic (no un arrastre para girar el globo) mueve el punto de impacto
+    const handleClick = (event: ThreeEvent<MouseEvent>) => {
+        if (event.delta > CLICK_TOLERANCE_PX) return
+        event.stopPropagation()
+        onSelect(latLngFromPoint(event.point.toArray() as Vec3))
+    }
+
+    return (
+        <>
+            <ambientLight intensity={0.6} />
+            <directionalLight position={[5, 3, 5]} intensity={1} />
+            <OrbitControls makeDefault enablePan={false} minDistance={1.2} maxDistance={6} />
+
+            <mesh onClick={handleClick}>
+                <sphereGeometry args={[1, 96, 96]} />
+                <meshStandardMaterial map={texture} roughness={0.9} />
+            </mesh>
+
+            {/* Paralelos y meridianos cada 10° */}
+            <mesh>
+                <sphereGeometry args={[1.001, 36, 18]} />
+                <meshBasicMaterial color="#93c5fd" wireframe transparent opacity={0.08} />
+            </mesh>
+
+            {rings.map(ring => (
+                <Line key={ring.key} points={ring.points} color={ring.color} lineWidth={2} />
+            ))}
+
+            <mesh position={impactPoint}>
+                <sphereGeometry args={[0.008, 16, 16]} />
+                <meshBasicMaterial color="#ef4444" />
+            </mesh>
+        </>
+    )
+}
+
+/**
+ * Vista 3D del escenario actual; hacer clic en el globo cambia el punto de impacto
+ */
+const ImpactGlobe = () => {
+    const { location, setLocation, isSimulating, craterRadius, damageEffects } = useMeteroidContext()
+
+    return (
+        <div className="relative h-full w-full bg-black">
+            <Canvas camera={{ fov: 45, near: 0.01, far: 100 }}>
+                <ImpactGlobeScene
+                    location={location}
+                    craterRadius={isSimulating ? craterRadius : null}
+                    zones={isSimulating ? damageEffects?.zones ?? [] : []}
+                    onSelect={setLocation}
+                />
+            </Canvas>
+
+            {/* Leyenda de los anillos */}
+            {isSimulating && (craterRadius || (damageEffects?.zones.length ?? 0) > 0) && (
+                <div className="absolute bottom-4 right-4 rounded-lg bg-black/70 p-3 text-white text-xs space-y-1">
+                    {craterRadius ? (
+                        <div className="flex items-center gap-2">
+                            <span className="inline-block h-2 w-4 rounded-sm" style={{ backgroundColor: '#a855f7' }} />
+                            Crater
+                        </div>
+                    ) : null}
+                    {damageEffects?.zones.map(zone => (
+                        <div key={zone.id} className="flex items-center gap-2">
+                            <span className="inline-block h-2 w-4 rounded-sm" style={{ backgroundColor: DAMAGE_ZONE_INFO[zone.id].color }} />
+                            {DAMAGE_ZONE_INFO[zone.id].name}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default ImpactGlobe
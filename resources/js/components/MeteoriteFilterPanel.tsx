@@ -0,0 +1,162 @@
+// MeteoriteFilterPanel.tsx - Filtros y ordenación de la galería de meteoritos
+// Muestra solo los campos que tienen sentido en la pestaña activa
+
+import { DEFAULT_FILTERS, NEO_SORT_KEYS, ORBIT_CLASS_LABELS, USER_SORT_KEYS, hasActiveFilters } from '../lib/meteoriteFilters'
+import type { MeteoriteFilters, MeteoriteSortKey } from '../lib/meteoriteFilters'
+
+// Etiquetas de las columnas de ordenación
+const SORT_LABELS: Record<MeteoriteSortKey, string> = {
+    name: 'Name',
+    diameter: 'Diameter',
+    velocity: 'Velocity',
+    miss_distance: 'Miss distance',
+    approach_date: 'Approach date',
+    magnitude: 'Absolute magnitude',
+    angle: 'Entry angle',
+}
+
+const inputClass = 'w-full bg-black/50 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-white transition'
+
+/**
+ * Props del componente
+ */
+interface MeteoriteFilterPanelProps {
+    filters: MeteoriteFilters
+    onChange: (filters: MeteoriteFilters) => void
+    kind: 'nasa' | 'saved' | 'threat'   // La vista de amenaza tiene su propia ordenación
+    orbitClasses: string[]              // Tipos de órbita presentes en el catálogo
+}
+
+/**
+ * Campo numérico opcional: vacío = sin límite
+ */
+const NumberInput = ({ value, onChange, placeholder }: { value: number | null, onChange: (value: number | null) => void, placeholder: string }) => (
+    <input
+        type="number"
+        min={0}
+        step="any"
+        value={value ?? ''}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value === '' || !Number.isFinite(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
+        className={inputClass}
+    />
+)
+
+/**
+ * Panel de filtros por diámetro, peligrosidad, fechas de aproximación, velocidad, órbita y material
+ */
+const MeteoriteFilterPanel: React.FC<MeteoriteFilterPanelProps> = ({ filters, onChange, kind, orbitClasses }) => {
+    const update = (changes: Partial<MeteoriteFilters>) => onChange({ ...filters, ...changes })
+    const isNasa = kind !== 'saved'
+    const sortKeys = isNasa ? NEO_SORT_KEYS : USER_SORT_KEYS
+
+    return (
+        <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-4 mb-6 text-sm">
+            <label className="space-y-1 text-gray-400">
+                <span>Diameter (m)</span>
+                <div className="flex gap-2">
+                    <NumberInput value={filters.diameterMin} onChange={(diameterMin) => update({ diameterMin })} placeholder="Min" />
+                    <NumberInput value={filters.diameterMax} onChange={(diameterMax) => update({ diameterMax })} placeholder="Max" />
+                </div>
+            </label>
+
+            <label className="space-y-1 text-gray-400">
+                <span>Velocity (km/s)</span>
+                <div className="flex gap-2">
+                    <NumberInput value={filters.velocityMin} onChange={(velocityMin) => update({ velocityMin })} placeholder="Min" />
+                    <NumberInput value={filters.velocityMax} onChange={(velocityMax) => update({ velocityMax })} placeholder="Max" />
+                </div>
+            </label>
+
+            {isNasa ? (
+                <>
+                    <label className="space-y-1 text-gray-400">
+                        <span>Earth approach between</span>
+                        <div className="flex gap-2">
+                            <input type="date" value={filters.approachFrom} onChange={(e) => update({ approachFrom: e.target.value })} className={inputClass} />
+                            <input type="date" value={filters.approachTo} onChange={(e) => update({ approachTo: e.target.value })} className={inputClass} />
+                        </div>
+                    </label>
+
+                    <label className="space-y-1 text-gray-400">
+                        <span>Hazardous</span>
+                        <select
+                            value={filters.hazardous}
+                            onChange={(e) => update({ hazardous: e.target.value as MeteoriteFilters['hazardous'] })}
+                            className={inputClass}
+                        >
+                            <option value="any">Any</option>
+                            <option value="yes">Potentially hazardous</option>
+                            <option value="no">Not hazardous</option>
+                        </select>
+                    </label>
+
+                    <label className="space-y-1 text-gray-400">
+                        <span>Orbit class</span>
+                        <select value={filters.orbitClass} onChange={(e) => update({ orbitClass: e.target.value })} className={inputClass}>
+                            <option value="">Any</option>
+                            {/* La clase de la URL se mantiene aunque aún no haya objetos cargados de ese tipo */}
+                            {[...new Set([...orbitClasses, filters.orbitClass].filter(Boolean))].map(type => (
+                                <option key={type} value={type}>{ORBIT_CLASS_LABELS[type] ?? type}</option>
+                            ))}
+                        </select>
+                    </label>
+                </>
+            ) : (
+                <label className="space-y-1 text-gray-400">
+                    <span>Material</span>
+                    <select
+                        value={filters.material}
+                        onChange={(e) => update({ material: e.target.value as MeteoriteFilters['material'] })}
+                        className={inputClass}
+                    >
+                        <option value="">Any</option>
+                        <option value="rock">Rock</option>
+                        <option value="iron">Iron</option>
+                        <option value="nickel">Nickel</option>
+                    </select>
+                </label>
+            )}
+
+            {kind !== 'threat' && (
+                <label className="space-y-1 text-gray-400">
+                    <span>Sort by</span>
+                    <div className="flex gap-2">
+                        <select
+                            value={sortKeys.includes(filters.sort) ? filters.sort : 'name'}
+                            onChange={(e) => update({ sort: e.target.value as MeteoriteSortKey })}
+                            className={inputClass}
+                        >
+                            {sortKeys.map(key => (
+                                <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={() => update({ direction: filters.direction === 'asc' ? 'desc' : 'asc' })}
+                            className="px-3 bg-gray-800 hover:bg-gray-700 rounded-lg text-white transition"
+                            aria-label={filters.direction === 'asc' ? 'Ascending' : 'Descending'}
+                            title={filters.direction === 'asc' ? 'Ascending' : 'Descending'}
+                        >
+                            {filters.direction === 'asc' ? '↑' : '↓'}
+                        </button>
+                    </div>
+                </label>
+            )}
+
+            {hasActiveFilters(filters) && (
+                <div className="flex items-end">
+                    <button
+                        type="button"
+                        onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort, direction: filters.direction })}
+                        className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-gray-300 transition"
+                    >
+                        Clear filters
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default MeteoriteFilterPanel
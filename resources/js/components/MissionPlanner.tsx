@@ -0,0 +1,153 @@
+// MissionPlanner.tsx - Planificador de la misión de desviación con mecánica orbital
+// Propaga la órbita de impacto con el Δv aplicado en la fecha de intercepción y muestra
+// cómo cambia la distancia de paso en el plano B al mover esa fecha
+
+import { useMemo, useState } from 'react'
+import { DART_IMPACTOR, deflectionCurve, impactorOrbit, kineticImpactorDeltaV, planDeflection } from '../lib/missionPlanner'
+import type { KineticImpactor } from '../lib/missionPlanner'
+import { formatJulianDate, julianDateFromMs } from '../lib/orbit'
+
+// Dimensiones de la gráfica
+const WIDTH = 560
+const HEIGHT = 180
+const PADDING = 32
+
+
+/**
+ * Props del componente
+ */
+interface MissionPlannerProps {
+    mass_kg: number
+    impactVelocity_ms: number
+    leadTimeYears: number       // Años entre la detección (hoy) y el impacto
+    deltaV_ms?: number          // Δv de la estrategia elegida; sin ella, el del impactador cinético
+    impactor?: KineticImpactor  // Impactador cinético diseñado (DART por defecto)
+    strategyName?: string
+}
+
+/**
+ * Fecha de intercepción arrastrable, distancia de paso resultante y su curva frente a la fecha
+ */
+const MissionPlanner: React.FC<MissionPlannerProps> = ({ mass_kg, impactVelocity_ms, leadTimeYears, deltaV_ms, impactor: spacecraft = DART_IMPACTOR, strategyName }) => {
+    const today = useMemo(() => julianDateFromMs(Date.now()), [])
+    const impact_jd = today + leadTimeYears * 365.25
+    const [deltaV_cms, setDeltaV_cms] = useState(() => Number(((deltaV_ms ?? kineticImpactorDeltaV(mass_kg, spacecraft)) * 100).toPrecision(4)))
+    // Días de antelación de la intercepción (se conservan si cambia la fecha de impacto)
+    const [lead_days, setLeadDays] = useState(() => Math.round(leadTimeYears * 365.25))
+
+    const impactor = useMemo(() => impactorOrbit(impactVelocity_ms, impact_jd), [impactVelocity_ms, impact_jd])
+    const deltaV = Number.isFinite(deltaV_cms) ? deltaV_cms / 100 : 0
+    const intercept_jd = impact_jd - Math.min(Math.max(lead_days, 1), impact_jd - today)
+    const outcome = useMemo(() => impactor ? planDeflection(impactor, deltaV, intercept_jd) : null, [impactor, deltaV, intercept_jd])
+    const curve = useMemo(() => impactor ? deflectionCurve(impactor, deltaV, today) : [], [impactor, deltaV, today])
+
+    if (!impactor) {
+        return (
+            <p className="text-sm text-slate-600">
+                At {(impactVelocity_ms / 1000).toFixed(1)} km/s the impactor would not be on a bound orbit around the Sun,
+                so there is no orbit to deflect.
+            </p>
+        )
+    }
+
+    // Escala logarítmica: la distancia de paso va de metros a miles de radios terrestres
+    const values = curve.map(point => Math.max(point.miss_earth_radii, 1e-3))
+    const logMin = Math.floor(Math.log10(Math.min(...values, outcome?.capture_earth_radii ?? 1)))
+    const logMax = Math.ceil(Math.log10(Math.max(...values, outcome?.capture_earth_radii ?? 1) * 1.01))
+    const x = (jd: number) => PADDING + ((jd - today) / (impact_jd - 1 - today)) * (WIDTH - 2 * PADDING)
+    const y = (radii: number) => HEIGHT - PADDING - ((Math.log10(Math.max(radii, 1e-3)) - logMin) / Math.max(logMax - logMin, 1)) * (HEIGHT - 2 * PADDING)
+
+    return (
+        <div className="bg-slate-50 rounded-lg p-5 border border-slate-200 space-y-4">
+            <div>
+                <h4 className="text-slate-900 font-semibold">Mission Planner</h4>
+                <p className="text-slate-500 text-xs mt-0.5">
+                    Along-track Δv applied on the intercept date, orbit propagated around the Sun until the encounter.
+                    Miss distance is measured in the B-plane.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <label className="space-y-1">
+                    <span className="text-slate-700 font-medium">Δv {strategyName ? `(${strategyName})` : `(${spacecraft.mass_kg} kg kinetic impactor)`}</span>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={Number.isFinite(deltaV_cms) ? deltaV_cms : ''}
+                            onChange={(e) => setDeltaV_cms(e.target.valueAsNumber)}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white"
+                        />
+                        <span className="text-slate-500">cm/s</span>
+                    </div>
+                </label>
+                <label className="space-y-1">
+                    <span className="text-slate-700 font-medium">
+                        Intercept on <span className="text-green-600">{formatJulianDate(intercept_jd)}</span> ({((impact_jd - intercept_jd) / 365.25).toFixed(2)} years before impact)
+                    </span>
+                    <input
+                        type="range"
+                        min={today}
+                        max={impact_jd - 1}
+                        step={1}
+                        value={intercept_jd}
+                        onChange={(e) => setLeadDays(impact_jd - Number(e.target.value))}
+                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-green-600"
+                        aria-label="Intercept date"
+                    />
+                </label>
+            </div>
+
+            {outcome && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                    <div className={`rounded-lg p-3 border ${outcome.hit ? 'bg-red-50 border-red-300' : 'bg-green-50 border-green-300'}`}>
+                        <div className="text-xs text-slate-500">B-plane miss distance</div>
+                        <div className={`text-lg font-bold ${outcome.hit ? 'text-red-700' : 'text-green-700'}`}>
+                            {outcome.miss_earth_radii < 0.01 ? outcome.miss_earth_radii.toExponential(1) : outcome.miss_earth_radii.toFixed(2)} R⊕
+                        </div>
+                    </div>
+                    <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                        <div className="text-xs text-slate-500">Capture radius</div>
+                        <div className="text-lg font-bold text-slate-900">{outcome.capture_earth_radii.toFixed(2)} R⊕</div>
+                    </div>
+                    <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                        <div className="text-xs text-slate-500">Miss distance</div>
+                        <div className="text-lg font-bold text-slate-900">{Math.round(outcome.miss_km).toLocaleString()} km</div>
+                    </div>
+                    <div className="rounded-lg p-3 border border-slate-200 bg-white">
+                        <div className="text-xs text-slate-500">Arrival time shift</div>
+                        <div className="text-lg font-bold text-slate-900">{Math.abs(outcome.arrivalShift_s).toFixed(1)} s {outcome.arrivalShift_s >= 0 ? 'early' : 'late'}</div>
+                    </div>
+                </div>
+            )}
+
+            {/* Distancia de paso frente a la fecha de intercepción */}
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white rounded-lg border border-slate-200" role="img" aria-label="Miss distance against intercept date">
+                {Array.from({ length: logMax - logMin + 1 }, (_, i) => logMin + i).map(power => (
+                    <g key={power}>
+                        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(10 ** power)} y2={y(10 ** power)} stroke="#e2e8f0" />
+                        <text x={PADDING - 4} y={y(10 ** power) + 3} textAnchor="end" fontSize="9" fill="#64748b">{`1e${power}`}</text>
+                    </g>
+                ))}
+                {outcome && (
+                    <line x1={PADDING} x2={WIDTH - PADDING} y1={y(outcome.capture_earth_radii)} y2={y(outcome.capture_earth_radii)} stroke="#dc2626" strokeDasharray="4 3" />
+                )}
+                <polyline
+                    points={curve.map(point => `${x(point.intercept_jd)},${y(point.miss_earth_radii)}`).join(' ')}
+                    fill="none"
+                    stroke="#16a34a"
+                    strokeWidth={2}
+                />
+                {outcome && <circle cx={x(intercept_jd)} cy={y(outcome.miss_earth_radii)} r={4} fill="#0f172a" />}
+                <text x={PADDING} y={HEIGHT - 8} fontSize="9" fill="#64748b">{formatJulianDate(today)}</text>
+                <text x={WIDTH - PADDING} y={HEIGHT - 8} textAnchor="end" fontSize="9" fill="#64748b">{formatJulianDate(impact_jd)} (impact)</text>
+            </svg>
+            <p className="text-xs text-slate-500">
+                Earth radii on a log scale. Above the dashed red line (Earth's cross-section enlarged by its gravity) the asteroid misses.
+            </p>
+        </div>
+    )
+}
+
+export default MissionPlanner
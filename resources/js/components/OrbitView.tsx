@@ -0,0 +1,106 @@
+// OrbitView.tsx - Vista cenital del sistema solar interior con la órbita de un asteroide
+// Proyección sobre la eclíptica: el tramo bajo la eclíptica se dibuja discontinuo
+
+import { EARTH_ELEMENTS, orbitPath, positionAt } from '../lib/orbit'
+import type { ApproachMarker, HelioPosition, OrbitalElements } from '../lib/orbit'
+
+// Dimensiones del SVG (cuadrado, el Sol en el centro)
+const SIZE = 480
+const MARGIN = 16
+
+// Límites de la escala: siempre cabe la órbita terrestre y no se aleja más allá del cinturón
+const MIN_EXTENT_AU = 1.3
+const MAX_EXTENT_AU = 5
+
+/**
+ * Props del componente
+ */
+interface OrbitViewProps {
+    elements: OrbitalElements       // Órbita del asteroide
+    approaches: ApproachMarker[]    // Aproximaciones a la Tierra
+    jd: number                      // Instante en el que se dibujan la Tierra y el asteroide
+    onSelectApproach?: (approach: ApproachMarker) => void
+}
+
+/**
+ * Trozos de la órbita por encima y por debajo de la eclíptica
+ */
+const splitByEcliptic = (path: HelioPosition[]) => {
+    const pieces: { above: boolean, points: HelioPosition[] }[] = []
+    for (const point of path) {
+        const above = point[2] >= 0
+        const last = pieces[pieces.length - 1]
+        if (last && last.above === above) {
+            last.points.push(point)
+        } else {
+            // El primer punto repite el último del trozo anterior para que no quede hueco
+            pieces.push({ above, points: last ? [last.points[last.points.length - 1], point] : [point] })
+        }
+    }
+    return pieces
+}
+
+/**
+ * Sol, órbita terrestre, órbita del asteroide, aproximaciones y posiciones en la fecha elegida
+ */
+const OrbitView: React.FC<OrbitViewProps> = ({ elements, approaches, jd, onSelectApproach }) => {
+    const aphelion = elements.a_au * (1 + elements.e)
+    const extent = Math.min(MAX_EXTENT_AU, Math.max(MIN_EXTENT_AU, aphelion * 1.08))
+    const scale = (SIZE / 2 - MARGIN) / extent
+    const x = (point: HelioPosition) => SIZE / 2 + point[0] * scale
+    const y = (point: HelioPosition) => SIZE / 2 - point[1] * scale
+    const polyline = (points: HelioPosition[]) => points.map(point => `${x(point)},${y(point)}`).join(' ')
+
+    const earthPath = orbitPath(EARTH_ELEMENTS, 128)
+    const pieces = splitByEcliptic(orbitPath(elements))
+    const earth = positionAt(EARTH_ELEMENTS, jd)
+    const asteroid = positionAt(elements, jd)
+
+    return (
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto bg-slate-950 rounded-lg" role="img" aria-label="Orbit of the asteroid and of Earth seen from above the ecliptic">
+            {/* Anillos de referencia cada 1 AU */}
+            {Array.from({ length: Math.floor(extent) }, (_, i) => i + 1).map(radius => (
+                <circle key={radius} cx={SIZE / 2} cy={SIZE / 2} r={radius * scale} fill="none" stroke="#1e293b" strokeDasharray="2 4" />
+            ))}
+
+            {/* Dirección del punto Aries (x de la eclíptica) */}
+            <text x={SIZE - MARGIN} y={SIZE / 2 - 4} fontSize={9} textAnchor="end" fill="#475569">♈︎</text>
+
+            <polyline points={polyline(earthPath)} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+            {pieces.map((piece, i) => (
+                <polyline
+                    key={i}
+                    points={polyline(piece.points)}
+                    fill="none"
+                    stroke="#f97316"
+                    strokeWidth={1.5}
+                    strokeDasharray={piece.above ? undefined : '4 3'}
+                    opacity={piece.above ? 1 : 0.6}
+                />
+            ))}
+
+            {/* Aproximaciones a la Tierra sobre la órbita */}
+            {approaches.map(approach => (
+                <circle
+                    key={approach.jd}
+                    cx={x(approach.position)}
+                    cy={y(approach.position)}
+                    r={3}
+                    fill="#facc15"
+                    stroke="#0f172a"
+                    className={onSelectApproach ? 'cursor-pointer' : undefined}
+                    onClick={() => onSelectApproach?.(approach)}
+                >
+                    <title>{`${approach.date}: ${approach.miss_distance_au.toFixed(4)} AU at ${approach.velocity_km_s.toFixed(1)} km/s`}</title>
+                </circle>
+            ))}
+
+            {/* Sol y posiciones en la fecha elegida */}
+            <circle cx={SIZE / 2} cy={SIZE / 2} r={6} fill="#fde047" />
+            <circle cx={x(earth)} cy={y(earth)} r={5} fill="#3b82f6" stroke="white" />
+            <circle cx={x(asteroid)} cy={y(asteroid)} r={4} fill="#f97316" stroke="white" />
+        </svg>
+    )
+}
+
+export default OrbitView
@@ -0,0 +1,152 @@
+// OrbitViewer.tsx - Ventana con la órbita de un asteroide de NASA
+// Descarga el NEO completo de getMeteoriteById y propaga su órbita con los elementos de `orbital_data`
+
+import { useMemo, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X } from 'lucide-react'
+import { useNeoDetail } from '../hooks/use-neo-detail'
+import {
+    closeApproachMarkers,
+    formatJulianDate,
+    julianDateFromMs,
+    parseOrbitalData,
+} from '../lib/orbit'
+import OrbitView from './OrbitView'
+
+/**
+ * Props del componente
+ */
+interface OrbitViewerProps {
+    neoId: string       // ID del NEO en NeoWs
+    name: string
+    onClose: () => void
+}
+
+/**
+ * Órbita, aproximaciones a la Tierra y una línea de tiempo para mover los cuerpos
+ */
+const OrbitViewer: React.FC<OrbitViewerProps> = ({ neoId, name, onClose }) => {
+    // Se cancela la petición si se cierra la ventana o cambia el asteroide
+    const { lookup, loading, error } = useNeoDetail(neoId, 'Could not load the orbit of this asteroid')
+    const neo = lookup?.data ?? null
+    const [jd, setJd] = useState(() => julianDateFromMs(Date.now()))
+
+    const elements = useMemo(() => parseOrbitalData(neo?.orbital_data), [neo])
+    const approaches = useMemo(
+        () => elements ? closeApproachMarkers(elements, neo?.close_approach_data ?? []) : [],
+        [elements, neo]
+    )
+
+    // La línea de tiempo cubre todas las aproximaciones conocidas y la fecha actual
+    const today = useMemo(() => julianDateFromMs(Date.now()), [])
+    const range = useMemo(() => ({
+        min: Math.min(today, ...approaches.map(approach => approach.jd)),
+        max: Math.max(today, ...approaches.map(approach => approach.jd)),
+    }), [approaches, today])
+    const nextApproach = approaches.find(approach => approach.jd >= today) ?? null
+    const orbitClass = neo?.orbital_data?.orbit_class
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 50 }}
+                className="fixed inset-0 z-[9999] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+                onClick={onClose}
+            >
+                <motion.div
+                    initial={{ scale: 0.9 }}
+                    animate={{ scale: 1 }}
+                    exit={{ scale: 0.9 }}
+                    className="bg-white border border-slate-200 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto text-black"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <div className="bg-gradient-to-r from-slate-900 to-slate-800 p-6 flex items-center justify-between">
+                        <div>
+                            <h2 className="text-2xl font-bold text-white">Orbit of {name}</h2>
+                            <p className="text-slate-300 text-sm mt-0.5">
+                                {orbitClass
+                                    ? `${orbitClass.orbit_class_type}: ${orbitClass.orbit_class_description}`
+                                    : 'Keplerian orbit from NASA orbital elements'}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 hover:bg-white/10 rounded-lg transition text-slate-300 hover:text-white"
+                            aria-label="Close"
+                        >
+                            <X className="w-6 h-6" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        {loading ? (
+                            <p className="text-sm text-slate-500">Loading orbital elements...</p>
+                        ) : error ? (
+                            <p className="text-sm text-red-600">{error}</p>
+                        ) : !elements ? (
+                            <p className="text-sm text-slate-500">NASA does not provide usable orbital elements for this object.</p>
+                        ) : (
+                            <>
+                                <OrbitView elements={elements} approaches={approaches} jd={jd} onSelectApproach={approach => setJd(approach.jd)} />
+
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-xs text-slate-600">
+                                        <span>{formatJulianDate(range.min)}</span>
+                                        <span className="font-semibold text-slate-800">{formatJulianDate(jd)}</span>
+                                        <span>{formatJulianDate(range.max)}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={range.min}
+                                        max={range.max}
+                                        step={1}
+                                        value={jd}
+                                        onChange={(e) => setJd(Number(e.target.value))}
+                                        className="w-full accent-orange-500"
+                                        aria-label="Date"
+                                    />
+                                </div>
+
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+                                    <span><span className="inline-block h-2 w-4 rounded-sm bg-blue-500 mr-1" />Earth</span>
+                                    <span><span className="inline-block h-2 w-4 rounded-sm bg-orange-500 mr-1" />{name} (dashed below the ecliptic)</span>
+                                    <span><span className="inline-block h-2 w-2 rounded-full bg-yellow-400 mr-1" />Close approaches to Earth ({approaches.length}), click to jump</span>
+                                </div>
+
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                                    <div>
+                                        <div className="text-xs text-slate-500">Semi-major axis</div>
+                                        <div className="font-semibold">{elements.a_au.toFixed(3)} AU</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-xs text-slate-500">Eccentricity</div>
+                                        <div className="font-semibold">{elements.e.toFixed(3)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-xs text-slate-500">Inclination</div>
+                                        <div className="font-semibold">{elements.i_deg.toFixed(2)}°</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-xs text-slate-500">Period</div>
+                                        <div className="font-semibold">{(360 / elements.n_deg_day / 365.25).toFixed(2)} years</div>
+                                    </div>
+                                </div>
+
+                                {nextApproach && (
+                                    <p className="text-sm">
+                                        Next close approach: <strong>{nextApproach.date}</strong>, at {nextApproach.miss_distance_au.toFixed(4)} AU
+                                        ({nextApproach.velocity_km_s.toFixed(1)} km/s relative to Earth).
+                                    </p>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    )
+}
+
+export default OrbitViewer
@@ -0,0 +1,281 @@
+// ParameterSweepExplorer.tsx - Explorador de barridos de parámetros y sensibilidad
+// Repite la simulación de entrada variando uno o dos campos del meteorito actual
+
+import { useMemo, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X } from 'lucide-react'
+import { useMeteroidContext } from '../context/MeteroidContext'
+import {
+    runSweep,
+    runSweepGrid,
+    sensitivityAnalysis,
+    SWEEP_FIELDS,
+    SWEEP_OUTPUTS,
+} from '../lib/parameterSweep'
+import type { SweepField, SweepGrid, SweepOutput, SweepPoint, SweepRange } from '../lib/parameterSweep'
+import type { MeteroidData } from '../context/MeteroidContext'
+import SweepLineChart from './SweepLineChart'
+import SweepHeatmap from './SweepHeatmap'
+import { Button } from './ui/button'
+import { Input } from './input'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from './select'
+
+/**
+ * Props del componente
+ */
+interface ParameterSweepExplorerProps {
+    onClose: () => void
+}
+
+// Pasos por defecto: 2D se queda en 15×15 para que la rejilla se calcule sin bloquear la página
+const DEFAULT_STEPS_1D = 30
+const DEFAULT_STEPS_2D = 15
+const MAX_STEPS_1D = 100
+const MAX_STEPS_2D = 30
+
+const FIELDS = Object.keys(SWEEP_FIELDS) as SweepField[]
+const OUTPUTS = Object.keys(SWEEP_OUTPUTS) as SweepOutput[]
+
+/**
+ * Rango inicial de cada campo alrededor del meteorito actual
+ */
+const defaultRange = (field: SweepField, base: MeteroidData, steps: number): SweepRange => {
+    const { min, max } = SWEEP_FIELDS[field]
+    if (field === 'angle') return { field, min: 5, max: 90, steps }
+    return {
+        field,
+        min: Math.max(min, base[field] * 0.5),
+        max: Math.min(max, base[field] * 2),
+        steps,
+    }
+}
+
+/**
+ * Etiqueta de eje con unidad
+ */
+const axisLabel = (label: string, unit: string) => unit ? `${label} (${unit})` : label
+
+/**
+ * Modal con el barrido (línea para un campo, mapa de calor para dos) y la tabla de sensibilidad
+ */
+const ParameterSweepExplorer: React.FC<ParameterSweepExplorerProps> = ({ onClose }) => {
+    const { meteroidData, location, entryOptions } = useMeteroidContext()
+
+    const [xRange, setXRange] = useState<SweepRange>(() => defaultRange('angle', meteroidData, DEFAULT_STEPS_1D))
+    const [yRange, setYRange] = useState<SweepRange | null>(null)
+    const [output, setOutput] = useState<SweepOutput>('crater_diameter_m')
+    const [line, setLine] = useState<SweepPoint[] | null>(null)
+    const [grid, setGrid] = useState<SweepGrid | null>(null)
+
+    // Sensibilidad alrededor del meteorito actual (6 simulaciones, barato)
+    const sensitivity = useMemo(
+        () => sensitivityAnalysis(meteroidData, location, entryOptions),
+        [meteroidData, location, entryOptions]
+    )
+
+    const changeXField = (field: SweepField) => {
+        setXRange(defaultRange(field, meteroidData, yRange ? DEFAULT_STEPS_2D : DEFAULT_STEPS_1D))
+        if (yRange?.field === field) {
+            setYRange(defaultRange(FIELDS.find(other => other !== field) ?? 'velocity', meteroidData, DEFAULT_STEPS_2D))
+        }
+    }
+
+    const changeYField = (value: string) => {
+        if (value === 'none') {
+            setYRange(null)
+            setXRange(range => ({ ...range, steps: DEFAULT_STEPS_1D }))
+            return
+        }
+        setYRange(defaultRange(value as SweepField, meteroidData, DEFAULT_STEPS_2D))
+        setXRange(range => ({ ...range, steps: Math.min(range.steps, DEFAULT_STEPS_2D) }))
+    }
+
+    const runCurrentSweep = () => {
+        const maxSteps = yRange ? MAX_STEPS_2D : MAX_STEPS_1D
+        const clampSteps = (range: SweepRange) => ({ ...range, steps: Math.min(maxSteps, Math.max(2, range.steps)) })
+        if (yRange) {
+            setGrid(runSweepGrid(meteroidData, location, clampSteps(xRange), clampSteps(yRange), entryOptions))
+            setLine(null)
+        } else {
+            setLine(runSweep(meteroidData, location, clampSteps(xRange), entryOptions))
+            setGrid(null)
+        }
+    }
+
+    const rangeInputs = (range: SweepRange, update: (range: SweepRange) => void) => (
+        <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-slate-600">
+                Min
+                <Input type="number" value={range.min} onChange={(e) => update({ ...range, min: Number(e.target.value) })} />
+            </label>
+            <label className="text-xs text-slate-600">
+                Max
+                <Input type="number" value={range.max} onChange={(e) => update({ ...range, max: Number(e.target.value) })} />
+            </label>
+            <label className="text-xs text-slate-600">
+                Steps
+                <Input type="number" value={range.steps} onChange={(e) => update({ ...range, steps: Number(e.target.value) })} />
+            </label>
+        </div>
+    )
+
+    const outputInfo = SWEEP_OUTPUTS[output]
+    const xInfo = SWEEP_FIELDS[xRange.field]
+    const ranked = sensitivity[output]
+    const mostSensitive = ranked.find(entry => entry.elasticity !== null) ?? null
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 50 }}
+                className="fixed inset-0 z-[9999] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+                onClick={onClose}
+            >
+                <motion.div
+                    initial={{ scale: 0.9 }}
+                    animate={{ scale: 1 }}
+                    exit={{ scale: 0.9 }}
+                    className="bg-white border border-slate-200 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto text-black"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <div className="bg-gradient-to-r from-slate-900 to-slate-800 p-6 flex items-center justify-between">
+                        <div>
+                            <h2 className="text-2xl font-bold text-white">Sensitivity Explorer</h2>
+                            <p className="text-slate-300 text-sm mt-0.5">
+                                Change one or two parameters of the current meteoroid and watch the outcome
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 hover:bg-white/10 rounded-lg transition text-slate-300 hover:text-white"
+                            aria-label="Close"
+                        >
+                            <X className="w-6 h-6" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 grid gap-6 md:grid-cols-2">
+                        {/* Configuración del barrido */}
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <span className="text-sm font-semibold">Outcome</span>
+                                <Select value={output} onValueChange={(value) => setOutput(value as SweepOutput)}>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent className="z-[10000]">
+                                        {OUTPUTS.map(key => (
+                                            <SelectItem key={key} value={key}>{SWEEP_OUTPUTS[key].label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <span className="text-sm font-semibold">Horizontal axis</span>
+                                <Select value={xRange.field} onValueChange={(value) => changeXField(value as SweepField)}>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent className="z-[10000]">
+                                        {FIELDS.map(field => (
+                                            <SelectItem key={field} value={field}>{SWEEP_FIELDS[field].label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {rangeInputs(xRange, setXRange)}
+                            </div>
+
+                            <div className="space-y-2">
+                                <span className="text-sm font-semibold">Second parameter (heatmap)</span>
+                                <Select value={yRange?.field ?? 'none'} onValueChange={changeYField}>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent className="z-[10000]">
+                                        <SelectItem value="none">None (line chart)</SelectItem>
+                                        {FIELDS.filter(field => field !== xRange.field).map(field => (
+                                            <SelectItem key={field} value={field}>{SWEEP_FIELDS[field].label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {yRange && rangeInputs(yRange, setYRange)}
+                            </div>
+
+                            <Button type="button" className="w-full" onClick={runCurrentSweep}>
+                                Run sweep
+                            </Button>
+                            <p className="text-xs text-slate-500">
+                                Other parameters stay at the current meteoroid values ({meteroidData.radiusMeteroid} m, {meteroidData.velocity} m/s, {meteroidData.angle}°, {meteroidData.material}).
+                            </p>
+                        </div>
+
+                        {/* Resultado del barrido */}
+                        <div className="space-y-2">
+                            {line && (
+                                <SweepLineChart
+                                    points={line.map(point => ({ x: point.x, y: point.outputs[output] }))}
+                                    baseX={meteroidData[xRange.field]}
+                                    xLabel={axisLabel(xInfo.label, xInfo.unit)}
+                                    yLabel={axisLabel(outputInfo.label, outputInfo.unit)}
+                                />
+                            )}
+                            {grid && yRange && (
+                                <SweepHeatmap
+                                    xs={grid.xs}
+                                    ys={grid.ys}
+                                    values={grid.outputs.map(row => row.map(cell => cell[output]))}
+                                    xLabel={axisLabel(xInfo.label, xInfo.unit)}
+                                    yLabel={axisLabel(SWEEP_FIELDS[yRange.field].label, SWEEP_FIELDS[yRange.field].unit)}
+                                    valueLabel={axisLabel(outputInfo.label, outputInfo.unit)}
+                                />
+                            )}
+                            {!line && !grid && (
+                                <p className="text-sm text-slate-500">Pick a parameter and a range, then run the sweep.</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Sensibilidad alrededor del meteorito actual */}
+                    <div className="px-6 pb-6 space-y-2">
+                        <h3 className='text-lg font-bold text-slate-800'>Sensitivity of {outputInfo.label}</h3>
+                        {mostSensitive ? (
+                            <p className="text-sm">
+                                The outcome is most sensitive to <strong>{SWEEP_FIELDS[mostSensitive.field].label.toLowerCase()}</strong>:
+                                a 1% change moves it by about {Math.abs(mostSensitive.elasticity ?? 0).toPrecision(2)}%.
+                            </p>
+                        ) : (
+                            <p className="text-sm text-slate-500">This outcome is not defined for the current meteoroid.</p>
+                        )}
+                        <table className="w-full text-sm border-collapse">
+                            <thead>
+                                <tr className="text-left">
+                                    <th className="p-1">Parameter</th>
+                                    <th className="p-1">Elasticity (±10%)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ranked.map(({ field, elasticity }) => (
+                                    <tr key={field} className="border-t border-gray-200">
+                                        <td className="p-1">{SWEEP_FIELDS[field].label}</td>
+                                        <td className="p-1">{elasticity === null ? '—' : elasticity.toFixed(2)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    )
+}
+
+export default ParameterSweepExplorer
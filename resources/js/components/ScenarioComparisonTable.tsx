@@ -0,0 +1,143 @@
+// ScenarioComparisonTable.tsx - Tabla comparativa de escenarios fijados
+// El primer escenario es la referencia; el resto muestra su diferencia respecto a él
+
+import { X } from 'lucide-react'
+import { Button } from './ui/button'
+import type { PinnedScenario } from '../lib/scenarioComparison'
+
+/**
+ * Props del componente
+ */
+interface ScenarioComparisonTableProps {
+    scenarios: PinnedScenario[]             // Escenarios fijados, el primero es la referencia
+    onRemove: (id: number) => void          // Quitar un escenario
+    onClear: () => void                     // Quitar todos
+}
+
+/**
+ * Fila numérica de la tabla
+ */
+interface NumericRow {
+    label: string
+    value: (scenario: PinnedScenario) => number | null
+    format: (value: number) => string
+}
+
+const IMPACT_TYPE_LABELS: Record<PinnedScenario['impact_type'], string> = {
+    ground: 'Ground impact',
+    airburst: 'Airburst',
+    ocean: 'Ocean impact',
+}
+
+const formatMegatons = (value: number) => `${value < 0.01 ? value.toExponential(1) : value.toFixed(2)} MT`
+const formatKilometers = (value: number) => `${(value / 1000).toFixed(2)} km`
+
+const NUMERIC_ROWS: NumericRow[] = [
+    { label: 'Initial Energy', value: s => s.initial_energy_mt, format: formatMegatons },
+    { label: 'Impact Energy', value: s => s.impact_energy_mt, format: formatMegatons },
+    { label: 'Crater Diameter', value: s => s.crater_diameter_m, format: formatKilometers },
+    { label: 'Breakup Altitude', value: s => s.breakup_altitude_m, format: formatKilometers },
+]
+
+/**
+ * Diferencia respecto a la referencia: razón para valores muy distintos, porcentaje en otro caso
+ */
+const formatDiff = (value: number | null, reference: number | null): string | null => {
+    if (value === null || reference === null || reference === 0) return null
+    const ratio = value / reference
+    if (ratio >= 2 || ratio <= 0.5) return `×${ratio.toPrecision(2)}`
+    const percent = (ratio - 1) * 100
+    if (Math.abs(percent) < 0.5) return '='
+    return `${percent > 0 ? '+' : ''}${percent.toFixed(0)}%`
+}
+
+/**
+ * Tabla de escenarios fijados con sus salidas clave y las diferencias con la referencia
+ */
+const ScenarioComparisonTable: React.FC<ScenarioComparisonTableProps> = ({ scenarios, onRemove, onClear }) => {
+    if (scenarios.length === 0) return null
+
+    const [reference] = scenarios
+
+    return (
+        <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
+            <div className="flex items-center justify-between">
+                <h3 className='text-lg font-bold text-slate-800'>Scenario Comparison</h3>
+                <Button type="button" variant="ghost" size="sm" onClick={onClear}>
+                    Clear all
+                </Button>
+            </div>
+            <p className="text-xs text-slate-500">
+                Differences are relative to the first pinned scenario. Each scenario's rings are drawn on the map in its colour.
+            </p>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-black border-collapse">
+                    <thead>
+                        <tr>
+                            <th className="text-left p-1" />
+                            {scenarios.map(scenario => (
+                                <th key={scenario.id} className="text-left p-1 align-top min-w-28">
+                                    <div className="flex items-start gap-1">
+                                        <span
+                                            className="inline-block h-3 w-3 rounded-full mt-1 shrink-0"
+                                            style={{ backgroundColor: scenario.color }}
+                                        />
+                                        <span className="font-semibold break-words">{scenario.name}</span>
+                                        <button
+                                            type="button"
+                                            onClick={() => onRemove(scenario.id)}
+                                            className="ml-auto text-slate-400 hover:text-slate-700"
+                                            aria-label={`Remove ${scenario.name}`}
+                                        >
+                                            <X className="h-3 w-3" />
+                                        </button>
+                                    </div>
+                                    <div className="text-xs font-normal text-slate-500">
+                                        {scenario.location[0].toFixed(2)}, {scenario.location[1].toFixed(2)}
+                                    </div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr className="border-t border-gray-200">
+                            <td className="p-1 font-semibold">Result</td>
+                            {scenarios.map(scenario => (
+                                <td key={scenario.id} className="p-1">{IMPACT_TYPE_LABELS[scenario.impact_type]}</td>
+                            ))}
+                        </tr>
+                        {NUMERIC_ROWS.map(row => (
+                            <tr key={row.label} className="border-t border-gray-200">
+                                <td className="p-1 font-semibold">{row.label}</td>
+                                {scenarios.map(scenario => {
+                                    const value = row.value(scenario)
+                                    const diff = scenario === reference ? null : formatDiff(value, row.value(reference))
+                                    return (
+                                        <td key={scenario.id} className="p-1">
+                                            {value === null ? '—' : row.format(value)}
+                                            {diff && <span className="ml-1 text-xs text-slate-500">({diff})</span>}
+                                        </td>
+                                    )
+                                })}
+                            </tr>
+                        ))}
+                        <tr className="border-t border-gray-200">
+                            <td className="p-1 font-semibold">Threat Level</td>
+                            {scenarios.map(scenario => (
+                                <td
+                                    key={scenario.id}
+                                    className={`p-1 ${scenario !== reference && scenario.threat_level !== reference.threat_level ? 'font-semibold text-red-600' : ''}`}
+                                >
+                                    {scenario.threat_level}
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    )
+}
+
+export default ScenarioComparisonTable
@@ -0,0 +1,98 @@
+// SpacecraftConfigPanel.tsx - Editor de la nave de cada estrategia de desviación
+// Muestra los parámetros de la estrategia elegida con sus límites y los errores de validación
+
+import { DEFLECTION_STRATEGIES, SPACECRAFT_FIELDS } from '../lib/spacecraftConfig'
+import type { DeflectionStrategy, SpacecraftConfig, SpacecraftErrors, SpacecraftField } from '../lib/spacecraftConfig'
+
+/**
+ * Props del componente
+ */
+interface SpacecraftConfigPanelProps {
+    strategy: DeflectionStrategy
+    getStrategyName: (strategy: DeflectionStrategy) => string
+    config: SpacecraftConfig
+    errors: SpacecraftErrors
+    onStrategyChange: (strategy: DeflectionStrategy) => void
+    onChange: (config: SpacecraftConfig) => void
+    onReset: () => void             // Vuelve a la misión de referencia de la estrategia
+}
+
+/**
+ * Formulario con un campo por parámetro de la nave
+ */
+const SpacecraftConfigPanel: React.FC<SpacecraftConfigPanelProps> = ({ strategy, getStrategyName, config, errors, onStrategyChange, onChange, onReset }) => {
+    const fields = Object.entries(SPACECRAFT_FIELDS[strategy]) as [string, SpacecraftField][]
+    const values: Record<string, number> = config[strategy]
+    const messages: Record<string, string | undefined> = errors[strategy]
+
+    const update = (name: string, value: number) => onChange({
+        ...config,
+        [strategy]: { ...config[strategy], [name]: value },
+    })
+
+    return (
+        <div className="bg-slate-50 rounded-lg p-5 border border-slate-200 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h4 className="text-slate-900 font-semibold">Spacecraft Design</h4>
+                    <p className="text-slate-500 text-xs mt-0.5">
+                        Design your own mission. Delta-V, cost and the strategy ranking are recalculated with these values.
+                    </p>
+                </div>
+                <button
+                    onClick={onReset}
+                    className="px-3 py-1.5 bg-white hover:bg-slate-100 border border-slate-300 rounded-lg text-slate-700 text-xs font-semibold transition flex-shrink-0"
+                >
+                    Reset to reference mission
+                </button>
+            </div>
+
+            {/* Estrategia que se edita; las que tienen errores se marcan en rojo */}
+            <div className="flex flex-wrap gap-2">
+                {DEFLECTION_STRATEGIES.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onStrategyChange(option)}
+                        className={`px-3 py-1.5 rounded-lg border text-xs font-semibold transition ${
+                            option === strategy
+                                ? 'border-green-600 bg-green-50'
+                                : 'border-slate-300 bg-white hover:bg-slate-100'
+                        } ${Object.keys(errors[option]).length > 0 ? 'text-red-600' : option === strategy ? 'text-green-800' : 'text-slate-700'}`}
+                    >
+                        {getStrategyName(option)}
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {fields.map(([name, field]) => (
+                    <label key={name} className="space-y-1">
+                        <span className="text-slate-700 font-medium">{field.label}</span>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="number"
+                                min={field.min}
+                                max={field.max}
+                                step="any"
+                                value={Number.isFinite(values[name]) ? values[name] : ''}
+                                onChange={(e) => update(name, e.target.valueAsNumber)}
+                                aria-invalid={messages[name] ? true : undefined}
+                                className={`w-full px-3 py-2 border rounded-lg bg-white ${messages[name] ? 'border-red-500' : 'border-slate-300'}`}
+                            />
+                            {field.unit && <span className="text-slate-500 whitespace-nowrap">{field.unit}</span>}
+                        </div>
+                        {messages[name] ? (
+                            <span className="block text-xs text-red-600">{messages[name]}</span>
+                        ) : (
+                            <span className="block text-xs text-slate-500">
+                                {field.min}–{field.max} {field.unit}{field.hint ? ` · ${field.hint}` : ''}
+                            </span>
+                        )}
+                    </label>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+export default SpacecraftConfigPanel
@@ -0,0 +1,104 @@
+// SweepHeatmap.tsx - Mapa de calor de un barrido de dos parámetros
+// Cada celda es una simulación; el color indica el valor de la salida elegida
+
+// Dimensiones del SVG y márgenes para los ejes
+const WIDTH = 360
+const HEIGHT = 280
+const MARGIN = { top: 12, right: 16, bottom: 56, left: 52 }
+
+/**
+ * Props del componente
+ */
+interface SweepHeatmapProps {
+    xs: number[]                        // Valores del eje horizontal
+    ys: number[]                        // Valores del eje vertical
+    values: (number | null)[][]         // values[j][i] corresponde a (xs[i], ys[j])
+    xLabel: string
+    yLabel: string
+    valueLabel: string
+}
+
+/**
+ * Color de una fracción 0-1: de amarillo claro (bajo) a rojo oscuro (alto)
+ */
+const heatColor = (fraction: number) =>
+    `hsl(${60 - 60 * fraction}, 90%, ${88 - 53 * fraction}%)`
+
+/**
+ * Mapa de calor con una barra de color bajo los ejes.
+ * Las celdas sin valor se dejan en gris.
+ */
+const SweepHeatmap: React.FC<SweepHeatmapProps> = ({ xs, ys, values, xLabel, yLabel, valueLabel }) => {
+    const defined = values.flat().flatMap(value => value === null ? [] : [value])
+
+    if (xs.length < 2 || ys.length < 2 || defined.length === 0) {
+        return <p className="text-sm text-slate-500">This output is not defined anywhere in the selected range.</p>
+    }
+
+    const minValue = Math.min(...defined)
+    const maxValue = Math.max(...defined)
+    const fraction = (value: number) => maxValue > minValue ? (value - minValue) / (maxValue - minValue) : 0.5
+
+    // Celdas centradas en cada valor de la rejilla
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+    const cellWidth = plotWidth / xs.length
+    const cellHeight = plotHeight / ys.length
+    const legendY = HEIGHT - 18
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${valueLabel} over ${xLabel} and ${yLabel}`}>
+            {values.map((row, j) => row.map((value, i) => (
+                <rect
+                    key={`${i}-${j}`}
+                    x={MARGIN.left + i * cellWidth}
+                    y={MARGIN.top + plotHeight - (j + 1) * cellHeight}
+                    width={cellWidth + 0.5}
+                    height={cellHeight + 0.5}
+                    fill={value === null ? '#e2e8f0' : heatColor(fraction(value))}
+                >
+                    <title>{`${xLabel} ${xs[i].toPrecision(4)}, ${yLabel} ${ys[j].toPrecision(4)}: ${value === null ? '—' : value.toPrecision(3)}`}</title>
+                </rect>
+            )))}
+
+            {/* Ejes */}
+            <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={MARGIN.top + plotHeight} stroke="#334155" />
+            <line x1={MARGIN.left} y1={MARGIN.top + plotHeight} x2={MARGIN.left + plotWidth} y2={MARGIN.top + plotHeight} stroke="#334155" />
+
+            {[0, ys.length - 1].map(j => (
+                <text key={j} x={MARGIN.left - 6} y={MARGIN.top + plotHeight - (j + 0.5) * cellHeight + 3} fontSize={9} textAnchor="end" fill="#475569">
+                    {ys[j].toPrecision(3)}
+                </text>
+            ))}
+            {[0, xs.length - 1].map(i => (
+                <text key={i} x={MARGIN.left + (i + 0.5) * cellWidth} y={MARGIN.top + plotHeight + 12} fontSize={9} textAnchor="middle" fill="#475569">
+                    {xs[i].toPrecision(3)}
+                </text>
+            ))}
+
+            <text x={12} y={MARGIN.top + plotHeight / 2} fontSize={10} fill="#334155" textAnchor="middle" transform={`rotate(-90 12 ${MARGIN.top + plotHeight / 2})`}>
+                {yLabel}
+            </text>
+            <text x={MARGIN.left + plotWidth / 2} y={MARGIN.top + plotHeight + 26} fontSize={10} fill="#334155" textAnchor="middle">
+                {xLabel}
+            </text>
+
+            {/* Barra de color */}
+            {Array.from({ length: 20 }, (_, k) => (
+                <rect
+                    key={k}
+                    x={MARGIN.left + (k * plotWidth) / 20}
+                    y={legendY}
+                    width={plotWidth / 20 + 0.5}
+                    height={6}
+                    fill={heatColor(k / 19)}
+                />
+            ))}
+            <text x={MARGIN.left} y={legendY - 3} fontSize={9} fill="#475569">{minValue.toPrecision(3)}</text>
+            <text x={MARGIN.left + plotWidth / 2} y={legendY - 3} fontSize={9} textAnchor="middle" fill="#475569">{valueLabel}</text>
+            <text x={MARGIN.left + plotWidth} y={legendY - 3} fontSize={9} textAnchor="end" fill="#475569">{maxValue.toPrecision(3)}</text>
+        </svg>
+    )
+}
+
+export default SweepHeatmap
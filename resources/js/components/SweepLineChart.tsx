@@ -0,0 +1,99 @@
+// SweepLineChart.tsx - Gráfica de línea de un barrido de un parámetro
+// Muestra cómo cambia una salida de la simulación al variar un solo campo
+
+// Dimensiones del SVG y márgenes para los ejes
+const WIDTH = 360
+const HEIGHT = 240
+const MARGIN = { top: 12, right: 16, bottom: 36, left: 52 }
+
+/**
+ * Props del componente
+ */
+interface SweepLineChartProps {
+    points: { x: number, y: number | null }[]   // Valores del barrido (y null si no aplica, p. ej. sin ruptura)
+    baseX: number                               // Valor del meteorito actual, se marca con una línea
+    xLabel: string
+    yLabel: string
+}
+
+/**
+ * Gráfica de línea: campo barrido en el eje horizontal y salida en el vertical.
+ * Los puntos sin valor cortan la línea en lugar de unirse.
+ */
+const SweepLineChart: React.FC<SweepLineChartProps> = ({ points, baseX, xLabel, yLabel }) => {
+    const values = points.flatMap(point => point.y === null ? [] : [point.y])
+
+    if (points.length < 2 || values.length === 0) {
+        return <p className="text-sm text-slate-500">This output is not defined anywhere in the selected range.</p>
+    }
+
+    // Escalas: el eje vertical empieza en cero salvo que haya valores negativos
+    const minX = points[0].x
+    const maxX = points[points.length - 1].x
+    const minY = Math.min(0, ...values)
+    const maxY = Math.max(...values) > minY ? Math.max(...values) : minY + 1
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+    const x = (value: number) => MARGIN.left + ((value - minX) / (maxX - minX || 1)) * plotWidth
+    const y = (value: number) => MARGIN.top + plotHeight - ((value - minY) / (maxY - minY)) * plotHeight
+
+    // Tramos continuos de la línea
+    const segments: string[] = []
+    let current: string[] = []
+    for (const point of points) {
+        if (point.y === null) {
+            if (current.length > 0) segments.push(current.join(' '))
+            current = []
+        } else {
+            current.push(`${x(point.x)},${y(point.y)}`)
+        }
+    }
+    if (current.length > 0) segments.push(current.join(' '))
+
+    // Marcas de los ejes
+    const xTicks = [minX, (minX + maxX) / 2, maxX]
+    const yTicks = [minY, (minY + maxY) / 2, maxY]
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${yLabel} versus ${xLabel}`}>
+            {/* Línea del barrido */}
+            {segments.map(segment => (
+                <polyline key={segment} points={segment} fill="none" stroke="#ef4444" strokeWidth={2} />
+            ))}
+            {points.map(point => point.y !== null && (
+                <circle key={point.x} cx={x(point.x)} cy={y(point.y)} r={2.5} fill="#ef4444">
+                    <title>{`${point.x.toPrecision(4)}: ${point.y.toPrecision(3)}`}</title>
+                </circle>
+            ))}
+
+            {/* Marca del meteorito actual */}
+            {baseX >= minX && baseX <= maxX && (
+                <line x1={x(baseX)} x2={x(baseX)} y1={MARGIN.top} y2={MARGIN.top + plotHeight} stroke="#7c3aed" strokeDasharray="4 3" />
+            )}
+
+            {/* Ejes */}
+            <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={MARGIN.top + plotHeight} stroke="#334155" />
+            <line x1={MARGIN.left} y1={MARGIN.top + plotHeight} x2={MARGIN.left + plotWidth} y2={MARGIN.top + plotHeight} stroke="#334155" />
+
+            {yTicks.map(tick => (
+                <text key={tick} x={MARGIN.left - 6} y={y(tick) + 3} fontSize={9} textAnchor="end" fill="#475569">
+                    {tick.toPrecision(3)}
+                </text>
+            ))}
+            {xTicks.map(tick => (
+                <text key={tick} x={x(tick)} y={MARGIN.top + plotHeight + 12} fontSize={9} textAnchor="middle" fill="#475569">
+                    {tick.toPrecision(3)}
+                </text>
+            ))}
+
+            <text x={12} y={MARGIN.top + plotHeight / 2} fontSize={10} fill="#334155" textAnchor="middle" transform={`rotate(-90 12 ${MARGIN.top + plotHeight / 2})`}>
+                {yLabel}
+            </text>
+            <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 6} fontSize={10} fill="#334155" textAnchor="middle">
+                {xLabel}
+            </text>
+        </svg>
+    )
+}
+
+export default SweepLineChart
@@ -0,0 +1,123 @@
+// ThreatTable.tsx - Tabla de la vista de amenaza de los NEOs de NASA
+// Cada fila es un objeto puntuado; al hacer clic se simula como si impactara
+
+import type { ThreatAssessment, ThreatSort } from '../lib/threatScore'
+
+/** Kilómetros por distancia lunar media */
+const LUNAR_DISTANCE_KM = 384400
+
+// Etiquetas de los criterios de ordenación
+const SORT_LABELS: Record<ThreatSort, string> = {
+    palermo: 'Palermo score',
+    distance: 'Closest approach',
+    velocity: 'Relative velocity',
+}
+
+// Color de la escala de Turín por nivel (blanco, verde, amarillo, naranja, rojo)
+const torinoColor = (torino: number) => {
+    if (torino === 0) return 'bg-gray-700 text-gray-200'
+    if (torino === 1) return 'bg-green-600/80 text-white'
+    if (torino <= 4) return 'bg-yellow-400 text-black'
+    if (torino <= 7) return 'bg-orange-500 text-black'
+    return 'bg-red-600 text-white'
+}
+
+/**
+ * Props del componente
+ */
+interface ThreatTableProps {
+    assessments: ThreatAssessment[]     // Ya filtradas y ordenadas
+    sort: ThreatSort
+    onSortChange: (sort: ThreatSort) => void
+    hazardousOnly: boolean
+    onHazardousOnlyChange: (value: boolean) => void
+    onSelect: (assessment: ThreatAssessment) => void
+}
+
+/**
+ * Ranking de NEOs con distancia, velocidad, energía y puntuaciones Torino/Palermo
+ */
+const ThreatTable: React.FC<ThreatTableProps> = ({ assessments, sort, onSortChange, hazardousOnly, onHazardousOnlyChange, onSelect }) => {
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2 text-gray-400">
+                    Sort by
+                    <select
+                        value={sort}
+                        onChange={(e) => onSortChange(e.target.value as ThreatSort)}
+                        className="bg-black/50 border border-gray-700 rounded-lg px-3 py-2 text-white"
+                    >
+                        {(Object.keys(SORT_LABELS) as ThreatSort[]).map(option => (
+                            <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2 text-gray-400">
+                    <input type="checkbox" checked={hazardousOnly} onChange={(e) => onHazardousOnlyChange(e.target.checked)} />
+                    Potentially hazardous only
+                </label>
+            </div>
+
+            <p className="text-xs text-gray-500 max-w-3xl">
+                NASA's browse data has no impact probabilities, so the score treats each future miss distance as the
+                position uncertainty and compares it with Earth's gravitationally focused cross-section. Use it to rank
+                objects, not as an actual Sentry risk. Click a row to simulate the object as if it hit.
+            </p>
+
+            {assessments.length === 0 ? (
+                <div className="text-center py-20 text-gray-400">No objects match the current filters</div>
+            ) : (
+                <div className="overflow-x-auto rounded-xl border border-gray-800">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-900 text-left text-gray-400">
+                            <tr>
+                                <th className="p-3">Name</th>
+                                <th className="p-3">Diameter</th>
+                                <th className="p-3">Approach</th>
+                                <th className="p-3">Miss distance</th>
+                                <th className="p-3">Velocity</th>
+                                <th className="p-3">Energy</th>
+                                <th className="p-3">Palermo</th>
+                                <th className="p-3">Torino</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {assessments.map(assessment => (
+                                <tr
+                                    key={assessment.record.id}
+                                    onClick={() => onSelect(assessment)}
+                                    className="border-t border-gray-800 hover:bg-gray-800/60 cursor-pointer transition"
+                                >
+                                    <td className="p-3 font-semibold">
+                                        {assessment.record.name}
+                                        {assessment.record.is_potentially_hazardous_asteroid && (
+                                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-400 border border-red-500/50">PHA</span>
+                                        )}
+                                    </td>
+                                    <td className="p-3">{assessment.diameter_m.toFixed(0)} m</td>
+                                    <td className="p-3">{assessment.approach?.date ?? '—'}</td>
+                                    <td className="p-3">
+                                        {assessment.approach
+                                            ? `${(assessment.approach.miss_distance_km / LUNAR_DISTANCE_KM).toFixed(2)} LD`
+                                            : '—'}
+                                    </td>
+                                    <td className="p-3">{assessment.approach ? `${assessment.approach.velocity_km_s.toFixed(1)} km/s` : '—'}</td>
+                                    <td className="p-3">{assessment.energy_mt > 0 ? `${assessment.energy_mt.toPrecision(3)} Mt` : '—'}</td>
+                                    <td className="p-3">{assessment.palermo === null ? 'past only' : assessment.palermo.toFixed(2)}</td>
+                                    <td className="p-3">
+                                        <span className={`inline-block w-7 text-center rounded font-bold ${torinoColor(assessment.torino)}`}>
+                                            {assessment.torino}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default ThreatTable
@@ -0,0 +1,117 @@
+// VirtualGrid.tsx - Rejilla virtualizada que se desplaza con la ventana
+// Solo monta las filas visibles (más un margen); el resto se sustituye por el alto que ocuparían.
+// Todas las filas se suponen del mismo alto, medido sobre las que están montadas
+
+import { useEffect, useLayoutEffect, useRef, useState } from 'react'
+
+/** Columnas según el ancho de la ventana, igual que grid-cols-1 md:2 lg:3 xl:4 de Tailwind */
+const COLUMN_BREAKPOINTS: [minWidth: number, columns: number][] = [
+    [1280, 4],
+    [1024, 3],
+    [768, 2],
+]
+
+const columnsForWidth = (width: number) => COLUMN_BREAKPOINTS.find(([minWidth]) => width >= minWidth)?.[1] ?? 1
+
+/**
+ * Props del componente
+ */
+interface VirtualGridProps<T> {
+    items: T[]
+    getKey: (item: T) => string | number
+    renderItem: (item: T, index: number) => React.ReactNode
+    estimatedRowHeight: number      // Alto inicial de una fila (px) hasta medir la primera
+    onRowHeightChange?: (height: number) => void    // Alto medido, para volver a montar la rejilla con él
+    gap?: number                    // Separación entre celdas (px)
+    overscanRows?: number           // Filas montadas por encima y por debajo de la pantalla
+    onEndReached?: () => void       // Se llama al acercarse al final de la lista
+    endThresholdRows?: number       // Filas antes del final a partir de las que se llama onEndReached
+}
+
+/**
+ * Rejilla de tarjetas que monta solo las filas cercanas a la pantalla
+ */
+const VirtualGrid = <T,>({
+    items,
+    getKey,
+    renderItem,
+    estimatedRowHeight,
+    onRowHeightChange,
+    gap = 24,
+    overscanRows = 2,
+    onEndReached,
+    endThresholdRows = 3,
+}: VirtualGridProps<T>) => {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const rowsRef = useRef<HTMLDivElement>(null)
+    const [rowHeight, setRowHeight] = useState(estimatedRowHeight)
+    // Parte de la rejilla que cae dentro de la ventana, relativa a su borde superior.
+    // Parte del tamaño de la ventana para que el primer render ya tenga las columnas definitivas:
+    // la página restaura el desplazamiento antes de pintar y necesita el alto final de la rejilla
+    const [viewport, setViewport] = useState(() => ({
+        top: 0,
+        height: typeof window === 'undefined' ? 0 : window.innerHeight,
+        width: typeof window === 'undefined' ? 0 : window.innerWidth,
+    }))
+
+    // Se mide antes de pintar para no mostrar un primer fotograma con las filas equivocadas
+    useLayoutEffect(() => {
+        const update = () => {
+            const container = containerRef.current
+            if (!container) return
+            setViewport({
+                top: -container.getBoundingClientRect().top,
+                height: window.innerHeight,
+                width: window.innerWidth,
+            })
+        }
+        update()
+        window.addEventListener('scroll', update, { passive: true })
+        window.addEventListener('resize', update)
+        return () => {
+            window.removeEventListener('scroll', update)
+            window.removeEventListener('resize', update)
+        }
+    }, [])
+
+    const columns = columnsForWidth(viewport.width)
+    const rows = Math.ceil(items.length / columns)
+    const stride = rowHeight + gap
+    const firstRow = Math.max(0, Math.floor(viewport.top / stride) - overscanRows)
+    const lastRow = Math.min(rows - 1, Math.ceil((viewport.top + viewport.height) / stride) + overscanRows)
+    const visible = items.slice(firstRow * columns, (lastRow + 1) * columns)
+
+    // El alto real de las filas montadas corrige la estimación (las tarjetas cambian con el contenido)
+    useLayoutEffect(() => {
+        const element = rowsRef.current
+        const mountedRows = lastRow - firstRow + 1
+        if (!element || mountedRows <= 0) return
+        const measured = (element.offsetHeight - gap * (mountedRows - 1)) / mountedRows
+        if (measured > 0 && Math.abs(measured - rowHeight) > 1) {
+            setRowHeight(measured)
+            onRowHeightChange?.(measured)
+        }
+    }, [firstRow, lastRow, gap, rowHeight, items.length, columns, onRowHeightChange])
+
+    useEffect(() => {
+        if (rows > 0 && lastRow >= rows - 1 - endThresholdRows) onEndReached?.()
+    }, [lastRow, rows, endThresholdRows, onEndReached])
+
+    return (
+        <div ref={containerRef} className="relative" style={{ height: rows > 0 ? rows * stride - gap : 0 }}>
+            <div
+                ref={rowsRef}
+                className="absolute inset-x-0 grid"
+                style={{ top: firstRow * stride, gap, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            >
+                {visible.map((item, offset) => (
+                    <div key={getKey(item)}>
+                        {renderItem(item, firstRow * columns + offset)}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+export default VirtualGrid
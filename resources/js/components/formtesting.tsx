@@ -40,8 +40,25 @@ import {
 } from "./ui/tooltip"
 import { GraduationCap } from 'lucide-react'
 import { duration } from 'node_modules/zod/v4/classic/iso.cjs'
-import { Share2, MessageCircle, Instagram, Twitter, Facebook } from 'lucide-react'
+import { Share2, MessageCircle, Instagram, Twitter, Facebook, Link2, Pin } from 'lucide-react'
 import ImpactAnalysis from './ImpactAnalysis'
+import EnergyDepositionChart from './EnergyDepositionChart'
+import { computeDamageEffects, DAMAGE_ZONE_INFO } from '../lib/damageEffects'
+import type { DamageZone } from '../lib/damageEffects'
+import { classifyImpact } from '../lib/airburst'
+import type { WaveRing } from '../lib/oceanImpact'
+import { estimateExposure } from '../lib/populationExposure'
+import type { ZoneExposure } from '../lib/populationExposure'
+import { buildPinnedScenario, MAX_PINNED_SCENARIOS, SCENARIO_COLORS } from '../lib/scenarioComparison'
+import ScenarioComparisonTable from './ScenarioComparisonTable'
+import { diameterRange, runMonteCarlo } from '../lib/monteCarlo'
+import type { Percentiles, UncertaintyResult } from '../lib/monteCarlo'
+import { Checkbox } from './ui/checkbox'
+import { describeApiError } from '../lib/neoApi'
+import { getCatalogDetail, getCatalogUserMeteorites } from '../lib/neoCatalog'
+import { simulateAtmosphericEntry } from '../lib/atmosphericEntry'
+import type { EntrySimulationResult } from '../lib/atmosphericEntry'
+import type { UserMeteorite } from '../lib/neoApi'
 import {
     Card,
     CardContent,
@@ -50,29 +67,15 @@ import {
     CardTitle,
 } from "@/components/ui/card"
 
-type MeteoriteRecord = {
-    id?: number
-    name: string
-    radiusMeteroid?: number
-    radius?: number  // Para manejar el campo 'radius' que viene de la BD
-    velocity?: number
-    angle?: number
-    entry_angle?: number  // Para manejar el campo 'entry_angle' que viene de la BD
-    material?: string
-    lat?: number
-    lng?: number
-}
-
 const FormTesting = () => {
-    const { updateMeteroidData, setLocation, setSelectedMeteoriteId, setIsSimulating, setCraterRadius } = useMeteroidContext()
-    const [savedMeteoritesData, setSavedMeteoritesData] = useState<MeteoriteRecord[]>([])
+    const { meteroidData, entryPreview, updateMeteroidData, setLocation, selectedMeteoriteId, setSelectedMeteoriteId, savedMeteoriteId, setSavedMeteoriteId, setIsSimulating, setCraterRadius, setDamageEffects, location, setOceanImpact, entryOptions, scenarioLink, damageEffects, pinnedScenarios, setPinnedScenarios, setUncertainty, setDeflection } = useMeteroidContext()
+    const [savedMeteoritesData, setSavedMeteoritesData] = useState<UserMeteorite[]>([])
     const [loading, setLoading] = useState(false)
-    const [selectedSavedId, setSelectedSavedId] = useState<string | null>(null)
-    const [selectedSavedName, setSelectedSavedName] = useState<string | null>(null)
     const [impactData, setImpactData] = useState<any>(null) // Datos del impacto para mostrar
     const [showShareButtons, setShowShareButtons] = useState(false)
     const [showInstagramGuide, setShowInstagramGuide] = useState(false)
     const [showAIAnalysis, setShowAIAnalysis] = useState(false) // Mostrar análisis con IA
+    const [uncertaintyMode, setUncertaintyMode] = useState(false) // Repetir la simulación con parámetros muestreados
 
     const form = useForm<any>({
         defaultValues: {
@@ -81,17 +84,33 @@ const FormTesting = () => {
         }
     })
 
+    // Meteorito guardado seleccionado (vive en el contexto para que el enlace compartido lo conserve)
+    const selectedSaved = savedMeteoritesData.find(m => String(m.id) === savedMeteoriteId) ?? null
+
+    // Sin meteorito guardado se simula el del contexto (p. ej. un NEO abierto desde el catálogo o un enlace)
+    const canSimulate = savedMeteoriteId !== null || entryPreview !== null
+
     // Cargar meteoritos guardados al montar el componente
     useEffect(() => {
         fetchSavedMeteoritesFromSupabase()
     }, [])
 
+    // Mostrar en el selector el meteorito guardado del contexto (p. ej. el de un enlace compartido)
+    useEffect(() => {
+        const record = savedMeteoritesData.find(m => String(m.id) === savedMeteoriteId)
+        if (record) form.setValue('selectedSavedMeteorite', record.name)
+    }, [savedMeteoritesData, savedMeteoriteId, form])
+
     // Limpiar estados de impacto cuando se monta el componente (cambio de pestaña)
     useEffect(() => {
         // Limpiar los datos de impacto previos
         setImpactData(null)
         setIsSimulating(false)
         setCraterRadius(null)
+        setDamageEffects(null)
+        setOceanImpact(null)
+        setUncertainty(null)
+        setDeflection(null)
         
         // Limpiar formulario
         form.reset({
@@ -99,55 +118,35 @@ const FormTesting = () => {
             selectedCity: undefined,
         })
         
-        // Limpiar selecciones
-        setSelectedSavedId(null)
-        setSelectedSavedName(null)
+        // La selección del meteorito guardado se conserva: es parte del escenario del contexto
         setShowShareButtons(false)
         setShowInstagramGuide(false)
-    }, [setIsSimulating, setCraterRadius, form])
+    }, [setIsSimulating, setCraterRadius, setDamageEffects, setOceanImpact, setUncertainty, setDeflection, form])
 
     // Fetch saved Meteorites from Laravel
     const fetchSavedMeteoritesFromSupabase = async () => {
         setLoading(true)
-        try {
-            const response = await fetch('/getAllUserMeteorites')
-
-            if (!response.ok) {
-                throw new Error('Failed to fetch Meteorites')
-            }
-
-            const data = await response.json()
-
-            // Mapear los datos de la BD al formato que espera el componente
-            const mappedData: MeteoriteRecord[] = data.map((item: any) => ({
-                id: item.id,
-                name: item.name,
-                radiusMeteroid: item.radius,  // BD usa 'radius', componente usa 'radiusMeteroid'
-                velocity: item.velocity,
-                angle: item.entry_angle,  // BD usa 'entry_angle', componente usa 'angle'
-                material: item.material,
-                lat: item.lat,
-                lng: item.lng,
-            }))
-
-            setSavedMeteoritesData(mappedData)
-            toast.success(`${mappedData.length} saved Meteorites loaded`, { 
+        // El cliente ya traduce los campos de la BD ('radius', 'entry_angle') a los del formulario;
+        // la copia de IndexedDB permite elegir meteorito aunque el servidor no responda
+        const result = await getCatalogUserMeteorites({ onRefresh: setSavedMeteoritesData })
+        if (result.ok) {
+            setSavedMeteoritesData(result.data)
+            toast.success(`${result.data.length} saved Meteorites loaded`, { 
                 id: TOAST_IDS.LOADING,
                 duration: 1500 
             })
-        } catch (error) {
-            console.error('Error fetching saved Meteorites:', error)
-            toast.error('Error loading saved Meteorites', { 
+        } else {
+            console.error('Error fetching saved Meteorites:', result.error)
+            toast.error(`Error loading saved Meteorites: ${describeApiError(result.error)}`, { 
                 id: TOAST_IDS.LOADING,
                 duration: 2000 
             })
-        } finally {
-            setLoading(false)
         }
+        setLoading(false)
     }
 
     // Cargar un meteorito seleccionado
-    const loadMeteoriteData = (Meteorite: MeteoriteRecord) => {
+    const loadMeteoriteData = (Meteorite: UserMeteorite) => {
         if (Meteorite.radiusMeteroid) form.setValue('radiusMeteroid', Meteorite.radiusMeteroid)
         if (Meteorite.velocity) form.setValue('velocity', Meteorite.velocity)
         if (Meteorite.angle) form.setValue('angle', Meteorite.angle)
@@ -158,7 +157,7 @@ const FormTesting = () => {
             radiusMeteroid: Meteorite.radiusMeteroid || 0,
             velocity: Meteorite.velocity || 0,
             angle: Meteorite.angle || 0,
-            material: (Meteorite.material as 'rock' | 'iron' | 'nickel') || 'rock'
+            material: Meteorite.material
         })
 
         toast.success(`Meteorite loaded: ${Meteorite.name}`, {
@@ -179,8 +178,8 @@ const FormTesting = () => {
     const onSubmitSimulate = async (data: any) => {
         console.log("Simulating Meteorite impact with data:", data)
 
-        // Verificar que se haya seleccionado un meteorito guardado
-        if (!selectedSavedId) {
+        // Verificar que haya un meteorito guardado o uno configurado en el contexto
+        if (!canSimulate) {
             toast.error('Please select a meteorite first', {
                 id: TOAST_IDS.SIMULATION,
                 duration: 2000
@@ -194,21 +193,123 @@ const FormTesting = () => {
                 duration: 2000 
             })
 
-            const response = await axios.get(`/getUserMeteoriteById/${selectedSavedId}`)
-            const MeteoriteName = selectedSavedName
+            // Ficha del NEO del enlace (suele estar ya en la caché del catálogo): da su nombre y su rango de diámetros
+            const neoLookup = !savedMeteoriteId && selectedMeteoriteId ? await getCatalogDetail(selectedMeteoriteId) : null
+            const neo = neoLookup?.ok ? neoLookup.data : null
+
+            const MeteoriteName = savedMeteoriteId
+                ? selectedSaved?.name ?? `Meteorite #${savedMeteoriteId}`
+                : neo?.data.name ?? 'Custom meteoroid'
+
+            // Las opciones del modelo atmosférico (p. ej. de un enlace compartido) también aplican al servidor
+            let simulation: Pick<EntrySimulationResult, 'atmospheric_impact' | 'calculations'>
+            if (!savedMeteoriteId && entryPreview) {
+                // Mismo modelo que el servidor, con los parámetros del contexto tal como llegaron
+                simulation = entryPreview
+            } else {
+                try {
+                    const response = await axios.get(`/getUserMeteoriteById/${savedMeteoriteId}`, {
+                        params: {
+                            drag_coefficient: entryOptions.dragCoefficient,
+                            atm_density_sea_level: entryOptions.seaLevelDensity,
+                            scale_height: entryOptions.scaleHeight,
+                        }
+                    })
+                    simulation = response.data
+                } catch (error) {
+                    // Sin servidor (p. ej. aula sin conexión) el mismo modelo corre en el navegador;
+                    // un error del servidor con respuesta (404...) sí se muestra
+                    const serverAnswered = axios.isAxiosError(error) && error.response !== undefined && error.response.status < 500
+                    if (!selectedSaved || serverAnswered) throw error
+                    simulation = simulateAtmosphericEntry(selectedSaved, location, entryOptions)
+                    toast.info('Server unavailable: simulated in the browser', { duration: 3000 })
+                }
+            }
 
-            const atmosphericImpact = response.data?.atmospheric_impact
-            const calculations = response.data?.calculations
-            const craterDiameter = atmosphericImpact?.crater_diameter_m
+            const atmosphericImpact = simulation?.atmospheric_impact
+            const calculations = simulation?.calculations
+            const { impact_type, airburst, ocean } = atmosphericImpact
+                ? classifyImpact(atmosphericImpact, {
+                    location,
+                    calculations,
+                    angle_deg: selectedSaved?.angle ?? meteroidData.angle,
+                })
+                : { impact_type: 'ground', airburst: null, ocean: null }
+            // En el océano solo queda cráter si la cavidad llega al fondo
+            const craterDiameter = impact_type === 'ground' || ocean?.reaches_seafloor
+                ? atmosphericImpact?.crater_diameter_m
+                : null
+
+            // Zonas de daño: en explosión aérea la energía se libera a la altitud de la explosión
+            const damageEffects = airburst
+                ? computeDamageEffects({
+                    energy_J: airburst.energy_released_J,
+                    burstAltitude_m: airburst.burst_altitude_m,
+                    craterDiameter_m: 0,
+                })
+                : atmosphericImpact?.E_after_J > 0
+                    ? computeDamageEffects({
+                        energy_J: atmosphericImpact.E_after_J,
+                        burstAltitude_m: 0,
+                        craterDiameter_m: craterDiameter || 0,
+                    })
+                    : null
+
+            // Población dentro de cada radio de daño alrededor del punto de impacto
+            const exposure = damageEffects ? estimateExposure(location, damageEffects.zones) : []
+
+            // Modo de incertidumbre: repite la entrada en el cliente muestreando diámetro,
+            // densidad, resistencia y ángulo. En un NEO se usa el rango de diámetros de NASA
+            // (de getMeteoriteById) mientras el diámetro simulado siga dentro de él
+            let uncertainty: UncertaintyResult | null = null
+            if (uncertaintyMode && calculations) {
+                const nasaRange = neo?.calculations
+                const inNasaRange = nasaRange?.diameter_min_m !== undefined && nasaRange.diameter_max_m !== undefined
+                    && calculations.diameter_m >= nasaRange.diameter_min_m * 0.999
+                    && calculations.diameter_m <= nasaRange.diameter_max_m * 1.001
+                const [diameterMin_m, diameterMax_m] = inNasaRange
+                    ? diameterRange(calculations.diameter_m, nasaRange.diameter_min_m, nasaRange.diameter_max_m)
+                    : diameterRange(calculations.diameter_m, calculations.diameter_min_m, calculations.diameter_max_m)
+                uncertainty = runMonteCarlo({
+                    diameterMin_m,
+                    diameterMax_m,
+                    velocity_ms: calculations.velocity_ms,
+                    material: (selectedSaved?.material as 'rock' | 'iron' | 'nickel') || meteroidData.material,
+                    location,
+                    options: entryOptions,
+                })
+            }
 
             // Guardar todos los datos del impacto
             setImpactData({
                 name: MeteoriteName,
                 atmospheric_impact: atmosphericImpact,
-                calculations: calculations
+                calculations: calculations,
+                impact_type,
+                airburst,
+                ocean,
+                exposure,
+                uncertainty
             })
-
-            if (craterDiameter) {
+            setOceanImpact(ocean)
+            setDamageEffects(damageEffects)
+            setUncertainty(uncertainty)
+            setDeflection(null)
+
+            if (airburst) {
+                // Sin cráter: el cuerpo se desintegró en el aire
+                setCraterRadius(null)
+                toast.success(`Airburst at ${(airburst.burst_altitude_m / 1000).toFixed(1)} km altitude!`, {
+                    id: TOAST_IDS.SIMULATION,
+                    duration: 2500
+                })
+            } else if (ocean && !craterDiameter) {
+                setCraterRadius(null)
+                toast.success('Ocean impact: tsunami estimated!', {
+                    id: TOAST_IDS.SIMULATION,
+                    duration: 2500
+                })
+            } else if (craterDiameter) {
                 // Calcular radio (diámetro / 2)
                 const radius = craterDiameter / 2
                 setCraterRadius(radius)
@@ -241,8 +342,12 @@ const FormTesting = () => {
         setImpactData(null)
         setIsSimulating(false)
         setCraterRadius(null)
-        setSelectedSavedId(null)
-        setSelectedSavedName(null)
+        setDamageEffects(null)
+        setOceanImpact(null)
+        setUncertainty(null)
+        setDeflection(null)
+        setSavedMeteoriteId(null)
+        setSelectedMeteoriteId(null)
         setShowShareButtons(false)
         setShowInstagramGuide(false)
         form.reset()
@@ -252,6 +357,33 @@ const FormTesting = () => {
         })
     }
 
+    // Fijar la simulación actual en la tabla de comparación
+    const pinCurrentScenario = () => {
+        if (!impactData) return
+
+        if (pinnedScenarios.length >= MAX_PINNED_SCENARIOS) {
+            toast.warning(`You can compare up to ${MAX_PINNED_SCENARIOS} scenarios`, {
+                id: TOAST_IDS.SIMULATION,
+                duration: 2000
+            })
+            return
+        }
+
+        // Primer color libre e identificador mayor que los existentes
+        const usedColors = pinnedScenarios.map(scenario => scenario.color)
+        const color = SCENARIO_COLORS.find(c => !usedColors.includes(c)) ?? SCENARIO_COLORS[0]
+        const id = Math.max(0, ...pinnedScenarios.map(scenario => scenario.id)) + 1
+
+        setPinnedScenarios(prev => [
+            ...prev,
+            buildPinnedScenario(impactData, damageEffects?.zones ?? [], location, id, color)
+        ])
+        toast.success(`${impactData.name} pinned for comparison`, {
+            id: TOAST_IDS.SIMULATION,
+            duration: 1500
+        })
+    }
+
     // Función para generar imagen profesional con Canvas API
     const generateProfessionalImage = async (): Promise<Blob | null> => {
         if (!impactData) return null
@@ -259,7 +391,7 @@ const FormTesting = () => {
         return new Promise((resolve) => {
             const canvas = document.createElement('canvas')
             canvas.width = 1200
-            canvas.height = 1200
+            canvas.height = 1400
             const ctx = canvas.getContext('2d')
 
             if (!ctx) {
@@ -268,12 +400,12 @@ const FormTesting = () => {
             }
 
             // Fondo con gradiente espacial
-            const gradient = ctx.createLinearGradient(0, 0, 0, 1200)
+            const gradient = ctx.createLinearGradient(0, 0, 0, 1400)
             gradient.addColorStop(0, '#0f172a')
             gradient.addColorStop(0.5, '#1e293b')
             gradient.addColorStop(1, '#0c0a1f')
             ctx.fillStyle = gradient
-            ctx.fillRect(0, 0, 1200, 1200)
+            ctx.fillRect(0, 0, 1200, 1400)
 
             // Estrellas en el fondo
             ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
@@ -448,6 +580,26 @@ const FormTesting = () => {
 
             yPos += 270
 
+            // SECCIÓN 4: Población expuesta (las tres zonas más grandes)
+            ctx.fillStyle = 'rgba(249, 115, 22, 0.2)'
+            ctx.fillRect(50, yPos, 1100, 170)
+
+            ctx.fillStyle = '#f97316'
+            ctx.font = 'bold 32px Arial'
+            ctx.fillText('👥 POPULATION EXPOSURE', 70, yPos + 40)
+
+            ctx.fillStyle = '#ffffff'
+            ctx.font = '24px Arial'
+            const exposure: ZoneExposure[] = impactData.exposure ?? []
+            if (exposure.length === 0) {
+                ctx.fillText('No populated area inside the damage zones', 70, yPos + 90)
+            }
+            exposure.slice(0, 3).forEach((zone, i) => {
+                ctx.fillText(`${zone.name}: ${zone.population.toLocaleString()} people`, 70, yPos + 90 + i * 30)
+            })
+
+            yPos += 200
+
             // Footer
             ctx.fillStyle = '#3b82f6'
             ctx.fillRect(50, yPos, 1100, 3)
@@ -489,6 +641,7 @@ const FormTesting = () => {
 💥 Crater Diameter: ${impactData.atmospheric_impact?.crater_diameter_m?.toFixed(0)}m
 ⚡ Energy: ${impactData.calculations?.kinetic_energy_initial_megatons_tnt?.toFixed(2)} Megatons TNT
 🔥 Fragmented: ${impactData.atmospheric_impact?.broke ? 'YES' : 'NO'}
+🔗 Try this exact impact: ${scenarioLink}
 
 Simulated with Meteorica - NASA Space Apps Challenge
 #Meteorica #NASA #SpaceApps #MeteoriteImpact #Science`
@@ -553,6 +706,7 @@ Simulated with Meteorica - NASA Space Apps Challenge
 💥 ${impactData.name}
 🎯 Crater: ${impactData.atmospheric_impact?.crater_diameter_m?.toFixed(0)}m
 ⚡ Energy: ${impactData.calculations?.kinetic_energy_initial_megatons_tnt?.toFixed(2)} MT TNT
+🔗 ${scenarioLink}
 
 #Meteorica #NASA #SpaceApps #MeteoriteImpact #SpaceScience`
 
@@ -591,6 +745,7 @@ Simulated with Meteorica - NASA Space Apps Challenge
 💥 Crater Diameter: ${impactData.atmospheric_impact?.crater_diameter_m?.toFixed(0)}m diameter
 ⚡ Energy: ${impactData.calculations?.kinetic_energy_initial_megatons_tnt?.toFixed(2)} Megatons TNT
 🔥 Atmospheric Fragmentation: ${impactData.atmospheric_impact?.broke ? 'YES' : 'NO'}
+🔗 Try this exact impact: ${scenarioLink}
 
 Simulated with Meteorica - NASA Space Apps Challenge 🌍
 
@@ -656,13 +811,14 @@ I just simulated a meteorite impact using Meteorica with NASA's data!
 💥 Crater Diameter: ${impactData.atmospheric_impact?.crater_diameter_m?.toFixed(0)} meters
 ⚡ Energy Released: ${impactData.calculations?.kinetic_energy_initial_megatons_tnt?.toFixed(2)} Megatons of TNT
 🔥 Atmospheric Fragmentation: ${impactData.atmospheric_impact?.broke ? 'YES' : 'NO'}
+🔗 Try this exact impact: ${scenarioLink}
 
 This was created with Meteorica for NASA Space Apps Challenge using real NASA NEO data!
 
 #Meteorica #NASA #SpaceApps #MeteoriteImpact #SpaceScience`
 
         setTimeout(() => {
-            const fbUrl = `https://www.facebook.com/sharer/sharer.php?quote=${encodeURIComponent(text)}`
+            const fbUrl = `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(scenarioLink)}&quote=${encodeURIComponent(text)}`
             window.open(fbUrl, '_blank')
         }, 500)
 
@@ -672,6 +828,22 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
         })
     }
 
+    // Copiar el enlace permanente con el escenario completo
+    const copyScenarioLink = async () => {
+        try {
+            await navigator.clipboard.writeText(scenarioLink)
+            toast.success('Simulation link copied!', {
+                id: TOAST_IDS.SHARE,
+                duration: 2000
+            })
+        } catch {
+            toast.error('Failed to copy link', {
+                id: TOAST_IDS.SHARE,
+                duration: 2000
+            })
+        }
+    }
+
     const downloadImage = async () => {
         const imageBlob = await generateProfessionalImage()
         if (!imageBlob) {
@@ -850,47 +1022,256 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                             </div>
                         </div>
 
-                        <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
-                            <h3 className='text-lg font-bold text-purple-600'>Impact Crater</h3>
-                            <div className="grid grid-cols-2 gap-2 text-sm text-black">
+                        {impactData.atmospheric_impact?.trajectory?.length > 0 && (
+                            <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
                                 <div className="flex items-center gap-1">
-                                    <span className="font-semibold">Crater Diameter:</span>
-                                    <span>{impactData.atmospheric_impact?.crater_diameter_m?.toFixed(0)} m</span>
+                                    <h3 className='text-lg font-bold text-red-600'>Energy Deposition by Altitude</h3>
                                     <Tooltip>
                                         <TooltipTrigger asChild>
-                                            <GraduationCap className="h-3 w-3 text-purple-500 cursor-help ml-1" />
+                                            <GraduationCap className="h-3 w-3 text-red-500 cursor-help ml-1" />
                                         </TooltipTrigger>
                                         <TooltipContent>
-                                            <p className="max-w-xs">Full width of the impact crater from rim to rim. Calculated using scaling laws.</p>
+                                            <p className="max-w-xs">Where the atmosphere absorbed the Meteorite's energy on the way down. Peaks show where the blast would be felt; the dashed line marks the breakup.</p>
                                         </TooltipContent>
                                     </Tooltip>
                                 </div>
+                                <EnergyDepositionChart
+                                    trajectory={impactData.atmospheric_impact.trajectory}
+                                    breakupAltitude={impactData.atmospheric_impact.breakup_altitude_m ?? null}
+                                />
+                            </div>
+                        )}
+
+                        {impactData.impact_type === 'airburst' && impactData.airburst ? (
+                            <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
+                                <h3 className='text-lg font-bold text-sky-600'>Airburst</h3>
+                                <p className="text-sm text-slate-600">
+                                    The Meteorite fragmented and disintegrated before reaching the ground, like Chelyabinsk (2013) or Tunguska (1908). No crater forms; the damage comes from the blast wave and heat released aloft.
+                                </p>
+                                <div className="grid grid-cols-2 gap-2 text-sm text-black">
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Burst Altitude:</span>
+                                        <span>{(impactData.airburst.burst_altitude_m / 1000).toFixed(1)} km</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-sky-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Altitude where the atmosphere absorbed the most energy, treated as the explosion point.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Energy Released:</span>
+                                        <span>{impactData.airburst.energy_released_megatons_tnt.toFixed(3)} MT TNT</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-sky-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Kinetic energy released in the air during the fragmentation. Chelyabinsk released about 0.5 MT.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    <div className="col-span-2 flex items-center gap-1">
+                                        <span className="font-semibold">Ground-zero Overpressure:</span>
+                                        <span>{(impactData.airburst.ground_zero_overpressure_Pa / 6894.76).toFixed(2)} psi</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-sky-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Peak blast pressure on the ground directly below the explosion. Around 1 psi shatters windows.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    {impactData.airburst.overpressure_footprint.length > 0 ? (
+                                        impactData.airburst.overpressure_footprint.map((zone: DamageZone) => (
+                                            <div key={zone.id} className="col-span-2 flex items-center gap-1">
+                                                <span className="font-semibold">{DAMAGE_ZONE_INFO[zone.id].name}:</span>
+                                                <span>{(zone.radius_m / 1000).toFixed(1)} km radius</span>
+                                            </div>
+                                        ))
+                                    ) : (
+                                        <p className="col-span-2 text-slate-600">The blast stays below 1 psi at ground level.</p>
+                                    )}
+                                </div>
+                            </div>
+                        ) : impactData.impact_type === 'ocean' && impactData.ocean ? (
+                            <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
+                                <h3 className='text-lg font-bold text-blue-600'>Ocean Impact & Tsunami</h3>
+                                <p className="text-sm text-slate-600">
+                                    The impact point is in open water. The Meteorite opens a temporary cavity in the ocean whose collapse launches a tsunami. Depth is assumed at the global ocean average of {(impactData.ocean.water_depth_m / 1000).toFixed(1)} km.
+                                </p>
+                                <div className="grid grid-cols-2 gap-2 text-sm text-black">
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Cavity Diameter:</span>
+                                        <span>{impactData.ocean.cavity_diameter_m.toFixed(0)} m</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-blue-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Width of the transient hole the impact opens in the water before it collapses.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Cavity Depth:</span>
+                                        <span>{impactData.ocean.cavity_depth_m.toFixed(0)} m</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-blue-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">How deep the cavity reaches. If it touches the seafloor, a crater also forms on the ocean bottom.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Initial Wave Amplitude:</span>
+                                        <span>{impactData.ocean.initial_amplitude_m.toFixed(1)} m</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-blue-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Height of the rim wave at the edge of the cavity, above the normal sea level.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Seafloor Crater:</span>
+                                        <span>
+                                            {impactData.ocean.reaches_seafloor
+                                                ? `${impactData.atmospheric_impact?.crater_diameter_m?.toFixed(0)} m`
+                                                : 'None'}
+                                        </span>
+                                    </div>
+                                    <div className="col-span-2">
+                                        <span className="font-semibold">Deep-water wave height (crest to trough):</span>
+                                        <ul className="mt-1 space-y-0.5">
+                                            {impactData.ocean.wave_rings.map((ring: WaveRing) => (
+                                                <li key={ring.distance_m} className="flex justify-between">
+                                                    <span>{(ring.distance_m / 1000).toFixed(0)} km</span>
+                                                    <span>{ring.height_m.toFixed(ring.height_m < 10 ? 2 : 0)} m</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                        <p className="mt-1 text-xs text-slate-500">Waves grow again as they reach shallow coastal water.</p>
+                                    </div>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
+                                <h3 className='text-lg font-bold text-purple-600'>Impact Crater</h3>
+                                <div className="grid grid-cols-2 gap-2 text-sm text-black">
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Crater Diameter:</span>
+                                        <span>{impactData.atmospheric_impact?.crater_diameter_m?.toFixed(0)} m</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-purple-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Full width of the impact crater from rim to rim. Calculated using scaling laws.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Crater Radius:</span>
+                                        <span>{(impactData.atmospheric_impact?.crater_diameter_m / 2)?.toFixed(0)} m</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-purple-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Distance from crater center to rim. Shown on the map as the impact zone.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <span className="font-semibold">Impact Energy:</span>
+                                        <span>{(impactData.atmospheric_impact?.E_after_J / 4.184e15)?.toFixed(2)} MT TNT</span>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-3 w-3 text-purple-500 cursor-help ml-1" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Energy at ground impact after atmospheric losses. For comparison, Hiroshima was ~15 kilotons.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {impactData.exposure?.length > 0 && (
+                            <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
                                 <div className="flex items-center gap-1">
-                                    <span className="font-semibold">Crater Radius:</span>
-                                    <span>{(impactData.atmospheric_impact?.crater_diameter_m / 2)?.toFixed(0)} m</span>
+                                    <h3 className='text-lg font-bold text-orange-600'>Population Exposure</h3>
                                     <Tooltip>
                                         <TooltipTrigger asChild>
-                                            <GraduationCap className="h-3 w-3 text-purple-500 cursor-help ml-1" />
+                                            <GraduationCap className="h-3 w-3 text-orange-500 cursor-help ml-1" />
                                         </TooltipTrigger>
                                         <TooltipContent>
-                                            <p className="max-w-xs">Distance from crater center to rim. Shown on the map as the impact zone.</p>
+                                            <p className="max-w-xs">Estimated people living inside each damage radius, from a coarse offline grid of towns over 1,000 inhabitants. Each ring includes the people in the rings inside it.</p>
                                         </TooltipContent>
                                     </Tooltip>
                                 </div>
+                                <ul className="space-y-1 text-sm text-black">
+                                    {impactData.exposure.map((zone: ZoneExposure) => (
+                                        <li key={zone.id} className="flex justify-between gap-2">
+                                            <span className="font-semibold">{zone.name}</span>
+                                            <span>{zone.population.toLocaleString()} people</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        {impactData.uncertainty && (
+                            <div className="space-y-3 bg-white/90 p-4 rounded-lg border border-gray-300 shadow-sm">
                                 <div className="flex items-center gap-1">
-                                    <span className="font-semibold">Impact Energy:</span>
-                                    <span>{(impactData.atmospheric_impact?.E_after_J / 4.184e15)?.toFixed(2)} MT TNT</span>
+                                    <h3 className='text-lg font-bold text-slate-800'>Uncertainty ({impactData.uncertainty.runs} runs)</h3>
                                     <Tooltip>
                                         <TooltipTrigger asChild>
-                                            <GraduationCap className="h-3 w-3 text-purple-500 cursor-help ml-1" />
+                                            <GraduationCap className="h-3 w-3 text-slate-500 cursor-help ml-1" />
                                         </TooltipTrigger>
                                         <TooltipContent>
-                                            <p className="max-w-xs">Energy at ground impact after atmospheric losses. For comparison, Hiroshima was ~15 kilotons.</p>
+                                            <p className="max-w-xs">Diameter, density, strength and entry angle are not known exactly, so the simulation was repeated with random values in their plausible ranges. 90% of the runs fall between P5 and P95; P50 is the median.</p>
                                         </TooltipContent>
                                     </Tooltip>
                                 </div>
+                                <table className="w-full text-sm text-black">
+                                    <thead>
+                                        <tr className="text-left">
+                                            <th className="p-1" />
+                                            <th className="p-1">P5</th>
+                                            <th className="p-1">P50</th>
+                                            <th className="p-1">P95</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {([
+                                            ['Initial Energy', impactData.uncertainty.initial_energy_mt, (value: number) => `${value.toPrecision(3)} MT`],
+                                            ['Impact Energy', impactData.uncertainty.impact_energy_mt, (value: number) => `${value.toPrecision(3)} MT`],
+                                            ['Crater Diameter', impactData.uncertainty.crater_diameter_m, (value: number) => value > 0 ? `${value.toFixed(0)} m` : 'None'],
+                                        ] as [string, Percentiles, (value: number) => string][]).map(([label, band, format]) => (
+                                            <tr key={label} className="border-t border-gray-200">
+                                                <td className="p-1 font-semibold">{label}</td>
+                                                <td className="p-1">{format(band.p5)}</td>
+                                                <td className="p-1">{format(band.p50)}</td>
+                                                <td className="p-1">{format(band.p95)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-xs text-slate-500">
+                                    {(impactData.uncertainty.airburst_probability * 100).toFixed(0)}% of the runs ended in an airburst. The map shows each damage ring as probability contours.
+                                </p>
                             </div>
-                        </div>
+                        )}
 
                         {/* Botones de acción mejorados */}
                         <div className="space-y-3 pt-2">
@@ -983,6 +1364,16 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                                             </svg>
                                             Download Professional Impact Card
                                         </Button>
+
+                                        <Button
+                                            type="button"
+                                            onClick={copyScenarioLink}
+                                            variant="outline"
+                                            className="w-full border-2 border-slate-200 text-slate-900 font-semibold py-5 flex items-center justify-center gap-2"
+                                        >
+                                            <Link2 size={20} />
+                                            Copy Simulation Link
+                                        </Button>
                                     </div>
                                 </div>
                             )}
@@ -1056,6 +1447,17 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                                 </div>
                             )}
 
+                            {/* Botón para fijar el escenario en la comparación */}
+                            <Button
+                                type="button"
+                                onClick={pinCurrentScenario}
+                                variant="outline"
+                                className="w-full bg-white text-slate-700 border-2 border-slate-300 hover:bg-slate-100 hover:border-slate-400 hover:text-slate-900 py-5 font-semibold shadow-sm transition-all flex items-center justify-center gap-2"
+                            >
+                                <Pin size={18} />
+                                Pin for Comparison
+                            </Button>
+
                             {/* Botón de nueva simulación - Diseño Profesional */}
                             <Button
                                 type="button"
@@ -1119,8 +1521,9 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                                                                     field.onChange(value)
                                                                     const selected = savedMeteoritesData.find(m => m.name === value)
                                                                     if (selected) {
-                                                                        setSelectedSavedId(String(selected.id))
-                                                                        setSelectedSavedName(selected.name)
+                                                                        // El escenario pasa a ser el meteorito guardado, no el NEO de un enlace
+                                                                        setSavedMeteoriteId(String(selected.id))
+                                                                        setSelectedMeteoriteId(null)
                                                                         loadMeteoriteData(selected)
                                                                         if (selected.lat && selected.lng) {
                                                                             setMapLocation(selected.lat, selected.lng)
@@ -1128,7 +1531,7 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                                                                         toast.info(`Meteorite selected: ${selected.name}`)
                                                                     }
                                                                 }}
-                                                                defaultValue={field.value}
+                                                                value={field.value ?? ''}
                                                                 disabled={loading}
                                                             >
                                                                 <SelectTrigger className="w-full bg-slate-800 border-slate-600 text-white">
@@ -1151,6 +1554,11 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                                                         </FormControl>
                                                         <FormDescription className="text-slate-400">
                                                             {savedMeteoritesData.length} meteorite(s) available
+                                                            {!savedMeteoriteId && entryPreview && (
+                                                                <span className="block">
+                                                                    Or simulate the current meteoroid ({meteroidData.radiusMeteroid} m radius, {(meteroidData.velocity / 1000).toFixed(1)} km/s, {meteroidData.angle}°)
+                                                                </span>
+                                                            )}
                                                         </FormDescription>
                                                         <FormMessage />
                                                     </FormItem>
@@ -1224,13 +1632,29 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                                 </div>
 
                                 {/* Botón de Simulación */}
-                                <div className="flex justify-end">
+                                <div className="flex items-center justify-between gap-3">
+                                    <label className="flex items-center gap-2 text-sm text-white">
+                                        <Checkbox
+                                            checked={uncertaintyMode}
+                                            onCheckedChange={(checked) => setUncertaintyMode(checked === true)}
+                                            className="border-slate-400"
+                                        />
+                                        Uncertainty mode (Monte Carlo)
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <GraduationCap className="h-4 w-4 text-purple-400 cursor-help" />
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p className="max-w-xs">Repeat the simulation with sampled diameter, density, strength and entry angle to see a range of outcomes instead of a single guess.</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </label>
                                     <Button
                                         type="button"
                                         onClick={form.handleSubmit(onSubmitSimulate)}
                                         variant="default"
                                         className="bg-white text-black hover:bg-slate-200 px-8"
-                                        disabled={!selectedSavedId}
+                                        disabled={!canSimulate}
                                     >
                                         Start Simulation
                                     </Button>
@@ -1239,6 +1663,15 @@ This was created with Meteorica for NASA Space Apps Challenge using real NASA NE
                         </Form>
                     </div>
                 )}
+
+                {/* Comparación de escenarios fijados (se conserva entre simulaciones) */}
+                <div className="pt-4">
+                    <ScenarioComparisonTable
+                        scenarios={pinnedScenarios}
+                        onRemove={id => setPinnedScenarios(prev => prev.filter(scenario => scenario.id !== id))}
+                        onClear={() => setPinnedScenarios([])}
+                    />
+                </div>
             </div>
 
             {/* Modal de Análisis con IA */}
@@ -1,14 +1,16 @@
 // SelectMeteroidForm.tsx - Formulario interactivo para configurar parámetros del meteorito
 // Se sincroniza en tiempo real con PersonalizablePlanet a través del MeteroidContext
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { zodResolver } from '@hookform/resolvers/zod'  // Validador para React Hook Form
 import { useForm } from 'react-hook-form'  // Manejo de formularios
 import { router } from '@inertiajs/react'  // Para hacer peticiones a Laravel
 import { meteroidSchema } from '../../lib/meteroidSchema'
 import type { MeteroidFormData } from '../../lib/meteroidSchema'
 import { useMeteroidContext } from '../context/MeteroidContext'  // Contexto global
-import { GraduationCap } from 'lucide-react'  // Ícono educativo
+import { JOULES_PER_MEGATON } from '../lib/atmosphericEntry'  // Conversión J → MT TNT
+import { GraduationCap, SlidersHorizontal } from 'lucide-react'  // Íconos
+import ParameterSweepExplorer from './ParameterSweepExplorer'  // Barridos y sensibilidad
 
 import { Button } from "../components/ui/button"  // Componente de botón
 import {
@@ -70,17 +72,23 @@ interface FormMeteroidProps {
  * - Botones para guardar y usar modelos NASA
  */
 const FormMeteroid: React.FC<FormMeteroidProps> = ({ onActivateSimulation }) => {
-    // Obtener estado y función de actualización del contexto
-    const { updateMeteroidData } = useMeteroidContext()
+    // Obtener estado, función de actualización y vista previa del contexto
+    const { meteroidData, updateMeteroidData, entryPreview } = useMeteroidContext()
+
+    // Un escenario abierto desde un enlace compartido ya trae valores en el contexto
+    const hasSharedScenario = meteroidData.radiusMeteroid > 0
+
+    // Modal del explorador de sensibilidad
+    const [showSweep, setShowSweep] = useState(false)
 
     // Configuración del formulario con React Hook Form
     const form = useForm<MeteroidFormData>({
         resolver: zodResolver(meteroidSchema),  // Usar validación Zod
         defaultValues: {
-            velocity: undefined,          // Sin valor inicial
-            angle: undefined,            // Sin valor inicial
-            material: undefined,         // Sin valor inicial
-            radiusMeteroid: undefined,   // Sin valor inicial
+            velocity: hasSharedScenario ? meteroidData.velocity : undefined,
+            angle: hasSharedScenario ? meteroidData.angle : undefined,
+            material: hasSharedScenario ? meteroidData.material : undefined,
+            radiusMeteroid: hasSharedScenario ? meteroidData.radiusMeteroid : undefined,
             namemeteroid: undefined       // Sin valor inicial
         }
     })
@@ -364,6 +372,56 @@ const FormMeteroid: React.FC<FormMeteroidProps> = ({ onActivateSimulation }) =>
                             </Card>
                         </div>
 
+                        {/* Card de Vista Previa - se recalcula en vivo con el motor del cliente */}
+                        <Card className="w-full">
+                            <CardHeader>
+                                <CardTitle className="text-lg">Vista previa de entrada</CardTitle>
+                                <CardDescription>
+                                    Estimación en vivo mientras cambias los parámetros
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {entryPreview ? (
+                                    <div className="grid grid-cols-2 gap-2 text-sm">
+                                        <div>
+                                            <span className="font-semibold">Initial Energy: </span>
+                                            <span>{entryPreview.calculations.kinetic_energy_initial_megatons_tnt.toPrecision(3)} MT TNT</span>
+                                        </div>
+                                        <div>
+                                            <span className="font-semibold">Impact Energy: </span>
+                                            <span>{(entryPreview.atmospheric_impact.E_after_J / JOULES_PER_MEGATON).toPrecision(3)} MT TNT</span>
+                                        </div>
+                                        <div>
+                                            <span className="font-semibold">Energy Remaining: </span>
+                                            <span>{(entryPreview.atmospheric_impact.f_atm * 100).toFixed(1)}%</span>
+                                        </div>
+                                        <div>
+                                            <span className="font-semibold">Breakup Altitude: </span>
+                                            <span>
+                                                {entryPreview.atmospheric_impact.breakup_altitude_m !== null
+                                                    ? `${(entryPreview.atmospheric_impact.breakup_altitude_m / 1000).toFixed(2)} km`
+                                                    : 'No breakup'}
+                                            </span>
+                                        </div>
+                                        <div className="col-span-2">
+                                            <span className="font-semibold">Crater Diameter: </span>
+                                            <span>{entryPreview.atmospheric_impact.crater_diameter_m.toFixed(0)} m</span>
+                                        </div>
+                                        <div className="col-span-2">
+                                            <Button type="button" variant="outline" size="sm" onClick={() => setShowSweep(true)}>
+                                                <SlidersHorizontal className="h-4 w-4" />
+                                                Sensitivity Explorer
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-muted-foreground">
+                                        Ingresa radio, velocidad y ángulo para ver la estimación.
+                                    </p>
+                                )}
+                            </CardContent>
+                        </Card>
+
                         {/* Botones de Acción */}
                         <div className="flex gap-3 justify-end">
                             <Button type="submit" variant="default" className="text-black border-black hover:bg-blue-800 hover:text-white">
@@ -376,6 +434,9 @@ const FormMeteroid: React.FC<FormMeteroidProps> = ({ onActivateSimulation }) =>
                     </form>
                 </Form>
             </div>
+
+            {/* Explorador de barridos sobre el meteorito actual */}
+            {showSweep && <ParameterSweepExplorer onClose={() => setShowSweep(false)} />}
         </TooltipProvider>
     )
 }
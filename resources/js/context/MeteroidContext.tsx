@@ -1,13 +1,22 @@
 // MeteroidContext.tsx - Contexto global para manejo de estado del meteorito
 // Permite sincronización en tiempo real entre formulario y visualización 3D
 
-import React, { createContext, useContext, useState } from 'react'
+import React, { createContext, useContext, useMemo, useState } from 'react'
+import { simulateAtmosphericEntry } from '../lib/atmosphericEntry'
+import type { EntrySimulationResult } from '../lib/atmosphericEntry'
+import type { DamageEffects } from '../lib/damageEffects'
+import type { DeflectionEffect } from '../lib/groundTrack'
+import type { OceanImpactResult } from '../lib/oceanImpact'
+import { buildScenarioLink, readScenarioFromUrl } from '../lib/scenarioPermalink'
+import type { ScenarioEntryOptions } from '../lib/scenarioPermalink'
+import type { PinnedScenario } from '../lib/scenarioComparison'
+import type { UncertaintyResult } from '../lib/monteCarlo'
 
 /**
  * Interfaz que define la estructura de datos del meteorito
  * Estos valores controlan tanto el formulario como la visualización 3D
  */
-interface MeteroidData {
+export interface MeteroidData {
     radiusMeteroid: number  // Radio del meteorito en metros (afecta tamaño 3D)
     velocity: number        // Velocidad en m/s (afecta rotación del planeta)
     angle: number          // Ángulo de entrada 0-90° (para cálculos físicos)
@@ -17,7 +26,12 @@ interface MeteroidData {
 /**
  * Coordenadas geográficas (lat, lng)
  */
-type LatLng = [number, number]
+export type LatLng = [number, number]
+
+/**
+ * Ubicación inicial del mapa cuando el escenario no trae una
+ */
+export const DEFAULT_LOCATION: LatLng = [26.915093, -101.430703]
 
 /**
  * Interfaz del contexto que expone el estado y métodos de actualización
@@ -29,10 +43,26 @@ interface MeteroidContextType {
     setLocation: (loc: LatLng) => void  // Función para actualizar ubicación
     selectedMeteoriteId: string | null   // ID del meteorito de NASA seleccionado
     setSelectedMeteoriteId: (id: string | null) => void  // Función para actualizar ID
+    savedMeteoriteId: string | null      // ID del meteorito guardado seleccionado en el simulador
+    setSavedMeteoriteId: (id: string | null) => void  // Función para actualizar el meteorito guardado
     isSimulating: boolean                // Estado de si se está mostrando la simulación
     setIsSimulating: (simulating: boolean) => void  // Función para activar/desactivar simulación
     craterRadius: number | null          // Radio del cráter calculado
     setCraterRadius: (radius: number | null) => void  // Función para actualizar el radio del cráter
+    damageEffects: DamageEffects | null  // Zonas de daño de la última simulación
+    setDamageEffects: (effects: DamageEffects | null) => void  // Función para actualizar las zonas de daño
+    oceanImpact: OceanImpactResult | null  // Cavidad y tsunami si el impacto fue en el océano
+    setOceanImpact: (ocean: OceanImpactResult | null) => void  // Función para actualizar el impacto en el océano
+    uncertainty: UncertaintyResult | null  // Percentiles del modo de incertidumbre (null si está apagado)
+    setUncertainty: (result: UncertaintyResult | null) => void  // Función para actualizar el modo de incertidumbre
+    deflection: DeflectionEffect | null  // Resultado de la misión de desviación (null si no se simuló ninguna)
+    setDeflection: (effect: DeflectionEffect | null) => void  // Función para actualizar la desviación
+    entryOptions: ScenarioEntryOptions   // Opciones del modelo atmosférico (vacío = valores por defecto)
+    setEntryOptions: (options: ScenarioEntryOptions) => void  // Función para actualizar las opciones del modelo
+    entryPreview: EntrySimulationResult | null  // Vista previa de la entrada atmosférica (null sin radio, velocidad o ángulo)
+    scenarioLink: string                 // Enlace permanente a /sim con el escenario actual
+    pinnedScenarios: PinnedScenario[]    // Escenarios fijados para comparar
+    setPinnedScenarios: React.Dispatch<React.SetStateAction<PinnedScenario[]>>  // Función para fijar o quitar escenarios
 }
 
 // Creación del contexto con valor inicial undefined
@@ -65,14 +95,17 @@ interface MeteroidProviderProps {
  * Funcionalidades:
  * - Mantiene el estado global del meteorito
  * - Proporciona función de actualización parcial
- * - Valores iniciales en 0 (sin defaults)
+ * - Valores iniciales en 0 (sin defaults), salvo que la URL traiga un escenario compartido
  * 
  * @param {MeteroidProviderProps} props - Props con children
  * @returns {JSX.Element} Provider envolviendo los children
  */
 export const MeteroidProvider: React.FC<MeteroidProviderProps> = ({ children }) => {
+    // Escenario compartido en el hash de la URL (se lee una sola vez al montar)
+    const [sharedScenario] = useState(readScenarioFromUrl)
+
     // Estado inicial del meteorito - todos los valores en 0 para empezar sin configuración
-    const [meteroidData, setMeteroidData] = useState<MeteroidData>({
+    const [meteroidData, setMeteroidData] = useState<MeteroidData>(sharedScenario?.meteroid ?? {
         radiusMeteroid: 0,    // Sin tamaño inicial - planeta será mínimo
         velocity: 0,          // Sin velocidad - planeta no rotará
         angle: 0,            // Sin ángulo - valor neutro
@@ -80,10 +113,19 @@ export const MeteroidProvider: React.FC<MeteroidProviderProps> = ({ children })
     })
 
     // Estado global para la ubicación del mapa (lat, lng)
-    const [location, setLocation] = useState<LatLng>([26.915093, -101.430703])
+    const [location, setLocation] = useState<LatLng>(sharedScenario?.location ?? DEFAULT_LOCATION)
     
     // Estado para el ID del meteorito de NASA seleccionado
-    const [selectedMeteoriteId, setSelectedMeteoriteId] = useState<string | null>(null)
+    const [selectedMeteoriteId, setSelectedMeteoriteId] = useState<string | null>(sharedScenario?.nasaId ?? null)
+
+    // Estado para el meteorito guardado seleccionado (el enlace lo conserva para repetir la simulación)
+    const [savedMeteoriteId, setSavedMeteoriteId] = useState<string | null>(sharedScenario?.savedId ?? null)
+
+    // Estado para los escenarios fijados en el modo de comparación
+    const [pinnedScenarios, setPinnedScenarios] = useState<PinnedScenario[]>([])
+
+    // Estado para las opciones del modelo atmosférico
+    const [entryOptions, setEntryOptions] = useState<ScenarioEntryOptions>(sharedScenario?.entryOptions ?? {})
     
     // Estado para controlar si se está mostrando la simulación
     const [isSimulating, setIsSimulating] = useState(false)
@@ -91,6 +133,18 @@ export const MeteroidProvider: React.FC<MeteroidProviderProps> = ({ children })
     // Estado para el radio del cráter calculado
     const [craterRadius, setCraterRadius] = useState<number | null>(null)
 
+    // Estado para las zonas de daño (onda expansiva, térmica, sismo, eyecta)
+    const [damageEffects, setDamageEffects] = useState<DamageEffects | null>(null)
+
+    // Estado para el impacto en el océano (anillos de altura de ola)
+    const [oceanImpact, setOceanImpact] = useState<OceanImpactResult | null>(null)
+
+    // Estado para el modo de incertidumbre (contornos de probabilidad en el mapa)
+    const [uncertainty, setUncertainty] = useState<UncertaintyResult | null>(null)
+
+    // Estado para la desviación simulada (mueve o anula el impacto en el mapa)
+    const [deflection, setDeflection] = useState<DeflectionEffect | null>(null)
+
     /**
      * Función para actualizar parcialmente los datos del meteorito
      * Permite actualizar solo los campos que cambiaron sin afectar otros
@@ -101,6 +155,23 @@ export const MeteroidProvider: React.FC<MeteroidProviderProps> = ({ children })
         setMeteroidData(prev => ({ ...prev, ...data }))
     }
 
+    /**
+     * Vista previa de la entrada atmosférica calculada en el cliente
+     * Se recalcula cada vez que cambian los datos del meteorito o la ubicación
+     * (los campos vacíos o NaN del formulario dejan la vista previa en null)
+     */
+    const entryPreview = useMemo(() => {
+        const { radiusMeteroid, velocity, angle } = meteroidData
+        if (!(radiusMeteroid > 0) || !(velocity > 0) || !(angle > 0)) return null
+        return simulateAtmosphericEntry(meteroidData, location, entryOptions)
+    }, [meteroidData, location, entryOptions])
+
+    // Enlace permanente al escenario actual
+    const scenarioLink = useMemo(
+        () => buildScenarioLink({ meteroid: meteroidData, location, nasaId: selectedMeteoriteId, savedId: savedMeteoriteId, entryOptions }),
+        [meteroidData, location, selectedMeteoriteId, savedMeteoriteId, entryOptions]
+    )
+
     return (
         <MeteroidContext.Provider value={{ 
             meteroidData, 
@@ -109,10 +180,26 @@ export const MeteroidProvider: React.FC<MeteroidProviderProps> = ({ children })
             setLocation,
             selectedMeteoriteId,
             setSelectedMeteoriteId,
+            savedMeteoriteId,
+            setSavedMeteoriteId,
             isSimulating,
             setIsSimulating,
             craterRadius,
-            setCraterRadius
+            setCraterRadius,
+            damageEffects,
+            setDamageEffects,
+            oceanImpact,
+            setOceanImpact,
+            uncertainty,
+            setUncertainty,
+            deflection,
+            setDeflection,
+            entryOptions,
+            setEntryOptions,
+            entryPreview,
+            scenarioLink,
+            pinnedScenarios,
+            setPinnedScenarios
         }}>
             {children}
         </MeteroidContext.Provider>
@@ -0,0 +1,41 @@
+// use-neo-detail.ts - Descarga de un NEO completo (getMeteoriteById) a través del catálogo de IndexedDB
+// La petición se cancela al desmontar o cambiar de NEO y la copia guardada se sustituye al refrescarse
+
+import { useEffect, useState } from 'react'
+import { describeApiError } from '@/lib/neoApi'
+import type { NeoLookupResponse } from '@/lib/neoApi'
+import { getCatalogDetail } from '@/lib/neoCatalog'
+
+/**
+ * NEO de NeoWs con el resumen de impacto del servidor
+ *
+ * @param {string} neoId - ID del NEO en NeoWs
+ * @param {string} failureMessage - Inicio del mensaje de error que se muestra al usuario
+ * @returns Respuesta (null hasta que llega), si sigue cargando y el error
+ */
+export const useNeoDetail = (neoId: string, failureMessage: string) => {
+    const [lookup, setLookup] = useState<NeoLookupResponse | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const controller = new AbortController()
+        setLoading(true)
+        setError(null)
+        getCatalogDetail(neoId, {
+            signal: controller.signal,
+            onRefresh: setLookup,
+        }).then(result => {
+            if (result.ok) {
+                setLookup(result.data)
+            } else if (result.error.kind !== 'aborted') {
+                console.error('Error fetching NEO:', result.error)
+                setError(`${failureMessage}: ${describeApiError(result.error)}`)
+            }
+            if (!controller.signal.aborted) setLoading(false)
+        })
+        return () => controller.abort()
+    }, [neoId, failureMessage])
+
+    return { lookup, loading, error }
+}
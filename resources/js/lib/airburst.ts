@@ -0,0 +1,123 @@
+// airburst.ts - Clasificación del resultado: impacto en superficie, en el océano o explosión aérea
+// Un cuerpo que se fragmenta y se detiene antes de tocar el suelo (Chelyabinsk, Tunguska)
+// libera su energía en el aire: no hay cráter, solo onda expansiva y pulso térmico
+
+import type { LatLng } from '../context/MeteroidContext'
+import { energyDepositionProfile, localGravity } from './atmosphericEntry'
+import type { AtmosphericImpact, DepositionBin, ImpactCalculations } from './atmosphericEntry'
+import { computeDamageEffects, peakOverpressure } from './damageEffects'
+import type { DamageZone } from './damageEffects'
+import { isLand } from './landMask'
+import { estimateOceanImpact } from './oceanImpact'
+import type { OceanImpactResult } from './oceanImpact'
+
+/** Joules por kilotón de TNT */
+const JOULES_PER_KILOTON = 4.184e12
+
+/**
+ * Tipo de resultado del impacto
+ */
+export type ImpactType = 'ground' | 'airburst' | 'ocean'
+
+/**
+ * Datos de una explosión aérea
+ */
+export interface AirburstResult {
+    burst_altitude_m: number            // Altitud de máxima deposición de energía
+    energy_released_J: number           // Energía liberada en el aire
+    energy_released_megatons_tnt: number
+    ground_zero_overpressure_Pa: number // Sobrepresión justo debajo de la explosión
+    overpressure_footprint: DamageZone[] // Radios a nivel del suelo para 20, 5 y 1 psi
+}
+
+/**
+ * Resultado de la clasificación
+ */
+export interface ImpactClassification {
+    impact_type: ImpactType
+    airburst: AirburstResult | null
+    ocean: OceanImpactResult | null
+}
+
+/**
+ * Punto de impacto y cuerpo original, necesarios para distinguir tierra y océano
+ */
+export interface ImpactTarget {
+    location: LatLng
+    calculations: Pick<ImpactCalculations, 'diameter_m' | 'mass_kg' | 'volume_m3'>
+    angle_deg: number
+}
+
+/**
+ * Clasifica el resultado de la entrada atmosférica
+ * Es explosión aérea cuando el cuerpo se fragmentó y la simulación terminó por encima del suelo;
+ * si llega a la superficie en un punto de agua según la máscara, es impacto en el océano
+ *
+ * @param {AtmosphericImpact} impact - Resultado de la entrada (servidor o motor del cliente)
+ * @param {ImpactTarget} target - Punto de impacto (sin él se asume tierra firme)
+ * @returns {ImpactClassification} Tipo de impacto y los datos de la rama que aplica
+ */
+export const classifyImpact = (impact: AtmosphericImpact, target?: ImpactTarget): ImpactClassification => {
+    if (!impact.broke || !(impact.final_altitude_m > 0)) {
+        if (target && !isLand(target.location[0], target.location[1])) {
+            return { impact_type: 'ocean', airburst: null, ocean: oceanImpactFor(impact, target) }
+        }
+        return { impact_type: 'ground', airburst: null, ocean: null }
+    }
+
+    const trajectory = impact.trajectory ?? []
+
+    // La energía que no conserva el remanente al detenerse se liberó en el aire
+    const last = trajectory[trajectory.length - 1]
+    const finalKinetic = last ? 0.5 * last.mass_kg * last.velocity_ms ** 2 : impact.E_after_J
+    const energyReleased = Math.max(0, impact.E_initial_J - finalKinetic)
+
+    // La explosión se ubica en la franja de máxima deposición (o en la ruptura si no hay serie)
+    const peak = energyDepositionProfile(trajectory, 1000)
+        .reduce<DepositionBin | null>(
+            (best, bin) => (!best || bin.energy_J > best.energy_J ? bin : best),
+            null
+        )
+    const burstAltitude = peak && peak.energy_J > 0
+        ? peak.altitude_m
+        : impact.breakup_altitude_m ?? impact.final_altitude_m
+
+    const effects = computeDamageEffects({
+        energy_J: energyReleased,
+        burstAltitude_m: burstAltitude,
+        craterDiameter_m: 0,
+    })
+
+    return {
+        impact_type: 'airburst',
+        airburst: {
+            burst_altitude_m: burstAltitude,
+            energy_released_J: energyReleased,
+            energy_released_megatons_tnt: energyReleased / (JOULES_PER_KILOTON * 1000),
+            ground_zero_overpressure_Pa: peakOverpressure(burstAltitude, energyReleased / JOULES_PER_KILOTON),
+            overpressure_footprint: effects.zones.filter(zone => zone.id.startsWith('overpressure')),
+        },
+        ocean: null,
+    }
+}
+
+/**
+ * Aplica el modelo de impacto en el océano al remanente que llega al agua
+ */
+const oceanImpactFor = (impact: AtmosphericImpact, { location, calculations, angle_deg }: ImpactTarget): OceanImpactResult => {
+    const density = calculations.mass_kg / calculations.volume_m3
+
+    // Diámetro de la esfera equivalente a la masa que sobrevive la entrada
+    const last = impact.trajectory?.[impact.trajectory.length - 1]
+    const diameter = last && last.mass_kg > 0
+        ? Math.cbrt((6 * last.mass_kg) / (Math.PI * density))
+        : calculations.diameter_m
+
+    return estimateOceanImpact({
+        impactorDiameter_m: diameter,
+        impactorDensity_kg_m3: density,
+        velocity_ms: impact.final_velocity_ms,
+        angle_deg,
+        gravity: localGravity(location[0]),
+    })
+}
@@ -0,0 +1,178 @@
+// asteroidGeometry.ts - Geometría procedural de asteroides con semilla
+// Deforma un icosaedro con ruido y cráteres; la misma semilla siempre da la misma forma
+
+import * as THREE from 'three'
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import type { MeteroidData } from '../context/MeteroidContext'
+import { createRng } from './monteCarlo'
+
+/**
+ * Aspecto de la superficie de cada material
+ */
+export interface AsteroidSurface {
+    baseColor: string       // Color medio de la superficie
+    detailColor: string     // Color de las manchas y del fondo de los cráteres
+    metalness: number
+    roughness: number
+    flatShading: boolean    // Facetas visibles para la roca, superficie suave para el metal
+    lumpiness: number       // Amplitud del ruido respecto al radio
+    craters: number         // Número de cráteres
+}
+
+export const ASTEROID_SURFACES: Record<MeteroidData['material'], AsteroidSurface> = {
+    // Condrita: rugosa, oscura y muy craterizada
+    rock: {
+        baseColor: '#6b5a4a',
+        detailColor: '#2f2823',
+        metalness: 0.05,
+        roughness: 0.95,
+        flatShading: true,
+        lumpiness: 0.22,
+        craters: 22,
+    },
+    // Hierro-níquel: más compacto, pulido por la ablación, con pocos cráteres
+    iron: {
+        baseColor: '#8a7f73',
+        detailColor: '#5a4632',
+        metalness: 0.7,
+        roughness: 0.35,
+        flatShading: false,
+        lumpiness: 0.1,
+        craters: 6,
+    },
+    nickel: {
+        baseColor: '#b8b8b4',
+        detailColor: '#7c7c78',
+        metalness: 0.75,
+        roughness: 0.28,
+        flatShading: false,
+        lumpiness: 0.08,
+        craters: 5,
+    },
+}
+
+/**
+ * Semilla entera estable a partir de un texto (FNV-1a de 32 bits)
+ *
+ * @param {string} text - Identificador del meteorito (id de NASA, nombre...)
+ * @returns {number} Semilla
+ */
+export const hashSeed = (text: string): number => {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+/**
+ * Ruido de valor 3D con semilla: valores aleatorios en una red entera interpolados suavemente
+ */
+const createValueNoise = (rng: () => number) => {
+    const size = 256
+    const values = Array.from({ length: size }, () => rng() * 2 - 1)
+    const permutation = Array.from({ length: size }, (_, i) => i)
+    for (let i = size - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1))
+        ;[permutation[i], permutation[j]] = [permutation[j], permutation[i]]
+    }
+    const lattice = (x: number, y: number, z: number) =>
+        values[permutation[(permutation[(permutation[x & 255] + y) & 255] + z) & 255]]
+    const smooth = (t: number) => t * t * (3 - 2 * t)
+    const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+
+    return (x: number, y: number, z: number): number => {
+        const xi = Math.floor(x)
+        const yi = Math.floor(y)
+        const zi = Math.floor(z)
+        const u = smooth(x - xi)
+        const v = smooth(y - yi)
+        const w = smooth(z - zi)
+        const corner = (dx: number, dy: number, dz: number) => lattice(xi + dx, yi + dy, zi + dz)
+        return lerp(
+            lerp(lerp(corner(0, 0, 0), corner(1, 0, 0), u), lerp(corner(0, 1, 0), corner(1, 1, 0), u), v),
+            lerp(lerp(corner(0, 0, 1), corner(1, 0, 1), u), lerp(corner(0, 1, 1), corner(1, 1, 1), u), v),
+            w
+        )
+    }
+}
+
+/**
+ * Genera la geometría de un asteroide de radio ~1 con colores por vértice
+ *
+ * Pasos:
+ * - icosaedro subdividido (vértices compartidos para poder suavizar normales)
+ * - estiramiento por ejes (los asteroides pequeños rara vez son esféricos)
+ * - ruido fractal para la forma general
+ * - cráteres: cuenco parabólico con borde elevado, más pequeños que grandes
+ *
+ * @param {number} seed - Semilla (usar hashSeed con el id del meteorito)
+ * @param {MeteroidData['material']} material - Material, define rugosidad y número de cráteres
+ * @param {number} detail - Subdivisiones del icosaedro
+ * @returns {THREE.BufferGeometry} Geometría con atributos position, normal y color
+ */
+export const createAsteroidGeometry = (seed: number, material: MeteroidData['material'], detail = 20): THREE.BufferGeometry => {
+    const surface = ASTEROID_SURFACES[material] ?? ASTEROID_SURFACES.rock
+    const rng = createRng(seed)
+    const noise = createValueNoise(rng)
+
+    // Estiramiento por ejes
+    const stretch = new THREE.Vector3(1 + rng() * 0.35, 1 - rng() * 0.2, 1 - rng() * 0.15)
+
+    // Cráteres: centro en la esfera y radio angular con ley de potencias
+    const craters = Array.from({ length: surface.craters }, () => {
+        const center = new THREE.Vector3(rng() * 2 - 1, rng() * 2 - 1, rng() * 2 - 1).normalize()
+        const radius = 0.08 + 0.32 * rng() ** 2.5
+        return { center, radius, depth: radius * 0.35 }
+    })
+
+    const geometry = mergeVertices(new THREE.IcosahedronGeometry(1, detail).deleteAttribute('normal').deleteAttribute('uv'))
+    const positions = geometry.getAttribute('position')
+    const colors = new Float32Array(positions.count * 3)
+    const base = new THREE.Color(surface.baseColor)
+    const detailColor = new THREE.Color(surface.detailColor)
+    const vertex = new THREE.Vector3()
+    const color = new THREE.Color()
+
+    for (let i = 0; i < positions.count; i++) {
+        vertex.fromBufferAttribute(positions, i).normalize()
+
+        // Ruido fractal (4 octavas)
+        let lump = 0
+        let amplitude = 1
+        let frequency = 1.5
+        for (let octave = 0; octave < 4; octave++) {
+            lump += amplitude * noise(vertex.x * frequency + 11, vertex.y * frequency + 23, vertex.z * frequency + 37)
+            amplitude *= 0.5
+            frequency *= 2
+        }
+
+        // Cráteres: cuenco dentro del radio y borde elevado alrededor
+        let crater = 0
+        let floor = 0
+        for (const { center, radius, depth } of craters) {
+            const x = vertex.angleTo(center) / radius
+            if (x > 1.6) continue
+            const bowl = x < 1 ? x * x - 1 : 0
+            const rim = 0.3 * Math.exp(-(((x - 1) / 0.22) ** 2))
+            crater += depth * (bowl + rim)
+            if (x < 1) floor = Math.max(floor, 1 - x)
+        }
+
+        const height = 1 + surface.lumpiness * lump + crater
+        positions.setXYZ(i, vertex.x * height * stretch.x, vertex.y * height * stretch.y, vertex.z * height * stretch.z)
+
+        // Color: manchas por ruido y fondos de cráter más oscuros
+        const speckle = 0.5 + 0.5 * noise(vertex.x * 9 + 5, vertex.y * 9 + 7, vertex.z * 9 + 3)
+        color.copy(base).lerp(detailColor, Math.min(1, 0.35 * speckle + 0.6 * floor))
+        colors[i * 3] = color.r
+        colors[i * 3 + 1] = color.g
+        colors[i * 3 + 2] = color.b
+    }
+
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+    geometry.computeVertexNormals()
+    geometry.computeBoundingSphere()
+    return geometry
+}
@@ -0,0 +1,354 @@
+// atmosphericEntry.ts - Motor de entrada atmosférica en el cliente
+// Port del modelo de MeteoriteController::estimateAtmosphericEffects para
+// poder recalcular la vista previa del formulario sin pedir nada al servidor
+
+import type { LatLng, MeteroidData } from '../context/MeteroidContext'
+
+/** Joules por megatón de TNT */
+export const JOULES_PER_MEGATON = 4.184e15
+
+/**
+ * Densidad (kg/m³) por material, mismos valores que getUserMeteoriteById
+ */
+export const MATERIAL_DENSITIES: Record<MeteroidData['material'], number> = {
+    rock: 2700,
+    iron: 7800,
+    nickel: 8900,
+}
+
+/**
+ * Resistencia a la ruptura (Pa) por material, mismos valores que el servidor
+ */
+export const MATERIAL_STRENGTHS: Record<MeteroidData['material'], number> = {
+    rock: 1e7,
+    iron: 1e8,
+    nickel: 1e8,
+}
+
+/**
+ * Parámetros atmosféricos opcionales (mismos defaults que el servidor)
+ */
+export interface EntryOptions {
+    dragCoefficient?: number     // C_d, típicamente 0.8-1.5
+    seaLevelDensity?: number     // densidad del aire a nivel del mar (kg/m³)
+    scaleHeight?: number         // altura de escala de la atmósfera (m)
+    densityOverride?: number     // densidad del cuerpo (kg/m³) en lugar de la del material
+    strengthOverride?: number    // resistencia (Pa) en lugar de la del material
+}
+
+/**
+ * Cálculos básicos del cuerpo antes de entrar a la atmósfera
+ * (mismo formato que `calculations` en la respuesta de Laravel)
+ */
+export interface ImpactCalculations {
+    diameter_m: number
+    radius_m: number
+    volume_m3: number
+    mass_kg: number
+    velocity_ms: number
+    kinetic_energy_initial_J: number
+    kinetic_energy_initial_megatons_tnt: number
+    material_density_kg_m3: number
+    material_strength_Pa: number
+    diameter_min_m?: number     // Diámetro mínimo estimado por NASA (solo getMeteoriteById)
+    diameter_max_m?: number     // Diámetro máximo estimado por NASA (solo getMeteoriteById)
+}
+
+/**
+ * Muestra de la serie temporal de la entrada
+ * (mismo formato que `atmospheric_impact.trajectory` en la respuesta de Laravel)
+ */
+export interface TrajectorySample {
+    t_s: number
+    altitude_m: number
+    velocity_ms: number
+    mass_kg: number
+    dynamic_pressure_Pa: number
+    energy_deposited_J: number  // energía depositada en el aire desde la muestra anterior
+}
+
+/**
+ * Energía depositada en una franja de altitud
+ */
+export interface DepositionBin {
+    altitude_m: number  // altitud del centro de la franja
+    energy_J: number
+}
+
+/**
+ * Resultado de la entrada atmosférica
+ * (mismo formato que `atmospheric_impact` en la respuesta de Laravel)
+ */
+export interface AtmosphericImpact {
+    f_atm: number
+    f_frag: number
+    f_total: number
+    broke: boolean
+    breakup_altitude_m: number | null
+    E_initial_J: number
+    E_after_J: number
+    energy_lost_percent: number
+    mass_lost_percent: number
+    final_velocity_ms: number
+    final_altitude_m: number
+    simulation_time_s: number
+    initial_megatons_tnt: number
+    final_megatons_tnt: number
+    crater_diameter_m: number
+    trajectory: TrajectorySample[]
+}
+
+export interface EntrySimulationResult {
+    location: LatLng
+    calculations: ImpactCalculations
+    atmospheric_impact: AtmosphericImpact
+}
+
+/**
+ * Gravedad local según la latitud (fórmula internacional de gravedad)
+ *
+ * @param {number} latDeg - Latitud en grados
+ * @returns {number} Aceleración de la gravedad en m/s²
+ */
+export const localGravity = (latDeg: number): number => {
+    const phi = (latDeg * Math.PI) / 180
+    const sin2 = Math.sin(phi) ** 2
+    const sin2phi2 = Math.sin(2 * phi) ** 2
+    return 9.780327 * (1 + 0.0053024 * sin2 - 0.0000058 * sin2phi2)
+}
+
+/**
+ * Simula la entrada atmosférica de un meteorito
+ *
+ * Modelo (igual que el del servidor):
+ * - ablación por fricción (simple)
+ * - ruptura "pancake" cuando la presión dinámica q = ½ρv² supera la resistencia
+ * - escalado empírico del cráter con la energía que llega al suelo
+ *
+ * La velocidad de MeteroidData está en m/s, igual que en los meteoritos guardados.
+ *
+ * @param {MeteroidData} meteroid - Parámetros del meteorito
+ * @param {LatLng} location - Punto de impacto (la latitud ajusta la gravedad)
+ * @param {EntryOptions} options - Parámetros atmosféricos opcionales
+ * @returns {EntrySimulationResult} Cálculos iniciales y efectos atmosféricos
+ */
+export const simulateAtmosphericEntry = (
+    meteroid: MeteroidData,
+    location: LatLng,
+    options: EntryOptions = {}
+): EntrySimulationResult => {
+    const {
+        dragCoefficient = 1.0,
+        seaLevelDensity = 1.225,
+        scaleHeight = 8000.0,
+    } = options
+
+    const rhoObj = options.densityOverride ?? MATERIAL_DENSITIES[meteroid.material] ?? 2700
+    const strength = options.strengthOverride ?? MATERIAL_STRENGTHS[meteroid.material] ?? 1e7
+    const g = localGravity(location[0])
+
+    const radius0 = Math.max(0, meteroid.radiusMeteroid)
+    const D = radius0 * 2
+    const v0 = Math.max(0, meteroid.velocity)
+    const volume = (4 / 3) * Math.PI * radius0 ** 3
+    const originalMass = rhoObj * volume
+    const kineticEnergy = 0.5 * originalMass * v0 ** 2
+
+    // constantes de ablación (valores típicos)
+    const Lambda = 0.1   // coeficiente de transferencia de calor
+    const Q = 6e6        // calor de ablación efectivo J/kg
+
+    // geometría y masa inicial
+    let radius = radius0
+    let area = Math.PI * radius ** 2
+    let mass = originalMass
+
+    // condiciones iniciales
+    const theta = (Math.max(0, Math.min(90, meteroid.angle)) * Math.PI) / 180
+    let v = v0
+    let h = 120000
+    let t = 0
+
+    const E_initial = kineticEnergy
+    let E_remain = E_initial
+
+    let broke = false
+    let breakupAlt: number | null = null
+    let fragmentsMass = 0
+    let massBeforeBreak = mass
+
+    // integración adaptativa
+    let dt = 0.05
+    const tMax = 3600
+    const minDt = 1e-4
+    const maxDt = 1.0
+    let iterations = 0
+    const maxIterations = 500000
+
+    // para cuerpos de más de 1 km la atmósfera apenas los frena
+    const bigObjectThreshold = 1000
+
+    // serie temporal: una muestra por paso (se reduce al final)
+    const trajectory: TrajectorySample[] = [{
+        t_s: 0,
+        altitude_m: h,
+        velocity_ms: v,
+        mass_kg: mass,
+        dynamic_pressure_Pa: 0.5 * seaLevelDensity * Math.exp(-h / scaleHeight) * v ** 2,
+        energy_deposited_J: 0,
+    }]
+
+    while (h > 0 && v > 10 && t < tMax && iterations < maxIterations) {
+        const rhoAir = seaLevelDensity * Math.exp(-h / scaleHeight)
+        const q = 0.5 * rhoAir * v ** 2
+
+        // ablación: dm/dt ≈ -(Λ A ρ v³) / (2Q), sin borrar la masa en un solo paso
+        const dmDtAblation = -(Lambda * area * rhoAir * v ** 3) / (2 * Q)
+        const dmAblation = dmDtAblation < 0 ? Math.max(mass * -0.9999, dmDtAblation * dt) : 0
+
+        // ruptura por presión dinámica
+        if (!broke && q >= strength) {
+            broke = true
+            breakupAlt = h
+            massBeforeBreak = mass
+
+            // a mayor altura de ruptura, mayor fragmentación
+            if (h > 30000) fragmentsMass = 0.1 * mass
+            else if (h > 20000) fragmentsMass = 0.25 * mass
+            else if (h > 10000) fragmentsMass = 0.5 * mass
+            else fragmentsMass = 0.8 * mass
+        }
+
+        // arrastre y gravedad
+        const Fd = 0.5 * dragCoefficient * rhoAir * v ** 2 * area
+        const aDrag = -Fd / Math.max(1e-6, mass)
+        const aGravity = -g * Math.sin(theta)
+
+        const vNew = Math.max(0, v + (aDrag + aGravity) * dt)
+        const ds = 0.5 * (v + vNew) * dt
+        const hNew = Math.max(0, h - ds * Math.sin(theta))
+
+        // trabajo del arrastre = energía depositada en el aire
+        const workDrag = Fd * ds
+        E_remain = Math.max(0, E_remain - workDrag)
+
+        mass = Math.max(0, mass + dmAblation)
+
+        // la primera vez tras la ruptura se reasigna masa y área al remanente
+        if (broke && mass > 0 && massBeforeBreak > 0 && mass > massBeforeBreak * 0.9999) {
+            mass = Math.max(1e-6, fragmentsMass)
+            radius = Math.cbrt((3 * mass) / (4 * Math.PI * rhoObj))
+            area = Math.PI * radius ** 2
+        }
+
+        if (D >= bigObjectThreshold) {
+            mass = Math.max(mass, originalMass * 0.9)
+        }
+
+        v = vNew
+        h = hNew
+        t += dt
+        iterations++
+
+        trajectory.push({
+            t_s: t,
+            altitude_m: h,
+            velocity_ms: v,
+            mass_kg: mass,
+            dynamic_pressure_Pa: q,
+            energy_deposited_J: workDrag,
+        })
+
+        dt = Math.max(minDt, Math.min(maxDt, 0.05 + 1000 / (1 + v)))
+    }
+
+    const f_atm = E_initial > 0 ? E_remain / E_initial : 0
+    const f_frag = originalMass > 0 ? mass / originalMass : 0
+
+    // escalado empírico del cráter (mismo que el servidor)
+    let craterDiameter = 0.07 * Math.cbrt(E_remain / JOULES_PER_MEGATON) * 1000
+    if (h <= 0 && E_remain > 1e12) {
+        // Melosh/Holsapple: 1e24 J ≈ 180 km (Chicxulub)
+        const rhoTarget = 2700
+        craterDiameter = 1.3 * Math.pow(E_remain / (g * rhoTarget), 0.25)
+    }
+
+    return {
+        location,
+        calculations: {
+            diameter_m: D,
+            radius_m: radius0,
+            volume_m3: volume,
+            mass_kg: originalMass,
+            velocity_ms: v0,
+            kinetic_energy_initial_J: kineticEnergy,
+            kinetic_energy_initial_megatons_tnt: kineticEnergy / JOULES_PER_MEGATON,
+            material_density_kg_m3: rhoObj,
+            material_strength_Pa: strength,
+        },
+        atmospheric_impact: {
+            f_atm,
+            f_frag,
+            f_total: f_atm * f_frag,
+            broke,
+            breakup_altitude_m: breakupAlt,
+            E_initial_J: E_initial,
+            E_after_J: E_remain,
+            energy_lost_percent: (1 - f_atm) * 100,
+            mass_lost_percent: (1 - f_frag) * 100,
+            final_velocity_ms: v,
+            final_altitude_m: h,
+            simulation_time_s: t,
+            initial_megatons_tnt: E_initial / JOULES_PER_MEGATON,
+            final_megatons_tnt: E_remain / JOULES_PER_MEGATON,
+            crater_diameter_m: craterDiameter,
+            trajectory: downsampleTrajectory(trajectory),
+        },
+    }
+}
+
+/**
+ * Reduce la serie temporal agrupando pasos consecutivos (igual que el servidor):
+ * el estado es el del último paso del grupo y la energía depositada se suma
+ *
+ * @param {TrajectorySample[]} samples - Serie completa
+ * @param {number} maxSamples - Número máximo de muestras
+ * @returns {TrajectorySample[]} Serie reducida con la misma energía total
+ */
+export const downsampleTrajectory = (samples: TrajectorySample[], maxSamples = 300): TrajectorySample[] => {
+    if (samples.length <= maxSamples) return samples
+
+    const result = [samples[0]]
+    const bucket = Math.ceil((samples.length - 1) / (maxSamples - 1))
+
+    for (let i = 1; i < samples.length; i += bucket) {
+        const group = samples.slice(i, i + bucket)
+        const energy = group.reduce((sum, sample) => sum + sample.energy_deposited_J, 0)
+        result.push({ ...group[group.length - 1], energy_deposited_J: energy })
+    }
+
+    return result
+}
+
+/**
+ * Perfil de deposición de energía: suma la energía depositada por franjas de altitud
+ *
+ * @param {TrajectorySample[]} trajectory - Serie temporal de la entrada
+ * @param {number} binSize - Alto de cada franja en metros
+ * @returns {DepositionBin[]} Franjas de abajo hacia arriba hasta la más alta con energía
+ */
+export const energyDepositionProfile = (trajectory: TrajectorySample[], binSize = 1000): DepositionBin[] => {
+    const energies: number[] = []
+
+    for (let i = 1; i < trajectory.length; i++) {
+        // la energía del paso se reparte en la altitud media del tramo
+        const altitude = 0.5 * (trajectory[i - 1].altitude_m + trajectory[i].altitude_m)
+        const index = Math.max(0, Math.floor(altitude / binSize))
+        energies[index] = (energies[index] ?? 0) + trajectory[i].energy_deposited_J
+    }
+
+    return Array.from({ length: energies.length }, (_, index) => ({
+        altitude_m: (index + 0.5) * binSize,
+        energy_J: energies[index] ?? 0,
+    }))
+}
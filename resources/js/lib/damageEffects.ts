@@ -0,0 +1,230 @@
+// damageEffects.ts - Radios de daño por onda expansiva, radiación térmica, sismo y eyecta
+// Basado en las relaciones de escala de Collins, Melosh & Marcus (2005),
+// "Earth Impact Effects Program", simplificadas para el simulador
+
+import { EARTH_RADIUS_M } from './physicalConstants'
+
+/** Joules por kilotón de TNT */
+const JOULES_PER_KILOTON = 4.184e12
+
+/** Pascales por psi */
+const PA_PER_PSI = 6894.76
+
+/**
+ * Identificadores de las zonas de daño que se dibujan en el mapa
+ */
+export type DamageZoneId =
+    | 'overpressure20'
+    | 'overpressure5'
+    | 'overpressure1'
+    | 'thermalClothing'
+    | 'thermalThirdDegree'
+    | 'seismic'
+    | 'ejecta'
+
+/**
+ * Descripción de cada zona para la capa del mapa y la leyenda
+ */
+export interface DamageZoneInfo {
+    name: string        // Nombre de la capa en LayersControl
+    threshold: string   // Explicación del umbral para la leyenda
+    color: string       // Color del círculo
+}
+
+export const DAMAGE_ZONE_INFO: Record<DamageZoneId, DamageZoneInfo> = {
+    overpressure20: {
+        name: 'Overpressure 20 psi',
+        threshold: 'Heavily built concrete buildings collapse; near-total fatalities',
+        color: '#7f1d1d',
+    },
+    overpressure5: {
+        name: 'Overpressure 5 psi',
+        threshold: 'Most residential buildings collapse; widespread injuries',
+        color: '#dc2626',
+    },
+    overpressure1: {
+        name: 'Overpressure 1 psi',
+        threshold: 'Windows shatter; light injuries from flying glass',
+        color: '#f97316',
+    },
+    thermalClothing: {
+        name: 'Thermal: clothing ignition',
+        threshold: 'Thermal pulse strong enough to ignite clothing',
+        color: '#facc15',
+    },
+    thermalThirdDegree: {
+        name: 'Thermal: third-degree burns',
+        threshold: 'Exposed skin suffers third-degree burns',
+        color: '#fde68a',
+    },
+    seismic: {
+        name: 'Seismic shaking (Mercalli VI+)',
+        threshold: 'Ground shaking felt by all, slight structural damage (effective magnitude ≥ 5)',
+        color: '#8b5cf6',
+    },
+    ejecta: {
+        name: 'Ejecta ≥ 10 cm',
+        threshold: 'Ejecta blanket at least 10 cm thick buries the surface',
+        color: '#78716c',
+    },
+}
+
+/**
+ * Zona de daño calculada
+ */
+export interface DamageZone {
+    id: DamageZoneId
+    radius_m: number    // Radio sobre el suelo medido desde el punto de impacto
+}
+
+/**
+ * Entrada del modelo de daño
+ */
+export interface DamageInput {
+    energy_J: number            // Energía liberada (al suelo o en el aire)
+    burstAltitude_m: number     // 0 para impacto en superficie
+    craterDiameter_m: number    // Diámetro final del cráter (0 si no hay cráter)
+}
+
+/**
+ * Resultado del modelo de daño
+ */
+export interface DamageEffects {
+    energy_J: number
+    burst_altitude_m: number
+    seismic_magnitude: number | null    // Magnitud Richter equivalente (null en explosiones aéreas)
+    zones: DamageZone[]                 // Solo zonas con radio > 0, de mayor a menor
+}
+
+// Umbrales de sobrepresión en psi
+const OVERPRESSURE_THRESHOLDS: [DamageZoneId, number][] = [
+    ['overpressure20', 20],
+    ['overpressure5', 5],
+    ['overpressure1', 1],
+]
+
+// Exposición térmica (J/m²) para 1 Mt; escala con E_Mt^(1/6) (Collins, tabla 3)
+const THERMAL_THRESHOLDS: [DamageZoneId, number][] = [
+    ['thermalClothing', 1.0e6],
+    ['thermalThirdDegree', 0.42e6],
+]
+
+// Eficiencia luminosa: fracción de la energía emitida como radiación térmica
+const LUMINOUS_EFFICIENCY = 3e-3
+
+// Espesor mínimo de eyecta para la zona (m)
+const EJECTA_THICKNESS_M = 0.1
+
+// Magnitud efectiva mínima para la zona sísmica
+const SEISMIC_EFFECTIVE_MAGNITUDE = 5
+
+/**
+ * Busca por bisección el radio donde una función decreciente cruza el umbral
+ *
+ * @returns {number} Radio en metros (0 si ni en el origen se alcanza el umbral)
+ */
+const solveDecreasing = (fn: (r: number) => number, threshold: number, maxRadius: number): number => {
+    let low = 1
+    let high = maxRadius
+    if (fn(low) < threshold) return 0
+    if (fn(high) >= threshold) return high
+
+    for (let i = 0; i < 80; i++) {
+        const mid = Math.sqrt(low * high)  // bisección geométrica: los radios van de metros a miles de km
+        if (fn(mid) >= threshold) low = mid
+        else high = mid
+    }
+    return low
+}
+
+/**
+ * Proyecta una distancia oblicua al suelo para explosiones a cierta altitud
+ */
+const groundRange = (slantRange: number, altitude: number): number =>
+    slantRange > altitude ? Math.sqrt(slantRange ** 2 - altitude ** 2) : 0
+
+/**
+ * Sobrepresión máxima (Pa) a una distancia de una explosión en superficie de E kilotones
+ * p = (p_x r_x / 4r)(1 + 3(r_x/r)^1.3) con r escalado a 1 kt
+ */
+export const peakOverpressure = (distance_m: number, energyKt: number): number => {
+    const px = 75000
+    const rx = 290
+    const r1 = distance_m / Math.cbrt(energyKt)
+    return ((px * rx) / (4 * r1)) * (1 + 3 * (rx / r1) ** 1.3)
+}
+
+/**
+ * Magnitud sísmica efectiva a una distancia del impacto
+ */
+const effectiveMagnitude = (magnitude: number, distance_m: number): number => {
+    const km = distance_m / 1000
+    if (km < 60) return magnitude - 0.0238 * km
+    if (km < 700) return magnitude - 0.0048 * km - 1.1644
+    return magnitude - 1.66 * Math.log10(distance_m / EARTH_RADIUS_M) - 6.399
+}
+
+/**
+ * Espesor de la capa de eyecta (m) a una distancia del centro del cráter
+ * t = D_tc⁴ / (112 r³), con D_tc ≈ D_final / 1.25
+ */
+export const ejectaThickness = (distance_m: number, craterDiameter_m: number): number => {
+    const transient = craterDiameter_m / 1.25
+    return transient ** 4 / (112 * distance_m ** 3)
+}
+
+/**
+ * Calcula los radios de cada zona de daño
+ *
+ * @param {DamageInput} input - Energía, altitud de la explosión y cráter
+ * @returns {DamageEffects} Radios por zona y magnitud sísmica
+ */
+export const computeDamageEffects = ({ energy_J, burstAltitude_m, craterDiameter_m }: DamageInput): DamageEffects => {
+    const zones: DamageZone[] = []
+    const altitude = Math.max(0, burstAltitude_m)
+    const energyKt = energy_J / JOULES_PER_KILOTON
+    const maxRadius = Math.PI * EARTH_RADIUS_M  // antípoda
+
+    if (energyKt <= 0) {
+        return { energy_J, burst_altitude_m: altitude, seismic_magnitude: null, zones }
+    }
+
+    // Onda expansiva: radio oblicuo donde se alcanza el umbral, proyectado al suelo
+    for (const [id, psi] of OVERPRESSURE_THRESHOLDS) {
+        const slant = solveDecreasing(r => peakOverpressure(r, energyKt), psi * PA_PER_PSI, maxRadius)
+        zones.push({ id, radius_m: groundRange(slant, altitude) })
+    }
+
+    // Radiación térmica: Φ = η E / (2π Δ²) contra el umbral escalado con la energía
+    const energyMt = energyKt / 1000
+    for (const [id, flux1Mt] of THERMAL_THRESHOLDS) {
+        const threshold = flux1Mt * energyMt ** (1 / 6)
+        const slant = Math.sqrt((LUMINOUS_EFFICIENCY * energy_J) / (2 * Math.PI * threshold))
+        zones.push({ id, radius_m: groundRange(slant, altitude) })
+    }
+
+    // Sismo y eyecta solo existen cuando el cuerpo llega al suelo
+    let seismicMagnitude: number | null = null
+    if (altitude === 0) {
+        seismicMagnitude = 0.67 * Math.log10(energy_J) - 5.87
+        const magnitude = seismicMagnitude
+        zones.push({
+            id: 'seismic',
+            radius_m: solveDecreasing(r => effectiveMagnitude(magnitude, r), SEISMIC_EFFECTIVE_MAGNITUDE, maxRadius),
+        })
+
+        if (craterDiameter_m > 0) {
+            const transient = craterDiameter_m / 1.25
+            const radius = Math.cbrt(transient ** 4 / (112 * EJECTA_THICKNESS_M))
+            // la eyecta solo cuenta fuera del borde del cráter
+            zones.push({ id: 'ejecta', radius_m: radius > craterDiameter_m / 2 ? radius : 0 })
+        }
+    }
+
+    return {
+        energy_J,
+        burst_altitude_m: altitude,
+        seismic_magnitude: seismicMagnitude,
+        zones: zones.filter(zone => zone.radius_m > 0).sort((a, b) => b.radius_m - a.radius_m),
+    }
+}
@@ -0,0 +1,117 @@
+// entryAnimation.ts - Geometría y muestreo de la animación 3D de la entrada atmosférica
+// Convierte la serie temporal de simulateAtmosphericEntry en posiciones sobre un globo de radio 1
+
+import type { LatLng } from '../context/MeteroidContext'
+import type { TrajectorySample } from './atmosphericEntry'
+import { surfacePoint } from './globe'
+import type { Vec3 } from './globe'
+import { EARTH_RADIUS_M } from './physicalConstants'
+
+/** Altitud a la que empieza la simulación de entrada (m) */
+export const ENTRY_START_ALTITUDE_M = 120000
+
+/**
+ * Exageración de altitudes y distancias: 120 km a escala real serían un 2% del radio
+ * y la trayectoria no se vería
+ */
+export const ENTRY_EXAGGERATION = 10
+
+/** Segundos que dura el destello tras el impacto o la explosión aérea */
+export const FLASH_DURATION_S = 1.5
+
+// Densidad del aire al nivel del mar (kg/m³) y altura de escala (m), mismos defaults que el modelo
+const SEA_LEVEL_DENSITY = 1.225
+const SCALE_HEIGHT = 8000
+
+/**
+ * Estado interpolado de la entrada en un instante
+ */
+export type EntryFrame = Omit<TrajectorySample, 'energy_deposited_J'>
+
+const toRad = (deg: number) => (deg * Math.PI) / 180
+
+const add = (a: Vec3, b: Vec3, scale = 1): Vec3 => [a[0] + b[0] * scale, a[1] + b[1] * scale, a[2] + b[2] * scale]
+
+/**
+ * Estado de la entrada en el instante t, interpolando linealmente entre muestras
+ *
+ * @param {TrajectorySample[]} trajectory - Serie temporal de la simulación
+ * @param {number} t - Tiempo desde el inicio de la entrada (s), se limita al rango de la serie
+ * @returns {EntryFrame} Altitud, velocidad, masa y presión dinámica en t
+ */
+export const frameAt = (trajectory: TrajectorySample[], t: number): EntryFrame => {
+    const last = trajectory[trajectory.length - 1]
+    if (t <= trajectory[0].t_s) return trajectory[0]
+    if (t >= last.t_s) return last
+
+    // Búsqueda binaria de la muestra anterior a t
+    let low = 0
+    let high = trajectory.length - 1
+    while (high - low > 1) {
+        const mid = (low + high) >> 1
+        if (trajectory[mid].t_s <= t) low = mid
+        else high = mid
+    }
+
+    const a = trajectory[low]
+    const b = trajectory[high]
+    const f = (t - a.t_s) / (b.t_s - a.t_s || 1)
+    const lerp = (x: number, y: number) => x + (y - x) * f
+    return {
+        t_s: t,
+        altitude_m: lerp(a.altitude_m, b.altitude_m),
+        velocity_ms: lerp(a.velocity_ms, b.velocity_ms),
+        mass_kg: lerp(a.mass_kg, b.mass_kg),
+        dynamic_pressure_Pa: lerp(a.dynamic_pressure_Pa, b.dynamic_pressure_Pa),
+    }
+}
+
+/**
+ * Posición del meteorito a una altitud dada sobre la trayectoria recta de entrada
+ * El cuerpo llega al punto de impacto con el ángulo de entrada indicado (90° = vertical)
+ * viajando hacia el rumbo dado (0° = hacia el norte, 90° = hacia el este)
+ *
+ * @param {LatLng} location - Punto de impacto
+ * @param {number} angleDeg - Ángulo de entrada sobre el horizonte
+ * @param {number} altitude_m - Altitud del cuerpo
+ * @param {number} headingDeg - Rumbo de la trayectoria
+ * @returns {Vec3} Posición en la escena (con exageración)
+ */
+export const entryPosition = (location: LatLng, angleDeg: number, altitude_m: number, headingDeg = 90): Vec3 => {
+    const [lat, lng] = location.map(toRad)
+    const up = surfacePoint(location)
+    const east: Vec3 = [-Math.sin(lng), 0, -Math.cos(lng)]
+    const north: Vec3 = [-Math.sin(lat) * Math.cos(lng), Math.cos(lat), Math.sin(lat) * Math.sin(lng)]
+    const direction = add(north.map(x => x * Math.cos(toRad(headingDeg))) as Vec3, east, Math.sin(toRad(headingDeg)))
+
+    // Ángulos muy rasantes alejan el inicio más de lo que cabe en la escena
+    const angle = toRad(Math.min(90, Math.max(5, angleDeg)))
+    const scale = ENTRY_EXAGGERATION / EARTH_RADIUS_M
+    const downrange = altitude_m / Math.tan(angle)
+
+    return add(add(up, up, altitude_m * scale), direction, -downrange * scale)
+}
+
+/**
+ * Desplazamiento lateral de los fragmentos tras la ruptura (m)
+ * Modelo "pancake": los fragmentos se separan a v·√(ρ_aire/ρ_cuerpo)
+ *
+ * @param {EntryFrame} frame - Estado actual
+ * @param {number} elapsed_s - Segundos desde la ruptura
+ * @param {number} bodyDensity - Densidad del cuerpo (kg/m³)
+ * @returns {number} Separación de los fragmentos respecto al eje de la trayectoria
+ */
+export const fragmentSpread = (frame: EntryFrame, elapsed_s: number, bodyDensity: number): number => {
+    const airDensity = SEA_LEVEL_DENSITY * Math.exp(-frame.altitude_m / SCALE_HEIGHT)
+    return frame.velocity_ms * Math.sqrt(airDensity / bodyDensity) * Math.max(0, elapsed_s)
+}
+
+/**
+ * Instante en que el cuerpo cruza una altitud por primera vez (para el destello de la explosión aérea)
+ *
+ * @param {TrajectorySample[]} trajectory - Serie temporal de la simulación
+ * @param {number} altitude_m - Altitud buscada
+ * @returns {number} Tiempo (s), o el final de la serie si nunca baja tanto
+ */
+export const timeAtAltitude = (trajectory: TrajectorySample[], altitude_m: number): number =>
+    trajectory.find(sample => sample.altitude_m <= altitude_m)?.t_s ?? trajectory[trajectory.length - 1].t_s
@@ -0,0 +1,182 @@
+// fragmentation.ts - Riesgo de fragmentación en las desviaciones disruptivas (impactador cinético y nuclear)
+// Compara la energía específica depositada Q con el umbral de disrupción catastrófica Q*_D
+// (Benz & Asphaug 1999, basalto), con el término de resistencia escalado por la resistencia del
+// material que usa el modelo de entrada. La masa del mayor fragmento sigue la ley universal de
+// Leinhardt & Stewart (2012) y el resto se reparte en un enjambre que se dispersa alrededor
+// de la trayectoria desviada
+
+import { JOULES_PER_MEGATON, MATERIAL_DENSITIES, MATERIAL_STRENGTHS } from './atmosphericEntry'
+import { EARTH_RADIUS_KM } from './physicalConstants'
+import type { DeflectionStrategy, SpacecraftConfig } from './spacecraftConfig'
+
+/** Distancia a la que se aplica la desviación en DeflectionController::calculateMissDistance (0.1 AU) */
+const DETECTION_DISTANCE_KM = 0.1 * 1.496e8
+
+/** Resistencia del basalto para el que se ajustó Q*_D (la de 'rock' en el modelo de entrada) */
+const REFERENCE_STRENGTH_PA = MATERIAL_STRENGTHS.rock
+
+/** Fracción de la energía depositada que se convierte en energía cinética de los fragmentos */
+const DISPERSAL_EFFICIENCY = 0.1
+
+/** Fragmentos del enjambre (sin contar el mayor) */
+const SWARM_FRAGMENTS = 60
+
+/** Exponente de la distribución de masas: m_k ∝ k^-1.2 */
+const SWARM_MASS_EXPONENT = 1.2
+
+/** Salto entre direcciones (primo con SWARM_FRAGMENTS) para que la masa no dependa de la dirección */
+const DIRECTION_STRIDE = 37
+
+/**
+ * Un fragmento del enjambre en el plano B
+ */
+export interface Fragment {
+    mass_fraction: number           // Fracción de la masa original
+    position_km: [number, number]   // Distancia de paso respecto al centro de la Tierra
+    onImpactPath: boolean
+}
+
+/**
+ * Resultado de la evaluación de fragmentación
+ */
+export interface FragmentationAssessment {
+    specificEnergy_J_kg: number         // Q, energía depositada por unidad de masa
+    threshold_J_kg: number              // Q*_D
+    ratio: number                       // Q / Q*_D
+    disrupted: boolean                  // El mayor fragmento tiene menos de la mitad de la masa
+    largestRemnantFraction: number
+    dispersalVelocity_ms: number
+    fragments: Fragment[]               // Mayor fragmento primero; vacío si no hay disrupción
+    impactingMassFraction: number       // Masa que sigue en trayectoria de impacto
+}
+
+/**
+ * Datos del asteroide (los de `calculations` en la respuesta del servidor)
+ */
+export interface AsteroidBody {
+    mass_kg: number
+    diameter_m: number
+    velocity_ms: number
+    material_density_kg_m3?: number
+    material_strength_Pa?: number
+}
+
+/**
+ * Umbral de disrupción catastrófica Q*_D = Q0·(R/1 cm)^a + B·ρ·(R/1 cm)^b (en J/kg)
+ * El primer término domina en cuerpos pequeños (resistencia) y el segundo en los grandes (gravedad)
+ *
+ * @param {number} radius_m - Radio del cuerpo
+ * @param {number} density_kg_m3 - Densidad
+ * @param {number} strength_Pa - Resistencia del material
+ * @returns {number} Q*_D (J/kg)
+ */
+export const disruptionThreshold = (radius_m: number, density_kg_m3: number, strength_Pa: number): number => {
+    const radius_cm = Math.max(radius_m * 100, 1)
+    // Q0 = 3.5e7 erg/g, a = -0.38, B = 0.3 erg·cm³/g², b = 1.36 (1 erg/g = 1e-4 J/kg)
+    const strengthTerm = 3.5e3 * radius_cm ** -0.38 * (strength_Pa / REFERENCE_STRENGTH_PA)
+    const gravityTerm = 0.3 * (density_kg_m3 / 1000) * radius_cm ** 1.36 * 1e-4
+    return strengthTerm + gravityTerm
+}
+
+/**
+ * Energía que la estrategia deposita de golpe en el asteroide (mismas fórmulas que DeflectionController)
+ *
+ * @param {DeflectionStrategy} strategy - Estrategia
+ * @param {SpacecraftConfig} spacecraft - Naves configuradas
+ * @returns {number | null} Energía (J), o null si la estrategia no es disruptiva
+ */
+export const depositedEnergy = (strategy: DeflectionStrategy, spacecraft: SpacecraftConfig): number | null => {
+    switch (strategy) {
+        case 'kinetic':
+            return 0.5 * spacecraft.kinetic.impactor_mass_kg * spacecraft.kinetic.impact_velocity_ms ** 2
+        case 'nuclear': {
+            const { yield_mt, standoff_diameters, transfer_efficiency_percent } = spacecraft.nuclear
+            const efficiency = Math.min((transfer_efficiency_percent / 100) * (3 / standoff_diameters) ** 2, 1)
+            return yield_mt * JOULES_PER_MEGATON * efficiency
+        }
+        default:
+            return null
+    }
+}
+
+/**
+ * Distancia de paso para un Δv, con el modelo de DeflectionController::calculateMissDistance
+ */
+const missDistanceKm = (deltaV_ms: number, velocity_ms: number) =>
+    DETECTION_DISTANCE_KM * Math.tan(Math.atan2(deltaV_ms, velocity_ms))
+
+/**
+ * Masa del mayor fragmento (Leinhardt & Stewart 2012): lineal hasta Q = 1.8·Q*_D y ley de potencias después
+ */
+const largestRemnant = (ratio: number): number =>
+    ratio < 1.8 ? Math.max(1 - 0.5 * ratio, 0) : 0.1 * (ratio / 1.8) ** -1.5
+
+/**
+ * Evalúa si el asteroide sobrevive a la energía depositada y, si no, dónde acaba cada fragmento
+ * El centro de masas recibe el Δv de la estrategia; los fragmentos se dispersan de forma isótropa
+ * (los pequeños más rápido) y se proyectan en el plano B
+ *
+ * @param {AsteroidBody} body - Asteroide
+ * @param {number} energy_J - Energía depositada
+ * @param {number} deltaV_ms - Δv del centro de masas
+ * @returns {FragmentationAssessment} Evaluación
+ */
+export const assessFragmentation = (body: AsteroidBody, energy_J: number, deltaV_ms: number): FragmentationAssessment => {
+    const density = body.material_density_kg_m3 ?? MATERIAL_DENSITIES.rock
+    const strength = body.material_strength_Pa ?? MATERIAL_STRENGTHS.rock
+    const specificEnergy = body.mass_kg > 0 ? energy_J / body.mass_kg : 0
+    const threshold = disruptionThreshold(body.diameter_m / 2, density, strength)
+    const ratio = specificEnergy / threshold
+    const remnant = largestRemnant(ratio)
+    const dispersalVelocity = Math.sqrt(2 * DISPERSAL_EFFICIENCY * specificEnergy)
+    const center = missDistanceKm(deltaV_ms, body.velocity_ms)
+
+    if (ratio < 1) {
+        return {
+            specificEnergy_J_kg: specificEnergy,
+            threshold_J_kg: threshold,
+            ratio,
+            disrupted: false,
+            largestRemnantFraction: remnant,
+            dispersalVelocity_ms: dispersalVelocity,
+            fragments: [],
+            impactingMassFraction: center < EARTH_RADIUS_KM ? 1 : 0,
+        }
+    }
+
+    // Masa del enjambre repartida con una ley de potencias
+    const weights = Array.from({ length: SWARM_FRAGMENTS }, (_, k) => (k + 1) ** -SWARM_MASS_EXPONENT)
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+    // Velocidad ∝ m^(-1/6), normalizada para que la media cuadrática ponderada por masa sea la de dispersión
+    const relativeSpeed = (weight: number) => (weight / weights[0]) ** (-1 / 6)
+    const rms = Math.sqrt(weights.reduce((sum, weight) => sum + (weight / totalWeight) * relativeSpeed(weight) ** 2, 0))
+    const golden = Math.PI * (3 - Math.sqrt(5))
+
+    const swarm = weights.map((weight, k): Fragment => {
+        const massFraction = ((1 - remnant) * weight) / totalWeight
+        // Direcciones de una espiral de Fibonacci sobre la esfera, proyectadas en el plano B
+        const direction = (k * DIRECTION_STRIDE) % SWARM_FRAGMENTS
+        const z = 1 - (2 * (direction + 0.5)) / SWARM_FRAGMENTS
+        const ring = Math.sqrt(1 - z * z)
+        const speed = (dispersalVelocity * relativeSpeed(weight)) / rms
+        const spread = missDistanceKm(speed, body.velocity_ms)
+        const position: [number, number] = [center + spread * ring * Math.cos(golden * direction), spread * ring * Math.sin(golden * direction)]
+        return { mass_fraction: massFraction, position_km: position, onImpactPath: Math.hypot(...position) < EARTH_RADIUS_KM }
+    })
+
+    const fragments: Fragment[] = [
+        { mass_fraction: remnant, position_km: [center, 0], onImpactPath: center < EARTH_RADIUS_KM },
+        ...swarm,
+    ]
+
+    return {
+        specificEnergy_J_kg: specificEnergy,
+        threshold_J_kg: threshold,
+        ratio,
+        disrupted: true,
+        largestRemnantFraction: remnant,
+        dispersalVelocity_ms: dispersalVelocity,
+        fragments,
+        impactingMassFraction: fragments.filter(fragment => fragment.onImpactPath).reduce((sum, fragment) => sum + fragment.mass_fraction, 0),
+    }
+}
@@ -0,0 +1,75 @@
+// globe.ts - Conversión entre coordenadas geográficas y el globo 3D de radio 1
+// Mismo convenio que la textura equirectangular de SphereGeometry: eje y hacia el polo norte,
+// longitud 0 en +x y longitud 90°E en -z
+
+import type { LatLng } from '../context/MeteroidContext'
+import { EARTH_RADIUS_M } from './physicalConstants'
+
+/**
+ * Vector 3D como tupla (mismo formato que aceptan las props de React Three Fiber)
+ */
+export type Vec3 = [number, number, number]
+
+const toRad = (deg: number) => (deg * Math.PI) / 180
+const toDeg = (rad: number) => (rad * 180) / Math.PI
+
+/**
+ * Punto de la superficie en el globo de radio 1
+ *
+ * @param {LatLng} location - Latitud y longitud en grados
+ * @returns {Vec3} Posición en la escena
+ */
+export const surfacePoint = ([lat, lng]: LatLng): Vec3 => [
+    Math.cos(toRad(lat)) * Math.cos(toRad(lng)),
+    Math.sin(toRad(lat)),
+    -Math.cos(toRad(lat)) * Math.sin(toRad(lng)),
+]
+
+/**
+ * Coordenadas geográficas de un punto de la escena (se proyecta sobre la esfera)
+ *
+ * @param {Vec3} point - Punto en la escena, p. ej. donde el usuario hizo clic
+ * @returns {LatLng} Latitud y longitud en grados
+ */
+export const latLngFromPoint = ([x, y, z]: Vec3): LatLng => {
+    const length = Math.hypot(x, y, z) || 1
+    return [toDeg(Math.asin(Math.max(-1, Math.min(1, y / length)))), toDeg(Math.atan2(-z, x))]
+}
+
+/**
+ * Círculo sobre la superficie: puntos a una distancia fija del centro medida sobre la esfera
+ *
+ * @param {LatLng} center - Centro del círculo
+ * @param {number} radius_m - Radio sobre la superficie
+ * @param {number} segments - Número de segmentos
+ * @param {number} lift - Altura sobre la esfera para que la línea no quede tapada por ella
+ * @returns {Vec3[]} Puntos del círculo cerrado
+ */
+export const surfaceCircle = (center: LatLng, radius_m: number, segments = 128, lift = 1.002): Vec3[] => {
+    const [cx, cy, cz] = surfacePoint(center)
+    const angle = Math.min(Math.PI, radius_m / EARTH_RADIUS_M)
+
+    // Base ortonormal tangente en el centro (cualquier eje no paralelo sirve de referencia)
+    const reference: Vec3 = Math.abs(cy) < 0.99 ? [0, 1, 0] : [1, 0, 0]
+    const e1: Vec3 = [
+        reference[1] * cz - reference[2] * cy,
+        reference[2] * cx - reference[0] * cz,
+        reference[0] * cy - reference[1] * cx,
+    ]
+    const e1Length = Math.hypot(...e1)
+    e1[0] /= e1Length
+    e1[1] /= e1Length
+    e1[2] /= e1Length
+    const e2: Vec3 = [cy * e1[2] - cz * e1[1], cz * e1[0] - cx * e1[2], cx * e1[1] - cy * e1[0]]
+
+    return Array.from({ length: segments + 1 }, (_, i) => {
+        const t = (i / segments) * Math.PI * 2
+        const radial = Math.sin(angle)
+        const axial = Math.cos(angle)
+        return [
+            lift * (cx * axial + (e1[0] * Math.cos(t) + e2[0] * Math.sin(t)) * radial),
+            lift * (cy * axial + (e1[1] * Math.cos(t) + e2[1] * Math.sin(t)) * radial),
+            lift * (cz * axial + (e1[2] * Math.cos(t) + e2[2] * Math.sin(t)) * radial),
+        ]
+    })
+}
@@ -0,0 +1,75 @@
+// groundTrack.ts - Desplazamiento del punto de impacto tras una desviación parcial
+// La desviación mueve la trayectoria en el plano B una distancia Δb. Un rayo con parámetro de impacto b
+// toca la esfera a un ángulo central asin(b/R) del punto subradiante, así que el punto de impacto
+// se desplaza sobre la superficie en la dirección de entrada. Se supone que la desviación acerca la
+// trayectoria hacia atrás (hacia donde viene el asteroide), donde el desplazamiento siempre está definido
+
+import type { LatLng } from '../context/MeteroidContext'
+import { EARTH_RADIUS_KM } from './physicalConstants'
+
+/** Rumbo de entrada supuesto (el simulador no tiene acimut): de oeste a este */
+export const ENTRY_HEADING_DEG = 90
+
+/** Puntos de la traza sobre el terreno */
+const TRACK_POINTS = 32
+
+const toRad = (deg: number) => (deg * Math.PI) / 180
+const toDeg = (rad: number) => (rad * 180) / Math.PI
+
+/**
+ * Resultado de una desviación tal como lo usa el mapa
+ */
+export interface DeflectionEffect {
+    strategy: string
+    miss_distance_km: number        // Desplazamiento en el plano B
+    miss_earth_radii: number
+    earth_saved: boolean            // Pasa a más de un radio terrestre
+}
+
+/**
+ * Traza del punto de impacto desde la ubicación original hasta la desviada
+ */
+export interface GroundTrack {
+    points: LatLng[]                // Del punto original al nuevo, sobre el círculo máximo
+    shift_km: number                // Distancia recorrida por el punto de impacto
+}
+
+/**
+ * Punto a una distancia y rumbo dados sobre el círculo máximo
+ *
+ * @param {LatLng} start - Punto de partida
+ * @param {number} bearing_deg - Rumbo desde el norte
+ * @param {number} distance_km - Distancia sobre la superficie
+ * @returns {LatLng} Destino
+ */
+export const destinationPoint = ([lat, lng]: LatLng, bearing_deg: number, distance_km: number): LatLng => {
+    const delta = distance_km / EARTH_RADIUS_KM
+    const phi = toRad(lat)
+    const theta = toRad(bearing_deg)
+    const phi2 = Math.asin(Math.sin(phi) * Math.cos(delta) + Math.cos(phi) * Math.sin(delta) * Math.cos(theta))
+    const lambda2 = toRad(lng) + Math.atan2(
+        Math.sin(theta) * Math.sin(delta) * Math.cos(phi),
+        Math.cos(delta) - Math.sin(phi) * Math.sin(phi2)
+    )
+    return [toDeg(phi2), ((toDeg(lambda2) + 540) % 360) - 180]
+}
+
+/**
+ * Traza del punto de impacto tras una desviación que no basta para evitar la Tierra
+ *
+ * @param {LatLng} location - Punto de impacto original
+ * @param {number} entryAngle_deg - Ángulo de entrada sobre el horizonte
+ * @param {number} shiftB_km - Desplazamiento en el plano B (menor que el radio de la Tierra)
+ * @returns {GroundTrack} Traza hasta el nuevo punto de impacto
+ */
+export const deflectedGroundTrack = (location: LatLng, entryAngle_deg: number, shiftB_km: number): GroundTrack => {
+    const b0 = EARTH_RADIUS_KM * Math.cos(toRad(entryAngle_deg))
+    const b = Math.max(b0 - Math.min(shiftB_km, 2 * EARTH_RADIUS_KM), -EARTH_RADIUS_KM)
+    const shift_km = EARTH_RADIUS_KM * (Math.asin(b0 / EARTH_RADIUS_KM) - Math.asin(b / EARTH_RADIUS_KM))
+    const bearing = (ENTRY_HEADING_DEG + 180) % 360
+
+    return {
+        points: Array.from({ length: TRACK_POINTS }, (_, i) => destinationPoint(location, bearing, (shift_km * i) / (TRACK_POINTS - 1))),
+        shift_km,
+    }
+}
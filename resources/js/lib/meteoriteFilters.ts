@@ -0,0 +1,300 @@
+// meteoriteFilters.ts - Filtros y ordenación de la galería de meteoritos
+// Los filtros viven en la query de /meteorites para poder compartir o recargar la búsqueda:
+// /meteorites?q=apophis&dmin=100&haz=yes&from=2029-01-01&vmin=5&orbit=ATE&sort=diameter&dir=desc
+// Los valores ausentes o inválidos se quedan en el valor por defecto
+
+import type { MeteroidData } from '../context/MeteroidContext'
+import type { NeoApproachSummary, NeoSummary, UserMeteorite } from './neoApi'
+
+const MATERIALS: MeteroidData['material'][] = ['rock', 'iron', 'nickel']
+
+/**
+ * Columnas numéricas por las que se puede ordenar
+ * - diameter: diámetro (medio para NASA, 2·radio para usuarios)
+ * - velocity: velocidad relativa de la aproximación relevante o velocidad de entrada
+ * - miss_distance, approach_date, magnitude: solo NEOs de NASA
+ * - angle: solo meteoritos de usuarios
+ */
+export type MeteoriteSortKey = 'name' | 'diameter' | 'velocity' | 'miss_distance' | 'approach_date' | 'magnitude' | 'angle'
+
+/**
+ * Estado completo de los filtros de la galería
+ */
+export interface MeteoriteFilters {
+    search: string
+    diameterMin: number | null          // m
+    diameterMax: number | null          // m
+    hazardous: 'any' | 'yes' | 'no'
+    approachFrom: string                // YYYY-MM-DD, vacío = sin límite
+    approachTo: string                  // YYYY-MM-DD, vacío = sin límite
+    velocityMin: number | null          // km/s
+    velocityMax: number | null          // km/s
+    orbitClass: string                  // Tipo de NeoWs (APO, ATE...), vacío = todos
+    material: MeteroidData['material'] | ''
+    sort: MeteoriteSortKey
+    direction: 'asc' | 'desc'
+}
+
+export const DEFAULT_FILTERS: MeteoriteFilters = {
+    search: '',
+    diameterMin: null,
+    diameterMax: null,
+    hazardous: 'any',
+    approachFrom: '',
+    approachTo: '',
+    velocityMin: null,
+    velocityMax: null,
+    orbitClass: '',
+    material: '',
+    sort: 'name',
+    direction: 'asc',
+}
+
+/** Nombres de los tipos de órbita de NeoWs */
+export const ORBIT_CLASS_LABELS: Record<string, string> = {
+    APO: 'Apollo',
+    ATE: 'Aten',
+    AMO: 'Amor',
+    IEO: 'Atira',
+}
+
+/** Columnas que admite cada tipo de meteorito */
+export const NEO_SORT_KEYS: MeteoriteSortKey[] = ['name', 'diameter', 'velocity', 'miss_distance', 'approach_date', 'magnitude']
+export const USER_SORT_KEYS: MeteoriteSortKey[] = ['name', 'diameter', 'velocity', 'angle']
+
+// Nombre corto de cada campo numérico en la URL
+const NUMBER_KEYS = {
+    diameterMin: 'dmin',
+    diameterMax: 'dmax',
+    velocityMin: 'vmin',
+    velocityMax: 'vmax',
+} as const
+
+const SORT_KEYS: MeteoriteSortKey[] = ['name', 'diameter', 'velocity', 'miss_distance', 'approach_date', 'magnitude', 'angle']
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Lee un número finito no negativo de los parámetros (null si falta o no es válido)
+ */
+const readNumber = (params: URLSearchParams, key: string): number | null => {
+    const raw = params.get(key)
+    if (raw === null || raw.trim() === '') return null
+    const value = Number(raw)
+    return Number.isFinite(value) && value >= 0 ? value : null
+}
+
+/**
+ * Decodifica los filtros de la query de la URL
+ *
+ * @param {string} query - Query de la URL (con o sin '?')
+ * @returns {MeteoriteFilters} Filtros completos
+ */
+export const parseFilters = (query: string): MeteoriteFilters => {
+    const params = new URLSearchParams(query.replace(/^\?/, ''))
+    const filters: MeteoriteFilters = { ...DEFAULT_FILTERS, search: params.get('q') ?? '' }
+
+    for (const [field, key] of Object.entries(NUMBER_KEYS) as [keyof typeof NUMBER_KEYS, string][]) {
+        filters[field] = readNumber(params, key)
+    }
+
+    const hazardous = params.get('haz')
+    if (hazardous === 'yes' || hazardous === 'no') filters.hazardous = hazardous
+
+    const from = params.get('from')
+    const to = params.get('to')
+    if (from && DATE_PATTERN.test(from)) filters.approachFrom = from
+    if (to && DATE_PATTERN.test(to)) filters.approachTo = to
+
+    filters.orbitClass = params.get('orbit')?.toUpperCase() ?? ''
+
+    const material = params.get('m') as MeteroidData['material'] | null
+    if (material && MATERIALS.includes(material)) filters.material = material
+
+    const sort = params.get('sort') as MeteoriteSortKey | null
+    if (sort && SORT_KEYS.includes(sort)) filters.sort = sort
+    if (params.get('dir') === 'desc') filters.direction = 'desc'
+
+    return filters
+}
+
+/**
+ * Codifica los filtros como query (sin el '?'), omitiendo los valores por defecto
+ *
+ * @param {MeteoriteFilters} filters - Filtros
+ * @returns {string} Parámetros de la query
+ */
+export const serializeFilters = (filters: MeteoriteFilters): string => {
+    const params = new URLSearchParams()
+    if (filters.search.trim()) params.set('q', filters.search.trim())
+    for (const [field, key] of Object.entries(NUMBER_KEYS) as [keyof typeof NUMBER_KEYS, string][]) {
+        const value = filters[field]
+        if (value !== null) params.set(key, String(value))
+    }
+    if (filters.hazardous !== 'any') params.set('haz', filters.hazardous)
+    if (filters.approachFrom) params.set('from', filters.approachFrom)
+    if (filters.approachTo) params.set('to', filters.approachTo)
+    if (filters.orbitClass) params.set('orbit', filters.orbitClass)
+    if (filters.material) params.set('m', filters.material)
+    if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort)
+    if (filters.direction !== DEFAULT_FILTERS.direction) params.set('dir', filters.direction)
+    return params.toString()
+}
+
+/**
+ * Lee los filtros de la página actual (valores por defecto en el servidor)
+ */
+export const readFiltersFromUrl = (): MeteoriteFilters =>
+    typeof window === 'undefined' ? { ...DEFAULT_FILTERS } : parseFilters(window.location.search)
+
+/**
+ * Indica si algún filtro (no la ordenación) restringe la lista
+ *
+ * @param {MeteoriteFilters} filters - Filtros
+ * @returns {boolean} true si hay filtros activos
+ */
+export const hasActiveFilters = (filters: MeteoriteFilters): boolean =>
+    serializeFilters({ ...filters, sort: DEFAULT_FILTERS.sort, direction: DEFAULT_FILTERS.direction }) !== ''
+
+/**
+ * Comprueba si un valor está dentro de un rango opcional
+ */
+const inRange = (value: number | null, min: number | null, max: number | null): boolean => {
+    if (min === null && max === null) return true
+    if (value === null) return false
+    return (min === null || value >= min) && (max === null || value <= max)
+}
+
+/**
+ * Diámetro representativo de un NEO: media geométrica del rango de NASA
+ */
+const neoDiameter = ({ diameter_min_m: min, diameter_max_m: max }: NeoSummary): number | null =>
+    min && max ? Math.sqrt(min * max) : (min ?? max)
+
+/**
+ * Aproximación a la Tierra que cuenta para filtrar y ordenar: la más cercana dentro del rango de fechas
+ * (las fechas YYYY-MM-DD se comparan como texto)
+ *
+ * @param {NeoSummary} neo - NEO del listado
+ * @param {MeteoriteFilters} filters - Filtros con el rango de fechas
+ * @returns {NeoApproachSummary | null} Aproximación, o null si ninguna cae en el rango
+ */
+export const relevantApproach = (neo: NeoSummary, filters: MeteoriteFilters): NeoApproachSummary | null =>
+    neo.close_approaches
+        .filter(approach =>
+            (!filters.approachFrom || approach.date >= filters.approachFrom) && (!filters.approachTo || approach.date <= filters.approachTo)
+        )
+        .reduce<NeoApproachSummary | null>(
+            (closest, current) => closest === null || current.miss_distance_km < closest.miss_distance_km ? current : closest,
+            null
+        )
+
+/**
+ * Valor numérico de una columna para un NEO (null si no lo tiene)
+ */
+const neoSortValue = (neo: NeoSummary, key: MeteoriteSortKey, filters: MeteoriteFilters): number | null => {
+    const approach = relevantApproach(neo, filters)
+    switch (key) {
+        case 'diameter':
+            return neoDiameter(neo)
+        case 'velocity':
+            return approach?.velocity_km_s ?? null
+        case 'miss_distance':
+            return approach?.miss_distance_km ?? null
+        case 'approach_date':
+            return approach?.epoch_ms ?? (approach ? Date.parse(approach.date) : null)
+        case 'magnitude':
+            return neo.absolute_magnitude_h
+        default:
+            return null
+    }
+}
+
+/**
+ * Valor numérico de una columna para un meteorito de usuario (velocidad en km/s como los NEOs)
+ */
+const userSortValue = (meteorite: UserMeteorite, key: MeteoriteSortKey): number | null => {
+    switch (key) {
+        case 'diameter':
+            return meteorite.radiusMeteroid * 2
+        case 'velocity':
+            return meteorite.velocity / 1000
+        case 'angle':
+            return meteorite.angle
+        default:
+            return null
+    }
+}
+
+/**
+ * Ordena por una columna numérica; los que no tienen valor van siempre al final
+ * Por nombre (o a igualdad) se ordena alfabéticamente
+ */
+const sortBy = <T extends { name: string }>(items: T[], value: (item: T) => number | null, filters: MeteoriteFilters): T[] => {
+    const sign = filters.direction === 'desc' ? -1 : 1
+    const byName = (a: T, b: T) => a.name.localeCompare(b.name, undefined, { numeric: true })
+    if (filters.sort === 'name') return [...items].sort((a, b) => sign * byName(a, b))
+
+    return items
+        .map(item => ({ item, value: value(item) }))
+        .sort((a, b) => {
+            if (a.value === null || b.value === null) return a.value === b.value ? byName(a.item, b.item) : a.value === null ? 1 : -1
+            return sign * (a.value - b.value) || byName(a.item, b.item)
+        })
+        .map(({ item }) => item)
+}
+
+/**
+ * Filtra y ordena NEOs de NASA
+ * El rango de fechas exige al menos una aproximación dentro; la velocidad se mide en la más cercana del rango
+ *
+ * @param {NeoSummary[]} neos - NEOs del catálogo
+ * @param {MeteoriteFilters} filters - Filtros
+ * @returns {NeoSummary[]} Copia filtrada y ordenada
+ */
+export const filterNeos = (neos: NeoSummary[], filters: MeteoriteFilters): NeoSummary[] => {
+    const search = filters.search.trim().toLowerCase()
+    const datesActive = Boolean(filters.approachFrom || filters.approachTo)
+
+    const matching = neos.filter(neo => {
+        if (search && !neo.name.toLowerCase().includes(search)) return false
+        if (filters.hazardous !== 'any' && neo.is_potentially_hazardous_asteroid !== (filters.hazardous === 'yes')) return false
+        if (filters.orbitClass && neo.orbit_class !== filters.orbitClass) return false
+        if (!inRange(neoDiameter(neo), filters.diameterMin, filters.diameterMax)) return false
+
+        const approach = relevantApproach(neo, filters)
+        if (datesActive && !approach) return false
+        return inRange(approach?.velocity_km_s ?? null, filters.velocityMin, filters.velocityMax)
+    })
+
+    return sortBy(matching, neo => neoSortValue(neo, filters.sort, filters), filters)
+}
+
+/**
+ * Filtra y ordena meteoritos de usuarios (los filtros propios de NASA no se aplican)
+ *
+ * @param {UserMeteorite[]} meteorites - Meteoritos guardados
+ * @param {MeteoriteFilters} filters - Filtros
+ * @returns {UserMeteorite[]} Copia filtrada y ordenada
+ */
+export const filterUserMeteorites = (meteorites: UserMeteorite[], filters: MeteoriteFilters): UserMeteorite[] => {
+    const search = filters.search.trim().toLowerCase()
+
+    const matching = meteorites.filter(meteorite =>
+        (!search || meteorite.name.toLowerCase().includes(search))
+        && (!filters.material || meteorite.material === filters.material)
+        && inRange(meteorite.radiusMeteroid * 2, filters.diameterMin, filters.diameterMax)
+        && inRange(meteorite.velocity / 1000, filters.velocityMin, filters.velocityMax)
+    )
+
+    return sortBy(matching, meteorite => userSortValue(meteorite, filters.sort), filters)
+}
+
+/**
+ * Tipos de órbita presentes en una lista de NEOs, para las opciones del filtro
+ *
+ * @param {NeoSummary[]} neos - NEOs del catálogo
+ * @returns {string[]} Tipos ordenados
+ */
+export const orbitClassesOf = (neos: NeoSummary[]): string[] =>
+    [...new Set(neos.map(neo => neo.orbit_class).filter((type): type is string => Boolean(type)))].sort()
@@ -0,0 +1,213 @@
+// missionPlanner.ts - Planificador de misiones de defensa planetaria con mecánica orbital
+// Construye una órbita heliocéntrica que choca con la Tierra en la fecha elegida, aplica un Δv
+// a lo largo de la trayectoria en la fecha de intercepción y propaga la órbita desviada.
+// La distancia de paso es el parámetro de impacto en el plano B (sin la gravedad de la Tierra):
+// hay impacto si es menor que el radio de captura R·√(1 + v_esc²/v∞²)
+
+import { EARTH_ELEMENTS, elementsFromState, positionAt, stateAt } from './orbit'
+import type { HelioPosition, OrbitalElements } from './orbit'
+import { EARTH_RADIUS_KM, ESCAPE_VELOCITY_KM_S } from './physicalConstants'
+
+/** Kilómetros por unidad astronómica */
+const AU_KM = 1.495978707e8
+
+/** Segundos por día */
+const DAY_S = 86400
+
+/** Días alrededor de la fecha de impacto en los que se busca el máximo acercamiento */
+const SEARCH_WINDOW_DAYS = 60
+
+/**
+ * Geometría de llegada: v∞ a 45° entre la dirección al Sol y la contraria al movimiento de la Tierra,
+ * inclinada sobre la eclíptica. Es una llegada típica de un Apolo y mantiene la órbita ligada
+ * hasta v∞ ≈ 55 km/s
+ */
+const APPROACH_AZIMUTH_DEG = 45
+const APPROACH_ELEVATION_DEG = 10
+
+/**
+ * Parámetros de la misión de impacto cinético (como DART)
+ */
+export interface KineticImpactor {
+    mass_kg: number
+    velocity_ms: number     // Velocidad relativa del choque
+    beta: number            // Factor de mejora del momento por la eyección
+}
+
+export const DART_IMPACTOR: KineticImpactor = { mass_kg: 570, velocity_ms: 6600, beta: 3.5 }
+
+/**
+ * Órbita del asteroide que impacta en la fecha elegida
+ */
+export interface ImpactorOrbit {
+    elements: OrbitalElements
+    impact_jd: number
+    vInfinity_km_s: number          // Velocidad relativa lejos de la Tierra
+    captureRadius_km: number        // Radio efectivo de la Tierra con enfoque gravitacional
+}
+
+/**
+ * Resultado de una desviación
+ */
+export interface DeflectionOutcome {
+    intercept_jd: number
+    lead_days: number               // Días entre la intercepción y el impacto previsto
+    deltaV_ms: number
+    closest_jd: number              // Instante del máximo acercamiento tras la desviación
+    arrivalShift_s: number          // Adelanto (+) o retraso (-) de la llegada
+    miss_km: number                 // Parámetro de impacto en el plano B
+    miss_earth_radii: number
+    capture_earth_radii: number
+    hit: boolean
+}
+
+type Vector = HelioPosition
+
+const add = (p: Vector, q: Vector): Vector => [p[0] + q[0], p[1] + q[1], p[2] + q[2]]
+const sub = (p: Vector, q: Vector): Vector => [p[0] - q[0], p[1] - q[1], p[2] - q[2]]
+const scale = (p: Vector, k: number): Vector => [p[0] * k, p[1] * k, p[2] * k]
+const length = (p: Vector) => Math.hypot(p[0], p[1], p[2])
+const unit = (p: Vector): Vector => scale(p, 1 / length(p))
+
+/**
+ * Δv de un impactador cinético: Δv = β·m·v / M
+ *
+ * @param {number} asteroidMass_kg - Masa del asteroide
+ * @param {KineticImpactor} impactor - Nave (DART por defecto)
+ * @returns {number} Δv (m/s)
+ */
+export const kineticImpactorDeltaV = (asteroidMass_kg: number, impactor: KineticImpactor = DART_IMPACTOR): number =>
+    asteroidMass_kg > 0 ? (impactor.beta * impactor.mass_kg * impactor.velocity_ms) / asteroidMass_kg : 0
+
+/**
+ * Órbita que lleva el asteroide al centro de la Tierra en la fecha de impacto
+ * La velocidad de impacto incluye la aceleración de la Tierra: v∞ = √(v² - v_esc²)
+ *
+ * @param {number} impactVelocity_ms - Velocidad de entrada del simulador
+ * @param {number} impact_jd - Fecha de impacto (día juliano)
+ * @returns {ImpactorOrbit | null} Órbita, o null si con esa velocidad la órbita no es ligada
+ */
+export const impactorOrbit = (impactVelocity_ms: number, impact_jd: number): ImpactorOrbit | null => {
+    const impact_km_s = impactVelocity_ms / 1000
+    const vInfinity_km_s = Math.sqrt(Math.max(impact_km_s ** 2 - ESCAPE_VELOCITY_KM_S ** 2, 0.01))
+
+    const earth = stateAt(EARTH_ELEMENTS, impact_jd)
+    const sunward = scale(unit(earth.position), -1)
+    const retrograde = scale(unit(earth.velocity), -1)
+    const azimuth = (APPROACH_AZIMUTH_DEG * Math.PI) / 180
+    const elevation = (APPROACH_ELEVATION_DEG * Math.PI) / 180
+    const direction = add(
+        scale(add(scale(sunward, Math.cos(azimuth)), scale(retrograde, Math.sin(azimuth))), Math.cos(elevation)),
+        [0, 0, Math.sin(elevation)]
+    )
+    const vInfinity = scale(direction, (vInfinity_km_s * DAY_S) / AU_KM)
+
+    const elements = elementsFromState({ position: earth.position, velocity: add(earth.velocity, vInfinity) }, impact_jd)
+    if (!elements) return null
+
+    return {
+        elements,
+        impact_jd,
+        vInfinity_km_s,
+        captureRadius_km: EARTH_RADIUS_KM * Math.sqrt(1 + (ESCAPE_VELOCITY_KM_S / vInfinity_km_s) ** 2),
+    }
+}
+
+/**
+ * Distancia asteroide-Tierra en un instante (AU)
+ */
+const separation = (elements: OrbitalElements, jd: number): number => {
+    const asteroid = positionAt(elements, jd)
+    const earth = positionAt(EARTH_ELEMENTS, jd)
+    return length(sub(asteroid, earth))
+}
+
+/**
+ * Máximo acercamiento a la Tierra cerca de una fecha: muestreo diario y sección áurea alrededor del mínimo
+ *
+ * @param {OrbitalElements} elements - Órbita del asteroide
+ * @param {number} around_jd - Fecha prevista del encuentro
+ * @returns {{ jd: number, distance_km: number }} Instante y distancia mínima
+ */
+export const closestApproach = (elements: OrbitalElements, around_jd: number): { jd: number, distance_km: number } => {
+    let best = around_jd
+    let bestDistance = separation(elements, around_jd)
+    for (let day = -SEARCH_WINDOW_DAYS; day <= SEARCH_WINDOW_DAYS; day++) {
+        const distance = separation(elements, around_jd + day)
+        if (distance < bestDistance) {
+            best = around_jd + day
+            bestDistance = distance
+        }
+    }
+    // Si el mínimo cae en el borde de la ventana, seguir hacia fuera mientras la distancia baje
+    const offset = best - around_jd
+    if (Math.abs(offset) === SEARCH_WINDOW_DAYS) {
+        const step = Math.sign(offset)
+        for (let i = 0; i < 2 * SEARCH_WINDOW_DAYS; i++) {
+            const distance = separation(elements, best + step)
+            if (distance >= bestDistance) break
+            best += step
+            bestDistance = distance
+        }
+    }
+
+    // En ±1 día del mínimo diario la distancia es unimodal (el encuentro dura horas), también
+    // cuando coincide con el paso por el perihelio
+    const ratio = (Math.sqrt(5) - 1) / 2
+    let low = best - 1
+    let high = best + 1
+    // Hasta ~1e-9 días (0.1 ms): a 70 km/s son menos de 10 m
+    for (let i = 0; i < 80 && high - low > 1e-9; i++) {
+        const left = high - ratio * (high - low)
+        const right = low + ratio * (high - low)
+        if (separation(elements, left) < separation(elements, right)) high = right
+        else low = left
+    }
+
+    const jd = (low + high) / 2
+    return { jd, distance_km: separation(elements, jd) * AU_KM }
+}
+
+/**
+ * Aplica un Δv a lo largo de la trayectoria en la fecha de intercepción y mide la distancia de paso
+ *
+ * @param {ImpactorOrbit} impactor - Órbita de impacto
+ * @param {number} deltaV_ms - Δv (m/s), positivo en el sentido del movimiento
+ * @param {number} intercept_jd - Fecha de la intercepción (anterior al impacto)
+ * @returns {DeflectionOutcome | null} Resultado, o null si la órbita desviada no es elíptica
+ */
+export const planDeflection = (impactor: ImpactorOrbit, deltaV_ms: number, intercept_jd: number): DeflectionOutcome | null => {
+    const state = stateAt(impactor.elements, intercept_jd)
+    const kick = scale(unit(state.velocity), (deltaV_ms / 1000) * DAY_S / AU_KM)
+    const deflected = elementsFromState({ position: state.position, velocity: add(state.velocity, kick) }, intercept_jd)
+    if (!deflected) return null
+
+    const closest = closestApproach(deflected, impactor.impact_jd)
+    return {
+        intercept_jd,
+        lead_days: impactor.impact_jd - intercept_jd,
+        deltaV_ms,
+        closest_jd: closest.jd,
+        arrivalShift_s: (impactor.impact_jd - closest.jd) * DAY_S,
+        miss_km: closest.distance_km,
+        miss_earth_radii: closest.distance_km / EARTH_RADIUS_KM,
+        capture_earth_radii: impactor.captureRadius_km / EARTH_RADIUS_KM,
+        hit: closest.distance_km < impactor.captureRadius_km,
+    }
+}
+
+/**
+ * Distancia de paso para varias fechas de intercepción, para la curva del planificador
+ *
+ * @param {ImpactorOrbit} impactor - Órbita de impacto
+ * @param {number} deltaV_ms - Δv (m/s)
+ * @param {number} earliest_jd - Primera fecha de intercepción
+ * @param {number} samples - Número de puntos
+ * @returns {DeflectionOutcome[]} Resultados de la más temprana a la más tardía
+ */
+export const deflectionCurve = (impactor: ImpactorOrbit, deltaV_ms: number, earliest_jd: number, samples = 60): DeflectionOutcome[] => {
+    const latest = impactor.impact_jd - 1
+    return Array.from({ length: samples }, (_, i) => earliest_jd + ((latest - earliest_jd) * i) / Math.max(samples - 1, 1))
+        .map(jd => planDeflection(impactor, deltaV_ms, jd))
+        .filter((outcome): outcome is DeflectionOutcome => outcome !== null)
+}
@@ -0,0 +1,217 @@
+// monteCarlo.ts - Modo de incertidumbre: muchas simulaciones con parámetros muestreados
+// Diámetro, densidad, resistencia y ángulo de entrada se sortean de distribuciones
+// y se resumen las salidas en percentiles P5/P50/P95
+
+import type { LatLng, MeteroidData } from '../context/MeteroidContext'
+import { JOULES_PER_MEGATON, simulateAtmosphericEntry } from './atmosphericEntry'
+import type { EntryOptions } from './atmosphericEntry'
+import { classifyImpact } from './airburst'
+import { computeDamageEffects } from './damageEffects'
+import type { DamageZoneId } from './damageEffects'
+
+/** Número de simulaciones por defecto */
+export const DEFAULT_MONTE_CARLO_RUNS = 200
+
+/**
+ * Rango de diámetro cuando no hay mínimo y máximo de NASA: ±25% alrededor del nominal
+ * (NASA publica ~×2.2 entre min y max por la incertidumbre del albedo)
+ */
+const DEFAULT_DIAMETER_SPREAD = 1.25
+
+/**
+ * Rangos de densidad (kg/m³) por material: de cuerpo poroso a monolítico
+ */
+const DENSITY_RANGES: Record<MeteroidData['material'], [number, number]> = {
+    rock: [1500, 3500],
+    iron: [7000, 8000],
+    nickel: [8500, 9000],
+}
+
+/**
+ * Rangos de resistencia (Pa) por material, se muestrean en escala logarítmica
+ * (rubble ~1e5, roca ~1e7, hierro ~1e8, como en MeteoriteController)
+ */
+const STRENGTH_RANGES: Record<MeteroidData['material'], [number, number]> = {
+    rock: [1e5, 3e7],
+    iron: [3e7, 3e8],
+    nickel: [3e7, 3e8],
+}
+
+/**
+ * Parámetros base del modo de incertidumbre
+ */
+export interface UncertaintyInput {
+    diameterMin_m: number
+    diameterMax_m: number
+    velocity_ms: number
+    material: MeteroidData['material']
+    location: LatLng
+    options?: EntryOptions      // Opciones del modelo atmosférico (densidad y resistencia se muestrean)
+}
+
+/**
+ * Percentiles de una salida
+ */
+export interface Percentiles {
+    p5: number
+    p50: number
+    p95: number
+}
+
+/**
+ * Contorno de probabilidad de una zona de daño
+ * El radio P5 se alcanza en el 95% de las simulaciones y el P95 solo en el 5%
+ */
+export interface ZoneContour {
+    id: DamageZoneId
+    radius_m: Percentiles
+}
+
+/**
+ * Resumen del modo de incertidumbre
+ */
+export interface UncertaintyResult {
+    runs: number
+    seed: number
+    initial_energy_mt: Percentiles
+    impact_energy_mt: Percentiles       // Al suelo, o liberada en el aire si fue explosión aérea
+    crater_diameter_m: Percentiles      // 0 en las simulaciones sin cráter
+    airburst_probability: number        // Fracción de simulaciones que terminaron en explosión aérea
+    zones: ZoneContour[]                // De mayor a menor radio mediano
+}
+
+/**
+ * Generador pseudoaleatorio con semilla (mulberry32) para poder repetir una corrida
+ *
+ * @param {number} seed - Semilla entera
+ * @returns {() => number} Función que devuelve números uniformes en [0, 1)
+ */
+export const createRng = (seed: number): (() => number) => {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+/**
+ * Percentil por interpolación lineal sobre valores ya ordenados
+ */
+const percentile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return 0
+    const index = (sorted.length - 1) * p
+    const lower = Math.floor(index)
+    const upper = Math.ceil(index)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+const summarize = (values: number[]): Percentiles => {
+    const sorted = [...values].sort((a, b) => a - b)
+    return { p5: percentile(sorted, 0.05), p50: percentile(sorted, 0.5), p95: percentile(sorted, 0.95) }
+}
+
+const logUniform = (rng: () => number, [min, max]: [number, number]) =>
+    Math.exp(Math.log(min) + rng() * (Math.log(max) - Math.log(min)))
+
+/**
+ * Rango de diámetro a usar: el de NASA si viene, o el nominal ± DEFAULT_DIAMETER_SPREAD
+ *
+ * @param {number} diameter_m - Diámetro nominal
+ * @param {number} min_m - Diámetro mínimo estimado (opcional)
+ * @param {number} max_m - Diámetro máximo estimado (opcional)
+ * @returns {[number, number]} Mínimo y máximo
+ */
+export const diameterRange = (diameter_m: number, min_m?: number, max_m?: number): [number, number] =>
+    min_m && max_m && min_m > 0 && max_m >= min_m
+        ? [min_m, max_m]
+        : [diameter_m / DEFAULT_DIAMETER_SPREAD, diameter_m * DEFAULT_DIAMETER_SPREAD]
+
+/**
+ * Ejecuta el modo de incertidumbre
+ *
+ * Distribuciones:
+ * - diámetro: log-uniforme entre mínimo y máximo
+ * - densidad: uniforme en el rango del material
+ * - resistencia: log-uniforme en el rango del material
+ * - ángulo: densidad sin(2θ), la distribución isotrópica de impactos (el más probable es 45°)
+ *
+ * @param {UncertaintyInput} input - Parámetros base
+ * @param {number} runs - Número de simulaciones
+ * @param {number} seed - Semilla del generador
+ * @returns {UncertaintyResult} Percentiles de las salidas y contornos de las zonas de daño
+ */
+export const runMonteCarlo = (input: UncertaintyInput, runs = DEFAULT_MONTE_CARLO_RUNS, seed = 1): UncertaintyResult => {
+    const rng = createRng(seed)
+    const initialEnergies: number[] = []
+    const impactEnergies: number[] = []
+    const craterDiameters: number[] = []
+    const zoneRadii = new Map<DamageZoneId, number[]>()
+    let airbursts = 0
+
+    // Materiales sin rango propio (p. ej. guardados como 'rubble') se tratan como roca
+    const densityRange = DENSITY_RANGES[input.material] ?? DENSITY_RANGES.rock
+    const strengthRange = STRENGTH_RANGES[input.material] ?? STRENGTH_RANGES.rock
+
+    for (let run = 0; run < runs; run++) {
+        const diameter = logUniform(rng, [input.diameterMin_m, input.diameterMax_m])
+        const density = densityRange[0] + rng() * (densityRange[1] - densityRange[0])
+        const strength = logUniform(rng, strengthRange)
+        // Inversa de la acumulada sin²θ
+        const angle = (Math.asin(Math.sqrt(rng())) * 180) / Math.PI
+
+        const meteroid: MeteroidData = {
+            radiusMeteroid: diameter / 2,
+            velocity: input.velocity_ms,
+            angle: Math.max(1, angle),
+            material: input.material,
+        }
+        const { calculations, atmospheric_impact } = simulateAtmosphericEntry(meteroid, input.location, {
+            ...input.options,
+            densityOverride: density,
+            strengthOverride: strength,
+        })
+        const { impact_type, airburst, ocean } = classifyImpact(atmospheric_impact, {
+            location: input.location,
+            calculations,
+            angle_deg: meteroid.angle,
+        })
+        const craterDiameter = impact_type === 'ground' || ocean?.reaches_seafloor ? atmospheric_impact.crater_diameter_m : 0
+
+        // Mismo criterio que FormTesting para la energía de las zonas de daño
+        const effects = airburst
+            ? computeDamageEffects({ energy_J: airburst.energy_released_J, burstAltitude_m: airburst.burst_altitude_m, craterDiameter_m: 0 })
+            : computeDamageEffects({ energy_J: atmospheric_impact.E_after_J, burstAltitude_m: 0, craterDiameter_m: craterDiameter })
+
+        if (airburst) airbursts++
+        initialEnergies.push(calculations.kinetic_energy_initial_megatons_tnt)
+        impactEnergies.push(airburst ? airburst.energy_released_megatons_tnt : atmospheric_impact.E_after_J / JOULES_PER_MEGATON)
+        craterDiameters.push(craterDiameter)
+        for (const zone of effects.zones) {
+            const radii = zoneRadii.get(zone.id) ?? []
+            radii.push(zone.radius_m)
+            zoneRadii.set(zone.id, radii)
+        }
+    }
+
+    // Las simulaciones en las que no apareció una zona cuentan como radio 0
+    const zones = [...zoneRadii.entries()]
+        .map(([id, radii]) => ({
+            id,
+            radius_m: summarize([...radii, ...Array<number>(runs - radii.length).fill(0)]),
+        }))
+        .filter(zone => zone.radius_m.p95 > 0)
+        .sort((a, b) => b.radius_m.p50 - a.radius_m.p50)
+
+    return {
+        runs,
+        seed,
+        initial_energy_mt: summarize(initialEnergies),
+        impact_energy_mt: summarize(impactEnergies),
+        crater_diameter_m: summarize(craterDiameters),
+        airburst_probability: runs > 0 ? airbursts / runs : 0,
+        zones,
+    }
+}
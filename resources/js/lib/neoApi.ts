@@ -0,0 +1,346 @@
+// neoApi.ts - Cliente tipado de las rutas de meteoritos del servidor (NASA NeoWs y meteoritos de usuarios)
+// Devuelve resultados discriminados en lugar de lanzar, admite cancelación con AbortSignal
+// y guarda en memoria las respuestas correctas durante unos minutos
+
+import type { MeteroidData } from '../context/MeteroidContext'
+import type { AtmosphericImpact, ImpactCalculations } from './atmosphericEntry'
+
+/** Tiempo que se reutiliza una respuesta correcta (ms) */
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+const MATERIALS: MeteroidData['material'][] = ['rock', 'iron', 'nickel']
+
+/**
+ * Rango de diámetro estimado en una unidad
+ */
+export interface NeoDiameterRange {
+    estimated_diameter_min: number
+    estimated_diameter_max: number
+}
+
+/**
+ * Elementos orbitales de NeoWs en `orbital_data` (números como texto)
+ */
+export interface NeoOrbitalData {
+    orbit_id?: string
+    epoch_osculation: string            // Época de los elementos (día juliano)
+    eccentricity: string
+    semi_major_axis: string             // AU
+    inclination: string                 // Grados
+    ascending_node_longitude: string    // Grados
+    perihelion_argument: string         // Grados
+    mean_anomaly: string                // Grados en la época
+    mean_motion: string                 // Grados por día
+    orbital_period?: string             // Días
+    perihelion_distance?: string        // AU
+    aphelion_distance?: string          // AU
+    orbit_class?: {
+        orbit_class_type: string
+        orbit_class_description: string
+        orbit_class_range?: string
+    }
+}
+
+/**
+ * Aproximación a un cuerpo en `close_approach_data`
+ */
+export interface NeoCloseApproach {
+    close_approach_date: string         // YYYY-MM-DD
+    close_approach_date_full?: string
+    epoch_date_close_approach: number   // Milisegundos desde 1970
+    orbiting_body: string
+    miss_distance: {
+        astronomical: string
+        lunar: string
+        kilometers: string
+        miles?: string
+    }
+    relative_velocity: {
+        kilometers_per_second: string
+        kilometers_per_hour?: string
+        miles_per_hour?: string
+    }
+}
+
+/**
+ * Objeto cercano a la Tierra, igual en el feed, la búsqueda por ID y el listado
+ * (el feed no incluye `orbital_data`)
+ */
+export interface NeoObject {
+    id: string
+    neo_reference_id: string
+    name: string
+    nasa_jpl_url: string
+    absolute_magnitude_h: number
+    estimated_diameter: {
+        meters: NeoDiameterRange
+        kilometers: NeoDiameterRange
+    }
+    is_potentially_hazardous_asteroid: boolean
+    is_sentry_object: boolean
+    close_approach_data: NeoCloseApproach[]
+    orbital_data?: NeoOrbitalData
+}
+
+/**
+ * Respuesta del feed de NeoWs: objetos agrupados por fecha de aproximación (máximo 7 días)
+ */
+export interface NeoFeedResponse {
+    element_count: number
+    near_earth_objects: Record<string, NeoObject[]>
+}
+
+/**
+ * Aproximación a la Tierra resumida por getMeteoritesNames
+ */
+export interface NeoApproachSummary {
+    date: string                // YYYY-MM-DD
+    epoch_ms: number | null
+    miss_distance_km: number
+    velocity_km_s: number       // Velocidad relativa lejos de la Tierra (v∞)
+}
+
+/**
+ * NEO del listado paginado de getMeteoritesNames
+ */
+export interface NeoSummary {
+    id: string
+    name: string
+    is_potentially_hazardous_asteroid: boolean
+    absolute_magnitude_h: number | null
+    diameter_min_m: number | null
+    diameter_max_m: number | null
+    orbit_class?: string | null         // Tipo de órbita (APO, ATE, AMO...); falta en copias guardadas antes de añadirlo
+    close_approaches: NeoApproachSummary[]
+}
+
+/**
+ * Página del listado de NEOs
+ */
+export interface NeoBrowsePage {
+    data: NeoSummary[]
+    pagination: {
+        current_page: number
+        total_pages: number
+        size: number
+        total_elements: number
+        has_next: boolean
+        has_prev: boolean
+    }
+    catalog?: NeoCatalogStatus          // Solo en las búsquedas sobre la copia del servidor
+}
+
+/**
+ * Estado de la copia del listado completo que guarda el servidor para filtrar
+ */
+export interface NeoCatalogStatus {
+    complete: boolean                   // false mientras se descarga la primera copia
+    synced_pages: number                // Páginas de NeoWs incluidas
+    total_pages: number | null
+    total_elements: number              // NEOs que se acercan a la Tierra en la copia
+    updated_at: number | null           // Milisegundos desde 1970 (null si aún no está completa)
+}
+
+/**
+ * Respuesta de getAllMeteorites: primera página de NeoWs filtrada a los que se acercan a la Tierra
+ */
+export interface NeoBrowseAllResponse {
+    total_neos: number
+    earth_orbiting_count: number
+    earth_orbiting_neos: NeoObject[]
+}
+
+/**
+ * Respuesta de getMeteoriteById: NEO completo y simulación de entrada del servidor
+ */
+export interface NeoLookupResponse {
+    data: NeoObject
+    calculations: ImpactCalculations
+    atmospheric_impact: AtmosphericImpact
+}
+
+/**
+ * Meteorito guardado por un usuario, con los nombres de campo del formulario
+ * (la base de datos usa `radius` y `entry_angle`)
+ */
+export interface UserMeteorite {
+    id: number
+    name: string
+    radiusMeteroid: number
+    velocity: number
+    angle: number
+    material: MeteroidData['material']
+    lat?: number
+    lng?: number
+}
+
+/**
+ * Motivo por el que falló una petición
+ */
+export type ApiError =
+    | { kind: 'aborted' }                                   // Cancelada con el AbortSignal
+    | { kind: 'network', message: string }                  // Sin respuesta del servidor
+    | { kind: 'http', status: number, message: string }     // Respuesta de error (incluye NASA caída)
+    | { kind: 'parse', message: string }                    // La respuesta no es JSON
+
+/**
+ * Resultado de una petición: datos o error, nunca lanza
+ */
+export type ApiResult<T> = { ok: true, data: T } | { ok: false, error: ApiError }
+
+/**
+ * Opciones comunes de las peticiones
+ */
+export interface RequestOptions {
+    signal?: AbortSignal    // Para cancelar la petición (p. ej. al desmontar el componente)
+    cache?: boolean         // Reutilizar una respuesta reciente (por defecto sí)
+}
+
+// Respuestas correctas por URL
+const responseCache = new Map<string, { expires: number, data: unknown }>()
+
+const isAbort = (error: unknown, signal?: AbortSignal) =>
+    signal?.aborted || (error instanceof DOMException && error.name === 'AbortError')
+
+/**
+ * GET con resultado discriminado y caché
+ * El servidor a veces responde 200 con { error } cuando NASA falla; se trata como error HTTP
+ */
+const request = async <T>(url: string, { signal, cache = true }: RequestOptions = {}): Promise<ApiResult<T>> => {
+    const cached = cache ? responseCache.get(url) : undefined
+    if (cached && cached.expires > Date.now()) return { ok: true, data: cached.data as T }
+
+    let response: Response
+    try {
+        response = await fetch(url, { signal, headers: { Accept: 'application/json' } })
+    } catch (error) {
+        if (isAbort(error, signal)) return { ok: false, error: { kind: 'aborted' } }
+        return { ok: false, error: { kind: 'network', message: error instanceof Error ? error.message : String(error) } }
+    }
+
+    let body: unknown
+    try {
+        body = await response.json()
+    } catch (error) {
+        if (isAbort(error, signal)) return { ok: false, error: { kind: 'aborted' } }
+        if (!response.ok) return { ok: false, error: { kind: 'http', status: response.status, message: response.statusText } }
+        return { ok: false, error: { kind: 'parse', message: 'The server response is not valid JSON' } }
+    }
+
+    const serverError = typeof body === 'object' && body !== null && 'error' in body ? String(body.error) : null
+    if (!response.ok || serverError) {
+        return { ok: false, error: { kind: 'http', status: response.status, message: serverError ?? response.statusText } }
+    }
+
+    responseCache.set(url, { expires: Date.now() + CACHE_TTL_MS, data: body })
+    return { ok: true, data: body as T }
+}
+
+/**
+ * Texto del error para mostrar al usuario
+ *
+ * @param {ApiError} error - Error de una petición
+ * @returns {string} Mensaje
+ */
+export const describeApiError = (error: ApiError): string => {
+    switch (error.kind) {
+        case 'aborted':
+            return 'Request cancelled'
+        case 'network':
+            return 'Could not reach the server'
+        case 'http':
+            return error.status === 404 ? 'Not found' : `Server error (${error.status}): ${error.message}`
+        case 'parse':
+            return error.message
+    }
+}
+
+/**
+ * Vacía la caché (p. ej. tras guardar un meteorito nuevo)
+ */
+export const clearNeoApiCache = () => responseCache.clear()
+
+/**
+ * Feed de NeoWs: aproximaciones entre dos fechas (máximo 7 días; sin fechas, la semana actual)
+ *
+ * @param {string} startDate - YYYY-MM-DD
+ * @param {string} endDate - YYYY-MM-DD
+ * @param {RequestOptions} options - Cancelación y caché
+ * @returns {Promise<ApiResult<NeoFeedResponse>>} Objetos agrupados por fecha
+ */
+export const fetchNeoFeed = (startDate?: string, endDate?: string, options?: RequestOptions): Promise<ApiResult<NeoFeedResponse>> => {
+    const params = new URLSearchParams()
+    if (startDate) params.set('start_date', startDate)
+    if (endDate) params.set('end_date', endDate)
+    const query = params.toString()
+    return request<NeoFeedResponse>(`/getNeoFeed${query ? `?${query}` : ''}`, options)
+}
+
+/**
+ * Página del listado de NEOs que se acercan a la Tierra
+ *
+ * @param {number} page - Página de NeoWs (empieza en 0)
+ * @param {RequestOptions} options - Cancelación y caché
+ * @returns {Promise<ApiResult<NeoBrowsePage>>} Resúmenes y paginación
+ */
+export const fetchNeoBrowsePage = (page = 0, options?: RequestOptions): Promise<ApiResult<NeoBrowsePage>> =>
+    request<NeoBrowsePage>(`/getMeteoritesNames?page=${page}`, options)
+
+/**
+ * Busca en la copia completa del listado que guarda el servidor (NeoWs no filtra ni ordena)
+ *
+ * @param {string} query - Filtros y orden con los nombres de la URL de /meteorites (serializeFilters)
+ * @param {number} page - Página de resultados (empieza en 0)
+ * @param {RequestOptions} options - Cancelación y caché
+ * @returns {Promise<ApiResult<NeoBrowsePage>>} Coincidencias, paginación y estado de la copia
+ */
+export const searchNeoCatalog = (query: string, page = 0, options?: RequestOptions): Promise<ApiResult<NeoBrowsePage>> =>
+    request<NeoBrowsePage>(`/getMeteoritesNames?${query}&page=${page}`, options)
+
+/**
+ * Primera página de NeoWs con los objetos completos
+ *
+ * @param {RequestOptions} options - Cancelación y caché
+ * @returns {Promise<ApiResult<NeoBrowseAllResponse>>} NEOs que se acercan a la Tierra
+ */
+export const fetchAllNeos = (options?: RequestOptions): Promise<ApiResult<NeoBrowseAllResponse>> =>
+    request<NeoBrowseAllResponse>('/getAllMeteorites', options)
+
+/**
+ * NEO completo (con órbita) y la simulación de entrada del servidor
+ *
+ * @param {string} id - ID de NeoWs
+ * @param {RequestOptions} options - Cancelación y caché
+ * @returns {Promise<ApiResult<NeoLookupResponse>>} NEO y cálculos
+ */
+export const fetchNeoLookup = (id: string, options?: RequestOptions): Promise<ApiResult<NeoLookupResponse>> =>
+    request<NeoLookupResponse>(`/getMeteoriteById/${encodeURIComponent(id)}`, options)
+
+/**
+ * Meteoritos guardados por los usuarios, con los nombres de campo del formulario
+ *
+ * @param {RequestOptions} options - Cancelación y caché (desactivada salvo que se pida)
+ * @returns {Promise<ApiResult<UserMeteorite[]>>} Meteoritos guardados
+ */
+export const fetchUserMeteorites = async (options?: RequestOptions): Promise<ApiResult<UserMeteorite[]>> => {
+    // Sin caché por defecto: la lista cambia cuando alguien guarda un meteorito
+    const result = await request<Record<string, unknown>[]>('/getAllUserMeteorites', { cache: false, ...options })
+    if (!result.ok) return result
+
+    return {
+        ok: true,
+        data: result.data.map(item => {
+            const material = String(item.material ?? 'rock').toLowerCase() as MeteroidData['material']
+            return {
+                id: Number(item.id),
+                name: String(item.name ?? ''),
+                radiusMeteroid: Number(item.radius) || 0,
+                velocity: Number(item.velocity) || 0,
+                angle: Number(item.entry_angle) || 0,
+                material: MATERIALS.includes(material) ? material : 'rock',
+                lat: item.lat === undefined || item.lat === null ? undefined : Number(item.lat),
+                lng: item.lng === undefined || item.lng === null ? undefined : Number(item.lng),
+            }
+        }),
+    }
+}
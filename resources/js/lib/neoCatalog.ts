@@ -0,0 +1,209 @@
+// neoCatalog.ts - Catálogo de NEOs guardado en IndexedDB para trabajar sin conexión
+// Cada entrada lleva la fecha en que se descargó: si está reciente se usa sin pedir nada,
+// si está caducada se devuelve igualmente y se refresca en segundo plano,
+// y si la red falla se sigue usando la copia guardada
+
+import {
+    fetchNeoBrowsePage,
+    fetchNeoLookup,
+    fetchUserMeteorites,
+} from './neoApi'
+import type { ApiError, ApiResult, NeoBrowsePage, NeoLookupResponse, RequestOptions, UserMeteorite } from './neoApi'
+
+const DB_NAME = 'neo-catalog'
+const DB_VERSION = 1
+
+/**
+ * Almacenes del catálogo: páginas del listado (clave = número de página),
+ * NEOs completos (clave = ID de NeoWs) y meteoritos de usuarios (una sola clave)
+ */
+export type CatalogStore = 'pages' | 'details' | 'userMeteorites'
+
+const STORES: CatalogStore[] = ['pages', 'details', 'userMeteorites']
+
+/** Antigüedad a partir de la cual se refresca cada almacén (ms) */
+export const CATALOG_MAX_AGE_MS: Record<CatalogStore, number> = {
+    pages: 12 * 60 * 60 * 1000,         // El listado de NeoWs cambia poco y DEMO_KEY tiene límite de peticiones
+    details: 24 * 60 * 60 * 1000,
+    userMeteorites: 0,                  // Siempre se refresca, la copia solo sirve sin conexión
+}
+
+/**
+ * Entrada guardada con su fecha de descarga
+ */
+interface CatalogEntry<T> {
+    key: string
+    data: T
+    fetchedAt: number
+}
+
+/**
+ * Resultado de una lectura del catálogo: como ApiResult, indicando de dónde salieron los datos
+ */
+export type CatalogResult<T> =
+    | { ok: true, data: T, source: 'network' | 'cache', fetchedAt: number }
+    | { ok: false, error: ApiError }
+
+/**
+ * Opciones de lectura
+ */
+export interface CatalogOptions<T> extends RequestOptions {
+    onRefresh?: (data: T, fetchedAt: number) => void  // Llega cuando termina el refresco en segundo plano
+}
+
+let database: Promise<IDBDatabase | null> | null = null
+
+/**
+ * Abre (y crea la primera vez) la base de datos
+ * Devuelve null si IndexedDB no está disponible (servidor, navegación privada en algunos navegadores...)
+ */
+const openCatalog = (): Promise<IDBDatabase | null> => {
+    if (database) return database
+    database = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null)
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+            for (const store of STORES) {
+                if (!request.result.objectStoreNames.contains(store)) {
+                    request.result.createObjectStore(store, { keyPath: 'key' })
+                }
+            }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+            console.warn('NEO catalog unavailable:', request.error)
+            resolve(null)
+        }
+    })
+    return database
+}
+
+/**
+ * Lee una entrada del catálogo (null si no existe o no hay IndexedDB)
+ */
+const readEntry = async <T>(store: CatalogStore, key: string): Promise<CatalogEntry<T> | null> => {
+    const db = await openCatalog()
+    if (!db) return null
+    return new Promise(resolve => {
+        const request = db.transaction(store, 'readonly').objectStore(store).get(key)
+        request.onsuccess = () => resolve((request.result as CatalogEntry<T> | undefined) ?? null)
+        request.onerror = () => resolve(null)
+    })
+}
+
+/**
+ * Lee todas las entradas de un almacén (vacío si no hay IndexedDB)
+ */
+const readAllEntries = async <T>(store: CatalogStore): Promise<CatalogEntry<T>[]> => {
+    const db = await openCatalog()
+    if (!db) return []
+    return new Promise(resolve => {
+        const request = db.transaction(store, 'readonly').objectStore(store).getAll()
+        request.onsuccess = () => resolve(request.result as CatalogEntry<T>[])
+        request.onerror = () => resolve([])
+    })
+}
+
+/**
+ * Guarda una entrada; un fallo al escribir (p. ej. cuota llena) no interrumpe la página
+ */
+const writeEntry = async <T>(store: CatalogStore, key: string, data: T): Promise<number> => {
+    const fetchedAt = Date.now()
+    const db = await openCatalog()
+    if (!db) return fetchedAt
+    await new Promise<void>(resolve => {
+        const transaction = db.transaction(store, 'readwrite')
+        transaction.objectStore(store).put({ key, data, fetchedAt } satisfies CatalogEntry<T>)
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => {
+            console.warn('Could not store NEO catalog entry:', transaction.error)
+            resolve()
+        }
+    })
+    return fetchedAt
+}
+
+/**
+ * Indica si una fecha de descarga ya está caducada para un almacén
+ *
+ * @param {CatalogStore} store - Almacén
+ * @param {number} fetchedAt - Fecha de descarga (ms)
+ * @returns {boolean} true si conviene refrescar
+ */
+export const isStale = (store: CatalogStore, fetchedAt: number): boolean =>
+    Date.now() - fetchedAt >= CATALOG_MAX_AGE_MS[store]
+
+/**
+ * Lectura con la copia guardada primero:
+ * - copia reciente: se devuelve sin pedir nada
+ * - copia caducada: se devuelve y se refresca en segundo plano (onRefresh recibe los datos nuevos)
+ * - sin copia: se pide a la red y se guarda
+ */
+const readThrough = async <T>(
+    store: CatalogStore,
+    key: string,
+    fetcher: (options: RequestOptions) => Promise<ApiResult<T>>,
+    { onRefresh, ...requestOptions }: CatalogOptions<T> = {}
+): Promise<CatalogResult<T>> => {
+    const cached = await readEntry<T>(store, key)
+
+    if (cached && !isStale(store, cached.fetchedAt)) {
+        return { ok: true, data: cached.data, source: 'cache', fetchedAt: cached.fetchedAt }
+    }
+
+    if (cached) {
+        // El refresco no usa la caché en memoria del cliente para traer datos de verdad nuevos
+        fetcher({ ...requestOptions, cache: false }).then(async result => {
+            if (!result.ok) return
+            const fetchedAt = await writeEntry(store, key, result.data)
+            onRefresh?.(result.data, fetchedAt)
+        })
+        return { ok: true, data: cached.data, source: 'cache', fetchedAt: cached.fetchedAt }
+    }
+
+    const result = await fetcher(requestOptions)
+    if (!result.ok) return result
+    const fetchedAt = await writeEntry(store, key, result.data)
+    return { ok: true, data: result.data, source: 'network', fetchedAt }
+}
+
+/**
+ * Página del listado de NEOs desde el catálogo
+ *
+ * @param {number} page - Página de NeoWs
+ * @param {CatalogOptions<NeoBrowsePage>} options - Cancelación y aviso de refresco
+ * @returns {Promise<CatalogResult<NeoBrowsePage>>} Página y procedencia
+ */
+export const getCatalogPage = (page: number, options?: CatalogOptions<NeoBrowsePage>): Promise<CatalogResult<NeoBrowsePage>> =>
+    readThrough('pages', String(page), requestOptions => fetchNeoBrowsePage(page, requestOptions), options)
+
+/**
+ * Todas las páginas del listado guardadas en visitas anteriores, sin pedir nada a la red
+ * (los filtros de la galería se aplican sobre ellas y no solo sobre las cargadas en esta visita)
+ *
+ * @returns {Promise<{ page: number, data: NeoBrowsePage, fetchedAt: number }[]>} Páginas ordenadas por número
+ */
+export const getStoredCatalogPages = async (): Promise<{ page: number, data: NeoBrowsePage, fetchedAt: number }[]> =>
+    (await readAllEntries<NeoBrowsePage>('pages'))
+        .map(entry => ({ page: Number(entry.key), data: entry.data, fetchedAt: entry.fetchedAt }))
+        .filter(entry => Number.isInteger(entry.page))
+        .sort((a, b) => a.page - b.page)
+
+/**
+ * NEO completo (con órbita) desde el catálogo
+ *
+ * @param {string} id - ID de NeoWs
+ * @param {CatalogOptions<NeoLookupResponse>} options - Cancelación y aviso de refresco
+ * @returns {Promise<CatalogResult<NeoLookupResponse>>} NEO y procedencia
+ */
+export const getCatalogDetail = (id: string, options?: CatalogOptions<NeoLookupResponse>): Promise<CatalogResult<NeoLookupResponse>> =>
+    readThrough('details', id, requestOptions => fetchNeoLookup(id, requestOptions), options)
+
+/**
+ * Meteoritos de usuarios desde el catálogo
+ *
+ * @param {CatalogOptions<UserMeteorite[]>} options - Cancelación y aviso de refresco
+ * @returns {Promise<CatalogResult<UserMeteorite[]>>} Meteoritos y procedencia
+ */
+export const getCatalogUserMeteorites = (options?: CatalogOptions<UserMeteorite[]>): Promise<CatalogResult<UserMeteorite[]>> =>
+    readThrough('userMeteorites', 'all', fetchUserMeteorites, options)
@@ -0,0 +1,96 @@
+// oceanImpact.ts - Impacto en el océano: cavidad transitoria en el agua y tsunami
+// Cavidad por escalado pi con el agua como blanco (Collins, Melosh & Marcus 2005);
+// amplitud de la onda de borde y su decaimiento con la distancia (Ward & Asphaug 2000,
+// con el límite de amplitud de Wünnemann et al. usado por el Earth Impact Effects Program)
+
+/** Densidad del agua de mar (kg/m³) */
+const WATER_DENSITY = 1025
+
+/** Profundidad media del océano (m) cuando no se conoce la batimetría del punto */
+export const DEFAULT_OCEAN_DEPTH_M = 3700
+
+/** Distancias (m) a las que se reporta la altura de ola */
+export const WAVE_DISTANCES_M = [10000, 50000, 100000, 500000, 1000000]
+
+/**
+ * Altura de ola a una distancia del punto de impacto
+ */
+export interface WaveRing {
+    distance_m: number
+    amplitude_m: number     // Amplitud (de nivel medio a cresta)
+    height_m: number        // Altura de cresta a valle
+}
+
+/**
+ * Resultado del impacto en el océano
+ */
+export interface OceanImpactResult {
+    water_depth_m: number
+    cavity_diameter_m: number       // Diámetro de la cavidad transitoria en el agua
+    cavity_depth_m: number          // Profundidad de la cavidad (limitada por el fondo)
+    reaches_seafloor: boolean       // La cavidad llega al fondo y excava el lecho marino
+    initial_amplitude_m: number     // Amplitud de la onda al borde de la cavidad
+    wave_rings: WaveRing[]          // Solo distancias fuera de la cavidad
+}
+
+/**
+ * Entrada del modelo de impacto en el océano
+ */
+export interface OceanImpactInput {
+    impactorDiameter_m: number      // Diámetro del cuerpo al llegar al agua
+    impactorDensity_kg_m3: number
+    velocity_ms: number             // Velocidad al llegar al agua
+    angle_deg: number               // Ángulo de entrada sobre la horizontal
+    gravity?: number
+    waterDepth_m?: number
+}
+
+/**
+ * Estima la cavidad en el agua y la altura del tsunami en aguas profundas
+ *
+ * @param {OceanImpactInput} input - Cuerpo al llegar a la superficie del agua
+ * @returns {OceanImpactResult} Cavidad, amplitud inicial y alturas por distancia
+ */
+export const estimateOceanImpact = ({
+    impactorDiameter_m,
+    impactorDensity_kg_m3,
+    velocity_ms,
+    angle_deg,
+    gravity = 9.81,
+    waterDepth_m = DEFAULT_OCEAN_DEPTH_M,
+}: OceanImpactInput): OceanImpactResult => {
+    const sinAngle = Math.sin((Math.max(1, Math.min(90, angle_deg)) * Math.PI) / 180)
+
+    // D_tc = 1.365 (ρi/ρw)^(1/3) L^0.78 v^0.44 g^-0.22 sin^(1/3)θ
+    const cavityDiameter = 1.365
+        * Math.cbrt(impactorDensity_kg_m3 / WATER_DENSITY)
+        * impactorDiameter_m ** 0.78
+        * velocity_ms ** 0.44
+        * gravity ** -0.22
+        * Math.cbrt(sinAngle)
+
+    // Cavidad transitoria con relación profundidad/diámetro de 1/(2√2)
+    const fullDepth = cavityDiameter / (2 * Math.SQRT2)
+    const reachesSeafloor = fullDepth >= waterDepth_m
+
+    // La onda de borde no puede superar la profundidad del agua
+    const initialAmplitude = Math.min(cavityDiameter / 14.1, waterDepth_m)
+
+    // En aguas profundas la amplitud decae aproximadamente como 1/r desde el borde de la cavidad
+    const cavityRadius = cavityDiameter / 2
+    const waveRings = WAVE_DISTANCES_M
+        .filter(distance => distance > cavityRadius)
+        .map(distance => {
+            const amplitude = initialAmplitude * (cavityRadius / distance)
+            return { distance_m: distance, amplitude_m: amplitude, height_m: 2 * amplitude }
+        })
+
+    return {
+        water_depth_m: waterDepth_m,
+        cavity_diameter_m: cavityDiameter,
+        cavity_depth_m: Math.min(fullDepth, waterDepth_m),
+        reaches_seafloor: reachesSeafloor,
+        initial_amplitude_m: initialAmplitude,
+        wave_rings: waveRings,
+    }
+}
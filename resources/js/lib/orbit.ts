@@ -0,0 +1,305 @@
+// orbit.ts - Órbitas keplerianas a partir de los elementos orbitales de NASA NeoWs
+// Propaga el problema de dos cuerpos alrededor del Sol (sin perturbaciones planetarias)
+
+import type { NeoCloseApproach, NeoOrbitalData } from './neoApi'
+
+/**
+ * Elementos keplerianos numéricos (ángulos en grados)
+ */
+export interface OrbitalElements {
+    a_au: number            // Semieje mayor
+    e: number               // Excentricidad
+    i_deg: number           // Inclinación sobre la eclíptica
+    node_deg: number        // Longitud del nodo ascendente
+    peri_deg: number        // Argumento del perihelio
+    M0_deg: number          // Anomalía media en la época
+    epoch_jd: number        // Época (día juliano)
+    n_deg_day: number       // Movimiento medio
+}
+
+/**
+ * Posición heliocéntrica en el sistema eclíptico J2000 (AU)
+ */
+export type HelioPosition = [number, number, number]
+
+/**
+ * Velocidad heliocéntrica en el sistema eclíptico J2000 (AU/día)
+ */
+export type HelioVelocity = [number, number, number]
+
+/**
+ * Posición y velocidad en un instante
+ */
+export interface OrbitState {
+    position: HelioPosition
+    velocity: HelioVelocity
+}
+
+/**
+ * Marcador de una aproximación a la Tierra sobre la órbita
+ */
+export interface ApproachMarker {
+    date: string                // Fecha de la aproximación (YYYY-MM-DD)
+    jd: number                  // Día juliano
+    position: HelioPosition     // Posición del asteroide en ese instante
+    miss_distance_au: number
+    velocity_km_s: number
+}
+
+/** Día juliano del 1 de enero de 1970 00:00 UTC */
+const UNIX_EPOCH_JD = 2440587.5
+
+/** Constante gravitacional de Gauss al cuadrado: n² a³ = k² (AU³/día²) */
+const GAUSS_K = 0.01720209895
+
+/** Parámetro gravitacional del Sol (AU³/día²) */
+const SUN_MU = GAUSS_K ** 2
+
+/**
+ * Elementos medios de la Tierra (en realidad del baricentro Tierra-Luna) para J2000
+ */
+export const EARTH_ELEMENTS: OrbitalElements = {
+    a_au: 1.00000011,
+    e: 0.01671022,
+    i_deg: 0.00005,
+    node_deg: -11.26064,
+    peri_deg: 114.20783,
+    M0_deg: -2.48284,
+    epoch_jd: 2451545.0,
+    n_deg_day: 0.9856076686,
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180
+
+/**
+ * Día juliano de una fecha expresada en milisegundos desde 1970
+ *
+ * @param {number} ms - Marca de tiempo (Date.now(), epoch_date_close_approach...)
+ * @returns {number} Día juliano
+ */
+export const julianDateFromMs = (ms: number): number => ms / 86400000 + UNIX_EPOCH_JD
+
+/**
+ * Fecha en milisegundos desde 1970 de un día juliano
+ *
+ * @param {number} jd - Día juliano
+ * @returns {number} Marca de tiempo
+ */
+export const msFromJulianDate = (jd: number): number => (jd - UNIX_EPOCH_JD) * 86400000
+
+/**
+ * Fecha (UTC) de un día juliano
+ *
+ * @param {number} jd - Día juliano
+ * @returns {string} Fecha en formato YYYY-MM-DD
+ */
+export const formatJulianDate = (jd: number): string => new Date(msFromJulianDate(jd)).toISOString().slice(0, 10)
+
+/**
+ * Convierte los elementos de NeoWs a números
+ * Solo admite órbitas cerradas (e < 1); los campos que falten o no sean números invalidan la órbita
+ *
+ * @param {NeoOrbitalData | undefined} data - Campo `orbital_data` de NeoWs
+ * @returns {OrbitalElements | null} Elementos numéricos, o null si no se pueden usar
+ */
+export const parseOrbitalData = (data: NeoOrbitalData | undefined): OrbitalElements | null => {
+    if (!data) return null
+
+    const a_au = Number(data.semi_major_axis)
+    const e = Number(data.eccentricity)
+    const elements: OrbitalElements = {
+        a_au,
+        e,
+        i_deg: Number(data.inclination),
+        node_deg: Number(data.ascending_node_longitude),
+        peri_deg: Number(data.perihelion_argument),
+        M0_deg: Number(data.mean_anomaly),
+        epoch_jd: Number(data.epoch_osculation),
+        // Si falta el movimiento medio se deduce de la tercera ley de Kepler
+        n_deg_day: Number(data.mean_motion) || (GAUSS_K / Math.sqrt(a_au ** 3)) * (180 / Math.PI),
+    }
+
+    if (Object.values(elements).some(value => !Number.isFinite(value))) return null
+    if (a_au <= 0 || e < 0 || e >= 1) return null
+    return elements
+}
+
+/**
+ * Resuelve la ecuación de Kepler M = E - e·sin(E) por Newton-Raphson
+ * La raíz está siempre en [M - e, M + e]: los pasos que salen de ese intervalo se sustituyen
+ * por bisección, así que converge para cualquier M y cualquier e < 1
+ *
+ * @param {number} M - Anomalía media (rad)
+ * @param {number} e - Excentricidad (< 1)
+ * @returns {number} Anomalía excéntrica (rad)
+ */
+export const solveKepler = (M: number, e: number): number => {
+    // Se resuelve en (-π, π] y se devuelve en la misma vuelta que M
+    const turns = Math.round(M / (2 * Math.PI)) * 2 * Math.PI
+    const m = M - turns
+    let low = m - e
+    let high = m + e
+    // Con excentricidades altas empezar en M + e·signo(M) converge mejor que empezar en M
+    let E = e > 0.8 ? m + e * Math.sign(m) : m
+    for (let i = 0; i < 100; i++) {
+        const residual = E - e * Math.sin(E) - m
+        if (residual > 0) high = E
+        else low = E
+        let next = E - residual / (1 - e * Math.cos(E))
+        if (!(next > low && next < high)) next = (low + high) / 2
+        const delta = next - E
+        E = next
+        if (Math.abs(delta) < 1e-12) break
+    }
+    return E + turns
+}
+
+/**
+ * Rota un vector del plano de la órbita (x hacia el perihelio) al sistema eclíptico
+ */
+const orbitPlaneToEcliptic = (elements: OrbitalElements, xOrbit: number, yOrbit: number): HelioPosition => {
+    const node = toRad(elements.node_deg)
+    const peri = toRad(elements.peri_deg)
+    const inc = toRad(elements.i_deg)
+    const cosNode = Math.cos(node)
+    const sinNode = Math.sin(node)
+    const cosPeri = Math.cos(peri)
+    const sinPeri = Math.sin(peri)
+    const cosInc = Math.cos(inc)
+    const sinInc = Math.sin(inc)
+
+    return [
+        (cosNode * cosPeri - sinNode * sinPeri * cosInc) * xOrbit + (-cosNode * sinPeri - sinNode * cosPeri * cosInc) * yOrbit,
+        (sinNode * cosPeri + cosNode * sinPeri * cosInc) * xOrbit + (-sinNode * sinPeri + cosNode * cosPeri * cosInc) * yOrbit,
+        sinPeri * sinInc * xOrbit + cosPeri * sinInc * yOrbit,
+    ]
+}
+
+/**
+ * Posición en la órbita para una anomalía excéntrica, rotada al sistema eclíptico
+ */
+const positionFromEccentricAnomaly = (elements: OrbitalElements, E: number): HelioPosition => {
+    const { a_au: a, e } = elements
+    return orbitPlaneToEcliptic(elements, a * (Math.cos(E) - e), a * Math.sqrt(1 - e * e) * Math.sin(E))
+}
+
+/**
+ * Anomalía excéntrica en un instante
+ */
+const eccentricAnomalyAt = (elements: OrbitalElements, jd: number): number => {
+    const M = toRad(elements.M0_deg + elements.n_deg_day * (jd - elements.epoch_jd))
+    const wrapped = ((M % (2 * Math.PI)) + 3 * Math.PI) % (2 * Math.PI) - Math.PI
+    return solveKepler(wrapped, elements.e)
+}
+
+/**
+ * Posición heliocéntrica en un instante
+ *
+ * @param {OrbitalElements} elements - Elementos de la órbita
+ * @param {number} jd - Día juliano
+ * @returns {HelioPosition} Posición (AU)
+ */
+export const positionAt = (elements: OrbitalElements, jd: number): HelioPosition =>
+    positionFromEccentricAnomaly(elements, eccentricAnomalyAt(elements, jd))
+
+/**
+ * Posición y velocidad heliocéntricas en un instante
+ *
+ * @param {OrbitalElements} elements - Elementos de la órbita
+ * @param {number} jd - Día juliano
+ * @returns {OrbitState} Posición (AU) y velocidad (AU/día)
+ */
+export const stateAt = (elements: OrbitalElements, jd: number): OrbitState => {
+    const { a_au: a, e } = elements
+    const E = eccentricAnomalyAt(elements, jd)
+    const n = toRad(elements.n_deg_day)
+    // Derivadas de las coordenadas del plano de la órbita: dE/dt = n / (1 - e·cos E)
+    const rate = n / (1 - e * Math.cos(E))
+    return {
+        position: positionFromEccentricAnomaly(elements, E),
+        velocity: orbitPlaneToEcliptic(elements, -a * Math.sin(E) * rate, a * Math.sqrt(1 - e * e) * Math.cos(E) * rate),
+    }
+}
+
+/**
+ * Elementos keplerianos a partir de la posición y la velocidad en un instante
+ * Solo para órbitas cerradas; en órbitas casi sobre la eclíptica el nodo se toma en el eje x
+ *
+ * @param {OrbitState} state - Posición (AU) y velocidad (AU/día)
+ * @param {number} jd - Día juliano del estado (será la época de los elementos)
+ * @returns {OrbitalElements | null} Elementos, o null si la órbita no es elíptica
+ */
+export const elementsFromState = ({ position: r, velocity: v }: OrbitState, jd: number): OrbitalElements | null => {
+    const dot = (p: number[], q: number[]) => p[0] * q[0] + p[1] * q[1] + p[2] * q[2]
+    const cross = (p: number[], q: number[]) => [p[1] * q[2] - p[2] * q[1], p[2] * q[0] - p[0] * q[2], p[0] * q[1] - p[1] * q[0]]
+    const norm = (p: number[]) => Math.sqrt(dot(p, p))
+
+    const radius = norm(r)
+    const speed2 = dot(v, v)
+    const a = 1 / (2 / radius - speed2 / SUN_MU)
+    if (!(a > 0)) return null
+
+    const h = cross(r, v)
+    const hNorm = norm(h)
+    const rv = dot(r, v)
+    // Vector excentricidad: apunta al perihelio
+    const eVec = r.map((component, i) => ((speed2 - SUN_MU / radius) * component - rv * v[i]) / SUN_MU)
+    const e = norm(eVec)
+    if (e >= 1) return null
+
+    const inc = Math.acos(Math.min(1, Math.max(-1, h[2] / hNorm)))
+    const nodeLength = Math.hypot(h[0], h[1])
+    const node = nodeLength > 1e-12 ? Math.atan2(h[0], -h[1]) : 0
+    const nodeDir = [Math.cos(node), Math.sin(node), 0]
+    // Eje del plano de la órbita a 90° del nodo, en el sentido del movimiento
+    const inPlane = cross(h.map(component => component / hNorm), nodeDir)
+    const peri = e > 1e-12 ? Math.atan2(dot(eVec, inPlane), dot(eVec, nodeDir)) : 0
+
+    // Anomalía excéntrica y media del estado
+    const E = Math.atan2(rv / Math.sqrt(SUN_MU * a), 1 - radius / a)
+    const M = E - e * Math.sin(E)
+
+    return {
+        a_au: a,
+        e,
+        i_deg: inc * (180 / Math.PI),
+        node_deg: node * (180 / Math.PI),
+        peri_deg: peri * (180 / Math.PI),
+        M0_deg: M * (180 / Math.PI),
+        epoch_jd: jd,
+        n_deg_day: (GAUSS_K / Math.sqrt(a ** 3)) * (180 / Math.PI),
+    }
+}
+
+/**
+ * Puntos de la elipse completa, repartidos por anomalía excéntrica
+ * (más densos cerca del perihelio que repartidos por tiempo)
+ *
+ * @param {OrbitalElements} elements - Elementos de la órbita
+ * @param {number} segments - Número de segmentos
+ * @returns {HelioPosition[]} Órbita cerrada
+ */
+export const orbitPath = (elements: OrbitalElements, segments = 256): HelioPosition[] =>
+    Array.from({ length: segments + 1 }, (_, i) => positionFromEccentricAnomaly(elements, (i / segments) * 2 * Math.PI))
+
+/**
+ * Aproximaciones a la Tierra situadas sobre la órbita propagada
+ *
+ * @param {OrbitalElements} elements - Elementos del asteroide
+ * @param {NeoCloseApproach[]} approaches - Campo `close_approach_data` de NeoWs
+ * @returns {ApproachMarker[]} Marcadores ordenados por fecha
+ */
+export const closeApproachMarkers = (elements: OrbitalElements, approaches: NeoCloseApproach[]): ApproachMarker[] =>
+    approaches
+        .filter(approach => approach.orbiting_body === 'Earth' && Number.isFinite(approach.epoch_date_close_approach))
+        .map(approach => {
+            const jd = julianDateFromMs(approach.epoch_date_close_approach)
+            return {
+                date: approach.close_approach_date,
+                jd,
+                position: positionAt(elements, jd),
+                miss_distance_au: Number(approach.miss_distance.astronomical),
+                velocity_km_s: Number(approach.relative_velocity.kilometers_per_second),
+            }
+        })
+        .sort((a, b) => a.jd - b.jd)
@@ -0,0 +1,191 @@
+// parameterSweep.ts - Barridos de parámetros y sensibilidad sobre la simulación de entrada
+// Repite simulateAtmosphericEntry variando uno o dos campos de MeteroidData
+
+import type { LatLng, MeteroidData } from '../context/MeteroidContext'
+import { simulateAtmosphericEntry } from './atmosphericEntry'
+import type { EntryOptions } from './atmosphericEntry'
+
+/**
+ * Campos numéricos de MeteroidData que se pueden barrer
+ */
+export type SweepField = 'radiusMeteroid' | 'velocity' | 'angle'
+
+/**
+ * Salidas de la simulación que se grafican
+ */
+export type SweepOutput = 'crater_diameter_m' | 'f_atm' | 'breakup_altitude_m'
+
+/**
+ * Etiqueta, unidad y límites físicos de cada campo
+ */
+export const SWEEP_FIELDS: Record<SweepField, { label: string, unit: string, min: number, max: number }> = {
+    radiusMeteroid: { label: 'Radius', unit: 'm', min: 0.1, max: 10000 },
+    velocity: { label: 'Velocity', unit: 'm/s', min: 1000, max: 72000 },
+    angle: { label: 'Entry angle', unit: '°', min: 1, max: 90 },
+}
+
+/**
+ * Etiqueta y unidad de cada salida
+ */
+export const SWEEP_OUTPUTS: Record<SweepOutput, { label: string, unit: string }> = {
+    crater_diameter_m: { label: 'Crater diameter', unit: 'm' },
+    f_atm: { label: 'Energy remaining (f_atm)', unit: '' },
+    breakup_altitude_m: { label: 'Breakup altitude', unit: 'm' },
+}
+
+/**
+ * Rango de un barrido
+ */
+export interface SweepRange {
+    field: SweepField
+    min: number
+    max: number
+    steps: number
+}
+
+/**
+ * Salidas de una simulación del barrido (null en breakup si no hubo ruptura)
+ */
+export type SweepOutputs = Record<SweepOutput, number | null>
+
+/**
+ * Punto de un barrido de un parámetro
+ */
+export interface SweepPoint {
+    x: number
+    outputs: SweepOutputs
+}
+
+/**
+ * Resultado de un barrido de dos parámetros: outputs[j][i] corresponde a (xs[i], ys[j])
+ */
+export interface SweepGrid {
+    xs: number[]
+    ys: number[]
+    outputs: SweepOutputs[][]
+}
+
+/**
+ * Sensibilidad de una salida a un campo
+ */
+export interface Sensitivity {
+    field: SweepField
+    elasticity: number | null   // Cambio relativo de la salida / cambio relativo del campo (null si no se puede evaluar)
+}
+
+/**
+ * Valores equiespaciados entre min y max (incluidos)
+ */
+export const linspace = (min: number, max: number, steps: number): number[] => {
+    const count = Math.max(2, Math.round(steps))
+    return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1))
+}
+
+/**
+ * Limita un valor a los límites físicos del campo
+ */
+const clampField = (field: SweepField, value: number) =>
+    Math.min(SWEEP_FIELDS[field].max, Math.max(SWEEP_FIELDS[field].min, value))
+
+/**
+ * Ejecuta una simulación y extrae las salidas del barrido
+ */
+const evaluate = (meteroid: MeteroidData, location: LatLng, options: EntryOptions): SweepOutputs => {
+    const { atmospheric_impact } = simulateAtmosphericEntry(meteroid, location, options)
+    return {
+        crater_diameter_m: atmospheric_impact.crater_diameter_m,
+        f_atm: atmospheric_impact.f_atm,
+        breakup_altitude_m: atmospheric_impact.breakup_altitude_m,
+    }
+}
+
+/**
+ * Barre un campo manteniendo el resto del meteorito fijo
+ *
+ * @param {MeteroidData} base - Meteorito de referencia
+ * @param {LatLng} location - Punto de impacto
+ * @param {SweepRange} range - Campo y rango a barrer
+ * @param {EntryOptions} options - Opciones del modelo atmosférico
+ * @returns {SweepPoint[]} Salidas por valor del campo
+ */
+export const runSweep = (base: MeteroidData, location: LatLng, range: SweepRange, options: EntryOptions = {}): SweepPoint[] =>
+    linspace(clampField(range.field, range.min), clampField(range.field, range.max), range.steps).map(x => ({
+        x,
+        outputs: evaluate({ ...base, [range.field]: x }, location, options),
+    }))
+
+/**
+ * Barre dos campos sobre una rejilla
+ *
+ * @param {MeteroidData} base - Meteorito de referencia
+ * @param {LatLng} location - Punto de impacto
+ * @param {SweepRange} xRange - Campo del eje horizontal
+ * @param {SweepRange} yRange - Campo del eje vertical
+ * @param {EntryOptions} options - Opciones del modelo atmosférico
+ * @returns {SweepGrid} Salidas por celda de la rejilla
+ */
+export const runSweepGrid = (
+    base: MeteroidData,
+    location: LatLng,
+    xRange: SweepRange,
+    yRange: SweepRange,
+    options: EntryOptions = {}
+): SweepGrid => {
+    const xs = linspace(clampField(xRange.field, xRange.min), clampField(xRange.field, xRange.max), xRange.steps)
+    const ys = linspace(clampField(yRange.field, yRange.min), clampField(yRange.field, yRange.max), yRange.steps)
+    const outputs = ys.map(y => xs.map(x =>
+        evaluate({ ...base, [xRange.field]: x, [yRange.field]: y }, location, options)
+    ))
+    return { xs, ys, outputs }
+}
+
+/**
+ * Elasticidad de cada salida respecto a cada campo alrededor del meteorito base
+ * Diferencia centrada con una perturbación relativa (±10% por defecto): un valor de 2 significa que
+ * un 1% más en el campo produce ~2% más en la salida
+ *
+ * @param {MeteroidData} base - Meteorito de referencia
+ * @param {LatLng} location - Punto de impacto
+ * @param {EntryOptions} options - Opciones del modelo atmosférico
+ * @param {number} delta - Perturbación relativa
+ * @returns {Record<SweepOutput, Sensitivity[]>} Sensibilidades por salida, de mayor a menor
+ */
+export const sensitivityAnalysis = (
+    base: MeteroidData,
+    location: LatLng,
+    options: EntryOptions = {},
+    delta = 0.1
+): Record<SweepOutput, Sensitivity[]> => {
+    const outputs = Object.keys(SWEEP_OUTPUTS) as SweepOutput[]
+    const fields = Object.keys(SWEEP_FIELDS) as SweepField[]
+    const result = Object.fromEntries(outputs.map(output => [output, [] as Sensitivity[]])) as Record<SweepOutput, Sensitivity[]>
+    const centerOutputs = evaluate(base, location, options)
+
+    for (const field of fields) {
+        const value = base[field]
+        const low = clampField(field, value * (1 - delta))
+        const high = clampField(field, value * (1 + delta))
+        const lowOutputs = evaluate({ ...base, [field]: low }, location, options)
+        const highOutputs = evaluate({ ...base, [field]: high }, location, options)
+
+        for (const output of outputs) {
+            const lowValue = lowOutputs[output]
+            const highValue = highOutputs[output]
+            const centerValue = centerOutputs[output]
+            const elasticity = lowValue === null || highValue === null || centerValue === null || centerValue === 0 || high === low
+                ? null
+                : ((highValue - lowValue) / centerValue) / ((high - low) / value)
+            result[output].push({ field, elasticity })
+        }
+    }
+
+    // Más sensible primero; las que no se pudieron evaluar al final
+    for (const output of outputs) {
+        result[output].sort((a, b) => {
+            if (a.elasticity === null || b.elasticity === null) return Number(a.elasticity === null) - Number(b.elasticity === null)
+            return Math.abs(b.elasticity) - Math.abs(a.elasticity)
+        })
+    }
+
+    return result
+}
@@ -0,0 +1,10 @@
+// physicalConstants.ts - Constantes físicas de la Tierra comunes a los modelos del simulador
+
+/** Radio medio de la Tierra (km) */
+export const EARTH_RADIUS_KM = 6371
+
+/** Radio medio de la Tierra (m) */
+export const EARTH_RADIUS_M = EARTH_RADIUS_KM * 1000
+
+/** Velocidad de escape en la superficie (km/s) */
+export const ESCAPE_VELOCITY_KM_S = 11.186
@@ -0,0 +1,114 @@
+// populationExposure.ts - Población expuesta dentro de cada radio de daño
+// Integra la rejilla de población alrededor del punto de impacto suponiendo densidad
+// uniforme dentro de cada celda
+
+import type { LatLng } from '../context/MeteroidContext'
+import { DAMAGE_ZONE_INFO } from './damageEffects'
+import type { DamageZone, DamageZoneId } from './damageEffects'
+import { EARTH_RADIUS_M } from './physicalConstants'
+import { cellPopulation, POPULATION_RESOLUTION_DEG } from './populationGrid'
+
+// Puntos por lado con los que se muestrea cada celda para estimar la fracción dentro del círculo
+const SUBSAMPLES = 8
+
+/**
+ * Población expuesta en una zona de daño
+ */
+export interface ZoneExposure {
+    id: DamageZoneId
+    name: string            // Nombre de la zona (se envía tal cual al análisis con IA)
+    radius_m: number
+    population: number      // Personas dentro del radio (incluye las de zonas interiores)
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180
+
+/**
+ * Distancia sobre la superficie entre dos puntos (haversine)
+ */
+const surfaceDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+    const dLat = toRad(lat2 - lat1)
+    const dLng = toRad(lng2 - lng1)
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Área de una fila de celdas de la rejilla (m²)
+ */
+const cellArea = (row: number): number => {
+    const north = toRad(90 - row * POPULATION_RESOLUTION_DEG)
+    const south = toRad(90 - (row + 1) * POPULATION_RESOLUTION_DEG)
+    return EARTH_RADIUS_M ** 2 * toRad(POPULATION_RESOLUTION_DEG) * (Math.sin(north) - Math.sin(south))
+}
+
+/**
+ * Estima cuántas personas viven dentro de un radio alrededor de un punto
+ *
+ * @param {LatLng} center - Punto de impacto
+ * @param {number} radius_m - Radio sobre la superficie
+ * @returns {number} Población estimada
+ */
+export const populationWithin = ([lat, lng]: LatLng, radius_m: number): number => {
+    if (!(radius_m > 0)) return 0
+
+    const rows = 180 / POPULATION_RESOLUTION_DEG
+    const cols = 360 / POPULATION_RESOLUTION_DEG
+    const normalizedLng = ((((lng + 180) % 360) + 360) % 360) - 180
+    const centerRow = Math.min(rows - 1, Math.floor((90 - lat) / POPULATION_RESOLUTION_DEG))
+    const centerCol = Math.min(cols - 1, Math.floor((normalizedLng + 180) / POPULATION_RESOLUTION_DEG))
+
+    // Radios mucho menores que una celda: densidad de la celda por el área del círculo
+    const cellSize = toRad(POPULATION_RESOLUTION_DEG) * EARTH_RADIUS_M
+    if (radius_m < cellSize / 4) {
+        return (cellPopulation(centerRow, centerCol) / cellArea(centerRow)) * Math.PI * radius_m ** 2
+    }
+
+    // Filas y columnas que puede tocar el círculo
+    const angularRadiusDeg = (radius_m / EARTH_RADIUS_M) * (180 / Math.PI)
+    const firstRow = Math.max(0, Math.floor((90 - (lat + angularRadiusDeg)) / POPULATION_RESOLUTION_DEG))
+    const lastRow = Math.min(rows - 1, Math.floor((90 - (lat - angularRadiusDeg)) / POPULATION_RESOLUTION_DEG))
+    const maxCos = Math.cos(toRad(Math.min(89.9, Math.abs(lat) + angularRadiusDeg)))
+    const halfSpan = Math.ceil(angularRadiusDeg / maxCos / POPULATION_RESOLUTION_DEG) + 1
+
+    // Columnas a recorrer (todas si el círculo abarca toda la vuelta)
+    const columns = angularRadiusDeg >= 90 || 2 * halfSpan + 1 >= cols
+        ? Array.from({ length: cols }, (_, col) => col)
+        : Array.from({ length: 2 * halfSpan + 1 }, (_, i) => (((centerCol - halfSpan + i) % cols) + cols) % cols)
+
+    let total = 0
+    for (let row = firstRow; row <= lastRow; row++) {
+        for (const col of columns) {
+            const population = cellPopulation(row, col)
+            if (population === 0) continue
+
+            // Fracción de la celda dentro del círculo por muestreo regular
+            let inside = 0
+            for (let i = 0; i < SUBSAMPLES; i++) {
+                const sampleLat = 90 - (row + (i + 0.5) / SUBSAMPLES) * POPULATION_RESOLUTION_DEG
+                for (let j = 0; j < SUBSAMPLES; j++) {
+                    const sampleLng = -180 + (col + (j + 0.5) / SUBSAMPLES) * POPULATION_RESOLUTION_DEG
+                    if (surfaceDistance(lat, normalizedLng, sampleLat, sampleLng) <= radius_m) inside++
+                }
+            }
+            total += population * (inside / SUBSAMPLES ** 2)
+        }
+    }
+
+    return total
+}
+
+/**
+ * Calcula la población expuesta dentro de cada zona de daño
+ *
+ * @param {LatLng} center - Punto de impacto
+ * @param {DamageZone[]} zones - Zonas calculadas por computeDamageEffects
+ * @returns {ZoneExposure[]} Población por zona, en el mismo orden
+ */
+export const estimateExposure = (center: LatLng, zones: DamageZone[]): ZoneExposure[] =>
+    zones.map(zone => ({
+        id: zone.id,
+        name: DAMAGE_ZONE_INFO[zone.id].name,
+        radius_m: zone.radius_m,
+        population: Math.round(populationWithin(center, zone.radius_m)),
+    }))
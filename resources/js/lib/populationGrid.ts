@@ -0,0 +1,227 @@
+// populationGrid.ts - Rejilla de población gruesa sin conexión (1° × 1°)
+// Generada sumando la población de las localidades de GeoNames con más de 1000 habitantes
+// (paquete npm all-the-cities@3.1.0, datos GeoNames bajo CC BY 4.0) en la celda que las contiene.
+// Solo cuenta población urbana (~3.1 mil millones de personas): subestima las zonas rurales.
+//
+// Cada fila va de norte a sur (la primera empieza en 90°N) y recorre de 180°W a 180°E.
+// Cada celda poblada se codifica en base 36 como 'salto:cientos', donde salto es la distancia
+// en columnas desde la celda anterior de la fila (desde la columna 0 en la primera) y cientos
+// la población redondeada a cientos de personas.
+
+/** Resolución de la rejilla en grados */
+export const POPULATION_RESOLUTION_DEG = 1
+
+const ROWS = [
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '5f:l',
+    '',
+    '',
+    '',
+    '',
+    '78:b',
+    '3f:b',
+    'n:18.54:7.23:w.c:j.e:1l',
+    'v:m.28:a.g:d.18:1.t:o.2:5.1:2d.1:x.1:p.2:a.1:1.1:2c.2:l.2w:f.c:p',
+    '3k:18.1v:k.1:s.1:17.1:et.1:c.1:b.1:f.1:1.1:3x.2:j.2:e.2:o.1:a7.1:s.1:5p.1:uu.2:d.1f:6k.1:7l.1:1jj.1f:z.v:1c',
+    '1a:u.12:b.17:u.1:d.1t:21.1:36.1:2c.1:6m.1:4h.1:o.5:l.4:32.4:j.1:3y.1:2wz.2:u.4:1b.y:h.e:d.p:n.y:o.f:11.5:1m',
+    '19:b.j:d.3k:6.1:3.1:b3.1:2l.5:9a.3:2c.1:1l.2:2h.1:21.1:e.2:5f.2:t8.1:p8.1:2q.j:6u.a:6t.1:ni.e:1o.8:23.18:h.3:e.1:17.j:z',
+    '0:m.h:x.2p:d.c:1g.u:q.5:c.1:m.u:1r.1:1p.1:5h.3:i.2:s.3:a.1:38.1:z.1:9o.2:2h.1:2f.2:1r.2:2v.1:2p.1:1p.q:j.5:21.1:i3.1:q.3:1d.2:l.4:q6.c:e.o:49.b:w',
+    '8:r.19:a.22:t.f:i.f:b.3:q.1:5b.1:a.3:19.1:f.p:3.1:1i.1:2w.4:y.1:k.1:1b.1:n.1:gg.1:gj.1:2d.1:ha.1:1bv.1:4x.2:1b.1:4u.2:28.d:1x.8:1f.1:10.4:qp.1:a.2:k.4:w.8:dn.2:31.4:4k.9:1c.o:49.13:10',
+    '6:p.8:12.h:o.1:kp.1:b.7:d.m:1.1u:44.s:a.1:3c.1:1l7.6:h.q:5.1:9n.1:i.1:3.3:1f.1:13.1:2t.1:19.1:dz.1:3k.2:46.1:fl.1:hr.1:3k.1:bt.1:8o.1:2u.1:8d.2:1s.2:81.5:1t3.1:3cy.1:1z.2:10.1:18.1:1c.f:u.g:88.1:56.n:1i.17:2j.y:2v',
+    'v:a.3:n.3:d.22:1p.1a:1n.1:f.1:2z.s:59.1:i.1:1p.1:1e0.1:5g.2:1n.1:g8.1:1b.1:m.1:2i.1:a7.1:3t.1:rq.1:nc.1:j8.1:pc.1:91.1:8g.1:51.1:i9.1:4o.1:44.1:3t.1:13.1:j.2:c9.4:6b.1:k.1:y.1:3c.6:p.1:2p.4:i.1:15i.1:34.3:3t.7:2n.1:1y.1:5l.8:av.1:uk.11:1f.6:2s.2:1r.1:2r.1:z.5:1a.k:k.w:j',
+    'u:d.x:j.2:4f.m:n.h:b.1w:1c.1:6h.c:2y.1:kn.1:7o.1:1p.1:2f.1:1a.1:15.3:r.1:18.1:l.1:11e.4:8t.1:te.1:gc.1:b4.1:17g.1:6j.1:16e.1:5p.1:s4.1:9z.2:3z.1:g.1:h0.5:1f.1:c4.2:3d.1:o.2:1u.4:4o.1:7r.1:t.3:11.2:2c.5:o.4:hh.6:48.2:h.1:g2.3:d9.10:b7.1:h.3:2e.9:1n.3:224.2:1h.2:1y.2:2h.4:1e.8:c.1:22.1:13.1:v.1:q.1:z.3:1i',
+    'd:c.1:a.f:l.1:34l.1:t.2:13.n:1.22:j.17:20.b:2.1:79.1:3e.1:3v.1:o.1:1u.1:5k.1:w.1:n.2:5i.1:1k.1:8u.1:a7.4:15h.1:r5.1:2p8.1:m3.1:k5.1:dp.1:id.1:193.1:7j.1:gm.1:5p.2:2h.1:22j.1:1c.1:6d.2:32.2:7f.1:15.1:89.1:10.1:9m.1:22.1:mn.1:dd.1:19.2:2bu.1:1m.2:1g.8:10.1:28.1:fy.1:1d.5:iu.3:16p.1:2u4.1:13.1:fv.1:ga.e:n.6:11.c:k.k:1x.1:5k.1:1w.2:21.h:19.3:b.7:k',
+    'i:1t.a:7r.1:1k.1:1y.4:m.8:b.2:6h.7:f.d:r.4:o.1t:1d.1:f.18:29.6:5.1:270.1:4j.1:6.1:2i.1:1h.1:jh.1:sv.1:d.1:48.1:4f.1:176.1:hv.1:v2.1:6w.1:5g.1:1t.1:dq.1:2m8.1:x1.1:9hn.1:4lw.1:1ch.1:8l.1:r8.1:1gn.1:6r8.2:a9.1:77.1:6x.2:m.1:44.3:6d.1:13.1:1g.1:1i.1:17.2:ba.1:87.3:t.4:17.2:3l.1:52.2:bx.1:66.1:g.3:b3.5:1e.2:1k.1:bj.4:211.1:cg.f:g.1:1u.9:v.c:6l.6:2g.b:1q.3:v.3:c.d:19.g:k',
+    'l:o.7:2x.g:h.3q:c.6:1.1:qf.1:30.1:3.1:1u.1:yk.1:8ea.1:12k.1:c8.1:xo.1:l8.1:1mr.1:24l.1:7gr.1:i57.2:4.2:2s.1:40.1:3mm.1:57.1:be.1:mm.1:1cc.1:2r3.1:1oyx.1:jr.1:vj.1:mo.1:75.1:6f.2:2n0.1:ac.1:2iz.1:ga.1:o.1:4u.1:14.2:47.1:t.2:3w.1:3h.1:1e.1:j.1:af.2:bf.1:w.1:25y.1:ep.2:8d.1:1j3.1:2o.1:v.3:33.1:11.1:16.1:1a.c:2e.w:2c.v:1k.7:so.1:1r.8:11.4:o',
+    '19:94.c:19.5:10.33:78.3:59.1:7l.8:1qj.1:5d.1:sb.1:hd.1:2s.1:1k.1:s2.1:u8.1:134.1:jb.1:1px.1:16t.1:ls.5:57.1:4m.1:hr.1:fm.1:xx.1:4l.1:11.1:fh.1:51.1:1to.1:6k.1:mt.1:35.1:4y.1:51.1:50.1:1po.1:32.1:c7.1:bv.1:6o.1:51.1:68.1:dn.1:3m.1:6i.1:a0.1:3zo.1:155.1:5v.1:145.1:z.1:bk.1:hw.1:83j.1:1fs.1:52.1:181.1:v1.1:1k.2:56.1:1h.1:az.1:t.2:12y.1:1f.c:1q.1:a3.3:2a.7:nv.1:1l.1:2m.2:n.1:34.2:4d.3:rv.a:16.2:h.1:i.a:9l.1:2i',
+    'r:24.h:2h.3k:17.1:o.1:f.1:r3.1:k6.1:2u7.1:6e.a:o.1:1pc.1:j4.1:5l1.1:3jc.1:jx.1:1q8.1:ca.1:f7.2:7v.3:c5.1:68.1:z.1:iv.1:i5.1:9g.1:dv.1:1tf.1:a6.1:11.1:dh.1:2b.1:hi.1:1f6.1:83.1:8y.1:b0.1:f6.1:5nx.1:2oa.1:1ff.1:wz.1:a3.1:1o.1:bj.1:c0.1:ao.1:75.1:60.1:3v.1:2v.1:3z.1:194.1:84.1:hq.1:vl.1:43.1:38.1:36d.1:1dy.1:1x3.1:2n.1:10t.1:4j.1:48c.1:1v.1:1x.2:1e.2:1e.1:21.1:3p.6:v.3:3e.1:3d.1:v.2:1m.2:1c.4:w.1:1o.1:2d.3:w.5:24.1:47.4:1r.1:4k.6:52.18:k',
+    '1b:1h.c:4u.2:x.1:2l.6:l4.2w:b.1:a.1:6o.1:7x.1:4u1.1:2eq.b:18f.1:1vp.1:37l.1:t.1:2yh.1:uw.1:1p9.1:qi.1:kw.5:114.1:rc.1:1fj.1:6l5.1:gq.1:ai.1:fd.1:9c.1:7q.1:wh.1:4k.1:dt.1:3r.1:mj.1:3f5.1:1yx.1:4f2.1:34c.1:q0.1:6j8.1:2ct.1:vw.1:3wf.1:b9m.1:af.1:97.1:73b.1:bp.1:ar.1:cr.1:o0.1:q8.1:5uh.1:23k.1:8a.1:d3.1:fy.1:4o.1:21x.1:df8.1:1xd.1:127.1:pv.1:31.1:9v.1:jr.1:3y.1:5a.1:jq.1:47.1:26.2:1m.1:av.1:33.1:1l.2:1i.5:28.1:4t5.1:c4.1:12q.1:df.1:4n.1:96.1:1d8.1:3f.1:7bi.1:15x.1:ju.1:v8.1:at.1:5n.1:1j.1:7h.2:25j.2:10.1:8h.1:e2.1:c.1:2u.4:16.2:14.1:2w.2:2o.2:1r.6:ns.e:d.l:c.1:2s.2:1d',
+    'h:a.2:b.r:c.2:2o.8:x.2:q.1:3p.1:12.1:cw.1:v.1:t.2:25.9:1l.3:j.5:3h.2h:2k.1:5w.1:n4.1:6y.1:e9b.1:8z6.1:10b.1:2mo.a:14t.1:2wz.1:29c.1:222.1:gut.1:56d.1:a4.1:12.5:h.1:2r0.1:t7.1:1na.1:1in.1:jf.1:1i1.1:kn.1:1iu.1:3q.1:2pw.1:4n.1:k1.1:dt.1:qw.1:3e.1:3x6.1:4hx5.1:chf.1:1mt.1:13c.1:br.1:225.1:1w6.1:ff.1:fm.1:ld.1:s5.1:1vb.1:8r4.1:mt.1:1ya.1:56x.1:eq.1:j0.1:sm.1:6y.1:2i.1:7s.1:24o.1:2pm.1:9m1.1:1v.1:7k.1:4s.1:2wp.1:3a.1:7g.2:2k.1:z.1:4x.1:8s.1:7i.1:az.1:87.1:4g.2:m6.1:1n.1:6d.2:bbm.1:at.1:ye.1:i2.1:4de.1:1g.1:3j.1:jj.2:25.1:9d.1:2o.1:cv.1:1b.2:2o.1:d4.1:i.1:c.1:v.8:8p.1:g.e:ad.y:k.1:1e',
+    'e:a.z:43.2:7w.1:1i.1:t.1:q.1:f.8:p.1:2z.1:18.1:20.1:b.1:t.1:6x.2:1h.7:1o.4:k.2g:3r.1:b2.1:245.1:32g.1:58h.1:er.1:1m0.1:2nk.1:hby.1:1jf.8:d.1:qb.1:4vk.1:485.1:vs.1:2ia.1:1pd.1:1w.1:qz.1:1ep.1:1o3.1:8k6.1:25p.1:4nm.1:1hp.1:188.1:5k5.1:125.1:6mo.1:1on.1:ou.1:1xr.1:ir.1:1k1.1:9g.1:2r1.1:kl.1:fi.1:x0.1:37w.1:78b.1:2qh.1:4wj.1:ba.1:of.1:fu.1:186.1:ju.1:2re.1:lh.1:88.1:5nh.1:193.1:dc.1:6b.1:2n4.1:1td.1:vg.1:8ls.1:al.1:j5.1:yp.1:c1.1:ls.1:1wd.1:16.1:1l.1:67.1:2l.1:u.2:1d.1:1mx.1:2r.1:1z.1:3p.1:93l.1:56.1:1j.2:65.1:1j.2:15.1:2v.1:fi.1:22o.1:3m.1:fz.1:2bb.3:4o.1:4x.1:2q.1:1j.1:2d.6:df.1:ja.1:40.1:c7.1:2m.2:1h.5:1m.3:1b.9:17.1:b.1:v.b:d.n:2b',
+    'd:2h.18:i8.3:14.2:2r.1:28.1:h.1:46.1:7c3.1:6z.1:28.1:ab.4:c.1:9r.1:14.3:1p.15:24.1e:l.1:re.1:fh.1:11d.1:gul.2:nn.1:b5k.1:1fqz.1:124z.1:9qm.1:l1.4:2f.1:2ks.1:51v.1:44e.1:cf3.1:us7.1:icv.1:3m4.1:1ki.1:27j.1:599.1:1n2.1:1wp.1:1ow.1:7w1.1:1vu.1:2ql.1:167.1:1qu.1:59w.1:yh.1:1mu.1:1wt.1:f55.1:rf.1:1xy.1:3hq.1:il.1:qz.1:g1.1:4pu.1:5f.1:r1.1:hz.1:1vo.1:si.1:jl.1:gq.1:58.1:ib.1:8j.1:4zo.1:1tm.1:fq.1:1vz.1:70e.1:9ot.1:v4.1:oi.1:bo.1:4n.1:3de.1:k4.1:2f.1:lg.1:3ea.1:g6.2:7w.1:1mc.1:2p.2:2u.1:2g.1:y.1:16w.1:1t.1:v.1:1w.1:1t.2:40.1:2h.2:cm.1:5i.1:3l.1:f6.1:co.1:60s.1:nh.1:4z.1:2j0.1:5d3.1:s2.1:1s.1:4s.1:37y.1:92.a:fh.1:ms.2:2q.1:a.1:b.2:3o.a:3z.1:p.1:1i.2:2s.1:1m.1:39.1:1z.1:7i.5:n.7:r.1:86.2:7r.g:1rc',
+    '1l:7s.4:27.4:5d.1:u1.1:1j.1:b.1:23.1:11.1:6b.2:1ok.1:1c.1:2e.2:h.1:16.j:f.f:u.1:2v.1k:k.1:eq.1:1iw.1:15j.1:11q.2:iu.1:qh.1:fku.1:1749.1:e35.1:65t.1:6h0.3:utw.1:jx4.1:cik.1:8lo.1:ece.1:ecc.1:bjt.1:6m7.1:2oh.1:1ob9.1:2lw.1:2hw.1:72p.1:2yr.1:2xa.1:3n9.1:9hr.1:oyc.1:1rv.1:3gs.1:w4.1:li.1:1bg.1:173.1:8a.1:1rx.1:4xq.1:r8.1:161.1:h9.1:it.1:167.1:2sb.1:pg.1:171.1:4rp.1:xa.1:37q.1:a6.1:j8.1:fo.1:dv.1:bw.1:2b2.1:iu.1:uh.1:3z.1:5f.1:tr.1:d9.1:29.1:131.1:9n.1:1n.1:nc.1:1k.1:2x.1:dc.1:dz.1:yg.1:28.1:w.1:10.2:3a.2:jf.1:fd.1:1o.1:20.3:2y9.2:kq.1:6g.1:8e.1:6y.1:az.1:8r.1:80.1:24w.1:3a.1:cg.2:1s.1:51.1:2i.2:1j.3:m.3:k.4:2r9.1:5cx.2:3p.1:3k.1:f.1:28.2:1m.2:2ei.2:2i.1:y.1:8t.1:j.5:1.1:gx.2:1h.1:5z.9:p.4:15.1:j.h:7i',
+    '1k:2s.2:k.1:d.4:14.1:5i.1:8cd.1:5y.2:v.2:1h.1:n.1:k.2:v.1:i.1:p.1:57.1:11.1:2c.7:1v.d:w.2:i.a:e.a:14.3:k.19:c.1:5c.1:21g.1:1x.2:54.1:2b9.1:gba.1:jx6.1:9sj.1:3b0y.1:s1b.1:5vz.1:2vw.1:9mn.1:10na.1:qf2.1:14cm.1:1dcz.1:b93.1:9nh.1:5hh.1:87q.1:b79.1:8ui.1:5r6.1:3vb.1:55u.1:acg.1:2p6.1:a1q.1:2r7.1:47o.1:4vc.1:z2.1:wb.1:do.1:h9.1:39.1:7f.1:4d.1:bn.1:3bo.1:nh.1:25b.1:hw.1:pd.1:3p9.1:2mo.1:tv.1:83m.1:rx.1:g1.1:13m.1:11e.1:7a.1:mx.1:8xu.1:31.1:bm.1:2p.1:4l.1:1lv.1:ci.1:3l.1:fm.1:4ek.1:69.1:gi.1:3ay.1:8z.7:7m.1:1e.1:9o.1:2u.1:2o.1:2px.2:3y.2:zw.1:1i.1:10.2:4y.1:1b.1:1dz.1:64.1:1d.1:5p.1:n2.1:x.1:p.3:5x.1:3f.1:36.1:11.1:yt.1:1a.4:1.1:l.2:1z.1:6e.1:8g.1:1k.1:7l.1:34j.1:et.1:5n.1:2y.1:17.1:1p.1:bz.1:c8.1:3n.1:dt.1:1e.1:o.1:u.5:1.2:1.2:m1.4:1z.1:45.2:1k.1:11.4:10.2:g.1:2t.d:q',
+    '1g:l.1:dd.1:9a.3:31.1:1g.1:lp.1:2vz.1:31.1:h.1:t.2:2b.1:8y.1:q.1:3j.1:hj.3:43.2:9e.1:1ec.1:g.1:1r.1:w.1:c.1:1l.2:16.1:4d.3:a.2:t.i:t.7:8k.3:u.1m:1pt.1:3v6.1:4fs.1:28q.1:c6z.1:6tq.1:3iw.1:3aq.1:am9.1:os4.1:qk7.1:gx6.1:oft.1:gpe.1:q37.1:6be.1:6sw.1:8zh.1:djn.1:6tc.1:his.1:6zm.1:5x6.1:45a.1:h1o.1:kfl.1:45m.1:4ul.1:3h1.1:1q9.1:1sb.1:2so.1:3dq.1:1c4.1:2xk.1:1go.1:pyd.1:ym.1:1ff.1:tw.1:36x.1:sm.1:453.1:jh.1:v7.1:1fg.1:o4.1:70.1:kx.1:nd.1:ix.1:19b.1:bi.1:2h.1:7h.3:1o.1:1r.4:26.1:20x.1:86.1:2o.1:2i.6:bo.5:1y.1:1df.1:4v.2:1l.3:2z.2:2az.1:e4.1:6m.1:en.1:z.1:14.1:22.1:1o.2:14.1:14.1:1.1:v.1:1.2:2q.2:i.1:1.1:1.1:1.1:1.2:43.2:24.1:f2.1:3d.1:1w.5:2v.2:37.1:8g.1:1e.1:g3.1:2j.1:1.1:kg.2:h4.1:11q.3:2jv.1:mr.1:7g.1:1r.2:o.4:j0.1:29u.2:13.3:5l.e:o',
+    '1i:1l.1:ow.1:9sb.1:aqe.1:nz.1:r.1:1nj.1:16.1:ag.1:1c.1:8d.1:z.1:2y.1:q2.1:k.2:l.1:h.2:b.1:n.2:2m.1:3d.2:2g.1:8s.1:67.1:517.1:54.1:c.1:47.2:2a.5:16.2:h.1:b.1:1b.1:2k.5:k.1:1c.2:2m.6:c2.2:1z.9:1x.1:l.1:1f.1:m.1c:1c.1:1.3:cd.1:1p7.1:2v3.1:4gp.1:6r0.1:c5b.1:3ab.1:3et.1:3f8.1:d40.1:aoi.1:u56.1:bqk.1:8gk.1:c7h.1:5xz.1:3pq.1:32h.1:3gd.1:6sq.1:79l.1:d3u.1:7uk.1:4ls.1:2vy.1:22z.1:3q2.1:724.1:2sr.1:3mn.1:ud.1:4ea.1:o9.1:2hl.1:1jy.1:2xg.1:38x.1:2vb.1:zu.1:d44.1:12k.1:157.1:c7.1:8r.1:74.1:65.1:h7.1:48.1:4s.1:3a.2:1c.1:1w.1:1o.6:39.1:8k.6:1h.9:16s.1:3hw.2:3a.6:bo.1:2gn.1:4v.1:d8.3:c.1:1l.1:k.1:1.1:1.1:7t.1:1.1:1.1:1.1:1.1:1.1:1.1:1.1:a0.1:1.1:1.1:1.1:m4.1:kn.1:1.1:1.4:19.1:1.1:1.1:1.1:1.1:15.1:1c4.2:1mn.1:wb.5:o8.2:1l.1:1y.1:bo.1:2w.1:1h.1:16.3:r.5:7q.2:9d.1:4n',
+    '1i:g.1:t.1:3rl.1:39z.1:1d.2:45.1:r.1:2n.1:3p.1:11.1:dv.1:1g.1:u.1:1n.1:9.1:33.1:d.1:k.1:y.1:13.1:j.1:7w.1:1m.1:g7.1:16.1:2g.1:2q.1:1x.1:35.1:19.1:b.1:3x.2:y.2:sk.3:v.5:by.1:3c.1:8j.1:6g.1:82.3:f.2:cx.1:1x4.2:1k.1:e6.1:5v.1:3i.1:2h.1:6b.6:2e.1:57.2:3d.1:g.1:2d.1d:3hz.1:2dv.1:3a0.1:5ks.1:2ap.1:2rc.1:65f.1:26ht.1:1x4.1:2ck.1:1aq.1:53s.1:bp5.1:dw5.1:rcg.1:c4e.1:mos.1:7ro.1:4jj.1:6h0.1:2d4.1:q5g.1:7eb.1:3n3.1:2jn.1:3vj.1:528.1:3fg.1:1q6.1:3kn.1:3k6.1:21m.1:19h.1:uj.1:y6.1:1ry.1:mg.1:2t5.1:1pz.1:29w.1:9xs.1:qw.1:htr.1:c3i.1:793.1:24i.1:ia.1:9x.1:9y.1:axq.1:fx.1:j9.2:7j.3:3p.2:2x.2:25.2:2f.1:58.3:1b.7:c.2:3u.1:3o.1:6a.1:1n.2:11.4:1h.3:1g.1:4b.6:7w.1:1.1:8h.2:1.1:1.1:1.1:1.1:1.1:2n.1:1.1:1.1:1.1:1.1:4t.1:1.1:1.1:58.2:1.2:1.1:1.2:1.1:1.2:1.2:1.4:10q.2:u3.2:3d8.3:fe.1:1.1:1a.1:m6.1:1l.1:9v.1:958.1:1a.4:9y.2:4c',
+    '1j:11.1:41.1:sr5.1:q1.1:mb.1:da.1:18.1:3br.1:vc.1:10.1:3j.1:h.1:h.1:hz.1:i.1:1n.1:2.2:4.1:6.1:3z.1:1v.1:1f.1:2p.1:4.1:1l.1:m.1:km.1:30.1:1z.1:4p.1:4p.1:cb.1:2v.1:d.2:4c.4:q.5:5a.5:g.1:a.1:66.2:7h.1:84.1:7b.1:26.2:8k.1:1z.5:16.2:g.1:b.1:2k.2:61.1:15w.1c:12s.1:2rg.1:4e6.1:86p.1:5be.1:4vk.1:4bx.1:2wh.1:1fz.1:nb.1:31u.1:54p.1:foc.1:srf.1:ccn.1:50w.1:7iz.1:57l.1:3lw.1:19q.1:6ay.1:58o.1:3pi.1:75b.1:zgn.1:3t9.1:7bt.1:4yt.1:5si.1:3oa.1:2n7.1:9ga.1:6rx.1:6c8.1:1j3.1:ew.1:we.1:hf.1:5iy.1:2ir.1:73y.1:fl.1:4jg.1:36m.1:boh.1:4et.1:69.1:1rh.1:7b.1:4g.2:2z.1:89.4:1lu.1:36.1:3x.6:7m.2:2l.6:t0.4:d.2:k.1:1d.4:14.2:9b.1:44.3:6r.1:1.3:12p.2:1.1:1.1:1.2:1.1:1.1:4i.1:1.1:1.1:1.1:1.1:1n.1:2i.1:1.1:f.1:1.1:6rn.1:1.1:1.1:1.1:43.1:1.1:1.1:1.5:1.1:1.3:h9.1:a4t.1:kv.1:gi.1:1e4.1:fv.1:1t2.1:xq.1:626.1:1g.1:qr.2:8o.7:1b.1:ho',
+    '1j:2z.1:h2.1:w4.2:1hg.1:24g.1:e6.1:ww.1:ae.2:4c.1:lc.1:qi.1:5g.1:9.1:c.1:i.1:3.1:j.1:2m.1:12.1:u.1:76.1:3.1:r1.1:m.1:70.1:1h.1:1tf.1:71.1:9q.1:1i.1:15v.1:y.1:54.1:u.1:2n.1:bz.1:n.1:f.1:m9.1:c.1:3h.1:dv.1:18n.1:f7.1:o.1:17.1:b.1:63.1:81.1:xs.1:1m4.1:70b.1:hi.2:4q.1:47.1:h.1:f.1:18d.1:gx.1:1e.2:vh.1:5k.3:1q.1i:71.1:4ci.1:2mq.1:2ih.1:1l0.1:16t.1:28u.1:47e.1:2jh.1:b09.1:6hm.1:2w9.1:2lw.1:13x.1:51b.1:1wv.1:3m0.1:62h.1:42b.1:340.1:264.1:4tc.1:3tf.1:4oo.1:5f3.1:1zx.1:6kz.1:62h.1:383.1:7z5.1:5h0.1:219.1:3g4.1:9uz.1:4cb.1:3jr.1:1f7.1:ct.1:1ji.1:11z.1:66.1:1wn.1:1j9.1:qn.1:16l.1:6o.1:3m.1:xh.1:20.2:a4.1:4c6.1:2c.4:2h.1:e8.7:96.c:4y.1:mm.1:10.1:r.1:19.1:1i.1:1e.3:1.1:1.2:1.1:64.4:1.1:1.1:1.1:1.1:1.1:1.1:4e.1:1.1:1.1:1.1:7b.2:74.1:1.1:1.1:1.1:1.1:1.1:2r.1:1.1:1.1:1.1:1.1:4e.2:1.6:1.1:1a2.1:ii.1:3bc.1:5c0.1:3jh.1:fc.1:1ae.1:js.1:4r0.1:6oq.1:hi.2:bj.1:z.3:b.3:6m.1:1qj',
+    '1k:wm.1:fnv.1:b8.1:18.1:93.1:bl.1:1w.1:w.3:u.1:1h.1:gu.1:21.1:1z.1:yg.1:1i.1:18.1:5.1:3.1:3.1:g.1:19.1:16.1:t.1:8d.1:1j.1:2k.1:d0.1:1ez.1:8pb.1:19x.1:80.1:2k.1:9m.1:46.1:cm.1:u.1:44.1:5q.1:3l.2:10.1:1r.1:82.1:b.1:9u.1:9e.1:bio.1:2uk.1:sz3.1:1z9.1:1j7.1:1b.1:33.1:5o.1:1m.1:17l.1:2s.1:b0.1:6h.1:68.1:3s.1:l.1n:pl.1:2jq.1:2jc.1:3ag.1:l7.1:481.1:hj6.1:a7l.1:36k.1:el3.1:hxk.1:1b72.1:eys.1:ffz.1:cp5.1:505.1:2gp.1:8g4.1:2fy.1:1hg.1:3zh.1:40z.1:4nc.1:66s.1:2x1.1:49s.1:5mm.1:8mf.1:5io.1:7df.1:68e.1:19j.1:1o.2:56.1:2j0.1:2hh.1:19k.1:1g3.1:14n.1:7hu.1:2vh.1:2mv.1:4i2.1:1b9.1:mg.1:5f.2:1f.1:b5.1:z.7:3y.7:c4.1:m3.1:c8.9:1e.4:5p.1:xj.1:ld.3:t.1:1.1:208.1:q1.7:1.2:1.1:1.1:1.1:1.2:1.1:1.1:1.1:1.1:1.1:1.1:1.1:4a.1:1.1:1.1:1.1:1.1:1.1:1.1:1.2:1.1:1.3:1.2:1.1:3be.1:iu.1:2o0.1:xt.1:1cbu.1:144.1:g0.2:98a.1:1vs.2:of.1:13.2:13.5:ji.6:h',
+    '1j:6s.1:4mo.1:nd.1:108.1:2s.2:o.1:2q.1:9c.2:a.2:6.1:o.2:2q.1:3d.1:1i.1:69.1:9w.1:y.1:zu.2:8.1:4o.1:l.1:57.1:92.1:al.1:9f.1:vf.1:ebd.1:3dc.1:1c8.1:b0.1:1ca.1:3uw.1:pf.1:25.1:an.1:5z.1:2g.2:4i.1:gr.1:3ql.1:vu.1:106.1:19j.1:kj.1:b6.1:1gr.1:lk.1:9q.1:18u.1:1gv.1:zq.1:2v.1:o.1:11.1:69.1:40l.1q:yt.1:7xo.1:2db.1:1lh.1:1q0.1:oe.1:5gy.1:149.1:vu.1:5gd.1:ad7.1:43p.1:b2v.1:aml.1:5bh.1:kc.1:5l.1:1wp.1:178.1:56y.1:41k.1:2za.1:fho.1:xj.1:301.1:672.1:7nw.1:8nv.1:11i7.1:3wg.1:58b.1:o.4:48b.1:4k9.1:37.2:371.1:2de.1:25o.1:326.1:46s.1:2ja.1:4o8.1:1jv.1:9m.1:3d.4:2d.1:q.1:3a.1:g.c:2gb.1:8a.1:12.3:o.2:3j.1:e.3:1y.1:3v.1:ap.2:31k.4:1.2:4f4.1:1j8.7:1.4:1.1:1.1:1.2:7r.1:1.1:1.1:1.1:1.2:1.1:1.1:5j.1:1.3:1.3:1.3:1.3:hd.1:fi.1:26v.1:2d1.1:qc.2:6bn.1:ie.1:ru.1:x6.1:pk.1:q.1:i1.1:26.6:7d.1:7h.1:bt.1:2p',
+    '1j:f5.1:jv.1:1r.1:35.2:17.2:i.1:3ll.1:3y.1:46.1:9.1:m5.1:h8.1:4y.2:4s.3:j.1:z.1:1j.1:1l.1:i.1:12.1:21.1:5s.1:1m.1:1uc.1:fv.1:bq.1:l0.1:i0.1:1co.1:gk.1:3gf.1:4wp.1:64t.1:yi.1:w4.1:19i.1:26z.1:5m.1:fk.1:6ol.1:1n1e.1:3jf.1:363.1:2au.1:1j9.1:cq.1:172.1:xl.1:2gu.1:45w.1:g9.3:23.1:d.1k:4f.1:55c.1:22q.1:qu.1:6w2.1:10g.1:596.1:8yd.1:5k7.1:308.1:1tu.1:8y2.1:2sx.1:6za.1:6p8.1:uj0.1:5bd.1:84o.1:i8.1:3.1:97g.1:anw.1:5ft.1:608.2:jc.1:2s0.1:2mt.1:6h7.1:11h.1:2i6.1:3ky.1:1p9.1:2l4.1:3l0.1:54l.1:1zl.1:43e.1:10w.b:3v3.1:16m.1:qb.1:1jm.1:56e.1:8me.1:5lz.1:4cu.1:cg.4:18s.1:x6.6:gf.1:3m.1:1.7:5x.1:1be.1:fm.1:aj.3:b2.1:2q.2:frm.1:15g.2:2s.2:18g.1:1.1:2bc.4:ndi.1:1.1:1.4:1.8:1.1:1.1:1.1:47.1:1.2:1.2:1.1:1.1:4k.2:1.3:xm.1:1.1:1.1:1.1:1.1:1.1:20j.1:q1.1:5ul.1:xa8.1:eyr.1:1e0.1:2j8.1:on.2:65z.1:1r9.1:ha.2:17.5:6c.1:ivd.1:3ho.1:vf.1:6e.1:eq.1:l',
+    '1j:3f.1:g0.1:16b.1:bb.1:n.5:c.1:lq.1:5q.1:lr.1:34.1:1a.1:j.1:2l.2:je.1:2j.1:3o.1:2.1:4n.1:7.1:s.1:o.1:1v.1:es.1:144.1:ab.1:g3.1:10t.1:1h6.1:1rk.1:xr.1:3px.1:ag5.1:bje.1:pt.1:5jy.1:364.1:q95.1:4gx.1:35b.1:1km.1:1b4.1:5o1.1:v6.1:1wn.1:y4.1:fu.1:4zn.1:6tu.1:13ik.1:5rj.1p:av.1:9ey.1:26e.1:1iq.1:2np.1:1cz.1:2bm.1:4mg.1:4qp.1:st.1:e7.1:1cd.1:496.1:13p.5:4z.1:s0.1:o8.1:25i.1:61d.1:4gn.1:400.1:4.1:2l.1:4k.1:1qg.1:2ar.1:7gs.1:axi.1:11w.1:bmv.1:5a7.1:3ah.1:20o.1:2aa.6:g.2:9o.6:1d1.1:2hn.1:rv.1:8d.1:4v.1:o7.1:713.1:19z.a:1.1:2rv.1:8l.3:1.5:aq.1:3ph.1:9c.1:2vp.1:gb.1:tr.1:73m.1:kd.1:b4.1:6a.1:uy.2:1.6:1h.2:1.1:1yt.1:1.3:123.c:1.1:1.6:1.1:1.1:1.2:1.2:355.1:ip.1:1.1:5bf.2:2kr.1:1w0.1:5eb.1:3sw.1:it.1:nu.1:51y.1:1rp.1:5e.1:1j9.1:al.7:165.1:2ph.1:68.1:1no.1:1f0',
+    '1j:2w.1:c.1:4v.2:q.6:p.2:1o4.1:305.1:52.1:aq.2:2i.1:h.1:8y.1:lp.1:8n.1:2f.1:1o.1:6x.1:1e.1:3b.1:b5.1:yy.1:4pm.1:b2.1:4eu.1:mh.1:1jo.1:2oo.1:121.1:d8v.1:1hsg.1:2uw.1:406.1:137.1:4ot.1:2w3.1:gpd.1:3jg.1:kb.1:mb.1:io.1:rd.1:378.1:63p.1:hqy.1:dds.1:bj6.1:3xj.1:3a.1p:hp4.1:1yi.1:qc.1:1f7.1:471.1:rw.1:m1.1:18c.1:7k9.1:2kl.1:9v5.1:1p95.1:u6.5:ku.1:dy.3:sxi.1:5cd.1:7q7.1:526.1:8vl.1:bs.2:5dh.1:4ku.1:80u.1:34t.1:1tn.1:1mx.1:1uk.1:1z8.1:42v.1:3z1g.1:ay9.1:to.1:22x.1:1nc.1:yx.1:t9.1:14l.1:3v9.1:1en.1:4r.1:356.1:1hv.1:1sm.1:sn.1:jh.1:a3b.1:we.1:lw.1:vp.1:1ca.1:c.a:1mc.1:2j4.1:oc.3:1.3:72.1:1.1:iwe.1:171.1:1s3.1:x0.1:1.1:1.1:ir.4:1.1:2mg.1:1.1:ix.2:1.2:1ga.f:1.7:1.1:1.1:1.1:1.1:1.1:1zw.1:1.1:1.1:1.1:1.1:1.1:17m.1:5kk.1:53g.1:gk0.1:23hx.1:j6.1:4g1.1:3f6.1:1.1:2hn.1:3cd.b:2ni.1:do',
+    '1j:v4.1:1u.1:15d.1:2k.1:58.2:j.1:27.1:1n.1:92.1:1l.2:27b.1:dlu.1:j.1:72.1:o.1:3m.1:48.1:3ul.1:1sp.1:92.1:2n.1:1c.1:3e.1:fj.1:pv.1:7i.1:2f4.1:8o.1:7i.1:59.1:8h.1:kr.1:t4.1:38r.1:2st.1:nk.1:34m.1:268.1:1vd.1:2ag.1:2m5.1:2yf.1:4mx.1:810.1:1g1.1:170.1:4s4.1:avh.1:3465.1:3c81.1:2cj.1s:6co.1:1sk.1:11i.1:2jl.1:410.1:21sc.1:qw.1:kg.1:n2.1:1v8.3:84.5:2op.1:1u1.3:v.1:lh.1:12s2.1:3l7.1:41q.1:899.1:47y.1:3e3.1:1v9.1:1cl.1:8y5.1:1en.1:sy.1:hs.1:1ot.1:2v1.1:4y9.1:u2q.1:3vs.1:1qs.1:118.1:1te.1:2f9.1:2e1.1:30x.1:1xe.1:26m.1:1e6.1:1gs.1:fe.1:i0.1:2jx.1:dr2.1:1q5.1:3li.1:31f.1:136.1:e5q.1:1ma.2:iz.b:36.1:r7.1:1f6.1:6w.1:1cc.1:21r.1:46g.1:2pf.1:79f.1:61m.1:w9.5:1.1:1.1:35.1:208.d:1.1:1.2:1.a:dkw.1:1.2:b34.1:5z5.1:1.1:8oj.1:5ce.1:2vq.1:1mk.1:3gt.1:ej.1:12w.1:36i.2:73f.1:jw.1:9f2.1:8x.1:1m7.1:ps.1:sk.1:hp.b:5yy.1:2ap',
+    '1k:ah.1:fp.1:2xu.1:9u.1:3vc.1:2d.3:6.1:1h.2:z.1:cy.1:51.2:yy.1:bj.1:ht.1:5vi.1:eq9.1:q.1:11.1:3g.1:1e.1:3b.1:2h.1:40.1:tm.1:18v.1:agh.1:e5.1:au.1:q2.1:fp.1:1rh.1:1ds.1:123.1:bds.1:1kv.1:f6e.1:2a7.1:97v.1:sc.1:u5.1:tf.1:qa.1:9xp.1:m9h.1:nwg.1:6d5.17:1k.3:i.j:1is.1:4g9.1:10w.1:1gk.1:x5.1:26m.1:2kl.1:13y.1:zh.1:jv9.1:4g.1:1c.1:5hi.1:1v6.1:gk.4:2vj.1:3va.6:gx.1:4b7.1:nw.1:13g.1:er.1:1ht.1:190.1:2xp.1:6y.1:1.1:1s.1:1pd.1:3ne.1:14b.1:280.1:4k2.1:da.1:10h7.1:2w1.1:20a.1:12x.1:ex.1:2a8.1:co.1:1l2.1:ab.1:432.1:1ie.1:1n3.1:22l.1:12u.1:1ms.1:1dv.1:2mo.1:9f.5:v5.1:5v.7:4y.1:26u.1:2oi.1:zc.1:4dy.1:yd.1:84.1:nk.1:5k.1:5j.1:1m.3:24b.1:1.3:1.9:1.6:1.1:1.2:nk.1:1i7.1:1.1:1.1:1.5:5d8.1:1.1:1.1:fqt.2:1.1:1.1:1.1:1.1:qy.1:2sqn.1:2mmn.1:swb.1:6va.2:2wb.1:2jy.2:2m.1:und.1:g7.1:a75.c:b2.1:3lc.1:5j7',
+    '1k:3f.1:7sv.1:iq7.1:vm.1:er.1:x.1:p.4:d.1:4c.1:15.2:1g.1:2g.1:80.1:31.1:c3.1:5gi.1:1z.1:2i.1:u.1:1d.1:8v.1:a3.1:16y.1:8c.1:11b.1:5bb.1:m0.1:1mg.1:lj.1:dy4.1:2fp.1:g9.1:p4.1:kc.1:635.1:46b.1:dx.1:5zi.1:18a.1:4z.1:dt.1:1ux.1:kng.1:94e.1:15a.1:52.1a:aw.1:bp.i:k7m.1:2r3.1:1eh.1:3nv.1:1db.1:1ep.1:3e6.1:11u.1:544.1:e17.1:19x.1:to.7:17.4:vr.1:7m9.1:w2.1:5hl.1:4mw.1:3o.3:f6.1:2og.1:1k8.1:ch7.1:90.1:5.1:1ij.1:sws.1:1y2.1:205.1:2b1.1:2ay.1:hb.1:ga.1:2ku.1:5sj.1:qh.1:1br.1:3xn.1:3bd.1:1ig.1:1zq.1:27s.1:32x.1:23f.1:1e8.1:b5e.1:q7.1:5my.8:3c.1:6e.1:az.5:4y.2:1xl.1:72.1:q4.1:61s.1:10l.1:3c.1:1.2:30.4:mx.8:1.e:1.1:rs.1:1.1:144.1:1.2:1.1:3nz.2:1.1:p9.2:1.1:1tt.1:1.1:n1z.1:7ol.1:5bh.1:kk.4:w6d.4:ax6.1:8s.1:vs.1:163.a:4k.1:1sc.1:eu3.1:2im',
+    '1l:w4o.1:li8.1:58c.1:56.1:58.1:3.2:b.1:l.1:1bk.1:39.3:1n.1:3b.1:7g.1:2e.1:3b.1:3o.1:1y.1:e.1:4t.1:np.1:12.1:4m.1:3zq.1:cb.1:gu.1:17a.1:240.1:h4.1:ak.1:im.1:17w.1:x0.1:27i.1:ed.1:11h.1:32a.1:83.1:8n.1:rl.1:1cq.1:2t8.1:8c.1:4zi.1:40j.1:33.1e:u7.h:2ac.1:2ii.1:5f0.1:b0e.1:6s1.1:71t.1:16u.1:6aa.1:428.a:1ye.1:fs.1:2l.1:28e.1:4te.1:61d.1:7zv.1:32.4:5p.1:x2.1:1z6.1:i1c.1:90.1:7l.1:79.1:42r.1:2hb.1:5g6.1:2ug.1:13c.1:7dr.1:1f3.1:1sf.1:1tc.1:5hd.1:ace.1:64m.1:2kr.1:8hh.1:6z6.1:344.1:11t.1:p7.1:52o.1:mc.1:4p.1:qr.1:60t.1:w5.4:1.1:1oi.1:1.1:2kx.1:6po.1:55.1:ip.1:zj.1:vj.3:98.1:gb.1:19x.1:1qh.1:1m1.1:cc.1:8c.7:3m.1:vo.1:1.2:1.f:1.2:1.1:1.2:3sz.2:1.1:1.1:1.1:1.1:1.2:1.1:lg.1:sl0.1:36u.1:9su.1:5c8.1:2xg.1:1.1:39b.1:1g8.1:2ns.1:6hv.1:2rv.3:hu.1:3qqm.1:11a5.1:21l.1:13t.7:cl.1:8l.1:6vs.1:6qh.1:apv.1:63',
+    '1l:hu.1:48t.1:16c.1:9ob.1:32.2:a.1:d0y.1:2fl.1:k.1:2w.1:5b.1:1g.1:2g.1:kp.1:4b.1:28.1:4s.1:1q.1:s.1:44.1:61.1:3f.1:59.1:3f.1:15c.1:dz.1:5ap.1:3bo.1:ll.1:72.1:99.1:nn.1:tt.1:nq.1:1zm.1:7o3.1:mu.1:ua.1:qn.1:2cc.1:n6.1:2w5.1:474.1:ly.1:b8.1:6zh.1:3lh.1x:69e.1:50e.1:ahb.1:1t8.1:3ss.1:20.2:fs.1:4t9.1:8da.1:xt1.1:8ut.1:6g4.1:93z.1:6wh.1:1es.1:1jg.1:ct1.1:cz.1:c.2:2d1.1:l0.6:1f.1:5i.1:d.1:11.1:36.1:51.1:bw.1:1j5.1:vd.1:a19.1:2ww.1:1gv.1:14w.1:6nb.1:9pi.1:6sz.1:gpt.1:19k.1:8b.1:xn.1:an.1:26w.1:v3n.1:8op.1:2ar.1:45o.1:eb.1:2rb.1:26y.1:3zf.1:w3.1:3yf.1:32h.1:3g1.2:1.1:1qu.1:1pd.1:i5x.2:cx.3:1.1:122.1:w8.1:2ua.1:2ge.1:1au.1:3d.1:al.1:1j.1:1.1:k.7:1.d:1.4:1.2:1.1:5x7.1:1.1:ka4.1:1gd.1:1.3:1.2:1.1:2cp.1:1.1:1.1:jho.1:3sd.1:z66.1:1aek.1:sky.1:6fd.1:wjz.1:pn.1:1.4:2q6.1:oro.1:6jb.1:4dm.7:9i7.1:91s.1:7zw.1:ufa.1:cqc',
+    '1m:1o.1:1nc.1:4ie.1:p9.1:da.1:2g.1:l.1:vm.1:r.1:v.1:kw.1:3u.1:39.1:ac.1:46.1:6ta.1:u6.2:1f.1:s.1:1t1.1:72.1:6z.1:bu.1:9gx.1:z9.1:yb.1:1n2.1:ic.1:sc.1:kk.1:bb7.1:272.1:127.1:nf.1:34m.1:3x4.1:18u.1:2ai.1:1w1.1:3do.1:c7w.1:274.1:dkg.1:2wp.1:58.1:20.1x:12e.1:ad8.1:1.1:47m.1:1le.1:26i.1:a3e.1:48x.1:3kz.1:26c.1:1cr.1:18e.1:2o9.1:3js.1:3rd.1:5uw.1:n3.1:6f6.1:xu.1:15.2:2sg.9:5t.1:140.1:1sf.1:2u.1:m.5:7h.1:3hd.1:7i.1:3fo.1:7eq.1:qd.1:of.1:1dc.1:2aj.2:1.1:1.1:583.1:71g.1:3je.1:13e.1:l.1:1.1:em1.1:1oxc.1:m9.1:14i.4:7u.1:qq.1:yw.1:gd.2:1g.1:8c.1:l3.1:8e.1:dd.1:1.1:gl.1:137.1:a.1:co.1:85.1:1.1:2w.1:l.o:1.1:1.2:1.1:1k8.1:1.1:1.1:u2.1:1.1:1.1:1q4.1:208.1:5eb.1:31a.1:9qb.1:2s4.1:7jz.1:8av.1:65e.1:4j6.1:b1s.1:1.6:lgd.1:7jv.1:x93.1:12uv.3:1cb.1:3vf.1:1jq.1:gb1.1:12iv.1:86h.1:9y5.1:5nil.1:mpi',
+    '1n:1oc.1:4w7.1:1q6o.1:lov.1:mr.2:k7.1:j.1:14z.1:ku.1:9i.1:68.2:b.1:ld.2:10.1:fm.1:9j.1:d2.1:3x.1:bw.1:z2.1:oc.1:bl.1:9d.1:72.1:qx.1:46b.1:90.1:14e.1:x7.1:ty.1:15x.1:3wf.1:1br.1:4l7.1:16b.1:3oz.1:2wp.1:1b4.1:199.1:mb.1:2jy.1:e4.1y:n5x.1:9aw.1:2u8.1:iu.1:2eg.1:5z1.2:14e.1:a1.1:15z.1:2md.1:sz.1:394.1:6g.1:1a.1:1pn.1:6z.1:2ib.e:1.8:pk.1:27j.1:s.1:2rl.1:8qo.1:bd.1:e6.2:v7.1:gl.1:8l.1:1ty.1:10p.1:ec.1:rv.1:cgs.1:gs9.1:3vw.1:720.1:1.7:c3.1:1.1:af.1:gl.1:2by.1:2i.1:4g.1:46.1:i2.1:kx.1:e4.1:no7.1:1uk.1:cn5.1:69f.1:cvm.1:aa0.1:26.1:4b.1:af.l:1.2:1.1:1.1:1.1:1.1:32.1:rl0.1:1.1:nq.1:1mlv.1:2dv.1:1vd.1:mx.1:b5u.1:17qy.1:6y0.1:1ec.1:20r.1:cqp.1:zr.1:3x2.7:3oa.1:4wj.1:1ee.1:1.2:47x.1:d31.1:i14.1:f0u.1:2vyk.1:cit.1:hh2.1:9d4.1:xs',
+    '1p:o2u.1:15jj.1:5l4.1:41.1:71.1:f.1:o9l.1:eu1.1:6x.1:2l.1:3.1:23.1:t.1:3w.1:e7.2:b4.1:25x.1:u.1:2v.1:118.1:2r0.1:9ch.1:ix.1:103.1:bk.1:c7.1:lq.1:ii.1:ce.1:q0.1:1dr.1:6zv.1:1g0.1:dw6.1:2bo.1:xd.1:1w7.1:1d4.1:pk.1:wr.1:l.1p:1.8:1fb.1:s0h.1:5h3.1:5er.1:il.1:1.3:2c.2:n9.1:vn.3:ep.1:3db.1:61.1:hi.1:u7.1:270.1:pr.o:vou.1:gbg.1:1.1:nm.2:68.2:8v.1:3l3.1:1sxp.1:8a.1:16g.1:ys.1:530.1:pa.1:1d6.1:1.1:4h.3:1.1:dw.1:1.1:1.1:b6.2:4q.1:85.1:1.1:1.1:1.1:1.1:1.1:1c1.1:1n6.1:4c.1:2gr.1:2y3.1:pre.1:vu.1:1jq.1:6y.3:1.k:1.2:1.1:1.2:1.1:1.1:1.1:14k.1:1.1:1.2:1.1:kj.1:7df.1:73z.1:48j.1:9nv.1:h2.1:vw.1:5wb.1:66r.6:4ja.3:322.1:yvd.1:982.1:57c.1:4jb.1:w4.1:zo.1:1.3:1',
+    '1q:rh6.1:4ae.1:7gc.1:2ty.2:1h.1:1q6.1:5u9.1:70.1:5c.1:4u.1:156.1:9h.1:cf.1:fg.1:8h.1:bj.1:9n.1:12h.1:g1.1:ghk.1:niu.1:1c8.1:1eu.1:2h9.1:10x.1:cl.1:2us.1:ii.1:g0.1:ek.1:2cm.1:1ji.1:215.1:1tb.1:ms.1:231.1:1yz.1:2ll.f:s.1b:9j.1:1xg.7:29o.1:uc.1:1.1:4bd.1:l3.1:ck.3:bi.1:hm.1:ax.3:1g9.2:b1.5:il.1:4x.1:5u6.1:byt.1:2l8.1:2z9.5:63x.1:kq.1:sq.1:xn.b:k6a.1:kty.1:bsu.2:1.5:1.1:bs7.1:2y2.1:r8.1:i6.1:10l.1:1.1:1j2.1:hr6.2:k.1:ur.5:1iq.2:2s.1:c4.1:1.1:3s.1:2s.1:74.1:1.1:3t.1:m.1:191.1:1qd.1:86r.1:6wa.1:tnb.1:3z6.1:o4.1:6t.3:1.1:1.3:1.7:1.1:1.4:1.2:1.2:1.1:1.1:1.1:1.1:1.1:1na.1:2z.1:1.1:1.1:10v.1:qp4.1:38g.1:8ed.1:1.1:icq.1:1vf.1:8vt.1:5yc.1:1lyn.1:ham.1:75l.1:1ay.7:7e.1:4fo.1:a9r.1:23m.1:gr',
+    '1r:2jg.2:5r.1:fs.1:3k.1:1y.1:2zk.1:tz.2:9f.1:gvx.1:10.1:j.1:4q.1:283.1:19.1:tk.1:6j.1:c8.1:4d5.1:bp.1:g0.1:q7.1:e0.1:p7.1:9w.1:cx.1:ze.1:4b.1:av.1:bw.1:1j8.1:vh.1:p6.1:fd.1:194.20:jm.1:1.1:6ok.1:7k.1:ak.1:11x.2:13u.8:1me.1:eq.4:7b.2:i3.1:cw.3:10y.4:4b.5:2j.2:h8.2:ter.1:8qc.1:a86.1:4x5.1:zt.1:ktf.1:zmi.1:fa.1:sl.1:bc.6:3hw.1:1jl.1:3q6.1:2ht.1:6un.1:15r.1:1.1:m7.1:fu.1:1.1:44c.1:8o.1:cz.4:1.1:xw.1:47.2:qt.1:30o.1:1.1:1.2:e1.1:1ob.1:1ci.1:7ef.1:trl.1:1tga.1:cw5.1:2h4.1:1qq.2:1.6:1.5:1.2:8c.1:1.1:1.1:1.1:1.1:nz.1:1.1:1.1:1.2:1.1:1.1:470.1:x1.1:hm.1:10b.1:1.1:1.1:1.1:n8.1:2lt.1:673.1:1.1:z4.1:lz.1:rar.1:4dr.1:9jl.1:2jm0.1:50pp.9:7v6.1:47x',
+    '1r:6h.1:ce.3:jy.1:8j.1:jp.1:9l.1:24.1:gw.1:40.2:h.1:20.1:2n.1:19.1:1m.1:8y.1:ft.1:bpo.1:1vs.1:2l8.1:1g9.1:1jh.1:217.1:3va.1:1je.1:28i.1:3ic.1:3qk.1:1dj.1:18m.1:1ud.1:rb.1:c4.1:9kk.20:6dg.1:jr.1:1.1:fw.1:9s.f:1y.a:3u.1:176.8:22.2:4sy.1:2tpf.1:274.2:41.1:s4.1:10.2:b4.2:2d.1:159.3:1.2:60.1:123q.1:5p0.1:oi.1:1vp.1:18o.1:1.1:8a.1:1.1:1jl.1:ge.1:4gf.4:hs.1:32.1:2k.3:1em.1:5v1.1:ca.1:1.1:3ta.1:dj1.1:607.1:9u5.1:86g.1:ieb.1:jp0.1:44x.1:65n.1:4f.2:1e.7:1.6:1.1:1.1:1.1:1.1:1.2:1.1:rs.1:1.1:wc.1:1lw6.1:yp.1:1kqw.1:1.1:20o.1:qg.1:1.1:5df.1:84b.1:82f.1:2811.1:6f0.1:lk.1:6bo.1:zi.1:17u.1:1tko.1:vq.1:1.8:48.1:4y',
+    '1v:s.2:5qb.1:55.1:6n.1:b6.1:1q.1:7.1:dk.1:1.3:1fd.1:9g.1:eg4.1:1du.1:fo.1:tdg.1:1sn.1:sj.1:5c.1:em.1:8t8.1:cp.4:1a.1:21.1:s.1:21n.1:2mq.1:q7.1v:gf.3:5k.1:fb.1:1d.1:1.2:2s.6:do.f:59.1:7o.3:m.2:2r.3:s.1:1y.5:3gx.1:5wn.1:449.2:em.1:sg.5:zn.7:1uk.1:bzk.2:gx.1:1e6.1:bjv.1:1.1:cn.1:1lo.1:b4.2:rl.1:16.1:49c.6:n7.1:uq.2:ak.1:1n4.1:84f.1:2o8.1:524.1:3jb.1:hhx.1:9vv.1:gpy.1:9n9.1:2uc.1:140.1:1.1:2j.2:1.1:12.2:1.1:m8.1:1.1:hc.1:wz.2:1.1:1.1:1.2:1.1:1.2:1.1:1.1:1.1:16x.1:6cc.1:4y5.1:1o9e.1:1a9.1:1.1:1.1:12k.1:4mv.1:1t6.1:bn3.1:1dv.1:1pb.1:1zw.1:2ea.1:124.1:td7.1:3qx.1:sje.1:1dy',
+    '1u:27.2:bm.1:2e.1:x.1:1t.1:a7.1:79n.1:211.2:13.3:270.1:a9.1:5s.1:xs.1:8o.1:8u.d:9fp.1:f76.1:3jx.1r:sq.1:7c7.1:410.1:ed.1:1lp.1:g.1:h7.1:ra.1:26.12:5k.2:410.3:ec.1:28.2:3ij.9:23g.1:5r.1:2s.1:f9.2:19y.1:1.1:ii.1:r9.1:hl.1:1.1:1.1:1.1:1.1:1.2:jc.3:42.1:8k.1:3n.1:4d.1:2c1.1:2n1.1:93b.3:4g0.1:2sk.1:2tr.1:jna.1:4a4o.1:fq5.1:goy.1:32c.1:1r0.1:cd.1:1qu.1:1.1:1.2:1.1:1.1:2s.5:54.1:74.1:i.1:1.1:1.1:1.3:1.1:1.1:2d7.1:h.1:10b.1:1.1:1.1:t5.1:1.1:1.1:qtc.1:anc.1:1.1:j3p.1:jo.1:311.1:mu.1:rh.1:4lz.1:9sn.8:bi',
+    '1t:4s.1:3a.1:3a.1:n.1:1rq.1:46r.1:5h.1:75.1:11.1:f7.1:9j.1:1n.1:11.1:1hz.1:6h.1:506.1:bl.1:37a.f:eji.1:1a3.1:3s9.1q:14.1:1e.2:37e.2:1lg.1:1k.4:cs.8:c7.3:do.b:1a.1:2a6.d:1e.3:3jk.1:4bq.2:uq.1:3c.1:64.6:226.3:3s.4:3f.1:1tx.2:1.1:9q.1:1.1:71.2:2pu.1:jo.2:1.1:10g.1:1.5:138.1:1r2.1:cnz.1:sq.3:d0.1:1up.1:4lb.1:4bl.1:3zi.1:964.1:q2t.1:ad0.1:69p.1:4hj.1:1jj.1:2li.1:2zp.1:f7k.1:33.1:7a.1:1ot.1:12w.1:7k.1:75.1:1z.1:r4.1:1rj.1:22a.1:45.2:1.1:104.1:1.1:1.1:z8.1:ue.1:1.1:lk.1:3lj.2:58.1:4by.1:21k.1:4ae.1:6wi.1:93o.1:49n.1:1.1:1.1:va.1:13h.1:ku.1:8bi.m:1',
+    '1w:56.2:pe.1:a3.1:56.1:3e.1:zt.1:17.1:2n.1:2v.1:2f5.1:co.1:lm.1:9m5.1:234.f:147.1:5l8.1:l4f.2:oz.1:3t.1u:bp.c:96.1:6w.7:1u.4:by.j:594.1:3ce.1:a9.1:6v.2:7e.1:90.6:3db.1:er.1:2k.4:ld.1:ekg.1:2r.3:c5.1:1.1:db.1:1.2:3m.1:f7.1:1.2:l1.1:1.1:1.1:5l.1:1tr.1:4hp.2:is.1:5u.2:816.1:7an.1:nsz.1:2wp.1:4uj.1:bec.1:5ba.1:18s8.1:3gy.1:5lm.1:b3d.1:4p3.1:7sa.1:2ta.1:6e1.1:7vp.1:5js.1:2o9.1:827.1:1v3.1:re.1:2dc.1:57.1:2q.2:1.1:1.1:8s0.1:3k7.1:1.1:1.1:2dq.1:2pr.1:91g.1:15o.1:e.1:j0.1:c7.1:1e4.1:7b2.1:1.1:1.2:1.1:1m6.1:1od.1:bng.8:6hf',
+    '1v:m.1:dt.2:nk.1:4wa.1:7j.1:1j.1:bl.1:3n.1:9yh.1:q7.1:5j2.1:xpf.1:13e.1:rx.1:5kz.g:92.1:mrt.1:9.1:26.1:1rb.1:u.1s:1v.q:c5.h:it.2:49b.2:2s.3:9f.5:f.1:mp.1:k6.1:4r.4:5l9.1:2q.1:5h6.4:147d.1:232.1:1.3:d5.1:4j.1:ef.1:97.1:3m.2:8b.2:fvv.1:301.2:ov.1:17u.1:3i0.1:3dv.1:7rg.1:1y5.1:1j3.1:613.1:4pd.1:420.1:avk.1:5dt.1:fiu.1:7d2.1:mxs.1:ait.1:57r.1:8g3.1:7w5.1:1bj.1:1tj.1:1.1:242.1:11z.3:p9.1:1.1:1.1:118.1:1.1:uri.1:14k.1:1.3:1.1:2w.1:1.1:50y.1:1.1:1.1:2c9.1:lz.1:1.1:1.1:1.1:1.1:3x5.2:1w0v',
+    '1v:1j.1:c.1:1pp.3:70k.1:4a.1:4y.1:4kt.1:h6.1:t.1:2u.1:3g.1:sa.1:eq.1:r.g:d1.1:2i.3:p.1:1.1:c.1:8.2d:6r.4:19.9:hm.9:3ck.6:1jm.1:hc3.4:f.1:f5.2:wgr.1:3a5.4:1m.1:4g.2:8ag.1:zs.1:23k.b:2kpj.1:199.1:fv.1:3g.1:ex.1:35a.1:3z0.1:2h3.1:37o.1:222.1:368.1:3du.1:1wp.1:3eq.1:3bt.1:1x8.1:1ej.1:3yk.1:621.1:26k.1:2g6.1:f9j.1:axz.1:57p.1:3gw.1:2nr.1:32n.1:4j.3:db.1:1.1:1.1:1.1:3s4.1:378.1:1ow.1:1.1:1.1:1.1:1.1:1.1:is.1:2bc.1:i8.1:ps.1:5q8.1:ka.1:1.1:142.1:52u.1:vsw.2:b5c.1:4hc.2:h.1:cg.1:9k',
+    '1x:2j.1:nz.3:3k2.1:ek.1:9r.1:15j.1:1i7.1:4d.1:ux.1:2ic.1:3g.1:i.f:t8y.1:26t.6:21.1:i.1n:ku.1i:7l.4:cn.5:9u.6:kf.3:wu.1:2qd.1:9qw.a:6a.1:13h.1:2cn.1:ym.1:yxe.1:1mj.1:1al.1:7np.1:2sy.1:g17.1:2q0.1:auv.1:2cd.1:1md.1:30.1:n7.1:10a.1:cyz.1:e4y.1:cod.1:7fj.1:5jd.1:2liv.1:7cy.1:2fc.1:1o.1:cd.4:1.1:1.1:1.1:1.1:1.1:2ky.1:4gk.1:1.1:p6.1:1.1:1.1:11v.1:1gw.1:3gb.1:5eo.1:4zt8.1:3wl.1:10g.1:1n5l.1:1.2:fo.1:3rn.1:2pd',
+    'k:71.1e:zl.4:13h.1:20.1:dx.1:4yj.1:165.1:877.1:m9.1:23s.1:5sz.d:7l.1:3ew.1:4c6.1:23s.1:5r7.1:4qp.1:12r.3:1.1:2.1:1.1:2.1l:n.3:ak.9:u.9:kb.q:1e.8:bm.2:22.g:1dz.1:g2.1:js.9:9y.1:1fy.1:f3v.1:4mb.1:73h.1:fbh.1:2df.1:h2z.1:5u5.1:2qn.1:25p.1:1xs.1:n9.1:1by.1:739.1:6n.1:58a.1:2ii.1:6xo.1:4yg.1:2s11.1:flf.1:501.1:w4h.1:18f.1:72.2:239.1:1lt.1:10e.2:1.1:1.1:1.1:1.1:dq.1:93.1:4x.1:bf.1:ho.1:6of.1:fq.1:2sz.1:1td.1:myw.1:ku1.1:4b8r.1:3sl.1:107.4:iaf.1:ug',
+    'k:a7.1:2al.1:582.1:12.1f:1dl.1:3w0.1:i4.1:93f.1:dy2.1:2es.1:1zn.1:2jp.1:uu.7:i.1:1n2.1:sv.1:5f.1:52x.4:5n.2:2p.1:238.1:2dy.1:3uu.1:1av.1:1.4:11.2h:j.j:33.3:wid.1:4pf.1:6g.s:1ka.1:6ry.1:4qz.1:tue.1:1kh.1:2iw.1:8lm.1:41r.1:30c.1:2os.1:jl6.1:2ei.1:ek1.1:y3.1:4j1.1:y0.1:15.1:2h0.1:15o.1:1g7.4:1yi.3:2oi.1:9pm.4:h9.1:1.1:3r.1:gh.1:qt.1:dk8.1:2aj.1:1lw.1:s2.1:2sa.1:wkl.1:331.1:1',
+    'n:137.1:4b.1e:2vj.1:16r.1:11dy.1:6l5.1:bl8.1:h6s.1:6b6.1:7me.1:7kn.1:co.6:x4.1:9or.1:1hc.1:1nd.1:lg.9:2kw.1:8b2.1:8p4.1:1b3.1:5.1k:k3.4:6o.1:1b.e:1.14:r4.1:mq.3:6p.p:1po.1:j1.1:7mo.1:14u.1:7up.1:2n8.1:782.1:7ak.1:4ep.1:189.1:62.1:16k.1:ek.1:1jp.1:lr.1:d7r.1:22a.6:1on.2:2qt.1:1wr.1:h0.1:18h.2:wf.1:et.1:7u.1:1.1:1.1:au.1:25e.1:7b8.1:1dh.3:8b4.b:21',
+    'o:x6.1:60.1d:4s.1:2k0.1:50l.1:85d.1:9qy.1:4zu.1:6waw.1:1g98.1:8pc.1:bnp.1:1o.5:2bs.1:5v.1:gd.7:ey.1:1.3:1.4:53.1:6cu.1:1rt.1:g29.1:ud.1j:37.g:1.t:6z.7:3zz.4:44.1:85.e:d.g:3bt5.1:1rcb.1:4x9.1:b8t.1:4j2.1:7be.1:27x.1:4oi.1:70.1:7o.1:ah1.1:q0.1:4c2.1:1pv.1:4o.9:17d.1:7w0.1:7c.1:n.1:15o.1:bl.1:3r.1:d6.1:af.1:1.1:v9.3:1.1:i1.1:54d',
+    '23:a.1:142.1:w7.1:7d.1:1qs.1:d63.1:761.1:b08.1:5nl.1:3fk.1:4lu.1:2xo.1:1eh.1:1j9.1:cd.1:1t.1:1qs.a:a7.1:2dk.1:58h.2:10z.1:1v5.1:ohc.1:35n.1:50q.1:xq2.1:3hi.1:1j5.1:cdi.1:36f.1:8o.1:94.1:1.1b:53q.4:1o.8:14.5:38.1:1.5:1.5:n.i:38.1:8a.2:bj.4:67.5:4m8.u:ja.1:1aga.1:1y0.1:1cr.1:69y.1:323.1:5r3.1:8ub.2:dz.1:139.1:4fq.1:1gn.b:1nl.1:14x.1:1.1:21k.1:1yl.1:kx.1:1.1:au.1:d1.1:z.1:2ay.1:1.3:gjs.1:i2.a:22w.1:1dc.1:53',
+    '25:tk.1:14j.1:uq.1:3yw.1:1pr.1:1bg.1:52y.1:xq.1:23b.1:1sd.1:6b6.1:1bh.2:9u.1:ml.1:2c.a:wi.1:9g5.5:4i.4:u.1:n8.1:b.1:e2.1:x.1:aw.1:a3.10:40.c:4n.l:1.1:om.b:3q.2:6m.c:1mv.9:i8.1:1.1:1zu.5:1.1:1.2:1.2:19b.j:2fq.1:20c.1:913.1:6i4.1:43b.1:15rk.1:6h1.1:4pw.1:3bk.1:2ko.1:bfk.c:22k.1:2vd.1:dj.1:1.1:1a0.1:pn.1:e6.1:5fb.1:kp.1:1m0.1:1.1:8m.1:1.d:1lb.1:5fh.1:1n',
+    '27:24.1:6d1.1:1ro.1:16l.1:2rs.1:30b.1:ym.1:7r4.1:5ls.1:ui.1:9n.1:ty.1:5n.2:35.1:16.n:a.1:2m1.11:mi.2:73.6:1cw.1:yw.1:57.1:fe.1:b.1:b7.2:3i.2:go.4:bd.2:1.1:o6.8:yj.f:1.b:i1.3:3c.6:1kw.1:ef.1:53.3:1.1:1.1:1.2:1.1:31.1:1.k:192.1:ey0.1:5sp.1:1vv.1:474.1:12h.1:23s.1:iap.1:933.1:3ge.c:1tv.1:2tw.1:1091.1:68u.1:tp.1:yd.1:202.1:s2.1:2bf.1:25z.1:198.1:1.1:1.1:2cp.1:5t1.4:1.7:me.1:bxg.1:4i7.1:4r',
+    '2a:br.1:j9.1:21.2:b3.1:2e1.1:3g6.1:1vm.1:p0.1:5o7.1:4oy.1:1nu.1:j6.1:32.1:1d.m:m0.11:5.1:d5.7:r1.1:g1.2:bm.1:c5.2:1.1:1.2:1.3:1.1:1x.1:29.3:u.2:2j.1:2f.2:2h.1:3s.g:b.a:ohu.1:2v.3:383.1:6v.1:4xf.1:9h.3:1.1:1ho.1:ft3.1:4o.2:1.1:w.1:1.1:1.1:1.1:1.l:5p9.1:5kq.1:btp.1:7vl.1:3m3.1:6a5.1:1zv.1:32s.i:209.1:f0.1:1cc.1:y3.1:15b.1:hf.1:224.1:w8.1:4l.1:1.1:yn.1:1.a:185.1:yxf.1:2nn.o:de',
+    '2f:34l.1:aez.1:rh2.1:33s.1:1ll.1:8se.1:16o.1:4c.1:1r.1:bw.m:11e.1:1lz.10:72.1:w3.6:qnb.1:7dl.1:4zr.4:ls.2:1.3:18.1:1.1:w7.1:1x.2:66.1:cd.1:d6.1:5d.1:23.1:39.2:10d.1:7h.2:48.5:4z.2:50.5:32.4:2q.8:1y7.1:37r.2:2t3.3:ub.1:lp.3:4rn.1:oo.1:1ho.1:1.1:bi.1:1.1:1.1:1zp.p:24w.1:7ug.1:2lk.1:3s6.1:5qx.1:574.j:120.1:pu.1:68p.1:14k.1:2fq.1:uc.1:dd.1:hp.1:17.1:1.1:d6.1:1.b:1yxs.1:2c7k.1:2a4.1:4q.1:1f.l:46',
+    '2h:76.1:ghs.1:4qm.1:1ub.1:2x3.1:6l.1:4x.1:4.2:o.k:l1.1:3v.1:ub.17:4lt.1:ud.1:ta.1:p1.3:7g.1:1m.1:dk.1:8i.1:14n.1:2q.1:d4.1:6a.1:qy.1:i8.1:1.1:1.2:64u.1:du.1:ap.1:58o.1:2l.1:27a.1:1wb.1:5r.1:bx.2:el.1:1.1:39.2:48.2:6p.1:5d.1:l1.2:1cl.3:1y6.1:32.4:35z.1:7l.1:3us.1:3ew.1:b1.1:5i.2:6v.2:1nv.2:35.1:5x.1:19.1:75u.1:kh.1:1.s:324.1:5wf.1:3oq.1:89s.1:3mv.1:5np.1:1854.j:32u.1:1jyp.1:1k5.1:1ah.1:28j.1:6s.1:6y.1:a2.1:1.1:vq.1:2vw.b:2sf.1:cw3.1:38k.1:cgv.1:km.k:1f6',
+    '2k:1xi.1:aev.1:2cb.1:97.1:gg.2:g7.b:hn.1:cb.1:12l.7:5d.19:1oh.1:ey.1:qm.1:63.1:6i.2:7g.1:3m.1:bx.1:a70.1:1.1:u1.1:9e.1:ko.1:18i.1:95e.1:n5.1:9z.1:78.2:39.1:24d.1:lb.1:2yx.1:3wy.1:sas.1:rp.1:22d.1:1gc.1:70.1:mj.1:tg.1:96j.2:43.1:7q.3:a.2:7z.1:4d5.4:u0.1:ek.1:7b.1:fh.1:3d.2:2n.3:1g8.2:ox.3:x.1:1.1:1.1:48y.7:k.1:z.1:2d.k:45n.1:3kt.1:aj1.1:17of.1:6nr.1:88l.1:48r.i:1c5.1:1rh.1:19r.1:1ls.1:1nz.1:el.1:qg.1:1.1:5k.1:27.1:14u.1:26q.a:23.1:mc.1:2km.1:lj.1:38o.1:2kb.1:w8',
+    '2l:2wg.1:1c7.1:la.a:40h.1:18.1:1wg.1:1.1:1gz.1:1i8.1:1.5:hl.3:4q.19:38z.1:45.1:23.1:n7.1:9u.1:1p.1:c4.1:4s.1:9v.1:2s.1:148.1:2s1.1:d9.1:b4.1:a9.1:yc.1:5a.2:10q.1:ql.1:ea.1:hn.1:eo.1:9lx.1:ox.1:2ho.1:1e3.1:1xz.1:fh.1:9rq.1:fc.1:4x.1:11.1:52.1:55.2:81.5:xc.1:21j.1:5k.1:34.1:rf.2:62.1:1.2:1np.3:1or.1:93.1:1rt.1:5d.1:dq.1:rg.1:4z9.5:1x.1:p2.1:1p.1:51.o:951.1:bzy.1:9bb.1:a9m.1:88l.d:x7.7:dj.3:97.1:85.1:css.1:15c.1:ya.1:167.1:3le.1:14s.a:4n.1:5l.1:76.1:5fb.1:1yv.1:568.1:4k9.11:1.4:1.3:4',
+    '2m:14d.1:1sk.1:gj.8:98x.1:ikg.1:3mg.1:1iv.1:jaz.1:q2.1:77e.1:dqs.1:q8b.1:15kp.1:1.1:84e.1:1jc.1:b4.1:3pr.1b:6n.1:qq.1:1a1.1:3n.1:2m.1:zm.1:2y.2:ax.1:13.1:gr.1:3j.1:lp.1:73.1:fo.1:jr.1:ts.1:6o.1:4w.1:9r.1:xh.1:ap.1:chj.1:16q.1:2lq.1:np.1:2q5.1:150.1:430.1:2vi.1:x6.1:3s.6:2u.8:3o.4:bd.3:ta.1:ar.1:8r.1:35.3:1.2:1vb.2:9f.3:1m.m:2z.3:18k.1:an6.1:fs7.1:b5u.1:7xr.j:1.1:fw.4:1bp.1:7fe.1:8kd.1:yqx.1:4ka.1:18n.a:n.1:ki.2:bd.1:j3c.1:qzb.1:3sf.1:gf.1:n.14:2.3:5.1:3',
+    '2m:b.1:8xm.1:224.1:fq.1:o.1:45.1:7vj.1:27.1:17.1:29.1:5m2.1:234.1:163.1:1.1:fq.1:10n.1:3hh.1:189.1:od.1:zv.1:bj.1:15u.1:366.1:eb.1d:suf.1:8j.1:8h.1:dp.1:3w.1:1.1:dv.1:at.1:1rq.1:1.1:1.1:8d.1:1.1:3c9.1:h6.1:3ij.1:1d5.1:27x.1:8t.1:8a.1:43s.1:64w.1:7ti.1:rz.1:w7.1:dd.1:3d6.1:4dg.1:em.1:eh.1:9g.1:2t.1:wz.9:2bc.1:1.1:25.2:18o.1:1.3:lg.2:6d.1:lv5.1:oy.1:8k.1:23z.1:14u.1:5k.1:3or.1:t4.5:3u.q:cw3.1:7ua.1:bgc.1:m2.1:2p9.i:sd.1:1vq.1:3a.4:1.1:2rn.1:fy.b:3z.1:2ji.3:1.1:3v5.1:60d.1:1lx.1:2f6.1:jy.c:22.2:2.t:5.1:9',
+    '2o:2y.1:266.1:dk.1:1cy.1:5sr.1:2p.1:7d.1:12h.1:4bo.1:ou.1:263.1:tl.1:599.1:56p.1:1.1:1.1:wj.2:1.1:1n7.1:2lw.1:66a.1:1.1:1.1:7.1a:6r2.1:1a3.1:uu.1:1oa.1:jd.1:38.1:7n.1:5b.1:gk.1:3t.1:1.1:g7.1:d4.1:9h.1:5v.1:wq.1:qx.1:2n3.1:9lo.1:1di.1:af.1:1s0.1:1fj.1:ca.1:78.1:wq.1:7h.1:1l.1:9m.1:22.1:1hp.1:d7.3:3a.2:1i.3:11.2:ar.1:aq.2:2x.1:1.1:1.1:1.1:j7.1:au.1:5n.1:mv.1:19s.1:2ek.1:ci.4:1.1:17.2:gp.1:fx.s:ajd.1:hfs.1:446.1:cp.1:z1.1:zy.h:li.1:1sx.1:6y.4:1.1:1.1:f.b:er.1:s.4:c7.1:4a8.1:gak.1:8ri.1:1gy.8:2.3:1.3:1.4:1.5:1.1:1.1:1.1:6.d:4.1:3.1:47.4:4',
+    '2q:19.1:xe.2:j.1:2r.1:1br.1:1bi.1:127.1:98q.1:a7h.1:2s.1:rt.1:1.1:1.1:lw.1:1.1:1.1:1.1:1.2:1.3:3g.1a:4o.1:3bg.1:8w.1:10.1:1u8.1:1dz.1:wg.1:4ry.1:3n.1:sq.1:29p.1:1eq.1:32.1:p1.1:1hm.1:1o3.1:13kv.1:kwl.1:gsg.1:6pk.1:sh.1:2h2.1:1dw.1:7c.1:1.1:3g.1:1sa.1:1w.2:54.2:81.9:ze.1:4t.1:1.4:1.2:6q.1:1cr.1:ub.1:2cc.1:g6.1:4o.9:59.u:2uy.1:2a0.1:1v9.h:2ph.1:uz.1:3ae.h:2r.4:6x.1:1og.1:4cf.1:ol2.1:ihp.1:22r.8:8b.a:1.2:1.1:1.2:1.2:3v.h:1.3:7n',
+    '2u:v.1:cn.1:qku.1:hh.1:1s8.1:mp.1:b5.1:1c.3:2u.9:2as.1:da.1a:3c.1:7si.1:cq.1:b2.1:nz.1:25k.1:435.1:sa.1:22s.1:5b.1:ddo.1:1oe.1:1c6.1:8z3.1:clm.1:2asf.1:3bb.1:8su.1:bcj.1:b6o.1:3cr.1:5h.1:1nj.1:j0.1:9w.2:nl.2:b6.1:7m.1:3p.1:fp.2:co.8:8x.1:1.1:7g.2:1.2:3w.1:9a.1:1gf.1:vc.1:6f.7:1.1:h0.q:4a.6:egz.1:2at.1:sa.i:li.1:3li.1:2fq.1:bti.e:ck.2:1t.2:7n.1:26s.1:437.2:72h.1:azs.1:1l4.8:2.9:1.6:1.3:a.6:3a.1:1.1:1.b:9',
+    '2u:r.1:15w.1:6fm.1:319.1:3wt.1:20m.1:8l.1:1h.3:el.1:1.7:16.2:1n.1:5a.1:202.1:f8.1:22.1:7k.16:75.1:5a.2:x.1:1.1:1cy.1:11j7.1:1rf.1:9s.1:2ha.1:nql.1:da.5:5mc.1:2t5.1:l5w.1:27k.1:vn.1:aat.2:1h.2:g9.1:9p.4:9j.1:91.1:3y.4:3w.1:3l.1:2n.3:1.1:1.5:dw.1:49.1:nc.8:2i.2:3i.p:3f.7:16t.f:29c.1:ie.1:oq.3:ck5.1:88.1:tm.1:2d5.c:1an.1:5jz.2:3x3.1:fe.1:sw.1:iw.3:9v.1:15r.7:1.l:1.4:6.5:1.1:2p.5:8.1:i',
+    '2u:24.1:2ns.1:ggs.1:1why.1:39r.1:bu.1:s.2:6o.2:1.6:8a.7:13.2:wr.18:r.1:du.1:1p4.4:6t.1:2va.8:21s.1:ahh.1:4ta.1:grn.1:94.1:16i.1:no.1:1z4.1:dl.1:tv.2:4n.1:5dw.1:65.2:mm.1:9d.6:b8.1:3y.1:b8.1:3h0.1:5k.1:1y.3:19.2:6v.5:5t.1:l.1:fe.1:2i.1:k.q:u7.m:1.1:9r.1:f5.1:e3.2:2v1.1:6u9.1:4a.1:zj.4:1.1:1.5:1re.1:1t9.1:jd.2:2d5.1:he.1:dt.7:1.16:7',
+    'k:2.2a:1us.1:p9s.1:uz.1:am.1:wr.6:21.2:1.6:7.5:1.2:d.1:r.1o:1bw.1:5s.1:1ws.1:ar2.1:4s.1:43.2:3p.1:7g.1:in.1:aj.1:wo.1:81.3:4z.6:6t.1:fg.1:jy.1:tf.1:38.1:1.1:5m.4:9j.2:a1.1:cx.1:11x.2:7f.2:7e.p:m.1:1h.n:1.1:1.1:mhq.1:1er.1:ca.1:16s2.1:11p.1:32l.3:1.1:1.1:1.5:164.2:1.1:1.1:r3.8:1.1:1.5:1.n:1.i:i',
+    'm:j.27:bo.1:fn.1:35v.1:491.1:1.1:2d.1:94.5:1.7:1tc.1y:fn.1:5d.1:1g4.a:jh.1:qj.1:9s.1:dx.3:144.3:7v.1:8g.1:21y.1:34.1:83.3:4a.5:bq.2:du.1:kw8.1:1i.q:g.1:1z.m:1.1:46.1:d0.1:by.1:4r9.1:1.1:81m.1:6h9.1:1y7.1:k.1:1.4:1.2:1r7.1:dv.1:y.1:12.1:1.1:1.1:1.8:1.3:1.19:b',
+    'm:u.27:10m.1:4fj.1:10e.1:1lt.1:24.2:11.1:1d.1:1n.3:1.23:c.2:1g5.1:ao.1:be.3:v.2:6n.2:5t.3:15.2:c5.7:qw.1:l9.1:7d.1:rd.1:st.1:10q.1:5s.4:cq.2:2v.2:26a.t:i.o:1.1:m5.1:ry.1:1.1:1jm.1:17e.1:14v0.1:8zg.4:9g.1:1.1:4eg.1:7k.1:4e.2:1.1:1.5:1.1:1.3:40o.1:1.2:1.1:2s.q:1.i:fg.1:6g',
+    '2r:5e.1:1ll.1:1og.1:1r0.1:op.1:u.o:2m5.1m:et.3:4iz.2:13.1:3s.3:36.3:1f6.6:9v.1:45s.4:30t.1:1ce.1:aq.1:db7.1:2aa.1:3a9.1:2hl.1:a5.1:ze.5:1rm.u:1s.1:t.o:1.2:1.1:1.1:5fk.1:1.1:1.1:1sy.4:15k.1:1.1:1.1:1.1:1.3:1.2:s9.3:1.1:1.1:1.1:142.1:1.3:12b.1:1',
+    '2h:34.1:16.9:2fv.1:1o9.1:co7.1:cg.1:dd.1:1.1:2j.7:48.2:15.3:22.b:p4.1:65.2:fn.1:nk.1k:uc.2:76.1:1m.1:2b.1:20.1:1d.1:6o.5:8x.9:cn.1:22b.1:q2.1:1.2:2gy.1:zk.1:362.1:uk.1:34.1:iv.3:1t9.v:6c.q:1.1:9he.1:1.1:1.1:9d.1:1.5:3ig.1:1.1:1.3:1.1:1.1:1.1:4ds.2:26g.1:1.1:1.1:da.5:1.3:1.1:yv.1:1.1:1.1:es.1:1.1:1.u:2c',
+    '2r:2by.1:3y1.1:2s8.1:1t.c:18.a:gu.1:7b.1:1t.1:8g.1:1t.1:iu.1:38.1:g0l.1:2ah.1:t8.1:5b.1:64.1e:18.4:h.1:1k.1:8b.1:4i.1:mr.1:10.1:5t.2:46.1:b5.b:30h.1:6nr.1:1lj.1:6r.1:154.1:134.1:a1.1:m5m.1:239.1:4g.2:1x.1:v.1l:1.1:1.1:1.1:1.1:1.1:3ql.1:a7.1:1.1:kr.3:1.5:1.1:1.1:8qz.1:1.3:d3.1:1.2:1.1:1.1:1.2:1.2:1.1:1.1:1.1:1.1:1.1:1.1:1.1:28.1:1.1:1',
+    '2r:1hh.1:ks1.1:ws.1:1.5:28.3:v.2:1a.1:4h.1:s.6:6r.2:88.1:ri.2:1mv.3:1l.2:ne.1:9h.1:jc.2:j7.1:7kh.1:1g.1:8s.1:17y.1:mo.1f:85.1:1q.1:52.2:2p.2:7r.1:bb.8:11p.3:2in.1:2fa.1:1nj.1:h6.1:3w5.1:23b.1:5g.2:5z.2:1c.2:9g.1n:1.2:qn.1:1.1:1.1:b4f.1:7f.1:yz.1:hc.1:9l.3:ft.1:id.1:155.1:1.1:w6.1:1.2:46.1:b8.1:zx.1:1.4:1.3:1.1:1.3:1.1:1.1:1.2:1.1:1.1:1.1:1.1:1ir.1:34.6:1m.3:41',
+    '2r:1g1.1:3m7.1:42.2:1.1:1.2:3dk.2:1.1:l.2:3a.1:2l.3:e1.2:34.1:29.1:cwe.1:7y.1:kv.1:69.5:jp.3:l7.4:1ad.1:of.1:rq.1:ni.1:l1.1:2ii.1:1rh.1:nrs.6:u.17:14.3:5b.3:97.1:wu.6:iy.3:aa.3:4tr.1:y8.1:1zt.1:vi.1:2jb.1:8a.1:h6.1:3p3.1:1iz.1:g4.1:jd.1:wv.1p:1.1:3w2.1:x2.1:sr.1:1.7:1.1:1.1:5pj.1:1.1:1.2:ah.1:g6.1:1.2:1i6.4:1.1:1.1:340.1:1.1:1.3:1.1:1.1:c7.1:1.1:1.1:1.1:1.1:1.2:1j.1:52',
+    '2q:wn.1:283.1:eb.1:49.1:1.1:1m.2:1.1:18.3:3w.1:hm.3:51.3:e1.4:3b.4:i0.a:de.1:18i.1:27a.1:ug.1:il.1:144.1:pk.1:235.1:yf.1d:59j.1:13n.1:mn.1:3v.1:21y5.3:df.1:ac.1:tr.1:e3.2:bi.3:fb.3:1jr.1:ad.2:22.1:k3.1:1sq.1:1ox.1:3r.1:hl.1:142.1:6ku.g:dc.1b:1.1:jk.1:1d7.1:em.e:12w.1:138.1:1.1:bw.1:1.c:1.1:1.2:1.1:1.1:1.2:l.2:g.8:9j',
+    '2q:jk.1:42r.1:ge.1:vj.1:1.1:bm.1:2k.1:1.1:1.5:1n.7:3x.1:32.b:1ag.2:1pk.1:bl.1:o3.1:p3.1:ee.1:7bh.1:4m.1:rw.1:va.1:oz.1:264.1:st.1:8av.1c:w8.1:2n6.1:o0.4:1fy.3:9s.1:3qy.3:bz.2:8v.2:14u.1:6v.1:eb.1:1xw.2:ny.1:27.1:1e.2:s8.1:2c2.1s:1.1:1.1:7bv.1:1.d:b2k.1:bc.2:1.1:1.9:az.2:1.4:1.2:1.2:2a.1:1j.1:9c.1:7m.5:58.4:1',
+    '2r:1v.1:6ru.1:br.1:fm.1:x2.1:1.1:1.5:4s.5:1r.7:e.6:o5.2:1ij.1:3l.1:45.3:f5.1:of.1:95.1:7g.1:dk.1:14v.1:1nr.1:19u.1:142.1:2lp.1:f8.1b:ir.2:6q.2:5l.4:22b.3:7xw.1:ge.2:8a.4:3i.1:kd.1:3a.3:1gx.1:1ft.1:2b0.1:1tc.1:oh1.1u:9c.1:3uop.1:trj.1:cz3.1:9zm.1:e7i.1:2fa.1:sp.1:1.1:1.1:1.5:1.j:1.1:1.1:37.2:98.1:2m.1:7i.1:l7.1:b.2:a.6:d0.1:1.k:3.1:2',
+    '2s:1sd.1:1hv.1:1.1:gl.1:3v.3:o5.2:2s.4:24.3:8o.e:c3.1:t6.1:av.1:ps.1:2u.1:3e.1:1f.1:5v.1:kq.1:16y.1:2yx.1:116.1:1w5.1:11y.1:78p.1:asx.k:5.r:54.3:go.8:1gk.7:ap.1:17t.4:19s.1:n7.1:d1.1:hx.1:qn.1v:1.1:49v.1:4nl.1:679.1:rov.1:4s6.1:14jo.1:55i.1:56o.1:1.n:1.1:1.1:1.5:1k.1:8j.v:4.1:3',
+    '7:5.w:c.1p:5xw.1:l8.1:3r.1:d0.2:2gt.2:10.2:87.1:15.2:40.4:2d2.d:mx.1:7j.7:6s.3:pr.1:84.1:165.1:2qp.1:k7w.1:e8h.1c:ln0.2:3k.5:5l.4:kg.5:r.2:es.1:5c.1:2ma.1:14v.1:cl.1:tp.23:1lh.1:2hd.1:3l9.1:3ri.1:9ar.1:2yg.1:g1.1:xm.1:1gz.1:9m.1:lg.1:d8.1:1.1:1.1:1x4.1:fw.1:1.e:m.6:1q.1:7u.8:1q.3:r.1:1w.i:6.1:1t',
+    '8:5.w:i.1p:2k8.1:u2.1:17p.1:es.1:1.2:1.4:5p.1:1zk.1:1q.1:1.2:g5.3:7i.4:1.8:5g.2:1c.1:1d.1:3j.2:5g.2:1i3.1:36.1:tf.1:1dh.1:3op.1:9k4.1e:2yf.2:o6.4:b9.5:as.3:6l.1:5q.1:y.2:th.1:2ac.1:mh.1:46.2:5d.2:bn.27:1.1:1.1:dk.3:n.1:r5.1:82.i:48.4:26t.c:ik.1:i',
+    '2t:4i.1:vb.1:1b2.1:8j.1:1.5:1.1:1l.1:6l.2:jh.3:f7.1:tx.b:24.2:1ij.6:9u.2:yh.1:ef.1:tm.1:7kr.1:156.1f:2h.8:55.3:384.1:3jj.2:18.1:1q.2:r7.1:7j.2:94.1:1hp.3:13l.1:1uz.1:ub.g:3.1d:5.f:1.1:1.1:1.1:26g.1:1.i:16.8:39.b:b.4:6',
+    '8:1.2m:1ok.1:v1.1:1f2.1:68.1:1.4:18.1:ai.2:kk.5:pw.6:w8.6:i0.4:40.1:34.1:5t.1:40.1:159.1:144.1:12h.1:uu.1:28t.1f:99.2:32.4:5v.1:45.4:3u.3:b2x.1:br.1:9l.2:7w.2:c9.1:1m4.1:4j.3:27.2:7r.3:12t.2f:g',
+    '2u:1wfy.1:ic.1:356.1:i9.1:1a.1:8u.1:3.2:l9.9:hk.b:2u.3:6t.2:1a0.1:7o.1:4a.1:el.1:se.1:1xy.1:vji.1g:2wh.1:1.1:253.1:vk.1:cp.9:co.1:1l7.1:7o0.5:38.1:6x.6:u7.3:7m.1:1hd.1:1g2.3:m.1:p5.1b:1.y:1yc.1:67.1:f.1:b.1:10.1:m.1:y.5:1q.10:1',
+    '3:c.4:3z.1:hz.2n:2kl.1:1.1:12w.1:as.1:jl.1:2kg.1:1.5:3k.1:18.2:aj.7:1.5:58.1:94.1:8m.1:11.1:5o.2:a7.1:bb.1:9n.1:ae.1:18q.1:1w1.1j:2x.8:1z.1:3j.1:3o.3:18j.1:3f.1:2g.2:sz.1:5ic.1:9k.1:ui.3:k3.a:s7.1:fk.2f:c.5:d.q:c',
+    '1:7.7:d.1:b1.1:b.2m:291.1:9g.1:1e.1:15.1:zm.1:bx.1:89.2:5b.1:83.2:nf.7:5d.1:ft.4:5q.2:35.1:g2.1:9s.2:84.3:8e.1:w6.1:lm.1:2ez.1:4qk.1:3h.1g:sh.4:8y.5:25.1:x.1:3y.3:5b.1:1hr.2:d.1:5d.1:11.2:fq.1:188.1:kd.1:8h.3:1qg.7:5x.1:4p.1:8k.1:p6.27:n.3:2h.2:c',
+    '6:8.2q:4b.1:18.1:22.1:1k.1:b0.1:30u.1:2t.1:1y.1:1.4:98.1:x.3:86.2:8p.1:605.1:3t.1:9s.2:j8.1:z.1:7i.1:181.1:89.1:jt4.1:7b.2:ql.1:op.1:h6.1:4k.1:wp.1:ds.1:a2.x:6.i:m9.b:go.3:19.1:ko.1:a6z.2:v.4:36.1:5cr.4:2zx.1:f3.6:16z.2:3m.1:9p.27:1w.h:16.m:49',
+    's:4m.26:1.1:68.1:6j8.1:1.1:d5.1:6hg.1:39.2:1f.5:8h.2:1s.2:5z.1:8w.1:16h.1:31.2:dn.1:bs.1:fk4.1:2s1.1:1e1.1:gq.2:a1.1:2o8.1:da.1:i2.1:85.1:221.1r:2s.3:cz.1:8z.1:ct.1:6y.1:1t.1:2p.2:zx.1:1y.1:fk.4:kq.7:rg.1:4o.2:pn.a:1.1r:f.h:b.6:2ec.m:11.c:7r',
+    'u:1go.25:82.1:l6.1:q2.1:1.1:g.1:1s1.1:913.1:hq.1:18.1:c7a.1:7g.5:2w.4:2g.1:bz.1:l9.1:21b.1:ko.1:vv.2:vr.2:tb.1:8x.1:hj.1:zt.1:pd.1:ta.1i:q.1:kt.1:1.2:1.1:g6.5:ck.1:16u.2:7t.3:157.1:dlh.1:2n.4:1gi.9:2s.3:y0.1:s5.21:51.1:15.f:f.2:d.1:g.4:cw.1:22.m:9z.9:ue',
+    '1:1.5:17.11:1.1u:3lh.1:1.1:1.1:k.1:fq.1:2a.1:2c.1:4z.4:3l.5:d0.3:2t.1:c6.1:1pr.1:5dm.1:106.1:1q4.2:nx.1:gl.1:e2.1:26n.1:qp.1:y8.1h:1f.3:1e.5:25.4:h.1:a2.1:s.1:59.1:1fc.1:dl.1:33f.1:1st.4:4l.8:4g.2:cz.1:bze.1:84.1:1u2.21:e.3:u.2:h.j:2f.w:li.1:2c',
+    '5:h.5:6.2w:2v1.1:1h.1:35.3:c.3:v7.3:33.1:17.2:e3.1:8a.1:6l.1:a0.1:256.1:1cg.1:qz.1:fb2.1:o1m.1:4ka.1:mr.1:2l1.1m:4o.1:6p.4:i.1:dv.5:2c.1:1fm.1:98.1:h.1:s.1:1zd.1:4p9.a:6n.1:5q.1:11g.1:2t7.1:b3.9:1c.6:2d.1z:w.c:2ul.1:3l.g:9.6:e',
+    '31:1r7.1:1.3:7d.1:1b.1:1.1:8m.7:3o.1:f1.1:5z9.1:3b.2:1lm.1:18w.1:448.1:32h.1:4d1.1:1qc.1:21u.1:4iy.1:2t6.1:1t1.1:2rr.1:a8k.1j:3c.2:7q.1:1h.5:u.3:1b.1:3a.1:43.1:5ew.1:4i.1:ys.2:59.c:a8.2:78.1:h6.1:pd.7:2ft.2:8k3.1n:82.1:q.1:4g.l:aq.1:12.4:d.2:3m.1:e.1:9x.g:4e.1:20.1:18.1:2w',
+    '4:bd.1:c.f:3q.2l:1.1:66.1:190.1:58.6:47.1:dc.1:6b.1:58.2:ar.1:1dm.1:3ro.1:1p9.1:68p.1:9cn.1:3jq.1:41w.1:1tr.1:5tp.1:3w1.1:4l0.1:bx.1k:54.1:5t.5:32.3:2d.1:7l.2:19e.1:i.3:7u.d:1.1:56.1:c4.1:1sh.1:7p.7:3oz.1n:11.1:c.4:a.1:q.3:e.p:2a.1:17h.f:1p.1:5w.1:1d.1:23',
+    's:a.29:6t.2:14b.2:1.1:f4.1:9u.1:19e.3:31.1:1k.3:6m.1:10d.1:1cx.1:b5.1:co.1:2x7.1:218.1:5oc.1:4b8.1:qxl.1:6ug.1:5mb.1:5io.1:28i7.1:8nb.1:221.1k:nq.1:2j.1:25.1:28e.1:4j.8:el.1:ft.1:k.2:jl.e:da.1:1o.1:4q.1:ph.1:9v.1x:x.q:c.4:y.1:59.i:164.1:j',
+    '19:b.1s:2e2.4:1.1:6f.1:1fa.2:d.1:2w.4:gr.1:3w.1:4c.1:ix.1:114.1:1un.1:am3.1:1hv.1:1my.1:2of.1:d11.1:4b8n.1:b3m.1:1f0.1q:5y.1:u.3:2p.1:16.1:b.1:k.2:d1.1:22.2:1tb.1:xt.1:uf.4:1hu.8:yt.1:9r.2:14.1:e1.1y:h.2:3f.e:de.b:11.1:g.2:j.1:6h.2:19r.1:k7',
+    '35:14.1:6qq.1:ml.1:2e.1:1.1:r.1:3z.1:14.1:1.1:6x.1:4s.1:4p.1:m5.1:3em.1:ky.1:ac.1:15l.1:tn.1:sv.1:u1.1:3gu.1r:n.1:3q.2:y.2:f.2:w.1:1.1:3ly.1:ce.1:2w.1:ur.1:11c.1:1.1:39.1:hp.1:gg.b:75.1:1y.1w:2y.w:f.3:b.1:m.1:1p.1:35.1:13q',
+    '1d:1.1o:2s.4:m.1:52.1:ai.1:2d.1:1.2:ba.1:as.1:1l.1:lum.1:1gu.1:ed.1:5z6.1:g6.1:fm.1:1a4.1:38w.1:kdh.1:1h2.1:3u.1u:k.5:l.1:h.1:148.1:8a.1:2id.1:nx8.1:3f6.1:13y.1:1qb.1:eem.1:15t.b:3m.1:iu.1:154.1v:h.h:m.l:y.1:14i.1:13',
+    '31:51.3:5.1:1.1:79g.1:k.2:1j.1:5c.1:1kl.1:ng.1:216.1:7i.1:gc.1:fb.1:1g2.1:ma.1:zn.1:1e5.1:j4.1:5wu.1:6c7.1s:47.2:2w.1:4c.4:1u.2:ds.1:1.1:3qd.1:tme.1:ydj.1:39f.1:u.1:1wr.2h:e.q:z.1:c.1:1z.1:b.1:3i.1:58.1:tc.1:1xq',
+    '1y:x.13:zx.3:3a.1:50.1:z2.1:329.1:2a.1:44.1:pm.1:nx.1:jg.1:6ik.1:79.1:66.1:4u2.1:1h6.1:m2.1:2is.1:123.1:1qj.1:kg.1:77t.20:53.1:9t.1:1ad.1:5m9.1:1o1.1:8a.1:3kk.1:2ee.1:5a.1:1.2a:q.6:d.s:v.2:n.1:249.1:641.1:vfy',
+    '31:ch.2:s.1:41.1:6v.1:1on.1:1.1:1b.1:77.1:e.2:du.1:q3.1:1c.1:uu.1:1n.1:wt.1:1eb.1:2j0.1:s1.1:mi.1:567.1:n4.1t:2d.2:3k.2:1.1:ju.2:b6.1:1bp.1:1.1:1b1.1:we.1:1sf.1:9r.1:v7.1:vd.1:1z0.2a:fy.2:1c.5:d.1:l.n:c.5:1u.1:1u.1:53.1:846',
+    '30:2fq.3:1.1:cc.1:196.1:3y.2:3j.1:10.1:7j.1:8c.1:1hd.1:lw.1:1ar.1:et.1:s7.1:jw.1:27r.1:1l2.1:guo.1:49k.1:d9.1u:1.1:2w.2:x.2:1c.1:34.1:1.1:34.1:1.1:69e.1:1ml.1:1i.1:59.1:7rt.1:orn.2b:t.k:l.c:c.1:q.2:2q.1:u.1:4x.1:6t.1:4w.e:9',
+    '30:lf.1:7m.1:1.1:5u.1:1x.1:3q.1:1u.1:tb.1:54.1:3r.1:fn.1:62.1:p4.1:7z.1:pr.1:i3.1:16v.1:zv.1:a7.1:pj.1:edp.1:4u.1w:1.3:t.1:h.1:1m.2:8z.1:3g.1:fu.1:i1.1:74.1:72.1:10k.2d:i.1:i.5:86.f:1a.9:k.3:1d.1:2r.1:4v.1:8m.1:44.1:n6',
+    '30:6c.1:3p.1:2a.1:5ek.2:1.1:cd.1:dbo.1:qj.1:sb.1:y3.1:71f.1:hv.1:1bh.1:x5.2:hg.1:tr.1:34.1:2mo.1:71.1y:44.1:29.1:1.1:u.2:1.1:13.1:52.1:11m.1:ft.1:lv.1:1n.2e:lzh.1:xd.2:t.3:t.k:50.4:16.2:10.1:v.1:1a.1:q8.1:w.1:yc',
+    '30:13d.1:10w.2:6rl.2:z.1:96.1:us.1:1cq.1:tm.1:zf.1:alo.1:8h.1:1cu.1:6g.1:3z.1:r.1:f5.1:mm.1:1g6.1y:ao.1:1.4:cf.2:hh.1:dn.1:pp.1:1c0.1:9k.2f:7as.1:rf.1:16.g:l.1:e.3:3r.1:r.9:c.1:e6.1:4h.1:6h.1:60h.1:fc',
+    '30:7rh.1:1bsj.1:1.1:mx.1:1.1:1ja.1:vf.1:1if.1:95.1:hu.1:10r.1:2qf.1:pc.1:1cx.1:4q.1:il.1:34.1:av.1:d9.1z:iz.1:ud5.1:1y5.1:6b.1:4h.1:p6.1:1z.1:1.1:9cl.1:uf.1:3oz.2g:1lf.1:2t.1:1r.4:2f.f:o.1:ad.1:78.1:1.6:e.1:e.1:1v.1:ab.1:vn.1:art.1:1lx7',
+    '30:1pa.1:2bt.2:uc.1:1.2:p.1:5w.1:9q.1:54.1:e7.1:1cd.1:1q3.1:3f0z.1:5u9.1:cew.1:wt.1:xv.1:25.20:bz.1:gl.1:8b.1:69.1:ge.1:oh.1:5a.2j:e.1:1h.1:48.i:3u.1:h.1:1l.1:hct.1:22.1:5w.1:f.1:es.1:e.1:o.1:o.1:9r.1:38.1:6x.1:7w.1:6tu.1:1kx.m:h',
+    '2z:j9.1:2mz.2:1.4:n.1:as.1:mr.1:u.1:1.1:gi.1:1.1:1.1:1.4v:dd.k:i.1:2gu.1:4s.3:c.1:43.1:39.1:4g.1:3r.1:gn.1:31.1:694.1:el.n:3y.1:h0',
+    '2y:491.1:21b.1:ia.1:d.1:b.2:1.1:p.1:29.1:wb.1:4i.1:1.1:1.1:nz.1:ez.1:1.1:70.1:34.5g:d.1:2t.1:m.1:5u.1:a.1:1p1.1:p8.1:wn.1:26.1:4o.1:5w.1:2b.o:8du.1:1d',
+    '2y:1ut.1:24p.2:4d.1:m.1:1.1:65.1:1.2:40.1:4y.1:1.1:7i.1:1.1:sz.1:as.1:1.1:6w.18:3.48:b.1:93.1:g.1:6n.1:1m2.1:19dk.1:h9p.1:40.1:6q.1:1y.1:16.p:kd.1:1lw.1:10l',
+    '2y:3b.1:2or.2:bw.1:gl.1:2hu.1:u0.2:1.1:k.1:s.1:2kq.1:38.1:d3.1:1.1:md.1:49v.5j:33.1:bt.1:5x.1:3zb.1:5hh.1:kv.1:4g.s:5o.1:qx.1:14.1:9j',
+    '2y:1as.1:hn.1:af.1:11.1:w.1:1s.1:y2.1:28.1:7h.5t:7.u:f.1:jh.1:bk.1:11j.1:17',
+    '2y:1ct.1:5e.1:8m.1:y.2:r.1:e.1:10.2:6a.2:dl.5s:2o.r:c.3:16w.1:h',
+    '2y:b9.1:1fr.1:ut.1:s.1:1m.1:m.3:1y.5v:9d.1:fu.1:1j1.1:k.n:10.2:v8.1:4bg.1:b7',
+    '2y:fg.1:15.1:as.2:1.3:1.1:hy.5v:i.2:33k.n:y.1:2m',
+    '3:3.2v:62.1:c.1:2r.1:1.1:1.2:1.2:zp.5w:d.1:55.o:9g.1:31i',
+    '2z:p.1:e.1:10.5:b.6i:m.1:18.2:8r',
+    '2z:hs.2:1a.1:2b.2:14v.6j:l.1:3l.1:1g.1:zp',
+    '30:19.1:10.2:2l.1:e7.6k:i4.1:3m',
+    '2z:t.7:2u',
+    '31:1',
+    '33:16.1:1p.3u:1',
+    '2z:28.4:y',
+    '2z:ak.3:nt.c:m',
+    '',
+    '31:wm.1:1.2:en',
+    '33:g4.1:u.v:1',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '9m:d',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+]
+
+// Población por celda (clave fila * 360 + columna), decodificada en la primera consulta
+let cells: Map<number, number> | null = null
+
+/**
+ * Decodifica las filas a un mapa de celdas pobladas
+ */
+const decodeCells = (): Map<number, number> => {
+    const decoded = new Map<number, number>()
+    ROWS.forEach((row, rowIndex) => {
+        if (!row) return
+        let col = 0
+        for (const cell of row.split('.')) {
+            const [skip, hundreds] = cell.split(':')
+            col += parseInt(skip, 36)
+            decoded.set(rowIndex * 360 + col, parseInt(hundreds, 36) * 100)
+        }
+    })
+    return decoded
+}
+
+/**
+ * Población de una celda de la rejilla
+ *
+ * @param {number} row - Fila (0 = franja de 89°N a 90°N)
+ * @param {number} col - Columna (0 = franja de 180°W a 179°W)
+ * @returns {number} Habitantes en la celda (0 si no hay localidades)
+ */
+export const cellPopulation = (row: number, col: number): number => {
+    if (!cells) cells = decodeCells()
+    return cells.get(row * 360 + col) ?? 0
+}
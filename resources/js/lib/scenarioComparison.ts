@@ -0,0 +1,91 @@
+// scenarioComparison.ts - Escenarios fijados para comparar resultados lado a lado
+// Cada escenario guarda un resumen de su simulación y los anillos que se dibujan en el mapa
+
+import type { LatLng } from '../context/MeteroidContext'
+import { JOULES_PER_MEGATON } from './atmosphericEntry'
+import type { AtmosphericImpact } from './atmosphericEntry'
+import type { DamageZone } from './damageEffects'
+import type { AirburstResult, ImpactType } from './airburst'
+import type { OceanImpactResult } from './oceanImpact'
+
+/** Máximo de escenarios fijados a la vez */
+export const MAX_PINNED_SCENARIOS = 5
+
+/** Color de cada escenario en la tabla y en el mapa, por orden de fijado */
+export const SCENARIO_COLORS = ['#22d3ee', '#a3e635', '#f472b6', '#fb923c', '#c084fc']
+
+/**
+ * Nivel de amenaza por energía inicial (mismos umbrales que GeminiController::calculateThreatLevel)
+ *
+ * @param {number} energyMt - Energía cinética inicial en megatones de TNT
+ * @returns {string} Nivel de amenaza
+ */
+export const threatLevel = (energyMt: number): string => {
+    if (energyMt < 0.01) return 'Insignificante'
+    if (energyMt < 1) return 'Bajo'
+    if (energyMt < 10) return 'Moderado'
+    if (energyMt < 100) return 'Alto'
+    if (energyMt < 1000) return 'Muy Alto'
+    return 'Catastrófico'
+}
+
+/**
+ * Escenario fijado para comparación
+ */
+export interface PinnedScenario {
+    id: number
+    name: string
+    color: string
+    location: LatLng
+    impact_type: ImpactType
+    initial_energy_mt: number
+    impact_energy_mt: number            // Energía al suelo, o liberada en el aire si es explosión aérea
+    crater_diameter_m: number | null    // null si no se forma cráter
+    breakup_altitude_m: number | null
+    threat_level: string
+    zones: DamageZone[]                 // Anillos de daño para el mapa
+}
+
+/**
+ * Campos de los datos de impacto de FormTesting que usa el resumen
+ */
+export interface ImpactSummarySource {
+    name?: string
+    calculations?: { kinetic_energy_initial_megatons_tnt?: number }
+    atmospheric_impact?: Partial<Pick<AtmosphericImpact, 'E_after_J' | 'crater_diameter_m' | 'breakup_altitude_m'>>
+    impact_type?: ImpactType
+    airburst?: AirburstResult | null
+    ocean?: OceanImpactResult | null
+}
+
+/**
+ * Resume los datos de impacto de FormTesting en un escenario fijable
+ *
+ * @param {ImpactSummarySource} impactData - Datos de impacto tal como los guarda FormTesting
+ * @param {DamageZone[]} zones - Zonas de daño calculadas para el escenario
+ * @param {LatLng} location - Punto de impacto
+ * @param {number} id - Identificador único
+ * @param {string} color - Color asignado
+ * @returns {PinnedScenario} Escenario listo para la tabla y el mapa
+ */
+export const buildPinnedScenario = (impactData: ImpactSummarySource, zones: DamageZone[], location: LatLng, id: number, color: string): PinnedScenario => {
+    const atmospheric = impactData.atmospheric_impact ?? {}
+    const initialEnergy = impactData.calculations?.kinetic_energy_initial_megatons_tnt ?? 0
+    const hasCrater = impactData.impact_type === 'ground' || impactData.ocean?.reaches_seafloor
+
+    return {
+        id,
+        name: impactData.name ?? `Scenario ${id}`,
+        color,
+        location,
+        impact_type: impactData.impact_type ?? 'ground',
+        initial_energy_mt: initialEnergy,
+        impact_energy_mt: impactData.airburst
+            ? impactData.airburst.energy_released_megatons_tnt
+            : (atmospheric.E_after_J ?? 0) / JOULES_PER_MEGATON,
+        crater_diameter_m: hasCrater ? atmospheric.crater_diameter_m ?? null : null,
+        breakup_altitude_m: atmospheric.breakup_altitude_m ?? null,
+        threat_level: threatLevel(initialEnergy),
+        zones,
+    }
+}
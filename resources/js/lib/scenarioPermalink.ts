@@ -0,0 +1,145 @@
+// scenarioPermalink.ts - Enlaces permanentes que codifican el escenario completo en la URL
+// El escenario va en el hash de /sim (no llega al servidor) como parámetros cortos:
+// #v=1&r=12.5&vel=19000&a=45&m=rock&lat=26.9151&lng=-101.4307&nasa=2000433&saved=7&cd=1.2
+// El campo v es la versión del formato; un hash con otra versión se ignora
+
+import type { LatLng, MeteroidData } from '../context/MeteroidContext'
+import type { EntryOptions } from './atmosphericEntry'
+
+/** Versión actual del formato del enlace */
+export const SCENARIO_VERSION = 1
+
+/** Ruta del simulador a la que apuntan los enlaces */
+const SIMULATOR_PATH = '/sim'
+
+const MATERIALS: MeteroidData['material'][] = ['rock', 'iron', 'nickel']
+
+/**
+ * Opciones del modelo atmosférico que cambian los resultados
+ */
+export type ScenarioEntryOptions = Pick<EntryOptions, 'dragCoefficient' | 'seaLevelDensity' | 'scaleHeight'>
+
+/**
+ * Escenario completo que se puede compartir
+ */
+export interface Scenario {
+    meteroid: MeteroidData
+    location: LatLng
+    nasaId: string | null
+    savedId: string | null      // Meteorito guardado seleccionado en el simulador
+    entryOptions: ScenarioEntryOptions
+}
+
+// Nombre corto de cada opción del modelo en la URL
+const OPTION_KEYS: Record<keyof ScenarioEntryOptions, string> = {
+    dragCoefficient: 'cd',
+    seaLevelDensity: 'rho0',
+    scaleHeight: 'H',
+}
+
+/**
+ * Redondea sin dejar ceros de más (6 decimales bastan para coordenadas, ~10 cm)
+ */
+const compact = (value: number, decimals = 6) => String(Number(value.toFixed(decimals)))
+
+/**
+ * Lee un número finito de los parámetros (null si falta o no es válido)
+ */
+const readNumber = (params: URLSearchParams, key: string): number | null => {
+    const raw = params.get(key)
+    if (raw === null || raw.trim() === '') return null
+    const value = Number(raw)
+    return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Codifica un escenario como hash (sin el '#')
+ *
+ * @param {Scenario} scenario - Escenario a compartir
+ * @returns {string} Parámetros del hash
+ */
+export const serializeScenario = ({ meteroid, location, nasaId, savedId, entryOptions }: Scenario): string => {
+    const params = new URLSearchParams()
+    params.set('v', String(SCENARIO_VERSION))
+    params.set('r', compact(meteroid.radiusMeteroid, 3))
+    params.set('vel', compact(meteroid.velocity, 2))
+    params.set('a', compact(meteroid.angle, 2))
+    params.set('m', meteroid.material)
+    params.set('lat', compact(location[0]))
+    params.set('lng', compact(location[1]))
+    if (nasaId) params.set('nasa', nasaId)
+    if (savedId) params.set('saved', savedId)
+
+    // Solo las opciones definidas; las ausentes usan los valores por defecto del modelo
+    for (const [option, key] of Object.entries(OPTION_KEYS) as [keyof ScenarioEntryOptions, string][]) {
+        const value = entryOptions[option]
+        if (value !== undefined) params.set(key, compact(value))
+    }
+
+    return params.toString()
+}
+
+/**
+ * Decodifica un hash generado por serializeScenario
+ * Los campos ausentes o inválidos se omiten para que el proveedor use sus valores iniciales
+ *
+ * @param {string} hash - Hash de la URL (con o sin '#')
+ * @returns {Partial<Scenario> | null} Escenario parcial, o null si no es un enlace de esta versión
+ */
+export const parseScenario = (hash: string): Partial<Scenario> | null => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''))
+    if (readNumber(params, 'v') !== SCENARIO_VERSION) return null
+
+    const scenario: Partial<Scenario> = {}
+
+    const radius = readNumber(params, 'r')
+    const velocity = readNumber(params, 'vel')
+    const angle = readNumber(params, 'a')
+    const material = params.get('m') as MeteroidData['material'] | null
+    if (radius !== null && radius >= 0 && velocity !== null && velocity >= 0 && angle !== null && angle >= 0 && angle <= 90) {
+        scenario.meteroid = {
+            radiusMeteroid: radius,
+            velocity,
+            angle,
+            material: material && MATERIALS.includes(material) ? material : 'rock',
+        }
+    }
+
+    const lat = readNumber(params, 'lat')
+    const lng = readNumber(params, 'lng')
+    if (lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+        scenario.location = [lat, lng]
+    }
+
+    const nasaId = params.get('nasa')
+    if (nasaId) scenario.nasaId = nasaId
+
+    const savedId = params.get('saved')
+    if (savedId) scenario.savedId = savedId
+
+    const entryOptions: ScenarioEntryOptions = {}
+    for (const [option, key] of Object.entries(OPTION_KEYS) as [keyof ScenarioEntryOptions, string][]) {
+        const value = readNumber(params, key)
+        if (value !== null && value > 0) entryOptions[option] = value
+    }
+    if (Object.keys(entryOptions).length > 0) scenario.entryOptions = entryOptions
+
+    return scenario
+}
+
+/**
+ * Lee el escenario del hash de la página actual (null en el servidor o sin enlace)
+ */
+export const readScenarioFromUrl = (): Partial<Scenario> | null =>
+    typeof window === 'undefined' ? null : parseScenario(window.location.hash)
+
+/**
+ * Construye el enlace absoluto al simulador con el escenario codificado
+ *
+ * @param {Scenario} scenario - Escenario a compartir
+ * @returns {string} URL de /sim con el escenario en el hash
+ */
+export const buildScenarioLink = (scenario: Scenario): string => {
+    const origin = typeof window === 'undefined' ? '' : window.location.origin
+    return `${origin}${SIMULATOR_PATH}#${serializeScenario(scenario)}`
+}
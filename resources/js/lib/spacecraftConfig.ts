@@ -0,0 +1,154 @@
+// spacecraftConfig.ts - Parámetros editables de la nave de cada estrategia de desviación
+// Cada estrategia tiene su esquema (zod) con límites físicos; los valores por defecto son las
+// misiones de referencia que usaba DeflectionController (DART, tractor de 20 t, 1 MT, láser de 10 MW).
+// El servidor aplica los mismos límites y calcula Δv, coste y ranking con estos valores
+
+import { z } from 'zod'
+import type { KineticImpactor } from './missionPlanner'
+
+/**
+ * Estrategias de desviación que simula DeflectionController
+ */
+export type DeflectionStrategy = 'kinetic' | 'gravity-tractor' | 'nuclear' | 'laser'
+
+export const DEFLECTION_STRATEGIES: DeflectionStrategy[] = ['kinetic', 'gravity-tractor', 'nuclear', 'laser']
+
+/**
+ * Etiqueta, unidad, límites y valor de referencia de un parámetro
+ */
+export interface SpacecraftField {
+    label: string
+    unit: string
+    min: number
+    max: number
+    default: number
+    hint?: string
+}
+
+/**
+ * Parámetros de cada estrategia (los nombres coinciden con los que lee el servidor)
+ */
+export const SPACECRAFT_FIELDS = {
+    kinetic: {
+        impactor_mass_kg: { label: 'Impactor mass', unit: 'kg', min: 10, max: 20000, default: 570, hint: 'DART: 570 kg' },
+        impact_velocity_ms: { label: 'Impact velocity', unit: 'm/s', min: 1000, max: 30000, default: 6600, hint: 'DART: 6.6 km/s' },
+        beta: { label: 'Momentum enhancement (β)', unit: '', min: 1, max: 6, default: 3.5, hint: 'Ejecta boost, 1 = no ejecta' },
+    },
+    'gravity-tractor': {
+        spacecraft_mass_kg: { label: 'Spacecraft mass', unit: 'kg', min: 500, max: 100000, default: 20000 },
+        hover_distance_m: { label: 'Hover distance', unit: 'm', min: 10, max: 100000, default: 100, hint: 'From the asteroid center' },
+    },
+    nuclear: {
+        yield_mt: { label: 'Warhead yield', unit: 'Mt', min: 0.001, max: 100, default: 1 },
+        standoff_diameters: { label: 'Standoff distance', unit: '× diameter', min: 0.5, max: 10, default: 3 },
+        transfer_efficiency_percent: { label: 'Energy coupling at 3 diameters', unit: '%', min: 0.01, max: 10, default: 1 },
+    },
+    laser: {
+        laser_power_MW: { label: 'Laser power', unit: 'MW', min: 0.1, max: 1000, default: 10 },
+        ablation_efficiency_percent: { label: 'Ablation efficiency', unit: '%', min: 0.1, max: 50, default: 5 },
+        ejection_velocity_ms: { label: 'Ejecta velocity', unit: 'm/s', min: 100, max: 5000, default: 1000 },
+        max_operation_years: { label: 'Maximum operation time', unit: 'years', min: 0.1, max: 20, default: 3 },
+    },
+} satisfies Record<DeflectionStrategy, Record<string, SpacecraftField>>
+
+/**
+ * Nombres de los parámetros de una estrategia
+ */
+export type SpacecraftParam<S extends DeflectionStrategy> = keyof typeof SPACECRAFT_FIELDS[S] & string
+
+/**
+ * Valores de la nave de una estrategia
+ */
+export type SpacecraftParams<S extends DeflectionStrategy> = Record<SpacecraftParam<S>, number>
+
+/**
+ * Configuración de las cuatro naves (es lo que se envía al servidor)
+ */
+export type SpacecraftConfig = { [S in DeflectionStrategy]: SpacecraftParams<S> }
+
+/**
+ * Errores de validación por parámetro (solo los campos con error)
+ */
+export type SpacecraftErrors = { [S in DeflectionStrategy]: Partial<Record<SpacecraftParam<S>, string>> }
+
+const fieldsOf = <S extends DeflectionStrategy>(strategy: S) =>
+    Object.entries(SPACECRAFT_FIELDS[strategy]) as [SpacecraftParam<S>, SpacecraftField][]
+
+/**
+ * Distancia mínima de vuelo del tractor: medio radio por encima de la superficie
+ */
+export const minHoverDistance = (asteroidDiameter_m: number) => Math.ceil(asteroidDiameter_m * 0.75)
+
+/**
+ * Naves de referencia; el tractor se aleja lo necesario para no quedar dentro de asteroides grandes
+ *
+ * @param {number} asteroidDiameter_m - Diámetro del asteroide
+ * @returns {SpacecraftConfig} Configuración por defecto
+ */
+export const defaultSpacecraft = (asteroidDiameter_m: number): SpacecraftConfig => {
+    const config = Object.fromEntries(DEFLECTION_STRATEGIES.map(strategy => [
+        strategy,
+        Object.fromEntries(fieldsOf(strategy).map(([name, field]) => [name, field.default])),
+    ])) as SpacecraftConfig
+    config['gravity-tractor'].hover_distance_m = Math.max(
+        SPACECRAFT_FIELDS['gravity-tractor'].hover_distance_m.default,
+        minHoverDistance(asteroidDiameter_m)
+    )
+    return config
+}
+
+/**
+ * Esquema zod de una estrategia con sus límites; el del tractor depende del tamaño del asteroide
+ *
+ * @param {DeflectionStrategy} strategy - Estrategia
+ * @param {number} asteroidDiameter_m - Diámetro del asteroide
+ * @returns {z.ZodType} Esquema de los parámetros
+ */
+export const spacecraftSchema = (strategy: DeflectionStrategy, asteroidDiameter_m: number) => {
+    const shape = Object.fromEntries(fieldsOf(strategy).map(([name, field]) => [
+        name,
+        z.number({ error: 'Enter a number' })
+            .min(field.min, { error: `Minimum ${field.min} ${field.unit}`.trim() })
+            .max(field.max, { error: `Maximum ${field.max} ${field.unit}`.trim() }),
+    ]))
+    const schema = z.object(shape)
+    if (strategy !== 'gravity-tractor') return schema
+
+    const minDistance = minHoverDistance(asteroidDiameter_m)
+    return schema.refine(
+        params => params.hover_distance_m >= minDistance,
+        { error: `Must be at least ${minDistance} m to stay clear of the surface`, path: ['hover_distance_m'] }
+    )
+}
+
+/**
+ * Valida las cuatro naves
+ *
+ * @param {SpacecraftConfig} config - Configuración editada
+ * @param {number} asteroidDiameter_m - Diámetro del asteroide
+ * @returns {{ valid: boolean, errors: SpacecraftErrors }} Si todo es válido y los mensajes por campo
+ */
+export const validateSpacecraft = (config: SpacecraftConfig, asteroidDiameter_m: number): { valid: boolean, errors: SpacecraftErrors } => {
+    const errors = Object.fromEntries(DEFLECTION_STRATEGIES.map(strategy => [strategy, {}])) as SpacecraftErrors
+    let valid = true
+    for (const strategy of DEFLECTION_STRATEGIES) {
+        const result = spacecraftSchema(strategy, asteroidDiameter_m).safeParse(config[strategy])
+        if (result.success) continue
+        valid = false
+        const messages: Record<string, string> = errors[strategy]
+        for (const issue of result.error.issues) {
+            const field = String(issue.path[0])
+            messages[field] ??= issue.message
+        }
+    }
+    return { valid, errors }
+}
+
+/**
+ * Parámetros del impactador cinético en la forma que usa el planificador de misiones
+ */
+export const kineticImpactorOf = (config: SpacecraftConfig): KineticImpactor => ({
+    mass_kg: config.kinetic.impactor_mass_kg,
+    velocity_ms: config.kinetic.impact_velocity_ms,
+    beta: config.kinetic.beta,
+})
@@ -0,0 +1,179 @@
+// threatScore.ts - Puntuación de amenaza de los NEOs de NASA al estilo Torino/Palermo
+// NeoWs no da probabilidades de impacto (eso es Sentry), así que se usa un indicador de proximidad:
+// la distancia de paso se toma como incertidumbre de la posición y se compara con la sección eficaz
+// de la Tierra aumentada por la gravedad. Sirve para ordenar objetos, no es una probabilidad real
+
+import { JOULES_PER_MEGATON, MATERIAL_DENSITIES } from './atmosphericEntry'
+import type { MeteroidData } from '../context/MeteroidContext'
+import type { NeoApproachSummary, NeoSummary } from './neoApi'
+import { EARTH_RADIUS_KM, ESCAPE_VELOCITY_KM_S } from './physicalConstants'
+
+/** Ángulo de entrada más probable para un impacto aleatorio */
+const MOST_LIKELY_ANGLE_DEG = 45
+
+/**
+ * Resultado de la puntuación de un NEO
+ */
+export interface ThreatAssessment {
+    record: NeoSummary
+    approach: NeoApproachSummary | null     // Aproximación futura más peligrosa, o la más cercana si todas son pasadas
+    diameter_m: number
+    impact_velocity_km_s: number            // v∞ más la aceleración de la gravedad terrestre
+    energy_mt: number
+    impact_probability: number              // Indicador de proximidad, ver cabecera
+    palermo: number | null
+    torino: number
+}
+
+/**
+ * Criterios de ordenación de la vista de amenaza
+ */
+export type ThreatSort = 'palermo' | 'distance' | 'velocity'
+
+/**
+ * Diámetro representativo: media geométrica del rango de NASA
+ */
+const representativeDiameter = ({ diameter_min_m: min, diameter_max_m: max }: NeoSummary): number =>
+    min && max ? Math.sqrt(min * max) : (min ?? max ?? 0)
+
+/**
+ * Velocidad de impacto a partir de la velocidad relativa lejos de la Tierra
+ */
+const impactVelocity = (vInfinity: number) => Math.sqrt(vInfinity ** 2 + ESCAPE_VELOCITY_KM_S ** 2)
+
+/**
+ * Indicador de probabilidad de impacto de un paso
+ * El radio de captura crece con el enfoque gravitacional: b = R·√(1 + v_esc²/v∞²)
+ *
+ * @param {NeoApproachSummary} approach - Aproximación a la Tierra
+ * @returns {number} Valor entre 0 y 1
+ */
+export const proximityProbability = (approach: NeoApproachSummary): number => {
+    const vInfinity = Math.max(approach.velocity_km_s, 0.1)
+    const capture = EARTH_RADIUS_KM * Math.sqrt(1 + (ESCAPE_VELOCITY_KM_S / vInfinity) ** 2)
+    if (approach.miss_distance_km <= capture) return 1
+    return (capture / approach.miss_distance_km) ** 2
+}
+
+/**
+ * Escala de Palermo: log10 del riesgo frente al riesgo de fondo de impactos de la misma energía
+ * hasta la fecha del evento (frecuencia de fondo f_B = 0.03·E^-0.8 por año, E en Mt)
+ *
+ * @param {number} probability - Probabilidad de impacto
+ * @param {number} energy_mt - Energía del impacto (Mt)
+ * @param {number} years - Años hasta el evento
+ * @returns {number | null} Valor de Palermo, null si no hay probabilidad o energía
+ */
+export const palermoScale = (probability: number, energy_mt: number, years: number): number | null => {
+    if (probability <= 0 || energy_mt <= 0) return null
+    const background = 0.03 * energy_mt ** -0.8
+    return Math.log10(probability / (background * Math.max(years, 1 / 365.25)))
+}
+
+/**
+ * Escala de Turín simplificada por bandas de probabilidad y energía
+ * - 0: probabilidad despreciable u objeto que no llega al suelo (< 1 Mt)
+ * - 1-2: pasos normales o algo cercanos
+ * - 3-7: probabilidad ≥ 1%, según si el daño sería local, regional o global
+ * - 8-10: colisión segura (local, regional, global)
+ *
+ * @param {number} probability - Probabilidad de impacto
+ * @param {number} energy_mt - Energía del impacto (Mt)
+ * @returns {number} Valor entero de 0 a 10
+ */
+export const torinoScale = (probability: number, energy_mt: number): number => {
+    if (probability < 1e-8 || energy_mt < 1) return 0
+    const regional = energy_mt >= 1e2
+    const global = energy_mt >= 1e5
+    if (probability >= 0.99) return global ? 10 : regional ? 9 : 8
+    if (probability >= 1e-2) {
+        if (global) return probability >= 0.1 ? 7 : 6
+        if (regional) return probability >= 0.1 ? 5 : 4
+        return 3
+    }
+    return probability >= 1e-4 || (global && probability >= 1e-6) ? 2 : 1
+}
+
+/**
+ * Puntúa un NEO con su aproximación futura más peligrosa
+ * Los objetos sin aproximaciones futuras conservan la más cercana para ordenar por distancia,
+ * pero no tienen valor de Palermo
+ *
+ * @param {NeoSummary} record - NEO de la lista de NASA
+ * @param {number} now_ms - Fecha de referencia (Date.now() por defecto)
+ * @returns {ThreatAssessment} Puntuación
+ */
+export const assessThreat = (record: NeoSummary, now_ms = Date.now()): ThreatAssessment => {
+    const diameter_m = representativeDiameter(record)
+    const mass = MATERIAL_DENSITIES.rock * (Math.PI / 6) * diameter_m ** 3
+
+    const energyFor = (approach: NeoApproachSummary) =>
+        (0.5 * mass * (impactVelocity(approach.velocity_km_s) * 1000) ** 2) / JOULES_PER_MEGATON
+    const yearsUntil = (approach: NeoApproachSummary) =>
+        ((approach.epoch_ms ?? now_ms) - now_ms) / (365.25 * 86400000)
+
+    const future = record.close_approaches.filter(approach => approach.epoch_ms !== null && approach.epoch_ms >= now_ms)
+    const scored = future.map(approach => ({
+        approach,
+        palermo: palermoScale(proximityProbability(approach), energyFor(approach), yearsUntil(approach)),
+    }))
+    const worst = scored.reduce<typeof scored[number] | null>(
+        (best, current) => best === null || (current.palermo ?? -Infinity) > (best.palermo ?? -Infinity) ? current : best,
+        null
+    )
+
+    const approach = worst?.approach
+        ?? record.close_approaches.reduce<NeoApproachSummary | null>(
+            (closest, current) => closest === null || current.miss_distance_km < closest.miss_distance_km ? current : closest,
+            null
+        )
+    const impact_probability = approach ? proximityProbability(approach) : 0
+    const energy_mt = approach ? energyFor(approach) : 0
+
+    return {
+        record,
+        approach,
+        diameter_m,
+        impact_velocity_km_s: approach ? impactVelocity(approach.velocity_km_s) : 0,
+        energy_mt,
+        impact_probability,
+        palermo: worst?.palermo ?? null,
+        torino: worst ? torinoScale(impact_probability, energy_mt) : 0,
+    }
+}
+
+/**
+ * Ordena las puntuaciones; a igualdad, los potencialmente peligrosos van primero
+ *
+ * @param {ThreatAssessment[]} assessments - Puntuaciones
+ * @param {ThreatSort} sort - Criterio
+ * @returns {ThreatAssessment[]} Copia ordenada de mayor a menor amenaza
+ */
+export const rankThreats = (assessments: ThreatAssessment[], sort: ThreatSort): ThreatAssessment[] => {
+    const key = (assessment: ThreatAssessment): number => {
+        switch (sort) {
+            case 'palermo':
+                return assessment.palermo ?? -Infinity
+            case 'distance':
+                return -(assessment.approach?.miss_distance_km ?? Infinity)
+            case 'velocity':
+                return assessment.approach?.velocity_km_s ?? -Infinity
+        }
+    }
+    return [...assessments].sort((a, b) =>
+        key(b) - key(a) || Number(b.record.is_potentially_hazardous_asteroid) - Number(a.record.is_potentially_hazardous_asteroid)
+    )
+}
+
+/**
+ * Escenario del simulador "como si impactara": tamaño de NASA, velocidad de impacto y ángulo más probable
+ *
+ * @param {ThreatAssessment} assessment - Puntuación del NEO
+ * @returns {MeteroidData} Datos del meteorito para el formulario
+ */
+export const threatToMeteroid = (assessment: ThreatAssessment): MeteroidData => ({
+    radiusMeteroid: assessment.diameter_m / 2,
+    velocity: (assessment.impact_velocity_km_s || ESCAPE_VELOCITY_KM_S) * 1000,
+    angle: MOST_LIKELY_ANGLE_DEG,
+    material: 'rock',
+})
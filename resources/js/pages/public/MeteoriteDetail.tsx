@@ -0,0 +1,207 @@
+// MeteoriteDetail.tsx - Ficha de un NEO de NASA con todo lo que publica NeoWs
+// Diámetro, aproximaciones, órbita y el resumen del impacto que calcula getMeteoriteById
+
+import { useMemo, useState } from 'react'
+import { Link } from '@inertiajs/react'
+import CloseApproachTable from '@/components/CloseApproachTable'
+import OrbitView from '@/components/OrbitView'
+import { DEFAULT_LOCATION } from '@/context/MeteroidContext'
+import { useNeoDetail } from '@/hooks/use-neo-detail'
+import { classifyImpact } from '@/lib/airburst'
+import { DAMAGE_ZONE_INFO, computeDamageEffects } from '@/lib/damageEffects'
+import { closeApproachMarkers, formatJulianDate, julianDateFromMs, parseOrbitalData } from '@/lib/orbit'
+import { buildScenarioLink } from '@/lib/scenarioPermalink'
+
+/** Ángulo que usa getMeteoriteById si no se le pasa otro */
+const SERVER_ENTRY_ANGLE_DEG = 45
+
+/**
+ * Props de la página (las pasa la ruta /meteorites/{id})
+ */
+interface MeteoriteDetailProps {
+    neoId: string
+}
+
+const formatDistance = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters.toFixed(0)} m`
+
+/**
+ * Dato con su etiqueta
+ */
+const Fact = ({ label, value }: { label: string, value: React.ReactNode }) => (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+        <div className="text-xs text-gray-500 mb-1">{label}</div>
+        <div className="text-lg font-semibold">{value}</div>
+    </div>
+)
+
+const MeteoriteDetail: React.FC<MeteoriteDetailProps> = ({ neoId }) => {
+    const { lookup, loading, error } = useNeoDetail(neoId, 'Could not load this object')
+    const [jd, setJd] = useState(() => julianDateFromMs(Date.now()))
+
+    const neo = lookup?.data ?? null
+    const elements = useMemo(() => parseOrbitalData(neo?.orbital_data), [neo])
+    const markers = useMemo(
+        () => elements ? closeApproachMarkers(elements, neo?.close_approach_data ?? []) : [],
+        [elements, neo]
+    )
+
+    // Resumen del impacto: entrada calculada por el servidor y zonas de daño en el cliente
+    const impact = useMemo(() => {
+        if (!lookup) return null
+        const { atmospheric_impact: atmosphere } = lookup
+        const { airburst } = classifyImpact(atmosphere)
+        const damage = airburst
+            ? computeDamageEffects({ energy_J: airburst.energy_released_J, burstAltitude_m: airburst.burst_altitude_m, craterDiameter_m: 0 })
+            : atmosphere.E_after_J > 0
+                ? computeDamageEffects({ energy_J: atmosphere.E_after_J, burstAltitude_m: 0, craterDiameter_m: atmosphere.crater_diameter_m })
+                : null
+        return { atmosphere, airburst, zones: damage?.zones.slice(0, 3) ?? [] }
+    }, [lookup])
+
+    // Carga el objeto en el simulador con el mismo escenario que el resumen
+    const simulate = () => {
+        if (!lookup) return
+        window.location.assign(buildScenarioLink({
+            meteroid: {
+                radiusMeteroid: lookup.calculations.radius_m,
+                velocity: lookup.calculations.velocity_ms,
+                angle: SERVER_ENTRY_ANGLE_DEG,
+                material: 'rock',
+            },
+            location: DEFAULT_LOCATION,
+            nasaId: neoId,
+            savedId: null,
+            entryOptions: {},
+        }))
+    }
+
+    const diameter = neo?.estimated_diameter.meters
+    const orbitClass = neo?.orbital_data?.orbit_class
+
+    return (
+        <div className="min-h-screen bg-black text-white">
+            {/* Header */}
+            <header className="bg-gradient-to-r from-gray-900 to-black border-b border-gray-800 sticky top-0 z-50 backdrop-blur-md">
+                <div className="container mx-auto px-6 py-6">
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <h1 className="text-4xl font-bold mb-2">{neo?.name ?? 'Near-Earth object'}</h1>
+                            <p className="text-gray-400">
+                                {orbitClass ? `${orbitClass.orbit_class_type}: ${orbitClass.orbit_class_description}` : `NASA NeoWs object ${neoId}`}
+                            </p>
+                        </div>
+                        <div className="flex gap-3">
+                            <Link href="/meteorites">
+                                <button className="px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg font-semibold transition">
+                                    Back to Meteorites
+                                </button>
+                            </Link>
+                            <button
+                                onClick={simulate}
+                                disabled={!lookup}
+                                className="px-6 py-3 bg-white text-black hover:bg-gray-200 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Simulate this object
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </header>
+
+            <div className="container mx-auto px-6 py-12 space-y-12">
+                {loading ? (
+                    <div className="flex items-center justify-center h-64">
+                        <div className="text-center">
+                            <div className="w-16 h-16 border-4 border-white border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                            <p className="text-gray-400">Loading object...</p>
+                        </div>
+                    </div>
+                ) : error || !lookup || !neo || !impact ? (
+                    <div className="text-center py-20">
+                        <h3 className="text-2xl font-bold mb-2">Object not available</h3>
+                        <p className="text-gray-400">{error ?? 'NASA returned no data for this object'}</p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Datos básicos */}
+                        <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <Fact
+                                label="Estimated diameter"
+                                value={diameter ? `${diameter.estimated_diameter_min.toFixed(0)}–${diameter.estimated_diameter_max.toFixed(0)} m` : '—'}
+                            />
+                            <Fact label="Absolute magnitude (H)" value={neo.absolute_magnitude_h.toFixed(2)} />
+                            <Fact
+                                label="Potentially hazardous"
+                                value={neo.is_potentially_hazardous_asteroid ? <span className="text-red-400">Yes</span> : 'No'}
+                            />
+                            <Fact label="Sentry monitored" value={neo.is_sentry_object ? <span className="text-yellow-300">Yes</span> : 'No'} />
+                        </section>
+
+                        {/* Resumen del impacto */}
+                        <section>
+                            <h2 className="text-2xl font-bold mb-2">If it hit Earth</h2>
+                            <p className="text-sm text-gray-500 mb-4 max-w-3xl">
+                                Precomputed by the server for a rocky body entering at {SERVER_ENTRY_ANGLE_DEG}° with the speed of its first
+                                listed approach (at least 11 km/s). Use "Simulate this object" to change the site and parameters.
+                            </p>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                <Fact label="Mass" value={`${lookup.calculations.mass_kg.toExponential(2)} kg`} />
+                                <Fact label="Entry velocity" value={`${(lookup.calculations.velocity_ms / 1000).toFixed(1)} km/s`} />
+                                <Fact label="Energy at entry" value={`${impact.atmosphere.initial_megatons_tnt.toPrecision(3)} Mt`} />
+                                <Fact
+                                    label="Outcome"
+                                    value={impact.airburst
+                                        ? `Airburst at ${(impact.airburst.burst_altitude_m / 1000).toFixed(1)} km`
+                                        : `Crater ${formatDistance(impact.atmosphere.crater_diameter_m)} wide`}
+                                />
+                            </div>
+                            {impact.zones.length > 0 && (
+                                <ul className="mt-4 space-y-1 text-sm text-gray-300">
+                                    {impact.zones.map(zone => (
+                                        <li key={zone.id} className="flex items-center gap-2">
+                                            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: DAMAGE_ZONE_INFO[zone.id].color }} />
+                                            {DAMAGE_ZONE_INFO[zone.id].name}: {formatDistance(zone.radius_m)} radius
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+
+                        <section className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                            {/* Órbita */}
+                            <div>
+                                <h2 className="text-2xl font-bold mb-4">Orbit</h2>
+                                {elements ? (
+                                    <>
+                                        <OrbitView elements={elements} approaches={markers} jd={jd} onSelectApproach={approach => setJd(approach.jd)} />
+                                        <p className="mt-2 text-sm text-gray-400">
+                                            Positions on <strong className="text-white">{formatJulianDate(jd)}</strong>. Click an approach marker or a table row to move the date.
+                                        </p>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-gray-400">NASA does not provide usable orbital elements for this object.</p>
+                                )}
+                            </div>
+
+                            {/* Aproximaciones */}
+                            <div>
+                                <h2 className="text-2xl font-bold mb-4">Close approaches ({neo.close_approach_data.length})</h2>
+                                <CloseApproachTable
+                                    approaches={neo.close_approach_data}
+                                    highlightDate={formatJulianDate(jd)}
+                                    onSelect={approach => setJd(julianDateFromMs(approach.epoch_date_close_approach))}
+                                />
+                            </div>
+                        </section>
+
+                        <a href={neo.nasa_jpl_url} target="_blank" rel="noreferrer" className="inline-block text-sm text-blue-400 hover:underline">
+                            Open in the JPL Small-Body Database
+                        </a>
+                    </>
+                )}
+            </div>
+        </div>
+    )
+}
+
+export default MeteoriteDetail
@@ -1,127 +1,260 @@
 // MeteoritesPage.tsx - Galería de meteoritos de NASA y guardados por usuarios
-// Muestra todos los meteoritos disponibles en cards organizadas
+// Muestra todos los meteoritos disponibles en cards organizadas.
+// NeoWs no filtra ni ordena: con filtros u orden, la búsqueda de NASA se hace en la copia completa
+// del listado que guarda el servidor. Si esa búsqueda falla, se filtran las páginas descargadas
+// (en esta visita o guardadas en IndexedDB) y la página lo indica mientras falten páginas
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
 import { toast } from 'sonner'
 import { Toaster } from '@/components/sonner'
 import { Link } from '@inertiajs/react'
+import MeteoriteFilterPanel from '@/components/MeteoriteFilterPanel'
+import OrbitViewer from '@/components/OrbitViewer'
+import ThreatTable from '@/components/ThreatTable'
+import VirtualGrid from '@/components/VirtualGrid'
+import { DEFAULT_LOCATION } from '@/context/MeteroidContext'
+import { assessThreat, rankThreats, threatToMeteroid } from '@/lib/threatScore'
+import type { ThreatAssessment, ThreatSort } from '@/lib/threatScore'
+import { describeApiError, searchNeoCatalog } from '@/lib/neoApi'
+import { getCatalogPage, getCatalogUserMeteorites, getStoredCatalogPages, isStale } from '@/lib/neoCatalog'
+import type { NeoBrowsePage, NeoSummary, UserMeteorite } from '@/lib/neoApi'
+import { filterNeos, filterUserMeteorites, hasActiveFilters, orbitClassesOf, readFiltersFromUrl, serializeFilters } from '@/lib/meteoriteFilters'
+import type { MeteoriteFilters } from '@/lib/meteoriteFilters'
+import { buildScenarioLink } from '@/lib/scenarioPermalink'
 
-type MeteoriteRecord = {
-    id?: number
-    name: string
-    radiusMeteroid?: number
-    radius?: number
-    velocity?: number
-    angle?: number
-    entry_angle?: number
-    material?: string
-    lat?: number
-    lng?: number
-    mass?: string
-    recclass?: string
-    year?: string
-}
+// Los NEOs de NASA traen aproximaciones; los meteoritos de usuarios, parámetros del formulario
+const isNeo = (meteorite: NeoSummary | UserMeteorite): meteorite is NeoSummary => 'close_approaches' in meteorite
+
+// Páginas que se descargan de una vez al filtrar sin la búsqueda del servidor (DEMO_KEY admite pocas peticiones por hora)
+const FILTERED_SCAN_PAGES = 5
+
+// Espera tras el último cambio de filtros antes de buscar en el servidor (ms)
+const SEARCH_DEBOUNCE_MS = 400
+
+type MeteoritesTab = 'nasa' | 'saved' | 'threat'
+
+/**
+ * Une las páginas quitando repetidos: el listado de NeoWs se desplaza si NASA añade objetos
+ * entre dos descargas y el mismo NEO puede aparecer en páginas contiguas
+ */
+const uniqueById = (neos: NeoSummary[]): NeoSummary[] => [...new Map(neos.map(neo => [neo.id, neo])).values()]
 
 const MeteoritesPage = () => {
-    const [nasaMeteorites, setNasaMeteorites] = useState<MeteoriteRecord[]>([])
-    const [savedMeteorites, setSavedMeteorites] = useState<MeteoriteRecord[]>([])
+    // Páginas del listado por número, con la fecha en que se descargó cada una (undefined = sin descargar)
+    const [nasaPages, setNasaPages] = useState<({ data: NeoSummary[], fetchedAt: number } | undefined)[]>([])
+    const [savedMeteorites, setSavedMeteorites] = useState<UserMeteorite[]>([])
     const [loading, setLoading] = useState(true)
     const [loadingMore, setLoadingMore] = useState(false)
-    const [activeTab, setActiveTab] = useState<'nasa' | 'saved'>('nasa')
-    const [searchTerm, setSearchTerm] = useState('')
-    const [currentPage, setCurrentPage] = useState(0)
-    const [hasMore, setHasMore] = useState(true)
+    const [activeTab, setActiveTab] = useState<MeteoritesTab>('nasa')
+    const [loadFailed, setLoadFailed] = useState(false)
+    const [filters, setFilters] = useState<MeteoriteFilters>(readFiltersFromUrl)
     const [totalPages, setTotalPages] = useState(1)
+    // Resultados de la búsqueda en la copia del servidor, con la query que los produjo
+    const [catalogSearch, setCatalogSearch] = useState<(NeoBrowsePage & { query: string }) | null>(null)
+    const [catalogSearchFailed, setCatalogSearchFailed] = useState(false)
+    const [orbitTarget, setOrbitTarget] = useState<NeoSummary | null>(null)
+    const [threatSort, setThreatSort] = useState<ThreatSort>('palermo')
+    // Posición de desplazamiento de cada pestaña para recuperarla al volver
+    const scrollPositions = useRef<Partial<Record<MeteoritesTab, number>>>({})
+    // Alto de fila medido en cada pestaña: la rejilla vuelve a montarse con él y la posición
+    // restaurada no queda recortada por un alto total calculado con la estimación
+    const rowHeights = useRef<Partial<Record<MeteoritesTab, number>>>({})
+
+    const nasaMeteorites = uniqueById(nasaPages.flatMap(page => page?.data ?? []))
+    const loadedPages = nasaPages.filter(Boolean).length
+    const filtering = hasActiveFilters(filters)
+    // El material solo se aplica a los meteoritos de usuarios
+    const catalogQuery = serializeFilters({ ...filters, material: '' })
+    // Mientras llega la búsqueda nueva se siguen mostrando los resultados anteriores
+    const searchResults = catalogQuery && !catalogSearchFailed ? catalogSearch : null
+    const searchPending = catalogQuery !== '' && !catalogSearchFailed && catalogSearch?.query !== catalogQuery
+    const hasMore = searchResults ? searchResults.pagination.has_next : loadedPages < totalPages
+    // Fecha de la página más antigua si alguna viene de una copia caducada (p. ej. sin conexión)
+    const staleSince = nasaPages.reduce<number | null>(
+        (oldest, page) => page && isStale('pages', page.fetchedAt) && (oldest === null || page.fetchedAt < oldest) ? page.fetchedAt : oldest,
+        null
+    )
 
     useEffect(() => {
-        fetchNasaMeteorites(0, true)
+        // Los filtros se aplican a todo el catálogo guardado, no solo a las páginas de esta visita
+        getStoredCatalogPages().then(stored => {
+            setNasaPages(prev => {
+                const pages = [...prev]
+                for (const { page, data, fetchedAt } of stored) pages[page] ??= { data: data.data, fetchedAt }
+                return pages
+            })
+            const known = Math.max(0, ...stored.map(({ data }) => data.pagination.total_pages || 0))
+            setTotalPages(prev => Math.max(prev, known))
+        })
+        fetchNasaMeteorites([0], true)
         fetchSavedMeteorites()
     }, [])
 
-    const fetchNasaMeteorites = async (page: number = 0, reset: boolean = false) => {
-        try {
-            if (reset) {
-                setLoading(true)
-            } else {
-                setLoadingMore(true)
-            }
+    // Los filtros viven en la URL para poder recargar o compartir la búsqueda
+    useEffect(() => {
+        const query = serializeFilters(filters)
+        const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+        // Se conserva el estado de Inertia del historial
+        window.history.replaceState(window.history.state, '', url)
+    }, [filters])
 
-            const response = await fetch(`/getMeteoritesNames?page=${page}`)
-            if (!response.ok) throw new Error('Failed to fetch NASA meteorites')
+    // Búsqueda en el servidor al cambiar los filtros o el orden de NASA
+    useEffect(() => {
+        setCatalogSearchFailed(false)
+        if (!catalogQuery) return
 
-            const result = await response.json()
-            const data = result.data || []
-            const pagination = result.pagination || {}
+        const controller = new AbortController()
+        const timer = window.setTimeout(async () => {
+            const result = await searchNeoCatalog(catalogQuery, 0, { signal: controller.signal })
+            if (result.ok) {
+                setCatalogSearch({ ...result.data, query: catalogQuery })
+            } else if (result.error.kind !== 'aborted') {
+                console.error('Error searching the NASA catalog:', result.error)
+                toast.error(`Catalog search unavailable, filtering the downloaded pages: ${describeApiError(result.error)}`)
+                setCatalogSearchFailed(true)
+            }
+        }, SEARCH_DEBOUNCE_MS)
 
-            const mappedData: MeteoriteRecord[] = data.map((item: any) => ({
-                id: item.id,
-                name: item.name,
-                mass: item.mass,
-                recclass: item.recclass,
-                year: item.year,
-            }))
+        return () => {
+            window.clearTimeout(timer)
+            controller.abort()
+        }
+    }, [catalogQuery])
 
-            if (reset) {
-                setNasaMeteorites(mappedData)
-            } else {
-                setNasaMeteorites(prev => [...prev, ...mappedData])
+    const fetchNasaMeteorites = async (pages: number[], initial: boolean = false) => {
+        if (initial) {
+            setLoading(true)
+        } else {
+            setLoadingMore(true)
+        }
+
+        // Las páginas van una a una para no agotar el límite de NASA si alguna falla
+        setLoadFailed(false)
+        let loaded = 0
+        let fromCache = false
+        for (const page of pages) {
+            // El catálogo de IndexedDB evita repetir la petición en cada visita y sirve sin conexión
+            const result = await getCatalogPage(page, {
+                onRefresh: (fresh, fetchedAt) => setNasaPages(prev => Object.assign([...prev], { [page]: { data: fresh.data, fetchedAt } })),
+            })
+            if (!result.ok) {
+                console.error('Error fetching NASA meteorites:', result.error)
+                toast.error(`Error loading NASA meteorites: ${describeApiError(result.error)}`)
+                setLoadFailed(true)
+                break
             }
 
-            setCurrentPage(pagination.current_page || page)
+            const { data, pagination } = result.data
+            setNasaPages(prev => Object.assign([...prev], { [page]: { data, fetchedAt: result.fetchedAt } }))
             setTotalPages(pagination.total_pages || 1)
-            setHasMore(pagination.has_next || false)
+            loaded += data.length
+            fromCache ||= result.source === 'cache'
+            if (!pagination.has_next) break
+        }
 
-            if (reset) {
-                toast.success(`${mappedData.length} NASA meteorites loaded`)
+        if (loaded > 0) {
+            if (fromCache) {
+                toast.success(`${loaded} NASA meteorites loaded from the offline catalog`)
+            } else if (initial) {
+                toast.success(`${loaded} NASA meteorites loaded`)
             } else {
-                toast.success(`${mappedData.length} more meteorites loaded`)
+                toast.success(`${loaded} more meteorites loaded`)
             }
-        } catch (error) {
-            console.error('Error fetching NASA meteorites:', error)
-            toast.error('Error loading NASA meteorites')
-        } finally {
-            setLoading(false)
-            setLoadingMore(false)
         }
+
+        setLoading(false)
+        setLoadingMore(false)
+    }
+
+    // Siguiente página de resultados de la búsqueda del servidor
+    const fetchMoreSearchResults = async (current: NeoBrowsePage & { query: string }) => {
+        setLoadingMore(true)
+        setLoadFailed(false)
+        const result = await searchNeoCatalog(current.query, current.pagination.current_page + 1)
+        if (result.ok) {
+            // Se descarta si los filtros cambiaron durante la petición
+            setCatalogSearch(prev => prev?.query === current.query
+                ? { ...result.data, query: current.query, data: uniqueById([...prev.data, ...result.data.data]) }
+                : prev)
+        } else {
+            console.error('Error searching the NASA catalog:', result.error)
+            toast.error(`Error loading more results: ${describeApiError(result.error)}`)
+            setLoadFailed(true)
+        }
+        setLoadingMore(false)
     }
 
     const loadMoreMeteorites = () => {
-        if (!loadingMore && hasMore && activeTab === 'nasa') {
-            fetchNasaMeteorites(currentPage + 1, false)
+        if (loadingMore || activeTab === 'saved' || searchPending) return
+        if (searchResults) {
+            fetchMoreSearchResults(searchResults)
+            return
         }
+        // Las páginas guardadas en visitas anteriores pueden dejar huecos: se piden primero las que faltan.
+        // Con filtros activos se recorren varias páginas para encontrar más coincidencias
+        const count = filtering ? FILTERED_SCAN_PAGES : 1
+        const missing = Array.from({ length: totalPages }, (_, page) => page).filter(page => !nasaPages[page]).slice(0, count)
+        if (missing.length > 0) fetchNasaMeteorites(missing)
     }
 
+    // Carga automática al acercarse al final de la rejilla
+    // Con filtros solo en la búsqueda del servidor: sin ella cada tanda recorre varias páginas y agotaría
+    // el límite de NASA; tampoco tras un error
+    const loadMoreOnScroll = () => {
+        if (!loading && (searchResults || !filtering) && !loadFailed && hasMore) loadMoreMeteorites()
+    }
+
+    const switchTab = (tab: MeteoritesTab) => {
+        scrollPositions.current[activeTab] = window.scrollY
+        setActiveTab(tab)
+    }
+
+    // Se restaura antes de pintar para que la rejilla virtual monte directamente las filas correctas
+    useLayoutEffect(() => {
+        window.scrollTo(0, scrollPositions.current[activeTab] ?? 0)
+    }, [activeTab])
+
     const fetchSavedMeteorites = async () => {
-        try {
-            const response = await fetch('/getAllUserMeteorites')
-            if (!response.ok) throw new Error('Failed to fetch saved meteorites')
-
-            const data = await response.json()
-            const mappedData: MeteoriteRecord[] = data.map((item: any) => ({
-                id: item.id,
-                name: item.name,
-                radiusMeteroid: item.radius,
-                velocity: item.velocity,
-                angle: item.entry_angle,
-                material: item.material,
-                lat: item.lat,
-                lng: item.lng,
-            }))
-
-            setSavedMeteorites(mappedData)
-            toast.success(`${mappedData.length} saved meteorites loaded`)
-        } catch (error) {
-            console.error('Error fetching saved meteorites:', error)
-            toast.error('Error loading saved meteorites')
-        } finally {
-            setLoading(false)
+        const result = await getCatalogUserMeteorites({ onRefresh: setSavedMeteorites })
+        if (result.ok) {
+            setSavedMeteorites(result.data)
+            toast.success(`${result.data.length} saved meteorites loaded`)
+        } else {
+            console.error('Error fetching saved meteorites:', result.error)
+            toast.error(`Error loading saved meteorites: ${describeApiError(result.error)}`)
         }
+        setLoading(false)
     }
 
-    const filteredMeteorites = (activeTab === 'nasa' ? nasaMeteorites : savedMeteorites).filter(
-        (meteorite) => meteorite.name.toLowerCase().includes(searchTerm.toLowerCase())
-    )
+    // La búsqueda del servidor ya llega filtrada y ordenada
+    const filteredNasa = searchResults ? searchResults.data : filterNeos(nasaMeteorites, filters)
+    const filteredSaved = filterUserMeteorites(savedMeteorites, filters)
+    const filteredMeteorites: (NeoSummary | UserMeteorite)[] = activeTab === 'nasa' ? filteredNasa : filteredSaved
+
+    // Vista de amenaza: puntuación calculada en el cliente a partir de las aproximaciones de NASA
+    const rankedThreats = rankThreats(filteredNasa.map(record => assessThreat(record)), threatSort)
+
+    // Número de la pestaña: coincidencias sobre el total cuando hay filtros
+    // (en NASA, sobre lo descargado mientras el servidor o el navegador no tengan todo el catálogo)
+    const countLabel = (matching: number, total: number, partial = false) =>
+        filtering ? `${matching} of ${total}${partial ? ' loaded' : ''}` : String(total)
+    const nasaCount = searchResults
+        ? countLabel(searchResults.pagination.total_elements, searchResults.catalog?.total_elements ?? 0, !searchResults.catalog?.complete)
+        : countLabel(filteredNasa.length, nasaMeteorites.length, hasMore)
+    // Copia del servidor todavía en su primera descarga
+    const catalogBuilding = searchResults?.catalog && !searchResults.catalog.complete ? searchResults.catalog : null
+
+    // Abre el simulador con el objeto "como si impactara" mediante un enlace de escenario
+    const simulateThreat = (assessment: ThreatAssessment) => {
+        window.location.assign(buildScenarioLink({
+            meteroid: threatToMeteroid(assessment),
+            location: DEFAULT_LOCATION,
+            nasaId: assessment.record.id,
+            savedId: null,
+            entryOptions: {},
+        }))
+    }
 
     return (
         <div className="min-h-screen bg-black text-white">
@@ -145,36 +278,76 @@ const MeteoritesPage = () => {
             {/* Search and Tabs */}
             <div className="bg-gray-900/50 border-b border-gray-800">
                 <div className="container mx-auto px-6 py-6">
+                    {/* Aviso de copia sin conexión */}
+                    {staleSince !== null && activeTab !== 'saved' && (
+                        <div className="mb-4 px-4 py-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 text-yellow-300 text-sm">
+                            Showing the offline catalog saved on {new Date(staleSince).toLocaleString()}. It will refresh when NASA is reachable.
+                        </div>
+                    )}
+
                     {/* Search Bar */}
                     <div className="mb-6">
                         <input
                             type="text"
                             placeholder="Search meteorites by name..."
-                            value={searchTerm}
-                            onChange={(e) => setSearchTerm(e.target.value)}
+                            value={filters.search}
+                            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
                             className="w-full max-w-2xl px-6 py-4 bg-black/50 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-white transition"
                         />
                     </div>
 
+                    {/* Filters */}
+                    <MeteoriteFilterPanel
+                        filters={filters}
+                        onChange={setFilters}
+                        kind={activeTab}
+                        orbitClasses={orbitClassesOf(nasaMeteorites)}
+                    />
+
+                    {/* Aviso del alcance de la búsqueda mientras el servidor descarga el catálogo */}
+                    {catalogBuilding && activeTab !== 'saved' && (
+                        <div className="mb-4 px-4 py-3 rounded-lg border border-blue-500/50 bg-blue-500/10 text-blue-200 text-sm">
+                            The server is still downloading NASA's catalog ({catalogBuilding.synced_pages} of {catalogBuilding.total_pages ?? '?'} pages),
+                            so results and counts cover only those pages for now.
+                        </div>
+                    )}
+
+                    {/* Aviso del alcance de los filtros sin la búsqueda del servidor: solo cubren las páginas descargadas */}
+                    {catalogSearchFailed && filtering && hasMore && activeTab !== 'saved' && !loading && (
+                        <div className="mb-4 px-4 py-3 rounded-lg border border-blue-500/50 bg-blue-500/10 text-blue-200 text-sm">
+                            The catalog search is unavailable, so filters only search the {loadedPages} of {totalPages} NASA catalog pages downloaded so far,
+                            and the counts refer to those pages. Use "Search {FILTERED_SCAN_PAGES} More Pages" below to extend the search.
+                        </div>
+                    )}
+
                     {/* Tabs */}
                     <div className="flex gap-4">
                         <button
-                            onClick={() => setActiveTab('nasa')}
+                            onClick={() => switchTab('nasa')}
                             className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'nasa'
                                     ? 'bg-white text-black'
                                     : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
                                 }`}
                         >
-                            NASA Meteorites ({nasaMeteorites.length})
+                            NASA Meteorites ({nasaCount})
                         </button>
                         <button
-                            onClick={() => setActiveTab('saved')}
+                            onClick={() => switchTab('saved')}
                             className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'saved'
                                     ? 'bg-white text-black'
                                     : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
                                 }`}
                         >
-                            User Created ({savedMeteorites.length})
+                            User Created ({countLabel(filteredSaved.length, savedMeteorites.length)})
+                        </button>
+                        <button
+                            onClick={() => switchTab('threat')}
+                            className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'threat'
+                                    ? 'bg-white text-black'
+                                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                                }`}
+                        >
+                            Real Threat
                         </button>
                     </div>
                 </div>
@@ -182,28 +355,48 @@ const MeteoritesPage = () => {
 
             {/* Meteorites Grid */}
             <div className="container mx-auto px-6 py-12">
-                {loading ? (
+                {loading || (searchPending && !searchResults) ? (
                     <div className="flex items-center justify-center h-64">
                         <div className="text-center">
                             <div className="w-16 h-16 border-4 border-white border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
                             <p className="text-gray-400">Loading meteorites...</p>
                         </div>
                     </div>
+                ) : activeTab === 'threat' ? (
+                    <ThreatTable
+                        assessments={rankedThreats}
+                        sort={threatSort}
+                        onSortChange={setThreatSort}
+                        hazardousOnly={filters.hazardous === 'yes'}
+                        onHazardousOnlyChange={(value) => setFilters({ ...filters, hazardous: value ? 'yes' : 'any' })}
+                        onSelect={simulateThreat}
+                    />
                 ) : filteredMeteorites.length === 0 ? (
                     <div className="text-center py-20">
                         <div className="text-6xl mb-4">🔍</div>
                         <h3 className="text-2xl font-bold mb-2">No meteorites found</h3>
-                        <p className="text-gray-400">Try adjusting your search term</p>
+                        <p className="text-gray-400">
+                            {activeTab === 'nasa' && catalogBuilding
+                                ? 'Try adjusting your filters or search again once the server has downloaded more of the NASA catalog'
+                                : activeTab === 'nasa' && hasMore
+                                    ? 'Try adjusting your filters or search more pages of the NASA catalog'
+                                    : 'Try adjusting your search or filters'}
+                        </p>
                     </div>
                 ) : (
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                        {filteredMeteorites.map((meteorite, index) => (
+                    // Una rejilla por pestaña: cada una mide el alto de sus tarjetas
+                    <VirtualGrid
+                        key={activeTab}
+                        items={filteredMeteorites}
+                        getKey={(meteorite) => `${activeTab}-${meteorite.id}`}
+                        estimatedRowHeight={rowHeights.current[activeTab] ?? (activeTab === 'nasa' ? 330 : 300)}
+                        onRowHeightChange={(height) => { rowHeights.current[activeTab] = height }}
+                        onEndReached={activeTab === 'nasa' ? loadMoreOnScroll : undefined}
+                        renderItem={(meteorite) => (
                             <motion.div
-                                key={meteorite.id || index}
                                 initial={{ opacity: 0, y: 20 }}
                                 animate={{ opacity: 1, y: 0 }}
-                                transition={{ delay: index * 0.05 }}
-                                className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl overflow-hidden border border-gray-700 hover:border-gray-500 transition group cursor-pointer"
+                                className="h-full bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl overflow-hidden border border-gray-700 hover:border-gray-500 transition group cursor-pointer"
                             >
                                 <div className="p-6">
                                     {/* Header */}
@@ -224,26 +417,22 @@ const MeteoritesPage = () => {
 
                                     {/* Details */}
                                     <div className="space-y-2 text-sm">
-                                        {activeTab === 'nasa' ? (
+                                        {isNeo(meteorite) ? (
                                             <>
-                                                {meteorite.mass && (
-                                                    <div className="flex items-center gap-2 text-gray-400">
-                                                        <span className="text-gray-500">⚖️ Mass:</span>
-                                                        <span>{parseFloat(meteorite.mass).toLocaleString()} g</span>
-                                                    </div>
-                                                )}
-                                                {meteorite.recclass && (
-                                                    <div className="flex items-center gap-2 text-gray-400">
-                                                        <span className="text-gray-500">🔬 Class:</span>
-                                                        <span>{meteorite.recclass}</span>
-                                                    </div>
-                                                )}
-                                                {meteorite.year && (
+                                                {meteorite.diameter_min_m !== null && meteorite.diameter_max_m !== null && (
                                                     <div className="flex items-center gap-2 text-gray-400">
-                                                        <span className="text-gray-500">📅 Year:</span>
-                                                        <span>{new Date(meteorite.year).getFullYear()}</span>
+                                                        <span className="text-gray-500">📏 Diameter:</span>
+                                                        <span>{meteorite.diameter_min_m.toFixed(0)}–{meteorite.diameter_max_m.toFixed(0)} m</span>
                                                     </div>
                                                 )}
+                                                <div className="flex items-center gap-2 text-gray-400">
+                                                    <span className="text-gray-500">⚠️ Hazardous:</span>
+                                                    <span>{meteorite.is_potentially_hazardous_asteroid ? 'Yes' : 'No'}</span>
+                                                </div>
+                                                <div className="flex items-center gap-2 text-gray-400">
+                                                    <span className="text-gray-500">🌍 Earth approaches:</span>
+                                                    <span>{meteorite.close_approaches.length}</span>
+                                                </div>
                                             </>
                                         ) : (
                                             <>
@@ -275,6 +464,25 @@ const MeteoritesPage = () => {
                                         )}
                                     </div>
 
+                                    {/* Órbita a partir de los elementos de NASA */}
+                                    {isNeo(meteorite) && (
+                                        <button
+                                            onClick={() => setOrbitTarget(meteorite)}
+                                            className="mt-4 w-full px-4 py-2 bg-white/10 hover:bg-white hover:text-black rounded-lg font-semibold transition text-sm"
+                                        >
+                                            View Orbit
+                                        </button>
+                                    )}
+
+                                    {/* Ficha completa del NEO */}
+                                    {isNeo(meteorite) && (
+                                        <Link href={`/meteorites/${meteorite.id}`}>
+                                            <button className="mt-4 w-full px-4 py-2 bg-white/10 hover:bg-white hover:text-black rounded-lg font-semibold transition text-sm">
+                                                View Details
+                                            </button>
+                                        </Link>
+                                    )}
+
                                     {/* Action Button */}
                                     <Link href="/sim">
                                         <button className="mt-4 w-full px-4 py-2 bg-white/10 hover:bg-white hover:text-black rounded-lg font-semibold transition text-sm">
@@ -283,15 +491,19 @@ const MeteoritesPage = () => {
                                     </Link>
                                 </div>
                             </motion.div>
-                        ))}
-                    </div>
+                        )}
+                    />
                 )}
 
                 {/* Load More Button */}
-                {activeTab === 'nasa' && !loading && (
+                {activeTab !== 'saved' && !loading && (
                     <div className="mt-12 flex flex-col items-center gap-4">
                         <div className="text-gray-400 text-sm">
-                            Page {currentPage + 1} of {totalPages} • Showing {nasaMeteorites.length} meteorites
+                            {searchResults
+                                ? `Showing ${filteredNasa.length} of ${searchResults.pagination.total_elements} ${filtering ? 'matching ' : ''}meteorites`
+                                : <>{loadedPages} of {totalPages} pages in the catalog • {filtering
+                                    ? `${filteredNasa.length} of ${nasaMeteorites.length} loaded meteorites match the filters`
+                                    : `Showing ${nasaMeteorites.length} meteorites`}</>}
                         </div>
                         
                         {hasMore ? (
@@ -310,7 +522,11 @@ const MeteoritesPage = () => {
                                     </>
                                 ) : (
                                     <>
-                                        <span>Load More Meteorites</span>
+                                        <span>
+                                            {loadFailed
+                                                ? 'Retry Loading'
+                                                : filtering && !searchResults ? `Search ${FILTERED_SCAN_PAGES} More Pages` : 'Load More Meteorites'}
+                                        </span>
                                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                                         </svg>
@@ -319,13 +535,19 @@ const MeteoritesPage = () => {
                             </button>
                         ) : (
                             <div className="inline-block px-6 py-3 bg-gray-800 border border-gray-700 rounded-lg text-gray-400">
-                                🎉 You've reached the end! All {nasaMeteorites.length} meteorites loaded.
+                                🎉 You've reached the end! {searchResults
+                                    ? `All ${searchResults.pagination.total_elements} ${filtering ? 'matching ' : ''}meteorites shown.`
+                                    : `All ${nasaMeteorites.length} meteorites loaded.`}
                             </div>
                         )}
                     </div>
                 )}
             </div>
 
+            {orbitTarget && (
+                <OrbitViewer neoId={orbitTarget.id} name={orbitTarget.name} onClose={() => setOrbitTarget(null)} />
+            )}
+
             <Toaster />
         </div>
     )
@@ -12,6 +12,9 @@ import { MeteroidProvider, useMeteroidContext } from '../../context/MeteroidCont
 import { Toaster } from '@/components/sonner'  // Sistema de notificaciones toast
 import FloatingChat from '../../components/FloatingChat'  // Chat flotante de NASAbot
 import ChatToggleButton from '../../components/ChatToggleButton'  // Botón para abrir/cerrar chat
+import EntryAnimation from '../../components/EntryAnimation'  // Animación 3D de la entrada
+import ImpactGlobe from '../../components/ImpactGlobe'  // Globo 3D con las zonas de daño
+import { hashSeed } from '../../lib/asteroidGeometry'  // Semilla de la forma del asteroide
 import { Button } from "@/components/ui/button"
 import {
   Card,
@@ -35,14 +38,58 @@ import {
  * Esto es necesario porque el Canvas de React Three Fiber crea su propio contexto
  */
 const PlanetCanvasWrapper = () => {
-    const { meteroidData } = useMeteroidContext()
+    const { meteroidData, selectedMeteoriteId, savedMeteoriteId } = useMeteroidContext()
+
+    // Semilla de la forma: estable por meteorito de NASA o guardado; los que no se han guardado comparten forma
+    const seed = hashSeed(selectedMeteoriteId ?? (savedMeteoriteId ? `saved-${savedMeteoriteId}` : 'custom'))
+
+    // Vista del panel: planeta personalizable o animación de la entrada
+    const [view, setView] = useState<'planet' | 'entry'>('planet')
+
+    return (
+        <div className="relative h-full w-full">
+            <div className="absolute top-4 left-4 z-10 flex gap-2">
+                <Button type="button" size="sm" variant={view === 'planet' ? 'default' : 'outline'} onClick={() => setView('planet')}>
+                    Meteoroid
+                </Button>
+                <Button type="button" size="sm" variant={view === 'entry' ? 'default' : 'outline'} onClick={() => setView('entry')}>
+                    Entry animation
+                </Button>
+            </div>
+
+            {view === 'planet' ? (
+                <Canvas>
+                    <Suspense fallback={null}>
+                        <PersonalizablePlanet meteroidData={meteroidData} seed={seed} />
+                    </Suspense>
+                </Canvas>
+            ) : (
+                <EntryAnimation seed={seed} />
+            )}
+        </div>
+    )
+}
+
+/**
+ * Panel del análisis: mapa 2D de Leaflet o globo 3D, ambos leen el mismo escenario del contexto
+ */
+const ImpactViewWrapper = () => {
+    const [view, setView] = useState<'map' | 'globe'>('map')
 
     return (
-        <Canvas>
-            <Suspense fallback={null}>
-                <PersonalizablePlanet meteroidData={meteroidData} />
-            </Suspense>
-        </Canvas>
+        <div className="relative h-full w-full">
+            {/* Abajo a la izquierda para no tapar los controles de capas del mapa */}
+            <div className="absolute bottom-6 left-4 z-[1000] flex gap-2">
+                <Button type="button" size="sm" variant={view === 'map' ? 'default' : 'outline'} onClick={() => setView('map')}>
+                    2D map
+                </Button>
+                <Button type="button" size="sm" variant={view === 'globe' ? 'default' : 'outline'} onClick={() => setView('globe')}>
+                    3D globe
+                </Button>
+            </div>
+
+            {view === 'map' ? <MapPage /> : <ImpactGlobe />}
+        </div>
     )
 }
 
@@ -188,7 +235,7 @@ const SimulationPageContent = () => {
                             height: '100%',
                             width: '100%'
                         }}>
-                            <MapPage />
+                            <ImpactViewWrapper />
                         </div>
                     </ResizablePanel>
                 </ResizablePanelGroup>
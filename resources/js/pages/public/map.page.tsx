@@ -8,12 +8,19 @@ import {
     Circle,
     LayersControl,
     LayerGroup,
+    Polyline,
     useMap
 } from 'react-leaflet'
 import "leaflet/dist/leaflet.css"
 import L from 'leaflet'
 
 import { useMeteroidContext } from "../../context/MeteroidContext"
+import { DAMAGE_ZONE_INFO } from '../../lib/damageEffects'
+import type { DamageEffects } from '../../lib/damageEffects'
+import type { ImpactType } from '../../lib/airburst'
+import { deflectedGroundTrack } from '../../lib/groundTrack'
+import type { DeflectionEffect, GroundTrack } from '../../lib/groundTrack'
+import type { Percentiles } from '../../lib/monteCarlo'
 
 // Fix para los íconos de Leaflet en producción
 // Esto resuelve el problema de que los markers no se muestren cuando se hace build
@@ -98,7 +105,8 @@ function DraggableMarker() {
 }
 
 // Componente para la animación de impacto
-function ImpactAnimation({ center, isActive }: { center: [number, number], isActive: boolean }) {
+// mode 'airburst': destello en el cielo y onda expansiva sin escombros (el cuerpo no llega al suelo)
+function ImpactAnimation({ center, isActive, mode = 'ground' }: { center: [number, number], isActive: boolean, mode?: ImpactType }) {
     const map = useMap()
     const [showFlash, setShowFlash] = useState(false)
     const [shockwaveRadius, setShockwaveRadius] = useState(0)
@@ -149,8 +157,8 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
             easeLinearity: 0.25
         })
 
-        // 3. Generar partículas
-        const particleCount = 40
+        // 3. Generar partículas (solo hay escombros si el cuerpo golpea el suelo)
+        const particleCount = mode === 'ground' ? 40 : 0
         const newParticles = Array.from({ length: particleCount }, (_, i) => ({
             id: i,
             angle: (360 / particleCount) * i,
@@ -180,8 +188,8 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
             }
         }
 
-        // Quitar flash después de 400ms
-        setTimeout(() => setShowFlash(false), 400)
+        // Quitar flash después de 400ms (la explosión aérea ilumina el cielo más tiempo)
+        setTimeout(() => setShowFlash(false), mode === 'airburst' ? 900 : 400)
         
         // Iniciar animación de onda
         setTimeout(() => requestAnimationFrame(animateShockwave), 300)
@@ -191,10 +199,15 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
             setShockwaveRadius(0)
             setParticles([])
         }
-    }, [impactStarted, center, map])
+    }, [impactStarted, center, map, mode])
 
     if (!isActive) return null
 
+    // Colores de la onda: naranja/rojo en superficie, blanco/azul en el aire
+    const shockwaveColors = mode === 'airburst'
+        ? ['#93c5fd', '#60a5fa', '#e0f2fe']
+        : ['#ff6600', '#ff3300', '#ffff00']
+
     return (
         <>
             {/* Countdown */}
@@ -227,10 +240,10 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
                         left: 0,
                         right: 0,
                         bottom: 0,
-                        backgroundColor: 'rgba(255, 200, 100, 0.9)',
+                        backgroundColor: mode === 'airburst' ? 'rgba(240, 248, 255, 0.95)' : 'rgba(255, 200, 100, 0.9)',
                         zIndex: 9999,
                         pointerEvents: 'none',
-                        animation: 'flash 0.4s ease-out'
+                        animation: mode === 'airburst' ? 'flash 0.9s ease-out' : 'flash 0.4s ease-out'
                     }}
                 />
             )}
@@ -242,7 +255,7 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
                         center={center}
                         radius={shockwaveRadius}
                         pathOptions={{
-                            color: '#ff6600',
+                            color: shockwaveColors[0],
                             fillColor: 'transparent',
                             weight: 5,
                             opacity: Math.max(0, 1 - (shockwaveRadius / 6000))
@@ -252,7 +265,7 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
                         center={center}
                         radius={shockwaveRadius * 0.75}
                         pathOptions={{
-                            color: '#ff3300',
+                            color: shockwaveColors[1],
                             fillColor: 'transparent',
                             weight: 4,
                             opacity: Math.max(0, 1 - (shockwaveRadius / 6000))
@@ -262,7 +275,7 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
                         center={center}
                         radius={shockwaveRadius * 0.5}
                         pathOptions={{
-                            color: '#ffff00',
+                            color: shockwaveColors[2],
                             fillColor: 'transparent',
                             weight: 3,
                             opacity: Math.max(0, 1 - (shockwaveRadius / 6000))
@@ -307,30 +320,168 @@ function ImpactAnimation({ center, isActive }: { center: [number, number], isAct
     )
 }
 
+// Formatea un radio en metros o kilómetros según su tamaño
+const formatRadius = (meters: number) =>
+    meters >= 1000 ? `${(meters / 1000).toFixed(meters >= 100000 ? 0 : 1)} km` : `${meters.toFixed(0)} m`
+
+// Estilo de cada contorno de probabilidad: más grueso cuanto más probable es que el daño llegue hasta ahí
+const PROBABILITY_CONTOURS: { percentile: keyof Percentiles, label: string, weight: number, dashArray?: string }[] = [
+    { percentile: 'p5', label: '95% of runs reach', weight: 3 },
+    { percentile: 'p50', label: '50% of runs reach', weight: 2, dashArray: '8 6' },
+    { percentile: 'p95', label: '5% of runs reach', weight: 1, dashArray: '2 6' },
+]
+
+// Duración del desplazamiento del impacto o del desvanecimiento de los anillos tras una desviación
+const DEFLECTION_ANIMATION_MS = 2000
+
+// Ángulo de entrada si el formulario no tiene uno
+const FALLBACK_ENTRY_ANGLE_DEG = 45
+
+// Aviso del resultado de la desviación: impacto desplazado o paso de largo
+function DeflectionNotice({ deflection, track }: { deflection: DeflectionEffect, track: GroundTrack | null }) {
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top: 12,
+                left: '50%',
+                transform: 'translateX(-50%)',
+                zIndex: 1000,
+                maxWidth: 420,
+                backgroundColor: deflection.earth_saved ? 'rgba(20, 83, 45, 0.9)' : 'rgba(127, 29, 29, 0.9)',
+                color: '#f8fafc',
+                padding: '10px 16px',
+                borderRadius: 8,
+                fontSize: 13,
+                textAlign: 'center',
+            }}
+        >
+            {deflection.earth_saved ? (
+                <>
+                    <div style={{ fontWeight: 'bold', fontSize: 16 }}>MISS</div>
+                    <div>
+                        The deflected asteroid passes {deflection.miss_earth_radii.toFixed(1)} Earth radii
+                        ({Math.round(deflection.miss_distance_km).toLocaleString()} km) from Earth
+                    </div>
+                </>
+            ) : (
+                <>
+                    <div style={{ fontWeight: 'bold', fontSize: 16 }}>Partial deflection</div>
+                    <div>
+                        Still an impact: the impact point moved {track ? formatRadius(track.shift_km * 1000) : '—'} back along the entry track
+                        ({deflection.miss_earth_radii.toFixed(2)} Earth radii in the B-plane)
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+// Leyenda con el umbral de cada zona de daño dibujada en el mapa
+function DamageLegend({ effects }: { effects: DamageEffects }) {
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                bottom: 24,
+                right: 12,
+                zIndex: 1000,
+                maxWidth: 300,
+                backgroundColor: 'rgba(15, 23, 42, 0.85)',
+                color: '#e2e8f0',
+                padding: '10px 12px',
+                borderRadius: 8,
+                fontSize: 12,
+            }}
+        >
+            <div style={{ fontWeight: 'bold', marginBottom: 6 }}>Damage zones</div>
+            {effects.zones.map(zone => {
+                const info = DAMAGE_ZONE_INFO[zone.id]
+                return (
+                    <div key={zone.id} style={{ display: 'flex', gap: 8, marginBottom: 6 }}>
+                        <span
+                            style={{
+                                flexShrink: 0,
+                                width: 12,
+                                height: 12,
+                                marginTop: 2,
+                                borderRadius: '50%',
+                                backgroundColor: info.color,
+                            }}
+                        />
+                        <div>
+                            <div style={{ fontWeight: 600 }}>{info.name}: {formatRadius(zone.radius_m)}</div>
+                            <div style={{ color: '#94a3b8' }}>{info.threshold}</div>
+                        </div>
+                    </div>
+                )
+            })}
+            {effects.seismic_magnitude !== null && (
+                <div style={{ color: '#94a3b8' }}>Equivalent seismic magnitude: {effects.seismic_magnitude.toFixed(1)}</div>
+            )}
+        </div>
+    )
+}
 
 const MapPage = () => {
     // Leer datos del contexto
-    const { location, isSimulating, craterRadius } = useMeteroidContext()
+    const { location, isSimulating, craterRadius, damageEffects, oceanImpact, pinnedScenarios, uncertainty, deflection, meteroidData } = useMeteroidContext()
     
     // Estado para controlar la animación (se activa una vez al inicio de isSimulating)
     const [showAnimation, setShowAnimation] = useState(false)
     const [hasAnimated, setHasAnimated] = useState(false)
     
-    // Usar el radio del cráter del contexto o valor por defecto
-    const radiusEnergy = craterRadius || 100000
+    // La explosión aérea se reconoce porque las zonas de daño se calcularon a cierta altitud
+    const impactMode: ImpactType = (damageEffects?.burst_altitude_m ?? 0) > 0 ? 'airburst' : 'ground'
 
-    // Opciones de estilo para los círculos
-    const redOptions = { color: 'red', fillColor: 'red', fillOpacity: 0.2 }
-    const blackOptions = { color: 'black', fillColor: 'black', fillOpacity: 0.3 }
+    // Opciones de estilo para el círculo del cráter
     const purpleOptions = { color: 'purple', fillColor: 'purple', fillOpacity: 0.1 }
 
     const mapRef = useRef(null);
 
     // Impact center: use selected location if available, otherwise fallback to default center
-    const impactCenter: [number, number] = Array.isArray(location) && location.length === 2
+    const aimCenter: [number, number] = Array.isArray(location) && location.length === 2
         ? [location[0], location[1]]
         : [center.lat, center.lng]
 
+    // Desviación parcial: el impacto recorre la traza hasta el nuevo punto
+    // Desviación completa: los anillos se desvanecen en el punto original
+    const track = useMemo(
+        () => deflection && !deflection.earth_saved
+            ? deflectedGroundTrack(location, meteroidData.angle > 0 ? meteroidData.angle : FALLBACK_ENTRY_ANGLE_DEG, deflection.miss_distance_km)
+            : null,
+        [deflection, location, meteroidData.angle]
+    )
+
+    // Avance (0-1) de la animación, ligado a la desviación que se anima (0 mientras no empieza)
+    const [animation, setAnimation] = useState<{ deflection: DeflectionEffect | null, progress: number }>({ deflection: null, progress: 0 })
+    const deflectionProgress = animation.deflection === deflection ? animation.progress : 0
+    useEffect(() => {
+        if (!deflection) return
+        const start = performance.now()
+        let frame = 0
+        const step = (now: number) => {
+            const progress = Math.min((now - start) / DEFLECTION_ANIMATION_MS, 1)
+            setAnimation({ deflection, progress })
+            if (progress < 1) frame = requestAnimationFrame(step)
+        }
+        frame = requestAnimationFrame(step)
+        return () => cancelAnimationFrame(frame)
+    }, [deflection])
+
+    // Encuadra la traza completa para que se vea adónde se mueve el impacto
+    useEffect(() => {
+        const map = mapRef.current as L.Map | null
+        if (map && track && track.shift_km > 0) {
+            map.flyToBounds(L.latLngBounds(track.points), { padding: [80, 80], maxZoom: 10 })
+        }
+    }, [track])
+
+    const impactCenter: [number, number] = track
+        ? track.points[Math.round(deflectionProgress * (track.points.length - 1))]
+        : aimCenter
+    const ringOpacity = deflection?.earth_saved ? 1 - 0.8 * deflectionProgress : 1
+
     // Activar animación cuando isSimulating cambia a true
     useEffect(() => {
         if (isSimulating && !hasAnimated) {
@@ -416,9 +567,11 @@ const MapPage = () => {
                         textAlign: 'center'
                     }}
                 >
-                    ⚠️ METEORITE IMPACT ⚠️
+                    {impactMode === 'airburst' ? '⚠️ AIRBURST ⚠️' : '⚠️ METEORITE IMPACT ⚠️'}
                     <div style={{ fontSize: '18px', marginTop: '10px', color: '#ffff00' }}>
-                        INITIATING SIMULATION
+                        {impactMode === 'airburst' && damageEffects
+                            ? `DETONATION AT ${(damageEffects.burst_altitude_m / 1000).toFixed(1)} KM ALTITUDE`
+                            : 'INITIATING SIMULATION'}
                     </div>
                 </div>
             )}
@@ -435,28 +588,153 @@ const MapPage = () => {
                 />
 
                 {/* Animación de impacto */}
-                <ImpactAnimation center={impactCenter} isActive={showAnimation} />
+                <ImpactAnimation center={impactCenter} isActive={showAnimation} mode={impactMode} />
 
-                {/* Solo mostrar círculos de impacto si isSimulating es true */}
-                {isSimulating && (
+                {/* Círculos de la simulación actual y de los escenarios fijados */}
+                {(isSimulating || pinnedScenarios.length > 0) && (
                     <LayersControl position="topleft">
-                        <LayersControl.Overlay checked name="Zona de impacto calculada">
-                            <Circle
-                                center={impactCenter}
-                                pathOptions={purpleOptions}
-                                radius={radiusEnergy * 2}
-                                bubblingMouseEvents={false}
-                            >
-                                <Popup>Diametro del cráter calculado: {(radiusEnergy * 2).toFixed(0)} metros</Popup>
-                            </Circle>
-                            <DraggableMarker />
-                        </LayersControl.Overlay>
+                        {isSimulating && (
+                            <>
+                                {/* En una explosión aérea no hay cráter que dibujar */}
+                                {craterRadius ? (
+                                    <LayersControl.Overlay checked name="Zona de impacto calculada">
+                                        <Circle
+                                            center={impactCenter}
+                                            pathOptions={{ ...purpleOptions, opacity: ringOpacity, fillOpacity: purpleOptions.fillOpacity * ringOpacity }}
+                                            radius={craterRadius * 2}
+                                            bubblingMouseEvents={false}
+                                        >
+                                            <Popup>Diametro del cráter calculado: {(craterRadius * 2).toFixed(0)} metros</Popup>
+                                        </Circle>
+                                        <DraggableMarker />
+                                    </LayersControl.Overlay>
+                                ) : (
+                                    <DraggableMarker />
+                                )}
+
+                                {/* Una capa por zona de daño, de mayor a menor radio */}
+                                {damageEffects?.zones.map(zone => {
+                                    const info = DAMAGE_ZONE_INFO[zone.id]
+                                    return (
+                                        <LayersControl.Overlay key={zone.id} checked name={info.name}>
+                                            <Circle
+                                                center={impactCenter}
+                                                pathOptions={{ color: info.color, fillColor: info.color, fillOpacity: 0.08 * ringOpacity, opacity: ringOpacity, weight: 2 }}
+                                                radius={zone.radius_m}
+                                                bubblingMouseEvents={false}
+                                            >
+                                                <Popup>{info.name}: {formatRadius(zone.radius_m)}<br />{info.threshold}</Popup>
+                                            </Circle>
+                                        </LayersControl.Overlay>
+                                    )
+                                })}
+
+                                {/* Anillos de altura de ola del tsunami en una sola capa */}
+                                {oceanImpact && oceanImpact.wave_rings.length > 0 && (
+                                    <LayersControl.Overlay checked name="Tsunami wave height">
+                                        <LayerGroup>
+                                            {oceanImpact.wave_rings.map(ring => (
+                                                <Circle
+                                                    key={ring.distance_m}
+                                                    center={impactCenter}
+                                                    pathOptions={{ color: '#0ea5e9', fill: false, weight: 2, dashArray: '6 6', opacity: ringOpacity }}
+                                                    radius={ring.distance_m}
+                                                    bubblingMouseEvents={false}
+                                                >
+                                                    <Popup>
+                                                        Tsunami at {formatRadius(ring.distance_m)}: {ring.height_m.toFixed(ring.height_m < 10 ? 2 : 0)} m wave height (deep water)
+                                                    </Popup>
+                                                </Circle>
+                                            ))}
+                                        </LayerGroup>
+                                    </LayersControl.Overlay>
+                                )}
+
+                                {/* Contornos de probabilidad del modo de incertidumbre: P5 (casi seguro), P50 y P95 (poco probable) */}
+                                {uncertainty && uncertainty.zones.length > 0 && (
+                                    <LayersControl.Overlay checked name="Damage probability contours">
+                                        <LayerGroup>
+                                            {uncertainty.zones.flatMap(zone => {
+                                                const info = DAMAGE_ZONE_INFO[zone.id]
+                                                return PROBABILITY_CONTOURS.filter(contour => zone.radius_m[contour.percentile] > 0).map(contour => (
+                                                    <Circle
+                                                        key={`${zone.id}-${contour.percentile}`}
+                                                        center={impactCenter}
+                                                        pathOptions={{ color: info.color, fill: false, weight: contour.weight, dashArray: contour.dashArray, opacity: ringOpacity }}
+                                                        radius={zone.radius_m[contour.percentile]}
+                                                        bubblingMouseEvents={false}
+                                                    >
+                                                        <Popup>
+                                                            {info.name}: {contour.label} {formatRadius(zone.radius_m[contour.percentile])}
+                                                        </Popup>
+                                                    </Circle>
+                                                ))
+                                            })}
+                                        </LayerGroup>
+                                    </LayersControl.Overlay>
+                                )}
+
+                                {/* Traza del impacto desviado desde el punto original */}
+                                {track && (
+                                    <LayersControl.Overlay checked name="Deflected ground track">
+                                        <LayerGroup>
+                                            <Polyline positions={track.points} pathOptions={{ color: '#facc15', weight: 3, dashArray: '6 6' }} />
+                                            <Circle
+                                                center={aimCenter}
+                                                pathOptions={{ color: '#facc15', fillColor: '#facc15', fillOpacity: 0.4, weight: 1 }}
+                                                radius={Math.max(craterRadius ?? 0, 500)}
+                                                bubblingMouseEvents={false}
+                                            >
+                                                <Popup>Original impact point before the deflection</Popup>
+                                            </Circle>
+                                        </LayerGroup>
+                                    </LayersControl.Overlay>
+                                )}
+                            </>
+                        )}
+
+                        {/* Un escenario fijado por capa, con todos sus anillos en su color */}
+                        {pinnedScenarios.map(scenario => (
+                            <LayersControl.Overlay key={`scenario-${scenario.id}`} checked name={`Scenario: ${scenario.name}`}>
+                                <LayerGroup>
+                                    {scenario.crater_diameter_m !== null && (
+                                        <Circle
+                                            center={scenario.location}
+                                            pathOptions={{ color: scenario.color, fillColor: scenario.color, fillOpacity: 0.3, weight: 2 }}
+                                            radius={scenario.crater_diameter_m / 2}
+                                            bubblingMouseEvents={false}
+                                        >
+                                            <Popup>{scenario.name}: crater {formatRadius(scenario.crater_diameter_m)} wide</Popup>
+                                        </Circle>
+                                    )}
+                                    {scenario.zones.map(zone => (
+                                        <Circle
+                                            key={zone.id}
+                                            center={scenario.location}
+                                            pathOptions={{ color: scenario.color, fill: false, weight: 2, dashArray: '4 6' }}
+                                            radius={zone.radius_m}
+                                            bubblingMouseEvents={false}
+                                        >
+                                            <Popup>{scenario.name} · {DAMAGE_ZONE_INFO[zone.id].name}: {formatRadius(zone.radius_m)}</Popup>
+                                        </Circle>
+                                    ))}
+                                </LayerGroup>
+                            </LayersControl.Overlay>
+                        ))}
                     </LayersControl>
                 )}
 
                 {/* Marcador siempre visible */}
                 {!isSimulating && <DraggableMarker />}
             </MapContainer>
+
+            {/* Resultado de la desviación */}
+            {isSimulating && deflection && <DeflectionNotice deflection={deflection} track={track} />}
+
+            {/* Leyenda de zonas de daño */}
+            {isSimulating && damageEffects && damageEffects.zones.length > 0 && (
+                <DamageLegend effects={damageEffects} />
+            )}
         </div>
     )
 }
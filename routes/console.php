@@ -1,8 +1,19 @@
 <?php
 
+use App\Services\NeoCatalog;
 use Illuminate\Foundation\Inspiring;
 use Illuminate\Support\Facades\Artisan;
+use Illuminate\Support\Facades\Schedule;
 
 Artisan::command('inspire', function () {
     $this->comment(Inspiring::quote());
 })->purpose('Display an inspiring quote');
+
+// Copia del listado de NeoWs en la que filtra la galería: cada tanda sigue donde lo dejó la anterior
+// (100 páginas cada 10 minutos caben en el límite de 1000 peticiones por hora de una clave de NASA)
+Artisan::command('neo:sync-catalog {--pages=100}', function (NeoCatalog $catalog) {
+    $downloaded = $catalog->sync((int) $this->option('pages'));
+    $this->info("{$downloaded} NeoWs pages downloaded");
+})->purpose('Download the next batch of the NASA NEO catalog used by the gallery filters');
+
+Schedule::command('neo:sync-catalog')->everyTenMinutes()->withoutOverlapping();
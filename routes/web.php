@@ -31,6 +31,10 @@
     return Inertia::render('public/MeteoritesPage');
 })->name('meteorites');
 
+Route::get('meteorites/{id}', function ($id) {
+    return Inertia::render('public/MeteoriteDetail', ['neoId' => $id]);
+})->name('meteorites.show');
+
 Route::get('nasabot', function () {
     return Inertia::render('public/NasaBot');
 })->name('nasabot');
@@ -44,6 +48,7 @@
 Route::get('getAllMeteorites', action: [MeteoriteController::class, 'getAllMeteorites']);
 Route::get('getMeteoriteById/{id}', [MeteoriteController::class, 'getMeteoriteById']);
 Route::get('getMeteoritesNames', action: [MeteoriteController::class, 'getMeteoritesNames']);
+Route::get('getNeoFeed', [MeteoriteController::class, 'getNeoFeed']);
 
 // API de Gemini
 Route::get('getEfemeride', [GeminiController::class, 'getText']);
@@ -54,6 +59,7 @@
 // API de Deflection Strategies (Planetary Defense)
 Route::post('simulateDeflection', [\App\Http\Controllers\DeflectionController::class, 'simulateDeflection']);
 Route::post('compareStrategies', [\App\Http\Controllers\DeflectionController::class, 'compareStrategies']);
+Route::post('planCampaign', [\App\Http\Controllers\DeflectionController::class, 'planCampaign']);
 
 // Endpoint de prueba para debugging
 Route::get('testGemini', function() {